@@ -9,6 +9,7 @@ import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import SiteDetail from "./pages/SiteDetail";
 import RouteDetail from "./pages/RouteDetail";
+import ContributorProfile from "./pages/ContributorProfile";
 import RequireAuth from "./components/auth/RequireAuth";
 
 const queryClient = new QueryClient();
@@ -24,7 +25,15 @@ const App = () => (
           <Route path="/auth" element={<Auth />} />
           <Route path="/site/:id" element={<SiteDetail />} />
           <Route path="/route/:id" element={<RouteDetail />} />
-          <Route path="/admin" element={<Admin />} />
+          <Route path="/profile/:userId" element={<ContributorProfile />} />
+          <Route
+            path="/admin"
+            element={
+              <RequireAuth permission="admin.access">
+                <Admin />
+              </RequireAuth>
+            }
+          />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
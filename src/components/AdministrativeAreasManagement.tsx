@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Map as MapIcon, MapPinned, RefreshCw, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ADMINISTRATIVE_LEVEL_LABELS,
+  ADMINISTRATIVE_LEVELS,
+  AdministrativeAreasService,
+  LOMBOK_REGENCIES,
+  RegeocodeSummary,
+} from "@/services/administrative-areas.service";
+import type { AdministrativeLevel } from "@/types/administrative-areas";
+
+const LEVEL_HINTS: Record<AdministrativeLevel, string> = {
+  regency: `Nama mengikuti ${LOMBOK_REGENCIES.join(", ")}.`,
+  district: "Sertakan kabupaten/kota induk pada properti parent_name atau WADMKK.",
+  village: "Sertakan kecamatan induk pada properti parent_name atau WADMKC.",
+};
+
+const AdministrativeAreasManagement: React.FC = () => {
+  const { toast } = useToast();
+  const [counts, setCounts] = useState<Record<AdministrativeLevel, number> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importingLevel, setImportingLevel] = useState<AdministrativeLevel | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [regeocoding, setRegeocoding] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<RegeocodeSummary | null>(null);
+  const fileInputs = useRef<Partial<Record<AdministrativeLevel, HTMLInputElement | null>>>({});
+
+  const loadCounts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCounts(await AdministrativeAreasService.fetchAreaCounts());
+    } catch (error) {
+      console.error('Error loading administrative areas:', error);
+      toast({
+        title: "Gagal memuat batas wilayah",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat membaca data wilayah",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCounts();
+  }, [loadCounts]);
+
+  const handleImport = async (level: AdministrativeLevel, file: File | undefined) => {
+    if (!file) return;
+    const label = ADMINISTRATIVE_LEVEL_LABELS[level];
+    if (counts?.[level] && !confirm(`Ganti ${counts[level]} batas ${label} yang ada dengan isi "${file.name}"?`)) return;
+
+    try {
+      setImportingLevel(level);
+      const collection = JSON.parse(await file.text()) as GeoJSON.FeatureCollection;
+      const result = await AdministrativeAreasService.importGeoJson(level, collection);
+
+      toast({
+        title: `${result.imported} batas ${label} diimpor`,
+        description: [
+          result.skipped > 0 && `${result.skipped} fitur tanpa nama atau poligon dilewati.`,
+          result.unknownRegencies.length > 0 && `Kabupaten tidak dikenal: ${result.unknownRegencies.join(", ")}.`,
+        ].filter(Boolean).join(" ") || undefined,
+      });
+      await loadCounts();
+    } catch (error) {
+      console.error('Error importing administrative areas:', error);
+      toast({
+        title: "Gagal mengimpor",
+        description: error instanceof SyntaxError
+          ? "File bukan GeoJSON yang valid"
+          : error instanceof Error ? error.message : "Terjadi kesalahan saat mengimpor batas wilayah",
+        variant: "destructive",
+      });
+    } finally {
+      setImportingLevel(null);
+      const input = fileInputs.current[level];
+      if (input) input.value = "";
+    }
+  };
+
+  const handleRegeocode = async () => {
+    const message = overwrite
+      ? "Isi ulang provinsi, kabupaten, kecamatan dan desa semua situs dari koordinatnya? Nilai yang diketik manual akan ditimpa."
+      : "Isi provinsi, kabupaten, kecamatan dan desa yang masih kosong dari koordinat situs?";
+    if (!confirm(message)) return;
+
+    try {
+      setRegeocoding(true);
+      setSummary(null);
+      const result = await AdministrativeAreasService.regeocodeSites({
+        overwrite,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setSummary(result);
+      toast({ title: "Geocode ulang selesai", description: `${result.updated} dari ${result.total} situs diperbarui` });
+    } catch (error) {
+      console.error('Error re-geocoding sites:', error);
+      toast({
+        title: "Gagal geocode ulang",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memperbarui lokasi situs",
+        variant: "destructive",
+      });
+    } finally {
+      setRegeocoding(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <MapIcon className="w-5 h-5" />
+              Batas Wilayah
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Batas kabupaten/kota, kecamatan dan desa di Lombok untuk mengisi lokasi administratif situs dari koordinatnya.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadCounts} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Muat Ulang
+          </Button>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {ADMINISTRATIVE_LEVELS.map(level => (
+          <Card key={level} className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">{ADMINISTRATIVE_LEVEL_LABELS[level]}</h3>
+              <Badge variant={counts?.[level] ? "secondary" : "outline"}>
+                {loading ? "..." : `${counts?.[level] ?? 0} wilayah`}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">{LEVEL_HINTS[level]}</p>
+            <input
+              ref={element => { fileInputs.current[level] = element; }}
+              type="file"
+              accept=".geojson,.json,application/geo+json,application/json"
+              className="hidden"
+              onChange={(event) => handleImport(level, event.target.files?.[0])}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => fileInputs.current[level]?.click()}
+              disabled={importingLevel !== null || regeocoding}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importingLevel === level ? "Mengimpor..." : "Impor GeoJSON"}
+            </Button>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="p-4 space-y-4">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <MapPinned className="w-4 h-4" />
+            Geocode Ulang Semua Situs
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Menentukan provinsi, kabupaten, kecamatan dan desa setiap situs dengan uji titik dalam poligon.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="regeocode-overwrite" checked={overwrite} onCheckedChange={setOverwrite} disabled={regeocoding} />
+            <Label htmlFor="regeocode-overwrite" className="text-sm">Timpa nilai yang sudah diisi</Label>
+          </div>
+          <Button onClick={handleRegeocode} disabled={regeocoding || importingLevel !== null || !counts?.regency}>
+            <MapPinned className="w-4 h-4 mr-2" />
+            {regeocoding ? "Memproses..." : "Geocode Ulang"}
+          </Button>
+        </div>
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">{progress.done} / {progress.total} situs</p>
+          </div>
+        )}
+
+        {summary && (
+          <Alert>
+            <AlertTitle>Hasil geocode ulang</AlertTitle>
+            <AlertDescription>
+              {summary.updated} diperbarui, {summary.unchanged} tidak berubah, {summary.unmatched} di luar batas wilayah
+              {summary.failed > 0 && `, ${summary.failed} gagal disimpan`} dari {summary.total} situs.
+            </AlertDescription>
+          </Alert>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AdministrativeAreasManagement;
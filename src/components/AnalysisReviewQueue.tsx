@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Download, Pencil, RefreshCw, ShieldAlert } from "lucide-react";
+import { Constants } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { AiAnalysisService } from "@/services/ai-analysis.service";
+import { HeritageCategoryType } from "@/lib/heritage-taxonomy";
+import { ClassificationResult } from "@/lib/cnn";
+import { ReviewDecision, ReviewQueueItem } from "@/types/ai-analysis";
+import DatasetExportDialog from "@/components/DatasetExportDialog";
+
+interface ReviewDraft {
+  label: string;
+  category: HeritageCategoryType | "";
+  notes: string;
+}
+
+interface StoredResults {
+  top_label?: string;
+  predictions?: ClassificationResult[];
+  heritage_categories?: { category: HeritageCategoryType; score: number }[];
+}
+
+const AnalysisReviewQueue: React.FC = () => {
+  const { toast } = useToast();
+  const { userId, loading: checkingAccess, can } = usePermissions();
+  const [threshold, setThreshold] = useState(String(AiAnalysisService.REVIEW_CONFIDENCE_THRESHOLD));
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+
+  const canReview = can('ai.review');
+
+  const loadQueue = useCallback(async (value: number) => {
+    try {
+      setLoading(true);
+      const queue = await AiAnalysisService.fetchReviewQueue(value);
+      setItems(queue);
+      setDrafts(Object.fromEntries(queue.map(item => [item.id, createDraft(item)])));
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      toast({
+        title: "Gagal memuat antrean",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat analisis",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  // Load with the default threshold once access is known; later threshold changes use the refresh button
+  useEffect(() => {
+    if (canReview) loadQueue(AiAnalysisService.REVIEW_CONFIDENCE_THRESHOLD);
+  }, [canReview, loadQueue]);
+
+  const handleRefresh = () => {
+    const value = Number(threshold);
+    if (Number.isNaN(value) || value <= 0 || value > 1) {
+      toast({ title: "Ambang tidak valid", description: "Masukkan nilai antara 0 dan 1", variant: "destructive" });
+      return;
+    }
+    loadQueue(value);
+  };
+
+  const updateDraft = (id: string, changes: Partial<ReviewDraft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const handleSubmit = async (item: ReviewQueueItem, decision: ReviewDecision) => {
+    if (!userId) return;
+    const draft = drafts[item.id];
+    const original = createDraft(item);
+    const label = decision === 'accepted' ? original.label : draft.label.trim();
+    const category = decision === 'accepted' ? original.category : draft.category;
+
+    if (!label) {
+      toast({ title: "Label kosong", description: "Isi label yang benar sebelum menyimpan koreksi", variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSavingId(item.id);
+      await AiAnalysisService.submitReview({
+        analysisId: item.id,
+        reviewerId: userId,
+        decision,
+        label,
+        category: category || null,
+        notes: draft.notes.trim() || null,
+      });
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast({
+        title: decision === 'accepted' ? "Label diterima" : "Koreksi disimpan",
+        description: `${item.site_media?.title || 'Gambar'}: ${label}`,
+      });
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast({
+        title: "Gagal menyimpan tinjauan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat menyimpan",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (checkingAccess) {
+    return <Card className="p-6 text-center text-muted-foreground">Memeriksa akses...</Card>;
+  }
+
+  if (!canReview) {
+    return (
+      <Alert variant="destructive">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Akses ditolak</AlertTitle>
+        <AlertDescription>
+          Antrean tinjauan AI hanya tersedia untuk peneliti dan ahli budaya.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Tinjauan Analisis AI</h2>
+            <p className="text-sm text-muted-foreground">
+              Hasil klasifikasi dengan tingkat keyakinan rendah. Label yang diterima atau dikoreksi dipakai sebagai data latih.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label htmlFor="review-threshold">Ambang keyakinan</Label>
+              <Input
+                id="review-threshold"
+                type="number"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-28"
+              />
+            </div>
+            <Button variant="outline" onClick={handleRefresh} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Muat Ulang
+            </Button>
+            <Button variant="outline" onClick={() => setExportOpen(true)}>
+              <Download className="w-4 h-4 mr-2" />
+              Ekspor Dataset
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {loading ? (
+        <Card className="p-6 text-center text-muted-foreground">Memuat antrean...</Card>
+      ) : items.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">
+          Tidak ada analisis di bawah ambang {Math.round(Number(threshold) * 100)}% yang menunggu tinjauan.
+        </Card>
+      ) : (
+        items.map(item => {
+          const results = item.results as StoredResults;
+          const draft = drafts[item.id];
+          if (!draft) return null;
+
+          return (
+            <Card key={item.id} className="p-4">
+              <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+                <div className="space-y-2">
+                  {item.site_media?.file_url ? (
+                    <img
+                      src={item.site_media.file_url}
+                      alt={item.site_media.title || "Gambar situs"}
+                      className="w-full h-48 object-cover rounded-md"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="w-full h-48 rounded-md bg-muted flex items-center justify-center text-sm text-muted-foreground">
+                      Gambar tidak tersedia
+                    </div>
+                  )}
+                  <div className="text-sm font-medium">{item.cultural_sites?.name}</div>
+                  <div className="text-xs text-muted-foreground">{item.site_media?.title}</div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">Keyakinan {Math.round((item.confidence_score ?? 0) * 100)}%</Badge>
+                    {item.status === 'requires_review' && <Badge variant="outline">Perlu Ditinjau</Badge>}
+                    <span className="text-xs text-muted-foreground">{item.model_version}</span>
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-medium mb-1">Prediksi Teratas</h4>
+                    <ul className="space-y-1">
+                      {(results.predictions ?? []).map(prediction => (
+                        <li key={prediction.label}>
+                          <button
+                            type="button"
+                            onClick={() => updateDraft(item.id, { label: prediction.label })}
+                            className={`w-full text-sm flex items-center justify-between rounded px-2 py-1 hover:bg-muted ${draft.label === prediction.label ? "bg-muted" : ""}`}
+                          >
+                            <span className="text-muted-foreground text-left">{prediction.label}</span>
+                            <span className="font-medium">{Math.round(prediction.score * 100)}%</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div>
+                      <Label>Label benar</Label>
+                      <Input
+                        value={draft.label}
+                        onChange={(e) => updateDraft(item.id, { label: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label>Kategori warisan</Label>
+                      <Select
+                        value={draft.category}
+                        onValueChange={(value) => updateDraft(item.id, { category: value as HeritageCategoryType })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pilih kategori" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Constants.public.Enums.heritage_category.map(category => (
+                            <SelectItem key={category} value={category}>
+                              {category.replace(/_/g, ' ')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label>Catatan</Label>
+                    <Textarea
+                      rows={2}
+                      value={draft.notes}
+                      onChange={(e) => updateDraft(item.id, { notes: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleSubmit(item, 'accepted')}
+                      disabled={savingId === item.id || !results.top_label}
+                    >
+                      <Check className="w-4 h-4 mr-2" />
+                      Terima Prediksi
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSubmit(item, 'corrected')}
+                      disabled={savingId === item.id}
+                    >
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Simpan Koreksi
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </Card>
+          );
+        })
+      )}
+
+      <DatasetExportDialog open={exportOpen} onOpenChange={setExportOpen} />
+    </div>
+  );
+};
+
+function createDraft(item: ReviewQueueItem): ReviewDraft {
+  const results = item.results as StoredResults;
+  return {
+    label: results.top_label ?? "",
+    category: results.heritage_categories?.[0]?.category ?? "",
+    notes: "",
+  };
+}
+
+export default AnalysisReviewQueue;
@@ -0,0 +1,189 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileClock, History, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
+import { ACTION_LABELS } from "@/lib/audit-format";
+import { AUDITED_TABLES, AuditedTable, AuditLogEntryWithUser, AuditLogService } from "@/services/audit-log.service";
+import type { AuditAction } from "@/types/audit-log";
+
+const TABLE_LABELS: Record<AuditedTable, string> = {
+  cultural_sites: "Situs Budaya",
+  historical_records: "Catatan Sejarah",
+  conservation_projects: "Proyek Konservasi",
+  cultural_practices: "Praktik Budaya",
+  tourism_routes: "Rute Wisata",
+  heritage_categories: "Kategori",
+};
+
+// Column holding the display name of a record, per audited table
+const NAME_FIELDS: Record<AuditedTable, string> = {
+  cultural_sites: "name",
+  historical_records: "event_title",
+  conservation_projects: "project_name",
+  cultural_practices: "name",
+  tourism_routes: "name",
+  heritage_categories: "name",
+};
+
+const ALL = "all";
+
+const recordName = (entry: AuditLogEntryWithUser): string => {
+  const snapshot = entry.new_data ?? entry.old_data;
+  const field = NAME_FIELDS[entry.table_name as AuditedTable];
+  if (snapshot && typeof snapshot === "object" && !Array.isArray(snapshot) && field) {
+    const value = snapshot[field];
+    if (typeof value === "string" && value) return value;
+  }
+  return entry.record_id;
+};
+
+/**
+ * Recent changes across all audited tables; opens the full history of a record
+ */
+const AuditLogViewer: React.FC = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntryWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tableFilter, setTableFilter] = useState<string>(ALL);
+  const [actionFilter, setActionFilter] = useState<string>(ALL);
+  const [selected, setSelected] = useState<{ table: AuditedTable; id: string; name: string } | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await AuditLogService.fetchRecent({
+        tableName: tableFilter === ALL ? undefined : tableFilter as AuditedTable,
+        action: actionFilter === ALL ? undefined : actionFilter as AuditAction,
+      }));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: "Gagal memuat log audit",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat log audit",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tableFilter, actionFilter, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <FileClock className="w-5 h-5" />
+              Log Audit
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Setiap penambahan, perubahan dan penghapusan data tercatat beserta pelaku dan waktunya.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={tableFilter} onValueChange={setTableFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Semua data" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua data</SelectItem>
+                {AUDITED_TABLES.map(table => (
+                  <SelectItem key={table} value={table}>{TABLE_LABELS[table]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder="Semua aksi" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua aksi</SelectItem>
+                {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={loadEntries} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Muat Ulang
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        {loading ? (
+          <p className="text-center text-muted-foreground py-6">Memuat log audit...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">Belum ada perubahan yang tercatat.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Waktu</TableHead>
+                <TableHead>Pengguna</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Aksi</TableHead>
+                <TableHead>Kolom Diubah</TableHead>
+                <TableHead className="text-right">Riwayat</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => {
+                const table = entry.table_name as AuditedTable;
+                const name = recordName(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {new Date(entry.changed_at).toLocaleString('id-ID')}
+                    </TableCell>
+                    <TableCell>{entry.changedByName ?? "Sistem"}</TableCell>
+                    <TableCell>
+                      <div className="font-medium truncate max-w-[240px]">{name}</div>
+                      <div className="text-xs text-muted-foreground">{TABLE_LABELS[table] ?? entry.table_name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action === 'DELETE' ? "destructive" : entry.action === 'INSERT' ? "default" : "secondary"}>
+                        {ACTION_LABELS[entry.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs max-w-[240px] truncate">
+                      {entry.action === 'UPDATE' ? entry.changed_fields.join(', ') : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSelected({ table, id: entry.record_id, name })}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <RecordHistoryDialog
+        tableName={selected?.table ?? 'cultural_sites'}
+        record={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onRestored={loadEntries}
+      />
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,395 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Play, Square, RotateCcw } from "lucide-react";
+import { AnalysisQueue, QueueItem } from "@/lib/analysis-queue";
+import { ClassifierClient, createClassifierClient } from "@/lib/classifier-worker";
+import type { ClassifierProgress } from "@/lib/classifier-config";
+import { AiAnalysisService } from "@/services/ai-analysis.service";
+import { SiteMediaService } from "@/services/site-media.service";
+import { ImageSimilarityService } from "@/services/image-similarity.service";
+import { AiAnalysis } from "@/types/ai-analysis";
+import { SiteMedia } from "@/types/site-media";
+import { DAMAGE_LABELS, DamageFinding, OverallCondition } from "@/lib/condition-assessment";
+
+interface BatchSite {
+  id: string;
+  name: string | null;
+}
+
+interface BatchInput {
+  media: SiteMedia;
+  siteName: string;
+}
+
+// Embedding jobs only report the vector size
+type BatchResult = AiAnalysis | { dimensions: number };
+type BatchItem = QueueItem<BatchInput, BatchResult>;
+type BatchMode = 'classification' | 'condition' | 'embedding';
+
+interface BatchAnalysisDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sites: BatchSite[];
+  userId: string | null;
+  onCompleted?: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: "Antre",
+  running: "Diproses",
+  done: "Selesai",
+  failed: "Gagal",
+  cancelled: "Dibatalkan",
+};
+
+const MODE_ANALYSIS_TYPES: Record<Exclude<BatchMode, 'embedding'>, string> = {
+  classification: AiAnalysisService.ANALYSIS_TYPE,
+  condition: AiAnalysisService.CONDITION_ANALYSIS_TYPE,
+};
+
+const CONDITION_LABELS: Record<OverallCondition, string> = {
+  good: "Baik",
+  fair: "Cukup",
+  poor: "Buruk",
+  critical: "Kritis",
+};
+
+const BatchAnalysisDialog: React.FC<BatchAnalysisDialogProps> = ({ open, onOpenChange, sites, userId, onCompleted }) => {
+  const { toast } = useToast();
+  const [images, setImages] = useState<BatchInput[]>([]);
+  const [analyzedIds, setAnalyzedIds] = useState<Set<string>>(new Set());
+  const [skipAnalyzed, setSkipAnalyzed] = useState(true);
+  const [concurrency, setConcurrency] = useState("2");
+  const [mode, setMode] = useState<BatchMode>('classification');
+  const [loadingImages, setLoadingImages] = useState(false);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [modelProgress, setModelProgress] = useState<ClassifierProgress | null>(null);
+
+  const queueRef = useRef<AnalysisQueue<BatchInput, BatchResult> | null>(null);
+  const clientRef = useRef<ClassifierClient | null>(null);
+
+  const loadImages = useCallback(async () => {
+    setLoadingImages(true);
+    try {
+      const perSite = await Promise.all(
+        sites.map(async site => {
+          const media = await SiteMediaService.fetchSiteImages(site.id);
+          return media
+            .filter(m => m.file_type?.startsWith('image/'))
+            .map(m => ({ media: m, siteName: site.name || 'Situs' }));
+        })
+      );
+      const all = perSite.flat();
+      setImages(all);
+      const imageIds = all.map(i => i.media.id);
+      setAnalyzedIds(
+        mode === 'embedding'
+          ? await ImageSimilarityService.fetchIndexedImageIds(imageIds)
+          : await AiAnalysisService.fetchAnalyzedImageIds(imageIds, MODE_ANALYSIS_TYPES[mode])
+      );
+    } catch (error) {
+      console.error('Error loading gallery images:', error);
+      toast({
+        title: "Gagal memuat galeri",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat gambar",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingImages(false);
+    }
+  }, [sites, mode, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setItems([]);
+      queueRef.current = null;
+      loadImages();
+    }
+  }, [open, loadImages]);
+
+  // Release the worker when the dialog closes
+  useEffect(() => {
+    if (!open) {
+      queueRef.current?.cancel();
+      clientRef.current?.terminate();
+      clientRef.current = null;
+      setRunning(false);
+    }
+  }, [open]);
+
+  const getClient = () => {
+    if (!clientRef.current) {
+      clientRef.current = createClassifierClient();
+      clientRef.current.onProgress(setModelProgress);
+    }
+    return clientRef.current;
+  };
+
+  const handleStart = () => {
+    if (!userId) {
+      toast({
+        title: "Autentikasi diperlukan",
+        description: "Silakan login terlebih dahulu untuk menjalankan analisis",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const pending = images.filter(i => !skipAnalyzed || !analyzedIds.has(i.media.id));
+    if (pending.length === 0) {
+      toast({ title: "Tidak ada gambar", description: "Semua gambar sudah dianalisis" });
+      return;
+    }
+
+    const client = getClient();
+    const queue = new AnalysisQueue<BatchInput, BatchResult>({
+      concurrency: Number(concurrency),
+      worker: async ({ media }) => {
+        if (mode === 'embedding') {
+          const row = await ImageSimilarityService.indexImage({ media, userId, embed: client.embed });
+          return { dimensions: row.dimensions };
+        }
+        return mode === 'condition'
+          ? AiAnalysisService.assessSiteCondition({
+              siteId: media.site_id,
+              image: media.file_url,
+              imageId: media.id,
+              userId,
+              assess: client.assessCondition,
+            })
+          : AiAnalysisService.analyzeImage({
+              siteId: media.site_id,
+              image: media.file_url,
+              imageId: media.id,
+              userId,
+              classify: client.classify,
+            });
+      },
+      onChange: setItems,
+      onIdle: (finished) => {
+        setRunning(false);
+        const done = finished.filter(i => i.status === 'done').length;
+        const failed = finished.filter(i => i.status === 'failed').length;
+        if (done + failed > 0) {
+          toast({
+            title: "Analisis batch berhenti",
+            description: `${done} gambar selesai${failed > 0 ? `, ${failed} gagal` : ''}`,
+            variant: failed > 0 ? "destructive" : "default",
+          });
+          onCompleted?.();
+        }
+      },
+    });
+    queue.add(pending.map(input => ({ id: input.media.id, input })));
+    queueRef.current = queue;
+    setRunning(true);
+    queue.start();
+  };
+
+  const handleCancel = () => {
+    queueRef.current?.cancel();
+  };
+
+  const handleResume = (includeFailed = false) => {
+    if (!queueRef.current) return;
+    setRunning(true);
+    queueRef.current.resume(includeFailed);
+  };
+
+  const finishedCount = items.filter(i => i.status === 'done' || i.status === 'failed').length;
+  const progressValue = items.length ? (finishedCount / items.length) * 100 : 0;
+  const hasCancelled = items.some(i => i.status === 'cancelled');
+  const hasFailed = items.some(i => i.status === 'failed');
+  const pendingCount = images.filter(i => !skipAnalyzed || !analyzedIds.has(i.media.id)).length;
+
+  const renderResult = (item: BatchItem) => {
+    if (item.status === 'failed') {
+      return <span className="text-xs text-destructive">{item.error}</span>;
+    }
+    if (!item.result) return <span className="text-muted-foreground">-</span>;
+    if (!('results' in item.result)) {
+      return <span className="text-sm">Vektor {item.result.dimensions} dimensi</span>;
+    }
+    if (mode === 'condition') {
+      const condition = item.result.results as {
+        overall_condition?: OverallCondition;
+        condition_score?: number;
+        degradation_areas?: DamageFinding[];
+      };
+      return (
+        <span className="text-sm">
+          {condition.overall_condition ? CONDITION_LABELS[condition.overall_condition] : '-'} ({condition.condition_score ?? '-'}/10)
+          {condition.degradation_areas?.length ? (
+            <span className="block text-xs text-muted-foreground">
+              {condition.degradation_areas.map(f => DAMAGE_LABELS[f.type] ?? f.type).join(", ")}
+            </span>
+          ) : null}
+        </span>
+      );
+    }
+    const results = item.result?.results as { top_label?: string } | undefined;
+    if (!results?.top_label) return <span className="text-muted-foreground">-</span>;
+    return (
+      <span className="text-sm">
+        {results.top_label} ({Math.round((item.result.confidence_score ?? 0) * 100)}%)
+        {item.result.status === 'requires_review' && (
+          <Badge variant="outline" className="ml-2">Perlu Ditinjau</Badge>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Analisis Gambar Batch</DialogTitle>
+          <DialogDescription>
+            Analisis seluruh galeri dari {sites.length} situs. Hasil setiap gambar disimpan ke riwayat analisis AI.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label>Jenis analisis</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as BatchMode)} disabled={running}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="classification">Klasifikasi kategori (CNN)</SelectItem>
+                  <SelectItem value="condition">Deteksi kerusakan</SelectItem>
+                  <SelectItem value="embedding">Indeks kemiripan foto</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Gambar paralel</Label>
+              <Select value={concurrency} onValueChange={setConcurrency} disabled={running}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["1", "2", "3", "4"].map(n => (
+                    <SelectItem key={n} value={n}>{n}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <input
+                type="checkbox"
+                checked={skipAnalyzed}
+                onChange={(e) => setSkipAnalyzed(e.target.checked)}
+                disabled={running}
+                className="rounded"
+              />
+              Lewati gambar yang sudah diproses ({analyzedIds.size})
+            </label>
+          </div>
+
+          {loadingImages ? (
+            <p className="text-sm text-muted-foreground">Memuat galeri...</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {images.length} gambar ditemukan, {pendingCount} akan dianalisis.
+            </p>
+          )}
+
+          {modelProgress && modelProgress.stage !== 'ready' && modelProgress.stage !== 'idle' && (
+            <p className="text-xs text-muted-foreground">
+              Model: {modelProgress.stage}
+              {modelProgress.progress !== undefined && ` ${Math.round(modelProgress.progress)}%`}
+              {modelProgress.message && ` - ${modelProgress.message}`}
+            </p>
+          )}
+
+          {items.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Progres</span>
+                <span>{finishedCount}/{items.length}</span>
+              </div>
+              <Progress value={progressValue} />
+              <div className="max-h-80 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Gambar</TableHead>
+                      <TableHead>Situs</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Hasil</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map(item => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <img
+                            src={item.input.media.file_url}
+                            alt={item.input.media.title || "Gambar situs"}
+                            className="w-12 h-12 object-cover rounded"
+                            loading="lazy"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{item.input.siteName}</div>
+                          <div className="text-xs text-muted-foreground">{item.input.media.title}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={item.status === 'failed' ? "destructive" : item.status === 'done' ? "default" : "secondary"}>
+                            {STATUS_LABELS[item.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{renderResult(item)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {running ? (
+            <Button variant="outline" onClick={handleCancel}>
+              <Square className="w-4 h-4 mr-2" />
+              Batalkan
+            </Button>
+          ) : (
+            <>
+              {hasCancelled && (
+                <Button variant="outline" onClick={() => handleResume()}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Lanjutkan
+                </Button>
+              )}
+              {hasFailed && (
+                <Button variant="outline" onClick={() => handleResume(true)}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Ulangi yang Gagal
+                </Button>
+              )}
+              <Button onClick={handleStart} disabled={loadingImages || pendingCount === 0}>
+                <Play className="w-4 h-4 mr-2" />
+                Mulai Analisis
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchAnalysisDialog;
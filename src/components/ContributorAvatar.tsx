@@ -0,0 +1,25 @@
+import React from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+
+interface ContributorAvatarProps {
+  name: string | null | undefined;
+  avatarUrl?: string | null;
+  className?: string;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("");
+
+const ContributorAvatar: React.FC<ContributorAvatarProps> = ({ name, avatarUrl, className }) => (
+  <Avatar className={className}>
+    {avatarUrl && <AvatarImage src={avatarUrl} alt={name ?? ""} className="object-cover" />}
+    <AvatarFallback>{getInitials(name ?? "") || "?"}</AvatarFallback>
+  </Avatar>
+);
+
+export default ContributorAvatar;
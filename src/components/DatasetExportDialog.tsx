@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DatasetExportOptions,
+  DatasetExportService,
+  DatasetSplit,
+  DatasetSummary,
+  DEFAULT_EXPORT_OPTIONS,
+} from "@/services/dataset-export.service";
+
+interface DatasetExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SPLIT_LABELS: Record<DatasetSplit, string> = {
+  train: "Latih (train)",
+  val: "Validasi (val)",
+  test: "Uji (test)",
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const DatasetExportDialog: React.FC<DatasetExportDialogProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<DatasetExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  // Options of the current preview; edits apply through the preview button
+  const [previewOptions, setPreviewOptions] = useState<DatasetExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [summary, setSummary] = useState<DatasetSummary | null>(null);
+  const [building, setBuilding] = useState(false);
+
+  const buildDataset = useCallback(async (current: DatasetExportOptions) => {
+    try {
+      setBuilding(true);
+      setSummary(await DatasetExportService.buildDataset(current));
+    } catch (error) {
+      console.error('Error building dataset:', error);
+      toast({
+        title: "Gagal menyiapkan dataset",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat data",
+        variant: "destructive",
+      });
+    } finally {
+      setBuilding(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) buildDataset(previewOptions);
+  }, [open, previewOptions, buildDataset]);
+
+  const setRatio = (split: DatasetSplit, value: string) => {
+    setOptions(prev => ({ ...prev, ratios: { ...prev.ratios, [split]: Number(value) || 0 } }));
+  };
+
+  const stamp = new Date().toISOString().split('T')[0];
+
+  const handleDownloadCSV = () => {
+    if (!summary) return;
+    downloadFile(
+      DatasetExportService.toImageFolderCSV(summary.entries),
+      `heritage-dataset-manifest-${stamp}.csv`,
+      'text/csv;charset=utf-8;'
+    );
+  };
+
+  const handleDownloadCoco = () => {
+    if (!summary) return;
+    (['train', 'val', 'test'] as DatasetSplit[]).forEach(split => {
+      downloadFile(
+        JSON.stringify(DatasetExportService.toCoco(summary.entries, split), null, 2),
+        `heritage-dataset-${split}-${stamp}.json`,
+        'application/json'
+      );
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Ekspor Dataset Pelatihan</DialogTitle>
+          <DialogDescription>
+            Gambar galeri beserta label terkonfirmasi, dibagi per situs agar semua gambar satu situs berada di split yang sama.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {(['train', 'val', 'test'] as DatasetSplit[]).map(split => (
+              <div key={split}>
+                <Label>{SPLIT_LABELS[split]}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={options.ratios[split]}
+                  onChange={(e) => setRatio(split, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Seed pembagian</Label>
+              <Input
+                value={options.seed}
+                onChange={(e) => setOptions(prev => ({ ...prev, seed: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Keyakinan minimum prediksi model</Label>
+              <Input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={options.minConfidence}
+                disabled={!options.includeModelLabels}
+                onChange={(e) => setOptions(prev => ({ ...prev, minConfidence: Number(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={options.includeModelLabels}
+              onChange={(e) => setOptions(prev => ({ ...prev, includeModelLabels: e.target.checked }))}
+              className="rounded"
+            />
+            Sertakan prediksi model yang belum ditinjau (untuk gambar tanpa label lain)
+          </label>
+
+          {summary && (
+            <div className="space-y-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Split</TableHead>
+                    <TableHead className="text-right">Gambar</TableHead>
+                    <TableHead className="text-right">Situs</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(['train', 'val', 'test'] as DatasetSplit[]).map(split => (
+                    <TableRow key={split}>
+                      <TableCell>{SPLIT_LABELS[split]}</TableCell>
+                      <TableCell className="text-right">{summary.counts[split].images}</TableCell>
+                      <TableCell className="text-right">{summary.counts[split].sites}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground">
+                {summary.labels.length} kelas: {summary.labels.join(", ") || "-"}. {summary.skipped} gambar dilewati karena belum berlabel.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setPreviewOptions({ ...options })} disabled={building}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${building ? "animate-spin" : ""}`} />
+            Pratinjau
+          </Button>
+          <Button variant="outline" onClick={handleDownloadCSV} disabled={building || !summary?.entries.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Manifest CSV
+          </Button>
+          <Button onClick={handleDownloadCoco} disabled={building || !summary?.entries.length}>
+            <Download className="w-4 h-4 mr-2" />
+            COCO JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DatasetExportDialog;
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Copy, Fingerprint, Merge, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DuplicateCluster, MediaDuplicatesService } from "@/services/media-duplicates.service";
+import type { DuplicateKind } from "@/lib/image-fingerprint";
+
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  exact: "Identik",
+  near: "Hampir sama",
+  exif: "EXIF sama",
+};
+
+const DuplicateMediaReport: React.FC = () => {
+  const { toast } = useToast();
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [unfingerprinted, setUnfingerprinted] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [backfill, setBackfill] = useState<{ done: number; total: number } | null>(null);
+  const [busyCluster, setBusyCluster] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [found, missing] = await Promise.all([
+        MediaDuplicatesService.fetchDuplicateClusters(),
+        MediaDuplicatesService.countUnfingerprinted(),
+      ]);
+      setClusters(found);
+      setUnfingerprinted(missing);
+      // Default to keeping the primary image, otherwise the oldest upload
+      setKeepIds(Object.fromEntries(found.map(cluster => [
+        cluster.id,
+        (cluster.items.find(item => item.media.is_primary) ?? cluster.items[0]).media.id,
+      ])));
+    } catch (error) {
+      console.error('Error loading duplicate report:', error);
+      toast({
+        title: "Gagal memuat laporan duplikat",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat media",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleBackfill = async () => {
+    setBackfill({ done: 0, total: unfingerprinted });
+    try {
+      const result = await MediaDuplicatesService.backfillFingerprints((done, total) => setBackfill({ done, total }));
+      toast({
+        title: "Sidik gambar diperbarui",
+        description: `${result.updated} gambar diproses${result.failed > 0 ? `, ${result.failed} gagal` : ''}`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+      await loadReport();
+    } finally {
+      setBackfill(null);
+    }
+  };
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const keepId = keepIds[cluster.id];
+    const removeIds = cluster.items.map(item => item.media.id).filter(id => id !== keepId);
+    if (!confirm(`Simpan satu gambar dan hapus ${removeIds.length} duplikat lainnya?`)) return;
+
+    try {
+      setBusyCluster(cluster.id);
+      await MediaDuplicatesService.mergeDuplicates(keepId, removeIds);
+      toast({ title: "Duplikat digabungkan", description: `${removeIds.length} gambar dihapus` });
+      await loadReport();
+    } catch (error) {
+      console.error('Error merging duplicates:', error);
+      toast({
+        title: "Gagal menggabungkan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat menggabungkan gambar",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyCluster(null);
+    }
+  };
+
+  const handleDelete = async (cluster: DuplicateCluster, mediaId: string) => {
+    const item = cluster.items.find(i => i.media.id === mediaId);
+    if (!item || !confirm('Hapus gambar ini secara permanen?')) return;
+
+    try {
+      setBusyCluster(cluster.id);
+      await MediaDuplicatesService.deleteImages([item.media]);
+      toast({ title: "Gambar dihapus" });
+      await loadReport();
+    } catch (error) {
+      console.error('Error deleting image:', error);
+      toast({
+        title: "Gagal menghapus",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat menghapus gambar",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyCluster(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Copy className="w-5 h-5" />
+              Laporan Duplikat Media
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Kelompok gambar identik atau hampir sama di seluruh situs, berdasarkan hash persepsual dan data EXIF.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {unfingerprinted > 0 && (
+              <Button variant="outline" onClick={handleBackfill} disabled={!!backfill}>
+                <Fingerprint className="w-4 h-4 mr-2" />
+                Hitung Sidik ({unfingerprinted} gambar)
+              </Button>
+            )}
+            <Button variant="outline" onClick={loadReport} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Muat Ulang
+            </Button>
+          </div>
+        </div>
+        {backfill && (
+          <div className="mt-3 space-y-1">
+            <Progress value={backfill.total ? (backfill.done / backfill.total) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">{backfill.done}/{backfill.total} gambar diproses</p>
+          </div>
+        )}
+      </Card>
+
+      {loading ? (
+        <Card className="p-6 text-center text-muted-foreground">Memindai galeri...</Card>
+      ) : clusters.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">Tidak ada duplikat yang ditemukan.</Card>
+      ) : (
+        clusters.map(cluster => (
+          <Card key={cluster.id} className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Badge variant={cluster.kind === 'exact' ? "destructive" : "secondary"}>{KIND_LABELS[cluster.kind]}</Badge>
+                <span className="text-sm text-muted-foreground">{cluster.items.length} gambar</span>
+              </div>
+              <Button size="sm" onClick={() => handleMerge(cluster)} disabled={busyCluster === cluster.id}>
+                <Merge className="w-4 h-4 mr-2" />
+                Gabungkan ke Gambar Terpilih
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {cluster.items.map(({ media, siteName }) => (
+                <div
+                  key={media.id}
+                  className={`border rounded-md p-2 space-y-1 ${keepIds[cluster.id] === media.id ? "ring-2 ring-primary" : ""}`}
+                >
+                  <img
+                    src={media.file_url}
+                    alt={media.title || "Gambar situs"}
+                    className="w-full h-28 object-cover rounded"
+                    loading="lazy"
+                  />
+                  <p className="text-xs font-medium truncate">{siteName}</p>
+                  <p className="text-xs text-muted-foreground truncate">{media.title}</p>
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-1 text-xs">
+                      <input
+                        type="radio"
+                        name={`keep-${cluster.id}`}
+                        checked={keepIds[cluster.id] === media.id}
+                        onChange={() => setKeepIds(prev => ({ ...prev, [cluster.id]: media.id }))}
+                      />
+                      Simpan
+                    </label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(cluster, media.id)}
+                      disabled={busyCluster === cluster.id}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default DuplicateMediaReport;
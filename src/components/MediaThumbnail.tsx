@@ -0,0 +1,45 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Music } from "lucide-react";
+import type { MediaKind } from "@/lib/media-types";
+
+interface MediaThumbnailProps {
+  kind: MediaKind;
+  src: string;
+  alt: string;
+  title?: string | null;
+}
+
+/**
+ * Small preview for upload lists: first video frame, an audio icon, or the image itself
+ */
+const MediaThumbnail: React.FC<MediaThumbnailProps> = ({ kind, src, alt, title }) => {
+  if (kind === 'audio') {
+    return (
+      <div className="w-full h-20 rounded-md bg-muted flex flex-col items-center justify-center gap-1 px-2" title={title ?? undefined}>
+        <Music className="w-5 h-5 text-muted-foreground" />
+        <span className="text-[10px] text-muted-foreground truncate max-w-full">{title}</span>
+      </div>
+    );
+  }
+
+  if (kind === 'video') {
+    return (
+      <div className="relative">
+        <video src={src} preload="metadata" muted className="w-full h-20 object-cover rounded-md bg-black" />
+        <Badge variant="secondary" className="absolute top-1 left-1 text-[10px] px-1">Video</Badge>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <img src={src} alt={alt} className="w-full h-20 object-cover rounded-md" loading="lazy" />
+      {kind === 'panorama' && (
+        <Badge variant="secondary" className="absolute top-1 left-1 text-[10px] px-1">360°</Badge>
+      )}
+    </div>
+  );
+};
+
+export default MediaThumbnail;
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from "react";
+
+interface PanoramaViewerProps {
+  src: string;
+  className?: string;
+}
+
+const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 screen;
+void main() {
+  screen = position;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// Casts a ray per pixel and samples the equirectangular image at its longitude/latitude
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D panorama;
+uniform float yaw;
+uniform float pitch;
+uniform float focal;
+uniform float aspect;
+varying vec2 screen;
+const float PI = 3.14159265;
+void main() {
+  vec3 ray = normalize(vec3(screen.x * aspect, screen.y, focal));
+  float cp = cos(pitch), sp = sin(pitch);
+  ray = vec3(ray.x, ray.y * cp + ray.z * sp, ray.z * cp - ray.y * sp);
+  float cy = cos(yaw), sy = sin(yaw);
+  ray = vec3(ray.x * cy + ray.z * sy, ray.y, ray.z * cy - ray.x * sy);
+  float longitude = atan(ray.x, ray.z);
+  float latitude = asin(clamp(ray.y, -1.0, 1.0));
+  gl_FragColor = texture2D(panorama, vec2(longitude / (2.0 * PI) + 0.5, 0.5 - latitude / PI));
+}`;
+
+const MIN_FOV = 30;
+const MAX_FOV = 100;
+const MAX_PITCH = (85 * Math.PI) / 180;
+// Larger textures fail on many mobile GPUs
+const MAX_TEXTURE_WIDTH = 4096;
+
+interface ViewState {
+  yaw: number;
+  pitch: number;
+  fov: number;
+}
+
+/**
+ * Drag-to-look viewer for equirectangular 360° photos, rendered with WebGL
+ */
+const PanoramaViewer: React.FC<PanoramaViewerProps> = ({ src, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const gl = canvas?.getContext('webgl');
+    if (!canvas || !gl) {
+      setStatus('error');
+      return;
+    }
+
+    const program = createProgram(gl);
+    if (!program) {
+      setStatus('error');
+      return;
+    }
+
+    const view: ViewState = { yaw: 0, pitch: 0, fov: 75 };
+    let frame = 0;
+    let disposed = false;
+
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const uniforms = {
+      yaw: gl.getUniformLocation(program, 'yaw'),
+      pitch: gl.getUniformLocation(program, 'pitch'),
+      focal: gl.getUniformLocation(program, 'focal'),
+      aspect: gl.getUniformLocation(program, 'aspect'),
+    };
+
+    const draw = () => {
+      frame = 0;
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+      gl.uniform1f(uniforms.yaw, view.yaw);
+      gl.uniform1f(uniforms.pitch, view.pitch);
+      gl.uniform1f(uniforms.focal, 1 / Math.tan((view.fov * Math.PI) / 360));
+      gl.uniform1f(uniforms.aspect, width / Math.max(height, 1));
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    };
+    const requestDraw = () => {
+      if (!frame && !disposed) frame = requestAnimationFrame(draw);
+    };
+
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      if (disposed) return;
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      // Panoramas are rarely power-of-two sized, so no mipmaps or repeat wrapping
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      const maxWidth = Math.min(gl.getParameter(gl.MAX_TEXTURE_SIZE), MAX_TEXTURE_WIDTH);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, fitTexture(image, maxWidth));
+      setStatus('ready');
+      requestDraw();
+    };
+    image.onerror = () => !disposed && setStatus('error');
+    image.src = src;
+
+    let drag: { x: number; y: number } | null = null;
+    const onPointerDown = (event: PointerEvent) => {
+      drag = { x: event.clientX, y: event.clientY };
+      canvas.setPointerCapture(event.pointerId);
+    };
+    const onPointerMove = (event: PointerEvent) => {
+      if (!drag) return;
+      // One canvas height of dragging turns the view by the vertical field of view
+      const radiansPerPixel = ((view.fov * Math.PI) / 180) / canvas.clientHeight;
+      view.yaw -= (event.clientX - drag.x) * radiansPerPixel;
+      view.pitch = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, view.pitch + (event.clientY - drag.y) * radiansPerPixel));
+      drag = { x: event.clientX, y: event.clientY };
+      requestDraw();
+    };
+    const onPointerUp = () => {
+      drag = null;
+    };
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      view.fov = Math.max(MIN_FOV, Math.min(MAX_FOV, view.fov + event.deltaY * 0.05));
+      requestDraw();
+    };
+
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointercancel', onPointerUp);
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    const resizeObserver = new ResizeObserver(requestDraw);
+    resizeObserver.observe(canvas);
+
+    return () => {
+      disposed = true;
+      if (frame) cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointercancel', onPointerUp);
+      canvas.removeEventListener('wheel', onWheel);
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    };
+  }, [src]);
+
+  return (
+    <div className={`relative bg-black rounded-lg overflow-hidden ${className ?? ''}`}>
+      <canvas ref={canvasRef} className="w-full h-full cursor-grab active:cursor-grabbing touch-none" />
+      {status !== 'ready' && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-white/80">
+          {status === 'loading' ? 'Memuat panorama...' : 'Panorama tidak dapat ditampilkan di peramban ini'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error('Panorama shader error:', gl.getShaderInfoLog(shader));
+      return null;
+    }
+    return shader;
+  };
+
+  const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Panorama program error:', gl.getProgramInfoLog(program));
+    return null;
+  }
+  gl.useProgram(program);
+  return program;
+}
+
+function fitTexture(image: HTMLImageElement, maxWidth: number): TexImageSource {
+  if (image.naturalWidth <= maxWidth) return image;
+  const canvas = document.createElement('canvas');
+  canvas.width = maxWidth;
+  canvas.height = Math.round((image.naturalHeight * maxWidth) / image.naturalWidth);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+export default PanoramaViewer;
@@ -0,0 +1,65 @@
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, KeyRound, Minus } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import { PERMISSION_LABELS, PERMISSIONS, ROLE_LABELS, ROLE_PERMISSIONS, USER_ROLES } from "@/lib/permissions";
+
+/**
+ * Read-only view of ROLE_PERMISSIONS for administrators
+ */
+const PermissionMatrix: React.FC = () => {
+  const { role } = usePermissions();
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Matriks Hak Akses
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Hak akses setiap peran di panel admin. Kebijakan basis data mengikuti matriks yang sama.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[240px]">Hak Akses</TableHead>
+              {USER_ROLES.map(userRole => (
+                <TableHead key={userRole} className="text-center">
+                  {ROLE_LABELS[userRole]}
+                  {userRole === role && <Badge variant="outline" className="ml-1">Anda</Badge>}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {PERMISSIONS.map(permission => (
+              <TableRow key={permission}>
+                <TableCell>
+                  <div className="font-medium">{PERMISSION_LABELS[permission].label}</div>
+                  <div className="text-xs text-muted-foreground">{PERMISSION_LABELS[permission].description}</div>
+                </TableCell>
+                {USER_ROLES.map(userRole => (
+                  <TableCell key={userRole} className="text-center">
+                    {ROLE_PERMISSIONS[userRole].includes(permission) ? (
+                      <Check className="w-4 h-4 text-green-600 mx-auto" aria-label="Diizinkan" />
+                    ) : (
+                      <Minus className="w-4 h-4 text-muted-foreground mx-auto" aria-label="Tidak diizinkan" />
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
+
+export default PermissionMatrix;
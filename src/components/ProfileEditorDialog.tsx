@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Upload } from "lucide-react";
+import ContributorAvatar from "@/components/ContributorAvatar";
+import { useToast } from "@/hooks/use-toast";
+import { ProfilesService } from "@/services/profiles.service";
+import type { Profile } from "@/types/profiles";
+
+interface ProfileEditorDialogProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (profile: Profile) => void;
+}
+
+interface ProfileForm {
+  full_name: string;
+  organization: string;
+  location: string;
+  expertise: string;
+  bio: string;
+  phone: string;
+}
+
+const EMPTY_FORM: ProfileForm = { full_name: "", organization: "", location: "", expertise: "", bio: "", phone: "" };
+
+const ProfileEditorDialog: React.FC<ProfileEditorDialogProps> = ({ userId, open, onOpenChange, onSaved }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    ProfilesService.fetchOwnProfile(userId)
+      .then(profile => {
+        if (!profile) return;
+        setAvatarUrl(profile.avatar_url);
+        setForm({
+          full_name: profile.full_name,
+          organization: profile.organization ?? "",
+          location: profile.location ?? "",
+          expertise: (profile.expertise ?? []).join(", "),
+          bio: profile.bio ?? "",
+          phone: profile.phone ?? "",
+        });
+      })
+      .catch(error => console.error('Error loading profile:', error));
+  }, [open, userId]);
+
+  const updateField = (field: keyof ProfileForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      const profile = await ProfilesService.uploadAvatar(userId, file);
+      setAvatarUrl(profile.avatar_url);
+      onSaved(profile);
+      toast({ title: "Berhasil", description: "Foto profil diperbarui" });
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      toast({
+        title: "Gagal mengunggah foto",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat mengunggah foto profil",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.full_name.trim()) {
+      toast({ title: "Nama wajib diisi", variant: "destructive" });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const profile = await ProfilesService.updateOwnProfile(userId, {
+        full_name: form.full_name.trim(),
+        organization: form.organization.trim() || null,
+        location: form.location.trim() || null,
+        expertise: form.expertise.split(",").map(item => item.trim()).filter(Boolean),
+        bio: form.bio.trim() || null,
+        phone: form.phone.trim() || null,
+      });
+      onSaved(profile);
+      onOpenChange(false);
+      toast({ title: "Berhasil", description: "Profil disimpan" });
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      toast({
+        title: "Gagal menyimpan profil",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat menyimpan profil",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Profil</DialogTitle>
+          <DialogDescription>Informasi ini tampil di halaman kontributor publik Anda, kecuali nomor telepon.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-4">
+            <ContributorAvatar name={form.full_name} avatarUrl={avatarUrl} className="w-16 h-16" />
+            <div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                className="hidden"
+                onChange={handleAvatarChange}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                <Upload className="w-4 h-4 mr-2" />
+                {uploading ? "Mengunggah..." : "Ganti Foto"}
+              </Button>
+              <p className="text-xs text-muted-foreground mt-1">JPEG, PNG atau WebP, maksimal 2 MB</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Nama Lengkap</Label>
+            <Input id="profile-name" value={form.full_name} onChange={updateField("full_name")} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-organization">Organisasi</Label>
+              <Input id="profile-organization" value={form.organization} onChange={updateField("organization")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-location">Lokasi</Label>
+              <Input id="profile-location" value={form.location} onChange={updateField("location")} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-expertise">Keahlian</Label>
+            <Input
+              id="profile-expertise"
+              placeholder="Pisahkan dengan koma, mis. arsitektur tradisional, tenun"
+              value={form.expertise}
+              onChange={updateField("expertise")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-bio">Bio</Label>
+            <Textarea id="profile-bio" rows={4} value={form.bio} onChange={updateField("bio")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-phone">Telepon (tidak ditampilkan)</Label>
+            <Input id="profile-phone" value={form.phone} onChange={updateField("phone")} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Menyimpan..." : "Simpan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileEditorDialog;
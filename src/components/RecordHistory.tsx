@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { AuditedTable, AuditLogEntryWithUser, AuditLogService } from "@/services/audit-log.service";
+import { ACTION_LABELS, formatAuditValue } from "@/lib/audit-format";
+
+interface RecordHistoryProps {
+  tableName: AuditedTable;
+  recordId: string;
+  // Called after a version was restored so the parent can reload the record
+  onRestored?: () => void;
+}
+
+/**
+ * Change history of one record with field-level diffs; admins can restore a version
+ */
+const RecordHistory: React.FC<RecordHistoryProps> = ({ tableName, recordId, onRestored }) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntryWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { can } = usePermissions();
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await AuditLogService.fetchHistory(tableName, recordId));
+    } catch (error) {
+      console.error('Error loading record history:', error);
+      toast({
+        title: "Gagal memuat riwayat",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat riwayat perubahan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tableName, recordId, toast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRestore = async (entry: AuditLogEntryWithUser) => {
+    const when = new Date(entry.changed_at).toLocaleString('id-ID');
+    if (!confirm(`Pulihkan data ke versi ${when}?`)) return;
+
+    try {
+      setRestoringId(entry.id);
+      await AuditLogService.restoreVersion(entry);
+      toast({ title: "Versi dipulihkan", description: `Data dikembalikan ke versi ${when}` });
+      await loadHistory();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      toast({
+        title: "Gagal memulihkan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memulihkan versi",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground py-4">Memuat riwayat...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="w-10 h-10 text-muted-foreground mx-auto mb-2" />
+        <p className="text-sm text-muted-foreground">Belum ada riwayat perubahan yang tercatat.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.map((entry, index) => {
+        const changes = AuditLogService.diff(entry);
+        // The newest non-delete entry is the current state
+        const isCurrent = index === 0 && entry.action !== 'DELETE';
+        return (
+          <div key={entry.id} className="border rounded-md p-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant={entry.action === 'DELETE' ? "destructive" : entry.action === 'INSERT' ? "default" : "secondary"}>
+                  {ACTION_LABELS[entry.action]}
+                </Badge>
+                <span className="font-medium">{entry.changedByName ?? "Sistem"}</span>
+                <span className="text-muted-foreground">{new Date(entry.changed_at).toLocaleString('id-ID')}</span>
+                {isCurrent && <Badge variant="outline">Versi saat ini</Badge>}
+              </div>
+              {can('records.restore') && !isCurrent && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(entry)}
+                  disabled={restoringId !== null}
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  {entry.action === 'DELETE' ? "Pulihkan Data" : "Pulihkan Versi Ini"}
+                </Button>
+              )}
+            </div>
+            {entry.action === 'UPDATE' && changes.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-1/4">Kolom</TableHead>
+                    <TableHead>Sebelum</TableHead>
+                    <TableHead>Sesudah</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground line-through decoration-destructive/50">
+                        {formatAuditValue(change.before)}
+                      </TableCell>
+                      <TableCell className="text-xs">{formatAuditValue(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {entry.action !== 'UPDATE' && (
+              <p className="text-xs text-muted-foreground">
+                {changes.filter(change => (entry.action === 'INSERT' ? change.after : change.before) !== null).length} kolom terisi
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RecordHistory;
@@ -0,0 +1,25 @@
+import React from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import RecordHistory from "@/components/RecordHistory";
+import type { AuditedTable } from "@/services/audit-log.service";
+
+interface RecordHistoryDialogProps {
+  tableName: AuditedTable;
+  record: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+}
+
+const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({ tableName, record, onOpenChange, onRestored }) => (
+  <Dialog open={!!record} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Riwayat Perubahan</DialogTitle>
+        <DialogDescription>{record?.name}</DialogDescription>
+      </DialogHeader>
+      {record && <RecordHistory tableName={tableName} recordId={record.id} onRestored={onRestored} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default RecordHistoryDialog;
@@ -0,0 +1,37 @@
+import React from "react";
+import { SiteMedia } from "@/types/site-media";
+import { SiteMediaService } from "@/services/site-media.service";
+
+interface ResponsiveImageProps {
+  media: Pick<SiteMedia, 'file_url' | 'metadata'>;
+  alt: string;
+  // Rendered width of the image, e.g. "(min-width: 768px) 50vw, 100vw"
+  sizes: string;
+  className?: string;
+  loading?: "lazy" | "eager";
+}
+
+/**
+ * Gallery image that lets the browser pick the smallest stored version
+ * (WebP first, JPEG fallback). Images uploaded before variants existed use the original file.
+ */
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ media, alt, sizes, className, loading = "lazy" }) => {
+  const { src, webpSrcSet, jpegSrcSet } = SiteMediaService.getResponsiveSources(media);
+
+  return (
+    <picture>
+      {webpSrcSet && <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />}
+      <img
+        src={src}
+        srcSet={jpegSrcSet ?? undefined}
+        sizes={jpegSrcSet ? sizes : undefined}
+        alt={alt}
+        className={className}
+        loading={loading}
+        decoding="async"
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
@@ -2,6 +2,7 @@ import React from 'react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Link } from 'react-router-dom';
 import { Star, Calendar, Clock, ThumbsUp } from 'lucide-react';
 import { SiteReview } from '@/types/site-reviews';
 
@@ -78,11 +79,13 @@ const ReviewList: React.FC<ReviewListProps> = ({ reviews, loading }) => {
           <CardHeader className="pb-3">
             <div className="flex items-start justify-between">
               <div className="flex items-start gap-3">
-                <Avatar>
-                  <AvatarFallback>
-                    {review.user_id.slice(0, 2).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
+                <Link to={`/profile/${review.user_id}`} title="Lihat profil pengulas">
+                  <Avatar>
+                    <AvatarFallback>
+                      {review.user_id.slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                </Link>
                 <div>
                   <div className="flex items-center gap-2 mb-1">
                     <StarRating rating={review.rating} />
@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ban, Copy, History, KeySquare, Ticket } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ROLE_LABELS, USER_ROLES } from "@/lib/permissions";
+import { RoleGrantWithNames, RoleInvitationService } from "@/services/role-invitation.service";
+import type { RoleInvitation, RoleInvitationStatus } from "@/types/role-invitations";
+import type { UserRole } from "@/types/profiles";
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+const STATUS_LABELS: Record<RoleInvitationStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  active: { label: "Aktif", variant: "default" },
+  redeemed: { label: "Digunakan", variant: "secondary" },
+  expired: { label: "Kedaluwarsa", variant: "outline" },
+  revoked: { label: "Dicabut", variant: "destructive" },
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('id-ID');
+
+const RoleInvitations: React.FC = () => {
+  const { toast } = useToast();
+  const { userId } = usePermissions();
+  const [invitations, setInvitations] = useState<RoleInvitation[]>([]);
+  const [grants, setGrants] = useState<RoleGrantWithNames[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [role, setRole] = useState<UserRole>("cultural_expert");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [note, setNote] = useState("");
+  const [issuedToken, setIssuedToken] = useState<{ token: string; role: UserRole } | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [invitationData, grantData] = await Promise.all([
+        RoleInvitationService.fetchInvitations(),
+        RoleInvitationService.fetchRoleGrants(),
+      ]);
+      setInvitations(invitationData);
+      setGrants(grantData);
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      toast({
+        title: "Gagal memuat undangan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat undangan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleCreate = async () => {
+    if (!userId) return;
+    try {
+      setCreating(true);
+      const { invitation, token } = await RoleInvitationService.createInvitation({
+        role,
+        expiresInDays: Number(expiresInDays),
+        note,
+        createdBy: userId,
+      });
+      setInvitations(prev => [invitation, ...prev]);
+      setIssuedToken({ token, role });
+      setNote("");
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      toast({
+        title: "Gagal membuat undangan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat membuat undangan",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!issuedToken) return;
+    try {
+      await navigator.clipboard.writeText(issuedToken.token);
+      toast({ title: "Disalin", description: "Kode undangan disalin ke clipboard" });
+    } catch {
+      toast({ title: "Gagal menyalin", description: "Salin kode secara manual", variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async (invitation: RoleInvitation) => {
+    if (!confirm(`Cabut undangan ${ROLE_LABELS[invitation.role]} ini? Kode tidak dapat digunakan lagi.`)) return;
+    try {
+      await RoleInvitationService.revokeInvitation(invitation.id);
+      toast({ title: "Berhasil", description: "Undangan dicabut" });
+      loadData();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Gagal mencabut undangan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat mencabut undangan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            Undangan Peran
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Kode undangan hanya berlaku sekali, kedaluwarsa otomatis, dan memberikan satu peran saat dimasukkan di halaman masuk atau daftar.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>Peran</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map(item => (
+                  <SelectItem key={item} value={item}>{ROLE_LABELS[item]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Berlaku</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} hari</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invitation-note">Catatan</Label>
+            <Input
+              id="invitation-note"
+              placeholder="Untuk siapa undangan ini"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={creating || !userId}>
+            <KeySquare className="w-4 h-4 mr-2" />
+            {creating ? "Membuat..." : "Buat Undangan"}
+          </Button>
+        </div>
+
+        {issuedToken && (
+          <Alert>
+            <KeySquare className="h-4 w-4" />
+            <AlertTitle>Kode undangan {ROLE_LABELS[issuedToken.role]}</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>Kode ini hanya ditampilkan sekali. Kirimkan ke penerima melalui saluran yang aman.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded bg-muted px-2 py-1 text-sm break-all">{issuedToken.token}</code>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  <Copy className="w-4 h-4 mr-1" />
+                  Salin
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+      </Card>
+
+      <Card className="p-4">
+        <h3 className="font-semibold mb-3">Daftar Undangan</h3>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-6">Memuat undangan...</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">Belum ada undangan.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Peran</TableHead>
+                  <TableHead>Catatan</TableHead>
+                  <TableHead>Dibuat</TableHead>
+                  <TableHead>Kedaluwarsa</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map(invitation => {
+                  const status = RoleInvitationService.status(invitation);
+                  return (
+                    <TableRow key={invitation.id}>
+                      <TableCell className="font-medium">{ROLE_LABELS[invitation.role]}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{invitation.note || "-"}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(invitation.created_at)}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(invitation.expires_at)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_LABELS[status].variant}>{STATUS_LABELS[status].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {status === 'active' && (
+                          <Button variant="outline" size="sm" onClick={() => handleRevoke(invitation)}>
+                            <Ban className="w-4 h-4 mr-1" />
+                            Cabut
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-4">
+        <h3 className="font-semibold mb-3 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Riwayat Pemberian Peran
+        </h3>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-6">Memuat riwayat...</p>
+        ) : grants.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">Belum ada perubahan peran.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Waktu</TableHead>
+                  <TableHead>Pengguna</TableHead>
+                  <TableHead>Perubahan</TableHead>
+                  <TableHead>Melalui</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {grants.map(grant => (
+                  <TableRow key={grant.id}>
+                    <TableCell className="text-sm">{formatDateTime(grant.created_at)}</TableCell>
+                    <TableCell className="font-medium">{grant.userName || grant.user_id}</TableCell>
+                    <TableCell className="text-sm">
+                      {grant.previous_role ? `${ROLE_LABELS[grant.previous_role]} → ` : ""}
+                      {ROLE_LABELS[grant.role]}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {grant.invitation_id
+                        ? "Kode undangan"
+                        : grant.granted_by
+                          ? `Diubah oleh ${grant.grantedByName || "admin"}`
+                          : "Sistem"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default RoleInvitations;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Images, Search } from "lucide-react";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { ImageSimilarityService, SimilarImage } from "@/services/image-similarity.service";
+
+interface SimilarPhotosPanelProps {
+  imageId: string;
+  userId?: string | null;
+  limit?: number;
+}
+
+const SimilarPhotosPanel: React.FC<SimilarPhotosPanelProps> = ({ imageId, userId = null, limit = 6 }) => {
+  const [results, setResults] = useState<SimilarImage[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new photo needs a new search
+  useEffect(() => {
+    setResults(null);
+    setError(null);
+  }, [imageId]);
+
+  const handleSearch = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setResults(await ImageSimilarityService.findSimilarImages(imageId, limit, userId));
+    } catch (err) {
+      console.error('Error finding similar photos:', err);
+      setError(err instanceof Error ? err.message : "Gagal mencari foto serupa");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Images className="w-5 h-5" />
+          Foto Serupa
+        </h3>
+        <Button variant="outline" size="sm" onClick={handleSearch} disabled={loading}>
+          <Search className="w-4 h-4 mr-2" />
+          {loading ? "Mencari..." : results ? "Cari Ulang" : "Cari Foto Serupa"}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Belum ada foto lain yang diindeks untuk pencarian kemiripan.
+        </p>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {results.map(({ media, siteName, similarity }) => (
+            <Link key={media.id} to={`/site/${media.site_id}`} className="group relative block">
+              <ResponsiveImage
+                media={media}
+                alt={media.title || siteName || "Foto serupa"}
+                sizes="(min-width: 768px) 20vw, 50vw"
+                className="w-full h-32 object-cover rounded-lg"
+              />
+              <Badge variant="secondary" className="absolute top-2 right-2">
+                {Math.round(similarity * 100)}%
+              </Badge>
+              <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-2 rounded-b-lg">
+                <p className="text-white text-xs font-medium truncate">{siteName}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimilarPhotosPanel;
@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import { SiteMedia } from '@/types/site-media';
 import {
   MapPin,
   Star,
@@ -40,6 +42,9 @@ interface SiteCardProps {
   site: CulturalSite;
   onViewDetails?: (site: CulturalSite) => void;
   onViewOnMap?: (site: CulturalSite) => void;
+  coverImage?: SiteMedia | null;
+  // Rendered width of the cover image, matching the grid the card is placed in
+  imageSizes?: string;
   className?: string;
 }
 
@@ -60,10 +65,20 @@ const SiteCard: React.FC<SiteCardProps> = ({
   site, 
   onViewDetails, 
   onViewOnMap,
+  coverImage,
+  imageSizes = '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw',
   className = '' 
 }) => {
   return (
-    <Card className={`group hover:shadow-heritage transition-all duration-300 hover:scale-[1.02] ${className}`}>
+    <Card className={`group hover:shadow-heritage transition-all duration-300 hover:scale-[1.02] overflow-hidden ${className}`}>
+      {coverImage && (
+        <ResponsiveImage
+          media={coverImage}
+          alt={coverImage.title || site.name}
+          sizes={imageSizes}
+          className="w-full h-44 object-cover"
+        />
+      )}
       <CardContent className="p-6">
         {/* Header */}
         <div className="flex justify-between items-start mb-4">
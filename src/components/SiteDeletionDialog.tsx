@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Archive, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { SiteDeletionImpact, SiteDeletionService, SiteDependentTable } from "@/services/site-deletion.service";
+
+const TABLE_LABELS: Record<SiteDependentTable, string> = {
+  site_media: "Media galeri",
+  ai_analysis: "Analisis AI",
+  site_reviews: "Ulasan pengunjung",
+  historical_records: "Catatan sejarah",
+  conservation_projects: "Proyek konservasi",
+  route_sites: "Pemberhentian rute wisata",
+};
+
+interface SiteDeletionDialogProps {
+  site: { id: string; name: string; isActive: boolean } | null;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+}
+
+const SiteDeletionDialog: React.FC<SiteDeletionDialogProps> = ({ site, onOpenChange, onCompleted }) => {
+  const { toast } = useToast();
+  const [impact, setImpact] = useState<SiteDeletionImpact | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [confirmName, setConfirmName] = useState("");
+
+  useEffect(() => {
+    setImpact(null);
+    setConfirmName("");
+    if (!site) return;
+
+    let cancelled = false;
+    setLoading(true);
+    SiteDeletionService.getImpact(site.id)
+      .then(result => !cancelled && setImpact(result))
+      .catch(error => {
+        console.error('Error computing deletion impact:', error);
+        toast({
+          title: "Gagal menghitung dampak",
+          description: error instanceof Error ? error.message : "Terjadi kesalahan saat memeriksa data terkait",
+          variant: "destructive",
+        });
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [site, toast]);
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      setWorking(true);
+      const description = await action();
+      toast({ title: "Berhasil", description });
+      onOpenChange(false);
+      onCompleted();
+    } catch (error) {
+      console.error('Error deleting site:', error);
+      toast({
+        title: "Gagal menghapus",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat menghapus situs",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleArchive = () => run(async () => {
+    await SiteDeletionService.archiveSite(site!.id);
+    return "Situs diarsipkan dan tidak lagi tampil di halaman publik";
+  });
+
+  const handleHardDelete = () => run(async () => {
+    const result = await SiteDeletionService.hardDeleteSite(site!.id);
+    const notes = [
+      `${result.removedFiles} file dihapus`,
+      result.deactivatedRoutes > 0 ? `${result.deactivatedRoutes} rute dinonaktifkan` : null,
+      result.storageErrors > 0 ? "sebagian file gagal dihapus, periksa Rekonsiliasi Penyimpanan" : null,
+    ].filter(Boolean);
+    return `Situs dihapus permanen (${notes.join(', ')})`;
+  });
+
+  const relatedRows = impact ? Object.values(impact.counts).reduce((sum, count) => sum + count, 0) : 0;
+  const brokenRoutes = impact?.routes.filter(route => route.breaks) ?? [];
+
+  return (
+    <Dialog open={!!site} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Hapus Situs Budaya "{site?.name}"</DialogTitle>
+          <DialogDescription>
+            Arsipkan untuk menyembunyikan situs tanpa kehilangan data, atau hapus permanen beserta semua data terkait.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !impact ? (
+          <p className="text-sm text-muted-foreground py-4">{loading ? "Menghitung data terkait..." : "Dampak penghapusan tidak tersedia."}</p>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableBody>
+                {(Object.keys(TABLE_LABELS) as SiteDependentTable[]).map(table => (
+                  <TableRow key={table}>
+                    <TableCell>{TABLE_LABELS[table]}</TableCell>
+                    <TableCell className="text-right font-medium">{impact.counts[table]}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>Praktik budaya yang merujuk situs ini</TableCell>
+                  <TableCell className="text-right font-medium">{impact.practices.length}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>File di penyimpanan</TableCell>
+                  <TableCell className="text-right font-medium">{impact.storageFiles.length}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {impact.routes.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Rute wisata terdampak</h4>
+                <ul className="space-y-1">
+                  {impact.routes.map(route => (
+                    <li key={route.id} className="flex items-center justify-between text-sm">
+                      <span>{route.name}</span>
+                      <span className="flex items-center gap-2 text-muted-foreground">
+                        sisa {route.remainingSites} situs
+                        {route.breaks && <Badge variant="destructive">Rute terputus</Badge>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {impact.practices.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Rujukan akan dihapus dari: {impact.practices.map(practice => practice.name).join(', ')}
+              </p>
+            )}
+
+            <div className="rounded-md border border-destructive/40 bg-destructive/5 p-3 space-y-2">
+              <p className="text-sm flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive mt-0.5 shrink-0" />
+                Hapus permanen menghapus {relatedRows} data terkait dan {impact.storageFiles.length} file.
+                {brokenRoutes.length > 0 && ` ${brokenRoutes.length} rute dengan kurang dari dua situs akan dinonaktifkan.`}
+                {" "}Tindakan ini tidak dapat dibatalkan.
+              </p>
+              <Label htmlFor="confirm-site-name" className="text-xs">Ketik nama situs untuk mengonfirmasi</Label>
+              <Input
+                id="confirm-site-name"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                placeholder={site?.name}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={working}>
+            Batal
+          </Button>
+          {site?.isActive && (
+            <Button variant="secondary" onClick={handleArchive} disabled={working}>
+              <Archive className="w-4 h-4 mr-2" />
+              Arsipkan
+            </Button>
+          )}
+          <Button
+            variant="destructive"
+            onClick={handleHardDelete}
+            disabled={working || !impact || confirmName.trim() !== site?.name.trim()}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Hapus Permanen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SiteDeletionDialog;
@@ -0,0 +1,101 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Music, Orbit } from "lucide-react";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { SiteMediaService } from "@/services/site-media.service";
+import { formatDuration } from "@/lib/media-types";
+import { SiteMedia } from "@/types/site-media";
+
+interface SiteMediaTileProps {
+  media: SiteMedia;
+  fallbackTitle: string;
+  selected?: boolean;
+  // Only photos can be selected (for similar-photo search)
+  onSelect?: (media: SiteMedia) => void;
+  onOpenPanorama?: (media: SiteMedia) => void;
+}
+
+/**
+ * Gallery tile that shows a photo, an inline video/audio player, or a
+ * panorama preview depending on the media kind
+ */
+const SiteMediaTile: React.FC<SiteMediaTileProps> = ({ media, fallbackTitle, selected, onSelect, onOpenPanorama }) => {
+  const info = SiteMediaService.readMediaInfo(media);
+  const duration = formatDuration(info.durationSeconds);
+  const title = media.title || fallbackTitle;
+
+  if (info.kind === 'audio') {
+    return (
+      <div className="h-48 rounded-lg border bg-muted/40 p-4 flex flex-col justify-between">
+        <div className="flex items-start gap-3">
+          <div className="rounded-full bg-heritage/10 p-3">
+            <Music className="w-6 h-6 text-heritage" />
+          </div>
+          <div className="min-w-0">
+            <p className="font-medium truncate">{title}</p>
+            <p className="text-xs text-muted-foreground">Audio{duration ? ` · ${duration}` : ''}</p>
+          </div>
+        </div>
+        <audio controls preload="metadata" src={media.file_url} className="w-full" />
+      </div>
+    );
+  }
+
+  if (info.kind === 'video') {
+    return (
+      <div className="relative">
+        <video
+          controls
+          preload="metadata"
+          playsInline
+          src={media.file_url}
+          className="w-full h-48 object-contain rounded-lg bg-black"
+        />
+        <div className="absolute top-2 left-2 flex gap-1">
+          <Badge variant="secondary">Video{duration ? ` · ${duration}` : ''}</Badge>
+          {info.height && <Badge variant="secondary">{info.height}p</Badge>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`relative group cursor-pointer rounded-lg ${selected ? 'ring-2 ring-heritage' : ''}`}
+      onClick={() => onSelect?.(media)}
+    >
+      <ResponsiveImage
+        media={media}
+        alt={title}
+        sizes="(min-width: 1024px) 30vw, (min-width: 768px) 45vw, 100vw"
+        className="w-full h-48 object-cover rounded-lg"
+      />
+      <div className="absolute top-2 left-2 flex gap-1">
+        {media.is_primary && <Badge className="bg-heritage">Utama</Badge>}
+        {info.kind === 'panorama' && <Badge variant="secondary">360°</Badge>}
+      </div>
+      {info.kind === 'panorama' && (
+        <Button
+          size="sm"
+          variant="secondary"
+          className="absolute top-2 right-2"
+          onClick={(event) => {
+            event.stopPropagation();
+            onOpenPanorama?.(media);
+          }}
+        >
+          <Orbit className="w-4 h-4 mr-1" />
+          Lihat 360°
+        </Button>
+      )}
+      {media.title && (
+        <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-3 rounded-b-lg">
+          <p className="text-white text-sm font-medium">{media.title}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SiteMediaTile;
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, ClipboardCheck, RefreshCw, Send, ShieldAlert, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { formatAuditValue } from "@/lib/audit-format";
+import { SiteReviewService, SiteRevisionWithContext } from "@/services/site-review.service";
+import type { PublicationStatus } from "@/types/site-revisions";
+
+const STATUS_LABELS: Record<PublicationStatus, string> = {
+  draft: "Draf",
+  pending_review: "Menunggu Tinjauan",
+  verified: "Disetujui",
+  rejected: "Ditolak",
+};
+
+const KIND_LABELS: Record<string, string> = {
+  create: "Situs baru",
+  update: "Perubahan",
+};
+
+const RevisionChanges: React.FC<{ revision: SiteRevisionWithContext }> = ({ revision }) => {
+  const changes = SiteReviewService.diff(revision);
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">Tidak ada perubahan data.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-1/4">Kolom</TableHead>
+          {revision.kind === 'update' && <TableHead>Versi Terbit</TableHead>}
+          <TableHead>{revision.kind === 'update' ? "Usulan" : "Nilai"}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map(change => (
+          <TableRow key={change.field}>
+            <TableCell className="font-mono text-xs">{change.field}</TableCell>
+            {revision.kind === 'update' && (
+              <TableCell className="text-xs text-muted-foreground">{formatAuditValue(change.before)}</TableCell>
+            )}
+            <TableCell className="text-xs">{formatAuditValue(change.after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+/**
+ * Moderation of contributed sites: reviewers approve or reject pending
+ * submissions, contributors follow their own drafts and submissions
+ */
+const SiteReviewQueue: React.FC = () => {
+  const { toast } = useToast();
+  const { userId, role, loading: checkingAccess } = usePermissions();
+  const [queue, setQueue] = useState<SiteRevisionWithContext[]>([]);
+  const [submissions, setSubmissions] = useState<SiteRevisionWithContext[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const isReviewer = SiteReviewService.isReviewer(role);
+  const canContribute = SiteReviewService.canContribute(role);
+
+  const loadData = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setLoading(true);
+      const [pending, own] = await Promise.all([
+        isReviewer ? SiteReviewService.fetchReviewQueue() : Promise.resolve([]),
+        SiteReviewService.fetchSubmissions(userId),
+      ]);
+      setQueue(pending);
+      setSubmissions(own);
+    } catch (error) {
+      console.error('Error loading site submissions:', error);
+      toast({
+        title: "Gagal memuat kiriman",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat kiriman situs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, isReviewer, toast]);
+
+  useEffect(() => {
+    if (canContribute) loadData();
+  }, [canContribute, loadData]);
+
+  const runAction = async (revision: SiteRevisionWithContext, action: () => Promise<void>, success: string) => {
+    try {
+      setSavingId(revision.id);
+      await action();
+      toast({ title: success, description: revision.site?.name });
+      await loadData();
+    } catch (error) {
+      console.error('Error updating site submission:', error);
+      toast({
+        title: "Gagal menyimpan tinjauan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memproses kiriman",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleApprove = (revision: SiteRevisionWithContext) =>
+    runAction(revision, () => SiteReviewService.approve(revision, userId!, comments[revision.id] ?? ""), "Kiriman disetujui dan diterbitkan");
+
+  const handleReject = (revision: SiteRevisionWithContext) => {
+    if (!(comments[revision.id] ?? "").trim()) {
+      toast({ title: "Komentar wajib diisi", description: "Jelaskan alasan penolakan untuk kontributor", variant: "destructive" });
+      return;
+    }
+    runAction(revision, () => SiteReviewService.reject(revision, userId!, comments[revision.id]), "Kiriman ditolak");
+  };
+
+  const handleSubmitDraft = (revision: SiteRevisionWithContext) =>
+    runAction(revision, () => SiteReviewService.submitForReview(revision), "Draf dikirim untuk ditinjau");
+
+  if (checkingAccess) {
+    return <Card className="p-6 text-center text-muted-foreground">Memeriksa akses...</Card>;
+  }
+
+  if (!canContribute) {
+    return (
+      <Alert variant="destructive">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Akses ditolak</AlertTitle>
+        <AlertDescription>
+          Kiriman situs hanya tersedia untuk kontributor dan peninjau.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              Tinjauan Situs
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Situs baru dan perubahan dari kontributor baru tampil di peta publik setelah disetujui ahli budaya atau admin.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadData} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Muat Ulang
+          </Button>
+        </div>
+      </Card>
+
+      {isReviewer && (
+        <div className="space-y-3">
+          <h3 className="font-semibold">Menunggu Tinjauan ({queue.length})</h3>
+          {loading ? (
+            <Card className="p-6 text-center text-muted-foreground">Memuat antrean...</Card>
+          ) : queue.length === 0 ? (
+            <Card className="p-6 text-center text-muted-foreground">Tidak ada kiriman yang menunggu tinjauan.</Card>
+          ) : (
+            queue.map(revision => (
+              <Card key={revision.id} className="p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{revision.site?.name ?? revision.site_id}</span>
+                      <Badge variant="secondary">{KIND_LABELS[revision.kind] ?? revision.kind}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Dikirim oleh {revision.submitterName ?? "Kontributor"}
+                      {revision.submitted_at && ` pada ${new Date(revision.submitted_at).toLocaleString('id-ID')}`}
+                    </p>
+                  </div>
+                </div>
+
+                <RevisionChanges revision={revision} />
+
+                <Textarea
+                  placeholder="Komentar untuk kontributor (wajib saat menolak)"
+                  value={comments[revision.id] ?? ""}
+                  onChange={(e) => setComments(prev => ({ ...prev, [revision.id]: e.target.value }))}
+                  rows={2}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => handleReject(revision)} disabled={savingId === revision.id}>
+                    <X className="w-4 h-4 mr-2" />
+                    Tolak
+                  </Button>
+                  <Button onClick={() => handleApprove(revision)} disabled={savingId === revision.id}>
+                    <Check className="w-4 h-4 mr-2" />
+                    Setujui & Terbitkan
+                  </Button>
+                </div>
+              </Card>
+            ))
+          )}
+        </div>
+      )}
+
+      <Card className="p-4 space-y-3">
+        <h3 className="font-semibold">Kiriman Saya ({submissions.length})</h3>
+        {submissions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Belum ada kiriman. Tambah atau edit situs di tab Situs Budaya untuk membuat draf.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Situs</TableHead>
+                <TableHead>Jenis</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Catatan Peninjau</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {submissions.map(revision => (
+                <TableRow key={revision.id}>
+                  <TableCell className="font-medium">{revision.site?.name ?? revision.site_id}</TableCell>
+                  <TableCell>{KIND_LABELS[revision.kind] ?? revision.kind}</TableCell>
+                  <TableCell>
+                    <Badge variant={revision.status === 'rejected' ? "destructive" : revision.status === 'verified' ? "default" : "outline"}>
+                      {STATUS_LABELS[revision.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {revision.review_comment ? (
+                      <>
+                        {revision.review_comment}
+                        {revision.reviewerName && (
+                          <span className="block text-xs text-muted-foreground">— {revision.reviewerName}</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {revision.status === 'draft' && (
+                      <Button variant="outline" size="sm" onClick={() => handleSubmitDraft(revision)} disabled={savingId === revision.id}>
+                        <Send className="w-4 h-4 mr-1" />
+                        Kirim
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default SiteReviewQueue;
@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HardDrive, RefreshCw, Trash2, Unlink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MissingObjectRow, ReconciliationReport, StorageReconciliationService } from "@/services/storage-reconciliation.service";
+import { SiteMediaService } from "@/services/site-media.service";
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return "-";
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const StorageReconciliationReport: React.FC = () => {
+  const { toast } = useToast();
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReport(await StorageReconciliationService.buildReport());
+      setSelectedPaths(new Set());
+    } catch (error) {
+      console.error('Error reconciling storage:', error);
+      toast({
+        title: "Gagal memeriksa penyimpanan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat membaca bucket galeri",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    try {
+      setBusy(true);
+      await action();
+      toast({ title: success });
+      await loadReport();
+    } catch (error) {
+      console.error('Error cleaning up storage:', error);
+      toast({
+        title: "Gagal membersihkan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat membersihkan penyimpanan",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteObjects = () => {
+    const paths = Array.from(selectedPaths);
+    if (!confirm(`Hapus ${paths.length} file dari penyimpanan secara permanen?`)) return;
+    runAction(() => StorageReconciliationService.deleteObjects(paths), `${paths.length} file dihapus`);
+  };
+
+  const handleFixRow = (row: MissingObjectRow) => {
+    if (row.originalMissing) {
+      if (!confirm(`Hapus data media "${row.media.title || row.media.id}" yang filenya sudah tidak ada?`)) return;
+      runAction(() => StorageReconciliationService.deleteRows([row]), "Data media dihapus");
+    } else {
+      runAction(() => StorageReconciliationService.clearVariants(row), "Versi ukuran gambar direset");
+    }
+  };
+
+  const handleDeleteAllBrokenRows = () => {
+    const rows = report?.missingObjects.filter(row => row.originalMissing) ?? [];
+    if (!confirm(`Hapus ${rows.length} data media yang filenya sudah tidak ada?`)) return;
+    runAction(() => StorageReconciliationService.deleteRows(rows), `${rows.length} data media dihapus`);
+  };
+
+  const togglePath = (path: string, checked: boolean) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  };
+
+  const orphans = report?.orphanObjects ?? [];
+  const brokenRows = report?.missingObjects ?? [];
+  const allSelected = orphans.length > 0 && selectedPaths.size === orphans.length;
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <HardDrive className="w-5 h-5" />
+              Rekonsiliasi Penyimpanan
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Membandingkan isi bucket galeri dengan data media situs.
+              {report && ` ${report.totalObjects} file, ${report.totalRows} data media.`}
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadReport} disabled={loading || busy}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Periksa Ulang
+          </Button>
+        </div>
+      </Card>
+
+      {loading ? (
+        <Card className="p-6 text-center text-muted-foreground">Memindai bucket galeri...</Card>
+      ) : (
+        <>
+          <Card className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h3 className="font-semibold">File tanpa data media ({orphans.length})</h3>
+                <p className="text-xs text-muted-foreground">File yang tersimpan tetapi tidak dirujuk oleh media situs mana pun.</p>
+              </div>
+              <Button variant="destructive" size="sm" onClick={handleDeleteObjects} disabled={busy || selectedPaths.size === 0}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Hapus Terpilih ({selectedPaths.size})
+              </Button>
+            </div>
+            {orphans.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Tidak ada file yatim.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelectedPaths(checked ? new Set(orphans.map(object => object.path)) : new Set())
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Path</TableHead>
+                    <TableHead>Ukuran</TableHead>
+                    <TableHead>Diperbarui</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orphans.map(object => (
+                    <TableRow key={object.path}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedPaths.has(object.path)}
+                          onCheckedChange={(checked) => togglePath(object.path, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        <a
+                          href={SiteMediaService.getPublicUrl(object.path)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="hover:underline"
+                        >
+                          {object.path}
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-xs">{formatSize(object.size)}</TableCell>
+                      <TableCell className="text-xs">
+                        {object.updatedAt ? new Date(object.updatedAt).toLocaleString('id-ID') : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+
+          <Card className="p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h3 className="font-semibold">Data media tanpa file ({brokenRows.length})</h3>
+                <p className="text-xs text-muted-foreground">Media situs yang file aslinya atau versi ukurannya hilang dari penyimpanan.</p>
+              </div>
+              {brokenRows.some(row => row.originalMissing) && (
+                <Button variant="destructive" size="sm" onClick={handleDeleteAllBrokenRows} disabled={busy}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Hapus Semua yang Filenya Hilang
+                </Button>
+              )}
+            </div>
+            {brokenRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Semua data media memiliki file.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Situs</TableHead>
+                    <TableHead>Media</TableHead>
+                    <TableHead>File Hilang</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {brokenRows.map(row => (
+                    <TableRow key={row.media.id}>
+                      <TableCell>{row.siteName ?? "-"}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="truncate max-w-[200px]">{row.media.title || row.media.id}</span>
+                          <Badge variant={row.originalMissing ? "destructive" : "secondary"}>
+                            {row.originalMissing ? "File asli hilang" : "Versi ukuran hilang"}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {row.missingPaths.map(path => <div key={path}>{path}</div>)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => handleFixRow(row)} disabled={busy}>
+                          {row.originalMissing ? <Trash2 className="w-4 h-4 mr-1" /> : <Unlink className="w-4 h-4 mr-1" />}
+                          {row.originalMissing ? "Hapus Data" : "Pakai File Asli"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StorageReconciliationReport;
@@ -0,0 +1,297 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BarChart3, Search, UserCheck, UserCog, UserX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ROLE_LABELS, USER_ROLES } from "@/lib/permissions";
+import { UserContributions, UserManagementService } from "@/services/user-management.service";
+import type { Profile, UserRole } from "@/types/profiles";
+
+const ALL = "all";
+
+const CONTRIBUTION_LABELS: Record<keyof UserContributions, string> = {
+  sitesCreated: "Situs dibuat",
+  reviewsWritten: "Ulasan ditulis",
+  analysesProcessed: "Analisis diproses",
+  mediaUploaded: "Media diunggah",
+};
+
+const UserManagement: React.FC = () => {
+  const { toast } = useToast();
+  const { userId: currentUserId } = usePermissions();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<string>(ALL);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
+  const [contributions, setContributions] = useState<UserContributions | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      setLoading(true);
+      setProfiles(await UserManagementService.fetchProfiles({
+        search,
+        role: roleFilter === ALL ? undefined : roleFilter as UserRole,
+        isActive: statusFilter === ALL ? undefined : statusFilter === "active",
+      }));
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+      toast({
+        title: "Gagal memuat pengguna",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memuat data pengguna",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [search, roleFilter, statusFilter, toast]);
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    const timeout = setTimeout(loadProfiles, 300);
+    return () => clearTimeout(timeout);
+  }, [loadProfiles]);
+
+  useEffect(() => {
+    setContributions(null);
+    if (!selectedProfile) return;
+
+    let cancelled = false;
+    UserManagementService.getContributions(selectedProfile.user_id)
+      .then(result => !cancelled && setContributions(result))
+      .catch(error => {
+        console.error('Error loading contributions:', error);
+        toast({
+          title: "Gagal memuat kontribusi",
+          description: error instanceof Error ? error.message : "Terjadi kesalahan saat menghitung kontribusi",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProfile, toast]);
+
+  const runUpdate = async (profile: Profile, update: () => Promise<Profile>, success: string) => {
+    try {
+      setSavingId(profile.user_id);
+      const updated = await update();
+      setProfiles(prev => prev.map(p => (p.user_id === updated.user_id ? updated : p)));
+      toast({ title: "Berhasil", description: success });
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      toast({
+        title: "Gagal memperbarui pengguna",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat menyimpan perubahan",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRoleChange = (profile: Profile, role: UserRole) =>
+    runUpdate(
+      profile,
+      () => UserManagementService.updateRole(profile.user_id, role),
+      `${profile.full_name} sekarang berperan sebagai ${ROLE_LABELS[role]}`
+    );
+
+  const handleVerifiedChange = (profile: Profile, isVerified: boolean) =>
+    runUpdate(
+      profile,
+      () => UserManagementService.setVerified(profile.user_id, isVerified),
+      isVerified ? `${profile.full_name} terverifikasi` : `Verifikasi ${profile.full_name} dicabut`
+    );
+
+  const handleToggleActive = (profile: Profile) => {
+    if (profile.is_active && !confirm(`Nonaktifkan akun ${profile.full_name}? Pengguna tidak dapat masuk sampai diaktifkan kembali.`)) {
+      return;
+    }
+    runUpdate(
+      profile,
+      () => UserManagementService.setActive(profile.user_id, !profile.is_active),
+      profile.is_active ? `Akun ${profile.full_name} dinonaktifkan` : `Akun ${profile.full_name} diaktifkan kembali`
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <UserCog className="w-5 h-5" />
+              Manajemen Pengguna
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Ubah peran, verifikasi ahli dan nonaktifkan akun. Peran menentukan hak akses di matriks hak akses.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Cari nama, organisasi, lokasi..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 w-64"
+              />
+            </div>
+            <Select value={roleFilter} onValueChange={setRoleFilter}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue placeholder="Semua peran" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua peran</SelectItem>
+                {USER_ROLES.map(role => (
+                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder="Semua status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Semua status</SelectItem>
+                <SelectItem value="active">Aktif</SelectItem>
+                <SelectItem value="inactive">Nonaktif</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        {loading ? (
+          <p className="text-center text-muted-foreground py-6">Memuat pengguna...</p>
+        ) : profiles.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">Tidak ada pengguna yang sesuai.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pengguna</TableHead>
+                  <TableHead>Peran</TableHead>
+                  <TableHead>Terverifikasi</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Bergabung</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => {
+                  const isSelf = profile.user_id === currentUserId;
+                  const saving = savingId === profile.user_id;
+                  return (
+                    <TableRow key={profile.user_id} className={profile.is_active ? undefined : "opacity-60"}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {profile.full_name}
+                          {isSelf && <Badge variant="outline" className="ml-2">Anda</Badge>}
+                        </div>
+                        {profile.organization && (
+                          <div className="text-xs text-muted-foreground">{profile.organization}</div>
+                        )}
+                        {(profile.expertise?.length ?? 0) > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {profile.expertise!.map(item => (
+                              <Badge key={item} variant="secondary" className="text-xs">{item}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={profile.role ?? "tourist"}
+                          onValueChange={(value) => handleRoleChange(profile, value as UserRole)}
+                          disabled={isSelf || saving}
+                        >
+                          <SelectTrigger className="w-[170px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={!!profile.is_verified}
+                          onCheckedChange={(checked) => handleVerifiedChange(profile, checked)}
+                          disabled={saving}
+                          aria-label="Verifikasi pengguna"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={profile.is_active ? "default" : "destructive"}>
+                          {profile.is_active ? "Aktif" : "Nonaktif"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(profile.created_at).toLocaleDateString('id-ID')}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="outline" size="sm" title="Kontribusi" onClick={() => setSelectedProfile(profile)}>
+                            <BarChart3 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleToggleActive(profile)}
+                            disabled={isSelf || saving}
+                          >
+                            {profile.is_active ? <UserX className="w-4 h-4 mr-1" /> : <UserCheck className="w-4 h-4 mr-1" />}
+                            {profile.is_active ? "Nonaktifkan" : "Aktifkan"}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+
+      <Dialog open={!!selectedProfile} onOpenChange={(open) => !open && setSelectedProfile(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Kontribusi {selectedProfile?.full_name}</DialogTitle>
+            <DialogDescription>
+              {selectedProfile?.role ? ROLE_LABELS[selectedProfile.role] : ""}
+              {selectedProfile?.organization && ` · ${selectedProfile.organization}`}
+            </DialogDescription>
+          </DialogHeader>
+          {!contributions ? (
+            <p className="text-sm text-muted-foreground py-4">Menghitung kontribusi...</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(CONTRIBUTION_LABELS) as (keyof UserContributions)[]).map(key => (
+                <Card key={key} className="p-3 text-center">
+                  <div className="text-2xl font-bold">{contributions[key]}</div>
+                  <div className="text-xs text-muted-foreground">{CONTRIBUTION_LABELS[key]}</div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UserManagement;
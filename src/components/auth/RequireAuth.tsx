@@ -1,66 +1,18 @@
-import React, { useEffect, useState } from "react";
+import React from "react";
 import { Navigate, useLocation } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { Permission } from "@/lib/permissions";
 
 interface Props {
   children: React.ReactNode;
   roles?: string[]; // allowed roles, e.g., ["admin"]
+  permission?: Permission; // required entry of the permission matrix
 }
 
-const RequireAuth: React.FC<Props> = ({ children, roles }) => {
+const RequireAuth: React.FC<Props> = ({ children, roles, permission }) => {
   const location = useLocation();
-  const [checkingSession, setCheckingSession] = useState(true);
-  const [isAuthed, setIsAuthed] = useState(false);
-  const [userId, setUserId] = useState<string | null>(null);
-  const [checkingRole, setCheckingRole] = useState(!!roles?.length);
-  const [roleAllowed, setRoleAllowed] = useState(!roles?.length);
-
-  // Listen for auth state changes and get initial session
-  useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_, session) => {
-      setIsAuthed(!!session?.user);
-      setUserId(session?.user?.id ?? null);
-    });
-
-    supabase.auth.getSession().then(({ data }) => {
-      const user = data.session?.user ?? null;
-      setIsAuthed(!!user);
-      setUserId(user?.id ?? null);
-      setCheckingSession(false);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
-
-  // If role restriction is provided, verify user role from profiles table
-  useEffect(() => {
-    const verifyRole = async () => {
-      if (!roles?.length) return;
-      if (!userId) {
-        setRoleAllowed(false);
-        setCheckingRole(false);
-        return;
-      }
-      try {
-        const { data, error } = await supabase
-          .from("profiles")
-          .select("role")
-          .eq("user_id", userId)
-          .single();
-        if (error || !data?.role) {
-          setRoleAllowed(false);
-        } else {
-          setRoleAllowed(roles.includes(String(data.role)));
-        }
-      } finally {
-        setCheckingRole(false);
-      }
-    };
-    verifyRole();
-  }, [roles, userId]);
-
-  const loading = checkingSession || checkingRole;
+  const { userId, role, loading, can } = usePermissions();
 
   if (loading) {
     return (
@@ -73,12 +25,15 @@ const RequireAuth: React.FC<Props> = ({ children, roles }) => {
     );
   }
 
-  if (!isAuthed) {
+  if (!userId) {
     return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
   }
 
-  if (roles?.length && !roleAllowed) {
-    // User is logged in but does not have the required role
+  const roleAllowed = !roles?.length || (!!role && roles.includes(role));
+  const permissionAllowed = !permission || can(permission);
+
+  if (!roleAllowed || !permissionAllowed) {
+    // User is logged in but does not have the required role or permission
     return <Navigate to="/" replace />;
   }
 
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Map as MapIcon } from 'lucide-react';
+import {
+  ADMINISTRATIVE_LEVEL_LABELS,
+  ADMINISTRATIVE_LEVELS,
+  AdministrativeAreasService,
+  AreaStatistic,
+  AreaStatistics,
+} from '@/services/administrative-areas.service';
+import type { AdministrativeLevel } from '@/types/administrative-areas';
+
+type ChoroplethMetric = 'siteCount' | 'meanPriority';
+
+const METRIC_LABELS: Record<ChoroplethMetric, string> = {
+  siteCount: 'Jumlah situs',
+  meanPriority: 'Rata-rata skor prioritas',
+};
+
+// Sequential yellow-orange-red, light to dark
+const CLASS_COLORS = ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'];
+const NO_DATA_COLOR = '#e5e7eb';
+
+const LOMBOK_CENTER: [number, number] = [-8.6500, 116.3241];
+
+const metricValue = (statistic: AreaStatistic, metric: ChoroplethMetric): number | null =>
+  metric === 'siteCount' ? (statistic.siteCount > 0 ? statistic.siteCount : null) : statistic.meanPriority;
+
+const formatValue = (value: number | null, metric: ChoroplethMetric) =>
+  value === null ? '-' : metric === 'siteCount' ? String(Math.round(value)) : value.toFixed(1);
+
+/**
+ * Upper bounds of equal-interval classes between the smallest and largest value
+ */
+function classBreaks(statistics: AreaStatistics | null, metric: ChoroplethMetric): number[] {
+  const values = (statistics?.areas ?? [])
+    .map(statistic => metricValue(statistic, metric))
+    .filter((value): value is number => value !== null);
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [max];
+  const step = (max - min) / CLASS_COLORS.length;
+  return CLASS_COLORS.map((_, index) => min + step * (index + 1));
+}
+
+function colorFor(value: number | null, breaks: number[]): string {
+  if (value === null || breaks.length === 0) return NO_DATA_COLOR;
+  // A single break means every area has the same value
+  if (breaks.length === 1) return CLASS_COLORS[CLASS_COLORS.length - 1];
+  const index = breaks.findIndex(limit => value <= limit + 1e-9);
+  return CLASS_COLORS[index === -1 ? CLASS_COLORS.length - 1 : index];
+}
+
+const ChoroplethMap: React.FC = () => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<L.Map | null>(null);
+  const areasLayer = useRef<L.GeoJSON | null>(null);
+
+  const [level, setLevel] = useState<AdministrativeLevel>('regency');
+  const [metric, setMetric] = useState<ChoroplethMetric>('siteCount');
+  const [statistics, setStatistics] = useState<AreaStatistics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!mapContainer.current || map.current) return;
+
+    map.current = L.map(mapContainer.current, {
+      center: LOMBOK_CENTER,
+      zoom: 9,
+      zoomControl: true,
+    });
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 18,
+    }).addTo(map.current);
+
+    return () => {
+      if (map.current) {
+        map.current.remove();
+        map.current = null;
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStatistics = async () => {
+      try {
+        setIsLoading(true);
+        setLoadError(null);
+        const data = await AdministrativeAreasService.fetchAreaStatistics(level);
+        if (!cancelled) setStatistics(data);
+      } catch (error) {
+        console.error('Error loading area statistics:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Gagal memuat statistik wilayah');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadStatistics();
+    return () => {
+      cancelled = true;
+    };
+  }, [level]);
+
+  const breaks = classBreaks(statistics, metric);
+
+  useEffect(() => {
+    if (!map.current || !statistics) return;
+
+    if (areasLayer.current) {
+      map.current.removeLayer(areasLayer.current);
+      areasLayer.current = null;
+    }
+    if (statistics.areas.length === 0) return;
+
+    const areaBreaks = classBreaks(statistics, metric);
+    const statisticById = new Map(statistics.areas.map(statistic => [statistic.area.id, statistic]));
+    const collection: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: statistics.areas.map(({ area }) => ({
+        type: 'Feature',
+        id: area.id,
+        geometry: area.geometry as unknown as GeoJSON.Geometry,
+        properties: { id: area.id },
+      })),
+    };
+
+    areasLayer.current = L.geoJSON(collection, {
+      style: (feature) => {
+        const statistic = statisticById.get(feature?.properties?.id);
+        return {
+          color: '#6b7280',
+          weight: 1,
+          fillColor: colorFor(statistic ? metricValue(statistic, metric) : null, areaBreaks),
+          fillOpacity: 0.7,
+        };
+      },
+      onEachFeature: (feature, layer) => {
+        const statistic = statisticById.get(feature.properties?.id);
+        if (!statistic) return;
+        const parent = statistic.area.parent_name ? ` (${statistic.area.parent_name})` : '';
+        layer.bindTooltip(
+          `<strong>${statistic.area.name}${parent}</strong><br/>` +
+          `${statistic.siteCount} situs · prioritas ${formatValue(statistic.meanPriority, 'meanPriority')}`,
+          { sticky: true }
+        );
+      },
+    }).addTo(map.current);
+
+    map.current.fitBounds(areasLayer.current.getBounds(), { padding: [20, 20] });
+  }, [statistics, metric]);
+
+  const ranking = [...(statistics?.areas ?? [])]
+    .sort((a, b) => (metricValue(b, metric) ?? -1) - (metricValue(a, metric) ?? -1))
+    .slice(0, 10);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MapIcon className="w-5 h-5" />
+              Peta Wilayah Administratif
+            </CardTitle>
+            <p className="text-muted-foreground text-sm">
+              Situs aktif dikelompokkan menurut batas wilayah berdasarkan koordinatnya
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={level} onValueChange={(value) => setLevel(value as AdministrativeLevel)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADMINISTRATIVE_LEVELS.map(option => (
+                  <SelectItem key={option} value={option}>{ADMINISTRATIVE_LEVEL_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={metric} onValueChange={(value) => setMetric(value as ChoroplethMetric)}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METRIC_LABELS) as ChoroplethMetric[]).map(option => (
+                  <SelectItem key={option} value={option}>{METRIC_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <div
+            ref={mapContainer}
+            className="h-[60vh] w-full rounded-lg overflow-hidden shadow-sm"
+            style={{ minHeight: '400px' }}
+          />
+
+          {isLoading && (
+            <div className="absolute inset-0 bg-background/80 flex items-center justify-center rounded-lg z-[1000]">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
+                <p className="text-sm text-muted-foreground">Memuat statistik wilayah...</p>
+              </div>
+            </div>
+          )}
+
+          {!isLoading && (loadError || statistics?.areas.length === 0) && (
+            <div className="absolute inset-0 bg-background/80 flex items-center justify-center rounded-lg z-[1000]">
+              <p className="text-sm text-muted-foreground text-center max-w-sm">
+                {loadError ?? `Belum ada batas ${ADMINISTRATIVE_LEVEL_LABELS[level]}. Impor GeoJSON melalui tab Wilayah di panel admin.`}
+              </p>
+            </div>
+          )}
+
+          {/* Legend */}
+          {breaks.length > 0 && (
+            <div className="absolute top-4 right-4 bg-background/95 backdrop-blur-sm p-3 rounded-lg shadow-sm z-[1000]">
+              <h4 className="font-semibold text-sm mb-2">{METRIC_LABELS[metric]}</h4>
+              <div className="space-y-1">
+                {breaks.map((limit, index) => (
+                  <div key={limit} className="flex items-center gap-2 text-xs">
+                    <div
+                      className="w-3 h-3 rounded-sm"
+                      style={{ backgroundColor: breaks.length === 1 ? CLASS_COLORS[CLASS_COLORS.length - 1] : CLASS_COLORS[index] }}
+                    ></div>
+                    <span>
+                      {index === 0 ? `≤ ${formatValue(limit, metric)}` : `${formatValue(breaks[index - 1], metric)} – ${formatValue(limit, metric)}`}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2 text-xs">
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: NO_DATA_COLOR }}></div>
+                  <span>Tidak ada situs</span>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {statistics && statistics.areas.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold text-sm">10 {ADMINISTRATIVE_LEVEL_LABELS[level]} teratas</h4>
+              {statistics.unassigned > 0 && (
+                <Badge variant="outline">{statistics.unassigned} situs di luar batas wilayah</Badge>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Wilayah</TableHead>
+                  <TableHead className="text-right">Jumlah Situs</TableHead>
+                  <TableHead className="text-right">Rata-rata Prioritas</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ranking.map(statistic => (
+                  <TableRow key={statistic.area.id}>
+                    <TableCell>
+                      {statistic.area.name}
+                      {statistic.area.parent_name && (
+                        <span className="text-xs text-muted-foreground"> · {statistic.area.parent_name}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{statistic.siteCount}</TableCell>
+                    <TableCell className="text-right">{formatValue(statistic.meanPriority, 'meanPriority')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChoroplethMap;
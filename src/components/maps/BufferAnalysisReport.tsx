@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Blend, Combine, Download, Droplets, Waypoints } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BufferZone, SiteProximity, SpatialAnalysisService } from '@/services/spatial-analysis.service';
+import { Database } from '@/integrations/supabase/types';
+
+type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
+type ProximityLayer = 'rivers' | 'roads';
+
+interface BufferAnalysisReportProps {
+  sites: SiteWithCategory[];
+  bufferZones: BufferZone[];
+  onAnalysisFeaturesChange?: (features: GeoJSON.Feature[]) => void;
+}
+
+const PROXIMITY_LAYER_LABELS: Record<ProximityLayer, string> = {
+  rivers: 'Sungai',
+  roads: 'Jalan',
+};
+
+const formatHectares = (squareMeters: number) => `${(squareMeters / 10000).toFixed(2)} ha`;
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const BufferAnalysisReport: React.FC<BufferAnalysisReportProps> = ({
+  sites,
+  bufferZones,
+  onAnalysisFeaturesChange
+}) => {
+  const { toast } = useToast();
+  const [showUnion, setShowUnion] = useState(false);
+  const [showIntersection, setShowIntersection] = useState(false);
+  const [selectedOverlap, setSelectedOverlap] = useState<string | null>(null);
+  const [proximityLayer, setProximityLayer] = useState<ProximityLayer>('rivers');
+  const [proximityDistance, setProximityDistance] = useState(100);
+  const [proximityResults, setProximityResults] = useState<SiteProximity[] | null>(null);
+  const [analyzingProximity, setAnalyzingProximity] = useState(false);
+
+  const union = useMemo(() => SpatialAnalysisService.unionBufferZones(bufferZones), [bufferZones]);
+  const intersection = useMemo(() => SpatialAnalysisService.intersectBufferZones(bufferZones), [bufferZones]);
+  const overlaps = useMemo(() => SpatialAnalysisService.findBufferOverlaps(bufferZones, sites), [bufferZones, sites]);
+
+  const overlapKey = (zoneA: BufferZone, zoneB: BufferZone) => `${zoneA.siteId}:${zoneB.siteId}`;
+  const totalArea = bufferZones.reduce((sum, zone) => sum + zone.area, 0);
+  const unionArea = union ? Number(union.properties?.areaSquareMeters ?? 0) : 0;
+
+  const analysisFeatures = useMemo(() => {
+    const features: GeoJSON.Feature[] = [];
+    if (showUnion && union) features.push(union);
+    if (showIntersection && intersection && bufferZones.length > 1) features.push(intersection);
+
+    const overlap = overlaps.find(item => overlapKey(item.zoneA, item.zoneB) === selectedOverlap);
+    if (overlap) features.push(SpatialAnalysisService.overlapFeature(overlap));
+
+    proximityResults?.forEach(result => features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [result.site.longitude!, result.site.latitude!] },
+      properties: {
+        kind: 'proximity',
+        siteName: result.site.name,
+        distance: result.distance,
+        featureName: result.featureName
+      }
+    }));
+
+    return features;
+  }, [showUnion, union, showIntersection, intersection, bufferZones.length, overlaps, selectedOverlap, proximityResults]);
+
+  useEffect(() => {
+    onAnalysisFeaturesChange?.(analysisFeatures);
+  }, [analysisFeatures, onAnalysisFeaturesChange]);
+
+  const handleExport = () => {
+    const results: GeoJSON.Feature[] = [
+      ...(union ? [union] : []),
+      ...(intersection && bufferZones.length > 1 ? [intersection] : []),
+      ...overlaps.map(overlap => SpatialAnalysisService.overlapFeature(overlap)),
+    ];
+    const collection = SpatialAnalysisService.exportBufferAnalysis(bufferZones, results);
+
+    const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/geo+json' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `buffer-analysis-${new Date().toISOString().split('T')[0]}.geojson`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleProximityAnalysis = async () => {
+    try {
+      setAnalyzingProximity(true);
+      const results = await SpatialAnalysisService.findSitesNearOverlay(sites, proximityLayer, proximityDistance);
+      setProximityResults(results);
+    } catch (error) {
+      console.error('Error analysing site proximity:', error);
+      toast({
+        title: "Analisis kedekatan gagal",
+        description: error instanceof Error ? error.message : "Data jalan atau sungai tidak dapat dimuat",
+        variant: "destructive",
+      });
+    } finally {
+      setAnalyzingProximity(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Waypoints className="w-5 h-5" />
+            Laporan Buffer
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={showUnion ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowUnion(prev => !prev)}
+              disabled={!union}
+            >
+              <Combine className="w-4 h-4 mr-2" />
+              Gabungan
+            </Button>
+            <Button
+              variant={showIntersection ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowIntersection(prev => !prev)}
+              disabled={!intersection || bufferZones.length < 2}
+            >
+              <Blend className="w-4 h-4 mr-2" />
+              Irisan
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={bufferZones.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export GeoJSON
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {bufferZones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Pilih situs pada panel analisis spasial untuk membuat zona buffer.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div className="bg-muted/50 rounded p-3 text-center">
+                <div className="font-semibold">{bufferZones.length}</div>
+                <div className="text-xs text-muted-foreground">Zona buffer</div>
+              </div>
+              <div className="bg-muted/50 rounded p-3 text-center">
+                <div className="font-semibold">{formatHectares(unionArea)}</div>
+                <div className="text-xs text-muted-foreground">Luas gabungan</div>
+              </div>
+              <div className="bg-muted/50 rounded p-3 text-center">
+                <div className="font-semibold">{formatHectares(Math.max(0, totalArea - unionArea))}</div>
+                <div className="text-xs text-muted-foreground">Luas tumpang tindih</div>
+              </div>
+              <div className="bg-muted/50 rounded p-3 text-center">
+                <div className="font-semibold">
+                  {intersection && bufferZones.length > 1 ? formatHectares(Number(intersection.properties?.areaSquareMeters ?? 0)) : '-'}
+                </div>
+                <div className="text-xs text-muted-foreground">Irisan semua zona</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Zona yang tumpang tindih ({overlaps.length})</h4>
+              {overlaps.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Tidak ada zona buffer yang saling tumpang tindih.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Zona A</TableHead>
+                      <TableHead>Zona B</TableHead>
+                      <TableHead className="text-right">Luas</TableHead>
+                      <TableHead className="text-right">% A</TableHead>
+                      <TableHead className="text-right">% B</TableHead>
+                      <TableHead className="text-right">Situs</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overlaps.map(overlap => {
+                      const key = overlapKey(overlap.zoneA, overlap.zoneB);
+                      return (
+                        <TableRow
+                          key={key}
+                          className={`cursor-pointer ${selectedOverlap === key ? 'bg-muted' : ''}`}
+                          onClick={() => setSelectedOverlap(prev => prev === key ? null : key)}
+                        >
+                          <TableCell>{overlap.zoneA.siteName}</TableCell>
+                          <TableCell>{overlap.zoneB.siteName}</TableCell>
+                          <TableCell className="text-right">{formatHectares(overlap.area)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(overlap.shareOfA)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(overlap.shareOfB)}</TableCell>
+                          <TableCell className="text-right">{overlap.siteIds.length}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <h4 className="font-semibold text-sm flex items-center gap-2">
+              <Droplets className="w-4 h-4" />
+              Situs di dekat jalan atau sungai
+            </h4>
+            <p className="text-xs text-muted-foreground">
+              Misalnya situs dalam 100 m dari sungai untuk penilaian risiko banjir.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Lapisan</Label>
+              <Select value={proximityLayer} onValueChange={(value) => setProximityLayer(value as ProximityLayer)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROXIMITY_LAYER_LABELS) as ProximityLayer[]).map(layer => (
+                    <SelectItem key={layer} value={layer}>{PROXIMITY_LAYER_LABELS[layer]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Jarak maksimum (m)</Label>
+              <Input
+                type="number"
+                min={10}
+                max={5000}
+                step={10}
+                value={proximityDistance}
+                onChange={(event) => setProximityDistance(Math.max(10, Number(event.target.value) || 0))}
+                className="w-32"
+              />
+            </div>
+            <Button size="sm" onClick={handleProximityAnalysis} disabled={analyzingProximity || sites.length === 0}>
+              {analyzingProximity ? 'Menganalisis...' : 'Analisis'}
+            </Button>
+            {proximityResults && (
+              <Button variant="ghost" size="sm" onClick={() => setProximityResults(null)}>
+                Bersihkan
+              </Button>
+            )}
+          </div>
+
+          {proximityResults && (
+            proximityResults.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Tidak ada situs dalam {proximityDistance} m dari {PROXIMITY_LAYER_LABELS[proximityLayer].toLowerCase()}.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Badge variant="secondary">{proximityResults.length} situs</Badge>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Situs</TableHead>
+                      <TableHead className="text-right">Jarak</TableHead>
+                      <TableHead>Fitur terdekat</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {proximityResults.map(result => (
+                      <TableRow key={result.site.id}>
+                        <TableCell>{result.site.name}</TableCell>
+                        <TableCell className="text-right">{Math.round(result.distance)} m</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {result.featureName ?? 'Tanpa nama'}{result.featureKind && ` (${result.featureKind})`}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BufferAnalysisReport;
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Group } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ClusterHullType,
+  ClusteringMethod,
+  ClusteringOptions,
+  ClusteringResult,
+  SpatialAnalysisService,
+  SpatialCluster,
+} from '@/services/spatial-analysis.service';
+import type { Linkage } from '@/lib/spatial-clustering';
+import { Database } from '@/integrations/supabase/types';
+
+type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
+
+interface ClusterAnalysisPanelProps {
+  sites: SiteWithCategory[];
+  onClustersChange?: (clusters: SpatialCluster[]) => void;
+}
+
+const METHOD_LABELS: Record<ClusteringMethod, string> = {
+  dbscan: 'DBSCAN (kepadatan)',
+  kmeans: 'K-means',
+  hierarchical: 'Hierarkis',
+};
+
+const LINKAGE_LABELS: Record<Linkage, string> = {
+  single: 'Single',
+  complete: 'Complete',
+  average: 'Average',
+};
+
+const HULL_LABELS: Record<ClusterHullType, string> = {
+  convex: 'Cembung (convex)',
+  concave: 'Cekung (concave)',
+};
+
+const sortedCounts = (counts: Record<string, number>) =>
+  Object.entries(counts).sort(([, a], [, b]) => b - a);
+
+const ClusterAnalysisPanel: React.FC<ClusterAnalysisPanelProps> = ({
+  sites,
+  onClustersChange
+}) => {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<ClusteringMethod>('dbscan');
+  const [eps, setEps] = useState(2000);
+  const [minPoints, setMinPoints] = useState(2);
+  const [k, setK] = useState(5);
+  const [distance, setDistance] = useState(3000);
+  const [linkage, setLinkage] = useState<Linkage>('average');
+  const [hull, setHull] = useState<ClusterHullType>('convex');
+  const [result, setResult] = useState<ClusteringResult | null>(null);
+
+  useEffect(() => {
+    onClustersChange?.(result?.clusters ?? []);
+  }, [result, onClustersChange]);
+
+  // Results no longer match once the site list changes
+  useEffect(() => {
+    setResult(null);
+  }, [sites]);
+
+  const handleRun = () => {
+    const options: ClusteringOptions = method === 'dbscan'
+      ? { method, eps, minPoints, hull }
+      : method === 'kmeans'
+        ? { method, k, hull }
+        : { method, distance, linkage, hull };
+
+    try {
+      setResult(SpatialAnalysisService.clusterSites(sites, options));
+    } catch (error) {
+      console.error('Error clustering sites:', error);
+      toast({
+        title: "Analisis klaster gagal",
+        description: error instanceof Error ? error.message : "Parameter klaster tidak valid",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const numberInput = (label: string, value: number, onChange: (value: number) => void, min: number, step = 1) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Math.max(min, Number(event.target.value) || 0))}
+        className="w-32"
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Group className="w-5 h-5" />
+          Analisis Klaster
+        </CardTitle>
+        <p className="text-muted-foreground text-sm">
+          Kelompokkan situs berdasarkan jarak dan tampilkan batas tiap klaster pada peta
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Metode</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as ClusteringMethod)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METHOD_LABELS) as ClusteringMethod[]).map(option => (
+                  <SelectItem key={option} value={option}>{METHOD_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {method === 'dbscan' && (
+            <>
+              {numberInput('Radius eps (m)', eps, setEps, 50, 50)}
+              {numberInput('Minimum situs', minPoints, setMinPoints, 1)}
+            </>
+          )}
+          {method === 'kmeans' && numberInput('Jumlah klaster (k)', k, setK, 1)}
+          {method === 'hierarchical' && (
+            <>
+              {numberInput('Jarak potong (m)', distance, setDistance, 50, 50)}
+              <div className="space-y-1">
+                <Label className="text-xs">Linkage</Label>
+                <Select value={linkage} onValueChange={(value) => setLinkage(value as Linkage)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LINKAGE_LABELS) as Linkage[]).map(option => (
+                      <SelectItem key={option} value={option}>{LINKAGE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Batas klaster</Label>
+            <Select value={hull} onValueChange={(value) => setHull(value as ClusterHullType)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(HULL_LABELS) as ClusterHullType[]).map(option => (
+                  <SelectItem key={option} value={option}>{HULL_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button size="sm" onClick={handleRun} disabled={sites.length === 0}>
+            Jalankan
+          </Button>
+          {result && (
+            <Button variant="ghost" size="sm" onClick={() => setResult(null)}>
+              Bersihkan
+            </Button>
+          )}
+        </div>
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold text-sm">{result.clusters.length} klaster ditemukan</h4>
+              {result.noise.length > 0 && (
+                <Badge variant="outline">{result.noise.length} situs di luar klaster</Badge>
+              )}
+            </div>
+            {result.clusters.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Tidak ada klaster dengan parameter ini.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Klaster</TableHead>
+                    <TableHead className="text-right">Situs</TableHead>
+                    <TableHead className="text-right">Luas</TableHead>
+                    <TableHead className="text-right">Kepadatan</TableHead>
+                    <TableHead>Kategori</TableHead>
+                    <TableHead>Status Pelestarian</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.clusters.map((cluster, index) => (
+                    <TableRow key={cluster.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: cluster.color }}></div>
+                          <span>Klaster {index + 1}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{cluster.siteCount}</TableCell>
+                      <TableCell className="text-right">
+                        {cluster.hull ? `${(cluster.area / 1_000_000).toFixed(2)} km²` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {cluster.hull ? `${cluster.density.toFixed(1)}/km²` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {sortedCounts(cluster.byCategory).map(([category, count]) => (
+                            <Badge key={category} variant="secondary">{category} · {count}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {sortedCounts(cluster.byPreservationStatus).map(([status, count]) => (
+                            <Badge key={status} variant="outline" className="capitalize">
+                              {status.replace(/_/g, ' ')} · {count}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClusterAnalysisPanel;
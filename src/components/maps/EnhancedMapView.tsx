@@ -7,7 +7,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { MapPin, Layers, Route as RouteIcon, Target } from 'lucide-react';
 import type { Json } from '@/integrations/supabase/types';
-import { SpatialAnalysisService, BufferZone, SpatialOverlay } from '@/services/spatial-analysis.service';
+import { SpatialAnalysisService, BufferZone, SiteHotSpot, SpatialCluster, SpatialOverlay } from '@/services/spatial-analysis.service';
+import type { DensityGrid } from '@/lib/spatial-statistics';
 import { Database } from '@/integrations/supabase/types';
 
 // Fix Leaflet default markers
@@ -38,6 +39,168 @@ declare module 'leaflet' {
 
 type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
 
+const ROAD_COLOR = '#4b5563';
+const RIVER_COLOR = '#0066cc';
+const VILLAGE_COLOR = '#8B4513';
+
+const ROAD_WEIGHTS: Record<string, number> = {
+  motorway: 5, trunk: 5, primary: 4, secondary: 3.5, tertiary: 3,
+  unclassified: 2, residential: 2, living_street: 1.5, service: 1.5, track: 1.5,
+};
+
+const RIVER_WEIGHTS: Record<string, number> = { river: 4, canal: 3, stream: 2, drain: 1.5 };
+
+const OVERLAY_KIND_LABELS: Record<string, string> = {
+  motorway: 'Jalan tol', trunk: 'Jalan arteri', primary: 'Jalan primer', secondary: 'Jalan sekunder',
+  tertiary: 'Jalan tersier', unclassified: 'Jalan lokal', residential: 'Jalan permukiman',
+  living_street: 'Jalan lingkungan', service: 'Jalan akses', track: 'Jalan tanah',
+  river: 'Sungai', stream: 'Anak sungai', canal: 'Kanal', drain: 'Saluran',
+  village: 'Desa', town: 'Kota kecil', hamlet: 'Dusun', boundary: 'Batas desa/kelurahan',
+};
+
+const ANALYSIS_STYLES: Record<string, L.PathOptions> = {
+  union: { color: '#7c3aed', weight: 3, dashArray: '6, 4', fillColor: '#7c3aed', fillOpacity: 0.1 },
+  intersection: { color: '#dc2626', weight: 2, fillColor: '#dc2626', fillOpacity: 0.4 },
+  overlap: { color: '#ea580c', weight: 2, fillColor: '#ea580c', fillOpacity: 0.35 },
+  proximity: { color: '#dc2626', weight: 3, fillOpacity: 0 },
+};
+
+const ANALYSIS_LABELS: Record<string, string> = {
+  union: 'Buffer Union',
+  intersection: 'Buffer Intersection',
+  overlap: 'Buffer Overlap',
+  proximity: 'Near Feature',
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([label, count]) => `${escapeHtml(label.replace(/_/g, ' '))} (${count})`)
+    .join(', ');
+
+// Getis-Ord Gi* classes by confidence, cold (negative) to hot (positive)
+const HOT_SPOT_COLORS: Record<number, string> = {
+  [-99]: '#4575b5', [-95]: '#849eba', [-90]: '#c0ccbe',
+  0: '#d1d5db',
+  90: '#fab984', 95: '#ed7551', 99: '#d62f27',
+};
+
+const LISA_LABELS: Record<string, string> = {
+  'high-high': 'High-High cluster',
+  'low-low': 'Low-Low cluster',
+  'high-low': 'High-Low outlier',
+  'low-high': 'Low-High outlier',
+};
+
+// Yellow to dark red ramp for the density raster, [r, g, b] at 0..1
+const DENSITY_RAMP: [number, number, number][] = [[255, 255, 178], [254, 204, 92], [253, 141, 60], [240, 59, 32], [189, 0, 38]];
+
+function densityColor(share: number): [number, number, number] {
+  const position = Math.min(1, share) * (DENSITY_RAMP.length - 1);
+  const index = Math.min(DENSITY_RAMP.length - 2, Math.floor(position));
+  const t = position - index;
+  const [from, to] = [DENSITY_RAMP[index], DENSITY_RAMP[index + 1]];
+  return [0, 1, 2].map(channel => Math.round(from[channel] + t * (to[channel] - from[channel]))) as [number, number, number];
+}
+
+/**
+ * Render a density grid as a PNG data URL; cells below 2% of the maximum
+ * stay transparent so the base map shows through
+ */
+function densityImage(grid: DensityGrid): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.columns;
+  canvas.height = grid.rows;
+  const context = canvas.getContext('2d');
+  if (!context || grid.max === 0) return canvas.toDataURL();
+
+  const image = context.createImageData(grid.columns, grid.rows);
+  grid.values.forEach((value, index) => {
+    const share = value / grid.max;
+    if (share < 0.02) return;
+    const [r, g, b] = densityColor(share);
+    image.data.set([r, g, b, Math.round(120 + 135 * share)], index * 4);
+  });
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL();
+}
+
+function hotSpotPopup(hotSpot: SiteHotSpot): string {
+  const level = Math.abs(hotSpot.confidence);
+  const classification = level === 0 ? 'Not significant' : `${hotSpot.confidence > 0 ? 'Hot' : 'Cold'} spot (${level}% confidence)`;
+  return `
+    <div class="p-2">
+      <h3 class="font-semibold">${escapeHtml(hotSpot.site.name)}</h3>
+      <p class="text-sm text-muted-foreground">Value: ${hotSpot.value}</p>
+      <p class="text-sm"><strong>Gi*:</strong> z = ${hotSpot.giZScore.toFixed(2)} · ${classification}</p>
+      <p class="text-sm"><strong>Local Moran's I:</strong> ${hotSpot.localMoran.moranI.toFixed(3)} · ${hotSpot.lisaCluster ? LISA_LABELS[hotSpot.lisaCluster] : 'Not significant'}</p>
+    </div>
+  `;
+}
+
+function clusterPopup(cluster: SpatialCluster, index: number): string {
+  const area = cluster.hull ? `${(cluster.area / 1_000_000).toFixed(2)} km² · ${cluster.density.toFixed(1)} sites/km²` : 'No outline (fewer than 3 locations)';
+  return `
+    <div class="p-2">
+      <h3 class="font-semibold">Cluster ${index + 1}: ${cluster.siteCount} sites</h3>
+      <p class="text-sm text-muted-foreground">${area}</p>
+      <p class="text-sm mt-1"><strong>Categories:</strong> ${formatCounts(cluster.byCategory)}</p>
+      <p class="text-sm"><strong>Preservation:</strong> ${formatCounts(cluster.byPreservationStatus)}</p>
+    </div>
+  `;
+}
+
+function overlayStyle(overlay: SpatialOverlay, feature?: GeoJSON.Feature): L.PathOptions {
+  const kind = String(feature?.properties?.kind ?? '').replace(/_link$/, '');
+  switch (overlay.type) {
+    case 'roads':
+      return {
+        color: ROAD_COLOR,
+        weight: ROAD_WEIGHTS[kind] ?? 2,
+        opacity: overlay.opacity,
+        dashArray: kind === 'track' ? '4, 4' : undefined,
+      };
+    case 'rivers':
+      return { color: RIVER_COLOR, weight: RIVER_WEIGHTS[kind] ?? 2, opacity: overlay.opacity };
+    case 'villages':
+      return {
+        color: VILLAGE_COLOR,
+        weight: 1.5,
+        opacity: overlay.opacity,
+        fillColor: VILLAGE_COLOR,
+        fillOpacity: overlay.opacity * 0.15,
+      };
+    default:
+      return { color: '#7c3aed', weight: 2, opacity: overlay.opacity };
+  }
+}
+
+function overlayPopup(overlay: SpatialOverlay, feature: GeoJSON.Feature): string {
+  const properties = feature.properties ?? {};
+  const kind = String(properties.kind ?? '');
+  const title = properties.name ?? properties['name:id'] ?? `${overlay.name} tanpa nama`;
+  const rows: [string, unknown][] = [
+    ['Jenis', OVERLAY_KIND_LABELS[kind.replace(/_link$/, '')] ?? kind],
+    ['Nomor', properties.ref],
+    ['Permukaan', properties.surface],
+    ['Penduduk', properties.population],
+    ['OSM', properties.osm_id],
+  ];
+
+  return `
+    <div class="p-1">
+      <h4 class="font-semibold text-sm mb-1">${escapeHtml(title)}</h4>
+      ${rows
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([label, value]) => `<div class="text-xs"><span class="text-gray-500">${label}:</span> ${escapeHtml(value)}</div>`)
+        .join('')}
+    </div>
+  `;
+}
+
 interface RouteWithSites {
   id: string;
   name: string;
@@ -65,6 +228,11 @@ interface EnhancedMapViewProps {
   bufferZones?: BufferZone[];
   overlays?: SpatialOverlay[];
   generatedRoute?: [number, number][];
+  // Union, intersection, overlap and proximity results of the buffer analysis
+  analysisFeatures?: GeoJSON.Feature[];
+  clusters?: SpatialCluster[];
+  hotSpots?: SiteHotSpot[];
+  densitySurface?: DensityGrid | null;
   className?: string;
 }
 
@@ -76,14 +244,24 @@ const EnhancedMapView: React.FC<EnhancedMapViewProps> = ({
   bufferZones = [],
   overlays = [],
   generatedRoute = [],
+  analysisFeatures = [],
+  clusters = [],
+  hotSpots = [],
+  densitySurface = null,
   className
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<L.Map | null>(null);
   const markers = useRef<L.Marker[]>([]);
   const routeLayers = useRef<L.Polyline[]>([]);
-  const bufferLayers = useRef<L.Circle[]>([]);
-  const overlayLayers = useRef<L.LayerGroup[]>([]);
+  const bufferLayers = useRef<L.Polygon[]>([]);
+  const analysisLayer = useRef<L.GeoJSON | null>(null);
+  const clusterLayers = useRef<L.Layer[]>([]);
+  const hotSpotLayers = useRef<L.CircleMarker[]>([]);
+  const densityLayer = useRef<L.ImageOverlay | null>(null);
+  const overlayLayers = useRef<L.GeoJSON[]>([]);
+  // Canvas keeps thousands of road and river segments responsive
+  const overlayRenderer = useRef<L.Canvas>(L.canvas({ padding: 0.5 }));
   const generatedRouteLayer = useRef<L.Polyline | null>(null);
 
   // Lombok center coordinates
@@ -138,19 +316,19 @@ const EnhancedMapView: React.FC<EnhancedMapViewProps> = ({
 
     // Add new buffer zones
     bufferZones.forEach(zone => {
-      const bufferLayer = L.circle(zone.center, {
+      const ring = zone.polygon.coordinates[0].map(([lng, lat]) => [lat, lng] as [number, number]);
+      const bufferLayer = L.polygon(ring, {
         color: zone.color,
         fillColor: zone.color,
         fillOpacity: 0.2,
-        weight: 2,
-        radius: zone.radius
+        weight: 2
       }).addTo(map.current!);
 
       // Add popup to buffer zone
       bufferLayer.bindPopup(`
         <div class="p-2">
           <h3 class="font-semibold">${zone.siteName}</h3>
-          <p class="text-sm text-muted-foreground">Buffer Zone: ${zone.radius}m radius</p>
+          <p class="text-sm text-muted-foreground">Buffer Zone: ${zone.radius}m radius, ${(zone.area / 10000).toFixed(1)} ha</p>
         </div>
       `);
 
@@ -158,6 +336,90 @@ const EnhancedMapView: React.FC<EnhancedMapViewProps> = ({
     });
   }, [bufferZones]);
 
+  // Update buffer analysis results
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (analysisLayer.current) {
+      map.current.removeLayer(analysisLayer.current);
+      analysisLayer.current = null;
+    }
+    if (analysisFeatures.length === 0) return;
+
+    analysisLayer.current = L.geoJSON({ type: 'FeatureCollection', features: analysisFeatures } as GeoJSON.FeatureCollection, {
+      style: (feature) => ANALYSIS_STYLES[feature?.properties?.kind] ?? ANALYSIS_STYLES.overlap,
+      pointToLayer: (_feature, latlng) => L.circleMarker(latlng, { ...ANALYSIS_STYLES.proximity, radius: 10 }),
+      onEachFeature: (feature, layer) => {
+        const properties = feature.properties ?? {};
+        const title = ANALYSIS_LABELS[properties.kind] ?? 'Analysis';
+        const detail = properties.kind === 'proximity'
+          ? `${escapeHtml(properties.siteName)}: ${Math.round(properties.distance)} m${properties.featureName ? ` to ${escapeHtml(properties.featureName)}` : ''}`
+          : `${(properties.areaSquareMeters / 10000).toFixed(2)} ha · ${escapeHtml((properties.siteNames ?? []).join(', '))}`;
+        layer.bindPopup(`
+          <div class="p-2">
+            <h3 class="font-semibold">${title}</h3>
+            <p class="text-sm text-muted-foreground">${detail}</p>
+          </div>
+        `);
+      },
+    }).addTo(map.current);
+  }, [analysisFeatures]);
+
+  // Update cluster outlines
+  useEffect(() => {
+    if (!map.current) return;
+
+    clusterLayers.current.forEach(layer => map.current?.removeLayer(layer));
+    clusterLayers.current = [];
+
+    clusters.forEach((cluster, index) => {
+      const style: L.PathOptions = { color: cluster.color, weight: 2, fillColor: cluster.color, fillOpacity: 0.15 };
+      // Clusters of one or two locations have no area; mark their centre instead
+      const layer = cluster.hull
+        ? L.geoJSON(cluster.hull, { style })
+        : L.circleMarker(cluster.center, { ...style, radius: 14, dashArray: '4, 4' });
+      layer.bindPopup(clusterPopup(cluster, index)).addTo(map.current!);
+      clusterLayers.current.push(layer);
+    });
+  }, [clusters]);
+
+  // Update Getis-Ord Gi* hot spots
+  useEffect(() => {
+    if (!map.current) return;
+
+    hotSpotLayers.current.forEach(layer => map.current?.removeLayer(layer));
+    hotSpotLayers.current = hotSpots.map(hotSpot => {
+      const color = HOT_SPOT_COLORS[hotSpot.confidence];
+      return L.circleMarker([hotSpot.site.latitude!, hotSpot.site.longitude!], {
+        radius: 9,
+        color: '#374151',
+        weight: 1,
+        fillColor: color,
+        fillOpacity: 0.9,
+      })
+        .bindPopup(hotSpotPopup(hotSpot))
+        .addTo(map.current!);
+    });
+  }, [hotSpots]);
+
+  // Update kernel density raster
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (densityLayer.current) {
+      map.current.removeLayer(densityLayer.current);
+      densityLayer.current = null;
+    }
+    if (!densitySurface) return;
+
+    // The grid is regular in degrees; over Lombok the Mercator stretch between its edges is negligible
+    densityLayer.current = L.imageOverlay(
+      densityImage(densitySurface),
+      [[densitySurface.south, densitySurface.west], [densitySurface.north, densitySurface.east]],
+      { opacity: 0.75 }
+    ).addTo(map.current);
+  }, [densitySurface]);
+
   // Update overlays
   useEffect(() => {
     if (!map.current) return;
@@ -172,46 +434,22 @@ const EnhancedMapView: React.FC<EnhancedMapViewProps> = ({
     overlays.forEach(overlay => {
       if (!overlay.visible) return;
 
-      const overlayGroup = L.layerGroup();
-
-      // For now, add placeholder overlays
-      // In production, this would parse actual GeoJSON data
-      if (overlay.type === 'roads') {
-        // Add road-like lines as placeholders
-        const roadLine = L.polyline([
-          [LOMBOK_CENTER[0] - 0.1, LOMBOK_CENTER[1] - 0.1],
-          [LOMBOK_CENTER[0] + 0.1, LOMBOK_CENTER[1] + 0.1]
-        ], {
-          color: '#666',
-          weight: 3,
-          opacity: overlay.opacity
-        });
-        overlayGroup.addLayer(roadLine);
-      } else if (overlay.type === 'rivers') {
-        // Add river-like lines as placeholders
-        const riverLine = L.polyline([
-          [LOMBOK_CENTER[0] - 0.05, LOMBOK_CENTER[1] - 0.15],
-          [LOMBOK_CENTER[0] + 0.05, LOMBOK_CENTER[1] + 0.15]
-        ], {
-          color: '#0066cc',
-          weight: 4,
-          opacity: overlay.opacity
-        });
-        overlayGroup.addLayer(riverLine);
-      } else if (overlay.type === 'villages') {
-        // Add village markers as placeholders
-        const villageMarker = L.marker([LOMBOK_CENTER[0] + 0.02, LOMBOK_CENTER[1] + 0.02], {
-          icon: L.divIcon({
-            className: 'village-marker',
-            html: '<div style="background-color: #8B4513; width: 8px; height: 8px; border-radius: 50%; border: 1px solid white;"></div>',
-            iconSize: [8, 8],
-            iconAnchor: [4, 4]
-          })
-        });
-        overlayGroup.addLayer(villageMarker);
-      }
+      const overlayGroup = L.geoJSON(overlay.data, {
+        renderer: overlayRenderer.current,
+        style: (feature) => overlayStyle(overlay, feature),
+        pointToLayer: (feature, latlng) => L.circleMarker(latlng, {
+          ...overlayStyle(overlay, feature),
+          radius: 4,
+          fillOpacity: overlay.opacity,
+        }),
+        onEachFeature: (feature, layer) => {
+          layer.bindPopup(overlayPopup(overlay, feature), { maxWidth: 260 });
+        },
+      } as L.GeoJSONOptions);
 
       overlayGroup.addTo(map.current!);
+      // Village areas stay underneath roads and rivers
+      if (overlay.type === 'villages') overlayGroup.bringToBack();
       overlayLayers.current.push(overlayGroup);
     });
   }, [overlays]);
@@ -404,7 +642,7 @@ const EnhancedMapView: React.FC<EnhancedMapViewProps> = ({
     // Add route layers (polylines have getBounds)
     boundsLayers.push(...routeLayers.current);
 
-    // Add buffer layers (circles have getBounds)
+    // Add buffer layers (polygons have getBounds)
     boundsLayers.push(...bufferLayers.current);
 
     // Add generated route (polyline has getBounds)
@@ -485,6 +723,35 @@ const EnhancedMapView: React.FC<EnhancedMapViewProps> = ({
             <div className="w-3 h-3 bg-gray-600 rounded-full"></div>
             <span>Roads</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 border-2 rounded-sm" style={{ borderColor: VILLAGE_COLOR }}></div>
+            <span>Villages</span>
+          </div>
+          {clusters.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 border-2 rounded-sm" style={{ borderColor: clusters[0].color, backgroundColor: `${clusters[0].color}26` }}></div>
+              <span>Clusters ({clusters.length})</span>
+            </div>
+          )}
+          {hotSpots.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="flex">
+                {[-99, -95, -90, 0, 90, 95, 99].map(level => (
+                  <div key={level} className="w-2 h-3" style={{ backgroundColor: HOT_SPOT_COLORS[level] }}></div>
+                ))}
+              </div>
+              <span>Cold – Hot Spots (Gi*)</span>
+            </div>
+          )}
+          {densitySurface && (
+            <div className="flex items-center gap-2">
+              <div
+                className="w-12 h-3 rounded-sm"
+                style={{ background: `linear-gradient(to right, ${DENSITY_RAMP.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})` }}
+              ></div>
+              <span>Density (max {densitySurface.max.toFixed(1)} sites/km²)</span>
+            </div>
+          )}
         </div>
       </Card>
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import L from 'leaflet';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,7 +16,15 @@ import {
   Target,
   Navigation
 } from 'lucide-react';
-import { SpatialAnalysisService, BufferZone, SpatialOverlay, RoutePoint } from '@/services/spatial-analysis.service';
+import {
+  SpatialAnalysisService,
+  BufferZone,
+  SpatialOverlay,
+  RoutePoint,
+  SiteHotSpot,
+  StatisticAttribute
+} from '@/services/spatial-analysis.service';
+import type { DensityGrid } from '@/lib/spatial-statistics';
 import { CulturalSitesService } from '@/services/cultural-sites.service';
 import { Database } from '@/integrations/supabase/types';
 
@@ -27,13 +35,28 @@ interface SpatialAnalysisPanelProps {
   onBufferZonesChange?: (bufferZones: BufferZone[]) => void;
   onOverlaysChange?: (overlays: SpatialOverlay[]) => void;
   onRouteGenerated?: (route: [number, number][]) => void;
+  onHotSpotsChange?: (hotSpots: SiteHotSpot[]) => void;
+  onDensitySurfaceChange?: (surface: DensityGrid | null) => void;
 }
 
+const ATTRIBUTE_LABELS: Record<StatisticAttribute, string> = {
+  cultural_significance_score: 'Significance Score',
+  preservation_status: 'Preservation Status',
+};
+
+// Interpretation of a z-score at the 5% level
+const patternLabel = (zScore: number, positive: string, negative: string) =>
+  Math.abs(zScore) < 1.96 ? 'Random' : zScore > 0 ? positive : negative;
+
+const formatP = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
 const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
   sites,
   onBufferZonesChange,
   onOverlaysChange,
-  onRouteGenerated
+  onRouteGenerated,
+  onHotSpotsChange,
+  onDensitySurfaceChange
 }) => {
   const [bufferRadius, setBufferRadius] = useState([500]); // meters
   const [selectedSites, setSelectedSites] = useState<string[]>([]);
@@ -41,6 +64,33 @@ const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
   const [overlays, setOverlays] = useState<SpatialOverlay[]>([]);
   const [routePoints, setRoutePoints] = useState<RoutePoint[]>([]);
   const [isGeneratingRoute, setIsGeneratingRoute] = useState(false);
+  const [statisticAttribute, setStatisticAttribute] = useState<StatisticAttribute>('cultural_significance_score');
+  const [showHotSpots, setShowHotSpots] = useState(false);
+  const [showDensity, setShowDensity] = useState(false);
+  // null uses the rule-of-thumb bandwidth
+  const [densityBandwidth, setDensityBandwidth] = useState<number | null>(null);
+
+  const spatialStats = useMemo(() => SpatialAnalysisService.calculateSpatialStats(sites), [sites]);
+  const autocorrelation = useMemo(
+    () => SpatialAnalysisService.analyzeAutocorrelation(sites, statisticAttribute),
+    [sites, statisticAttribute]
+  );
+  const densitySurface = useMemo(
+    () => (showDensity ? SpatialAnalysisService.calculateKernelDensity(sites, densityBandwidth ?? undefined) : null),
+    [sites, showDensity, densityBandwidth]
+  );
+  const hotSpotCounts = {
+    hot: autocorrelation?.sites.filter(hotSpot => hotSpot.confidence >= 95).length ?? 0,
+    cold: autocorrelation?.sites.filter(hotSpot => hotSpot.confidence <= -95).length ?? 0,
+  };
+
+  useEffect(() => {
+    onHotSpotsChange?.(showHotSpots && autocorrelation ? autocorrelation.sites : []);
+  }, [showHotSpots, autocorrelation, onHotSpotsChange]);
+
+  useEffect(() => {
+    onDensitySurfaceChange?.(densitySurface);
+  }, [densitySurface, onDensitySurfaceChange]);
 
   // Initialize overlays
   useEffect(() => {
@@ -227,6 +277,11 @@ const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
                     onCheckedChange={(checked) => handleOverlayToggle(overlay.id, checked)}
                   />
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  {overlay.source
+                    ? `${overlay.data.features.length} features from ${overlay.source}`
+                    : 'No extract found in data/overlays'}
+                </p>
                 {overlay.visible && (
                   <div className="space-y-1">
                     <Label className="text-xs">Opacity: {Math.round(overlay.opacity * 100)}%</Label>
@@ -329,6 +384,110 @@ const SpatialAnalysisPanel: React.FC<SpatialAnalysisPanelProps> = ({
               <div className="font-medium">{overlays.filter(o => o.visible).length}</div>
               <div className="text-xs text-muted-foreground">Active Overlays</div>
             </div>
+            <div className="bg-muted/50 rounded p-2 text-center">
+              <div className="font-medium">{(spatialStats.averageDistance / 1000).toFixed(1)} km</div>
+              <div className="text-xs text-muted-foreground">Avg. Distance to Centre</div>
+            </div>
+            <div className="bg-muted/50 rounded p-2 text-center">
+              <div className="font-medium">{spatialStats.density.toFixed(2)}/km²</div>
+              <div className="text-xs text-muted-foreground">Density (Convex Hull)</div>
+            </div>
+          </div>
+
+          {/* Average nearest neighbour */}
+          <div className="space-y-1 text-sm">
+            <Label className="text-sm">Nearest Neighbour Index</Label>
+            {spatialStats.nearestNeighbour ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <span>Ratio {spatialStats.nearestNeighbour.ratio.toFixed(2)}</span>
+                  <Badge variant="secondary">
+                    {patternLabel(spatialStats.nearestNeighbour.zScore, 'Dispersed', 'Clustered')}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  z = {spatialStats.nearestNeighbour.zScore.toFixed(2)}, p {formatP(spatialStats.nearestNeighbour.pValue)} ·
+                  observed {Math.round(spatialStats.nearestNeighbour.observedMeanDistance)} m,
+                  expected {Math.round(spatialStats.nearestNeighbour.expectedMeanDistance)} m
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">Needs at least three sites spanning an area</p>
+            )}
+          </div>
+
+          {/* Spatial autocorrelation */}
+          <div className="space-y-2 text-sm">
+            <Label className="text-sm">Spatial Autocorrelation</Label>
+            <Select value={statisticAttribute} onValueChange={(value) => setStatisticAttribute(value as StatisticAttribute)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ATTRIBUTE_LABELS) as StatisticAttribute[]).map(attribute => (
+                  <SelectItem key={attribute} value={attribute}>{ATTRIBUTE_LABELS[attribute]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {autocorrelation ? (
+              <>
+                {autocorrelation.global && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <span>Moran's I {autocorrelation.global.moranI.toFixed(3)}</span>
+                      <Badge variant="secondary">
+                        {patternLabel(autocorrelation.global.zScore, 'Clustered', 'Dispersed')}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      z = {autocorrelation.global.zScore.toFixed(2)}, p {formatP(autocorrelation.global.pValue)} ·
+                      band {(autocorrelation.distanceBand / 1000).toFixed(1)} km
+                    </p>
+                  </>
+                )}
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">
+                    Hot Spots (Gi*): {hotSpotCounts.hot} hot, {hotSpotCounts.cold} cold
+                  </Label>
+                  <Switch checked={showHotSpots} onCheckedChange={setShowHotSpots} />
+                </div>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">Needs at least four located sites with varying values</p>
+            )}
+          </div>
+
+          {/* Kernel density */}
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Kernel Density Surface</Label>
+              <Switch checked={showDensity} onCheckedChange={setShowDensity} />
+            </div>
+            {showDensity && densitySurface && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">
+                    Bandwidth: {Math.round(densitySurface.bandwidth)} m{densityBandwidth === null ? ' (auto)' : ''}
+                  </Label>
+                  {densityBandwidth !== null && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setDensityBandwidth(null)}>
+                      Auto
+                    </Button>
+                  )}
+                </div>
+                <Slider
+                  value={[densityBandwidth ?? Math.round(densitySurface.bandwidth)]}
+                  onValueChange={([value]) => setDensityBandwidth(value)}
+                  max={20000}
+                  min={250}
+                  step={250}
+                  className="w-full"
+                />
+              </div>
+            )}
+            {showDensity && !densitySurface && (
+              <p className="text-xs text-muted-foreground">Needs at least two located sites</p>
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { hasPermission, Permission } from "@/lib/permissions";
+import type { UserRole } from "@/types/profiles";
+
+export interface PermissionsState {
+  userId: string | null;
+  role: UserRole | null;
+  // True until the session and the profile role are known
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+/**
+ * Current user's role and the permissions granted by ROLE_PERMISSIONS.
+ * Follows sign-in and sign-out.
+ */
+export function usePermissions(): PermissionsState {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+  // Role together with the user it was loaded for, so a stale role is never used
+  const [profile, setProfile] = useState<{ userId: string; role: UserRole | null } | null>(null);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_, session) => {
+      setUserId(session?.user?.id ?? null);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setUserId(data.session?.user?.id ?? null);
+      setCheckingSession(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    supabase
+      .from("profiles")
+      .select("role, is_active")
+      .eq("user_id", userId)
+      .single()
+      .then(({ data }) => {
+        // Deactivated accounts keep their role on record but lose all permissions
+        if (!cancelled) setProfile({ userId, role: data?.is_active ? data.role : null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const role = userId && profile?.userId === userId ? profile.role : null;
+  const checkingRole = !!userId && profile?.userId !== userId;
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { userId, role, loading: checkingSession || checkingRole, can };
+}
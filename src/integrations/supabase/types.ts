@@ -14,6 +14,51 @@ export type Database = {
   }
   public: {
     Tables: {
+      administrative_areas: {
+        Row: {
+          code: string | null
+          created_at: string
+          geometry: Json
+          id: string
+          level: string
+          max_lat: number
+          max_lon: number
+          min_lat: number
+          min_lon: number
+          name: string
+          parent_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          geometry: Json
+          id?: string
+          level: string
+          max_lat: number
+          max_lon: number
+          min_lat: number
+          min_lon: number
+          name: string
+          parent_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          geometry?: Json
+          id?: string
+          level?: string
+          max_lat?: number
+          max_lon?: number
+          min_lat?: number
+          min_lon?: number
+          name?: string
+          parent_name?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       ai_analysis: {
         Row: {
           analysis_type: string
@@ -27,6 +72,11 @@ export type Database = {
           processed_by: string | null
           processing_time_ms: number | null
           results: Json
+          review_decision: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_category: Database["public"]["Enums"]["heritage_category"] | null
+          reviewed_label: string | null
           site_id: string
           status: Database["public"]["Enums"]["analysis_status"] | null
         }
@@ -42,6 +92,11 @@ export type Database = {
           processed_by?: string | null
           processing_time_ms?: number | null
           results: Json
+          review_decision?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_category?: Database["public"]["Enums"]["heritage_category"] | null
+          reviewed_label?: string | null
           site_id: string
           status?: Database["public"]["Enums"]["analysis_status"] | null
         }
@@ -57,6 +112,11 @@ export type Database = {
           processed_by?: string | null
           processing_time_ms?: number | null
           results?: Json
+          review_decision?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_category?: Database["public"]["Enums"]["heritage_category"] | null
+          reviewed_label?: string | null
           site_id?: string
           status?: Database["public"]["Enums"]["analysis_status"] | null
         }
@@ -91,6 +151,42 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          changed_at: string
+          changed_by: string | null
+          changed_fields: string[]
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[]
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          changed_at?: string
+          changed_by?: string | null
+          changed_fields?: string[]
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
       conservation_projects: {
         Row: {
           budget: number | null
@@ -265,6 +361,7 @@ export type Database = {
             | Database["public"]["Enums"]["preservation_status"]
             | null
           province: string | null
+          publication_status: Database["public"]["Enums"]["publication_status"]
           regency: string | null
           tourism_popularity_score: number | null
           updated_at: string
@@ -300,6 +397,7 @@ export type Database = {
             | Database["public"]["Enums"]["preservation_status"]
             | null
           province?: string | null
+          publication_status?: Database["public"]["Enums"]["publication_status"]
           regency?: string | null
           tourism_popularity_score?: number | null
           updated_at?: string
@@ -335,6 +433,7 @@ export type Database = {
             | Database["public"]["Enums"]["preservation_status"]
             | null
           province?: string | null
+          publication_status?: Database["public"]["Enums"]["publication_status"]
           regency?: string | null
           tourism_popularity_score?: number | null
           updated_at?: string
@@ -395,6 +494,68 @@ export type Database = {
         }
         Relationships: []
       }
+      image_embeddings: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dimensions: number
+          embedding: number[]
+          media_id: string
+          model_version: string
+          site_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dimensions: number
+          embedding: number[]
+          media_id: string
+          model_version: string
+          site_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dimensions?: number
+          embedding?: number[]
+          media_id?: string
+          model_version?: string
+          site_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "image_embeddings_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "image_embeddings_media_id_fkey"
+            columns: ["media_id"]
+            isOneToOne: true
+            referencedRelation: "site_media"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "image_embeddings_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "cultural_sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "image_embeddings_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites_with_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       historical_records: {
         Row: {
           created_at: string
@@ -461,9 +622,11 @@ export type Database = {
           avatar_url: string | null
           bio: string | null
           created_at: string
+          deactivated_at: string | null
           expertise: string[] | null
           full_name: string
           id: string
+          is_active: boolean
           is_verified: boolean | null
           location: string | null
           organization: string | null
@@ -476,9 +639,11 @@ export type Database = {
           avatar_url?: string | null
           bio?: string | null
           created_at?: string
+          deactivated_at?: string | null
           expertise?: string[] | null
           full_name: string
           id?: string
+          is_active?: boolean
           is_verified?: boolean | null
           location?: string | null
           organization?: string | null
@@ -491,9 +656,11 @@ export type Database = {
           avatar_url?: string | null
           bio?: string | null
           created_at?: string
+          deactivated_at?: string | null
           expertise?: string[] | null
           full_name?: string
           id?: string
+          is_active?: boolean
           is_verified?: boolean | null
           location?: string | null
           organization?: string | null
@@ -504,6 +671,130 @@ export type Database = {
         }
         Relationships: []
       }
+      role_grants: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          invitation_id: string | null
+          previous_role: Database["public"]["Enums"]["user_role"] | null
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          invitation_id?: string | null
+          previous_role?: Database["public"]["Enums"]["user_role"] | null
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          invitation_id?: string | null
+          previous_role?: Database["public"]["Enums"]["user_role"] | null
+          role?: Database["public"]["Enums"]["user_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_grants_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "role_grants_invitation_id_fkey"
+            columns: ["invitation_id"]
+            isOneToOne: false
+            referencedRelation: "role_invitations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_grants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      role_invitation_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_invitations: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          note: string | null
+          redeemed_at: string | null
+          redeemed_by: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          token_hash: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          note?: string | null
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          token_hash: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          note?: string | null
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_invitations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "role_invitations_redeemed_by_fkey"
+            columns: ["redeemed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       route_sites: {
         Row: {
           created_at: string
@@ -571,6 +862,7 @@ export type Database = {
           metadata: Json | null
           photographer: string | null
           site_id: string
+          storage_path: string | null
           title: string | null
           uploaded_by: string | null
         }
@@ -585,6 +877,7 @@ export type Database = {
           metadata?: Json | null
           photographer?: string | null
           site_id: string
+          storage_path?: string | null
           title?: string | null
           uploaded_by?: string | null
         }
@@ -599,6 +892,7 @@ export type Database = {
           metadata?: Json | null
           photographer?: string | null
           site_id?: string
+          storage_path?: string | null
           title?: string | null
           uploaded_by?: string | null
         }
@@ -699,6 +993,80 @@ export type Database = {
           },
         ]
       }
+      site_revisions: {
+        Row: {
+          changes: Json
+          created_at: string
+          id: string
+          kind: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          site_id: string
+          status: Database["public"]["Enums"]["publication_status"]
+          submitted_at: string | null
+          submitted_by: string
+          updated_at: string
+        }
+        Insert: {
+          changes?: Json
+          created_at?: string
+          id?: string
+          kind: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          site_id: string
+          status?: Database["public"]["Enums"]["publication_status"]
+          submitted_at?: string | null
+          submitted_by: string
+          updated_at?: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string
+          id?: string
+          kind?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          site_id?: string
+          status?: Database["public"]["Enums"]["publication_status"]
+          submitted_at?: string | null
+          submitted_by?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "site_revisions_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "site_revisions_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "cultural_sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "site_revisions_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites_with_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "site_revisions_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       tourism_routes: {
         Row: {
           created_at: string
@@ -807,6 +1175,7 @@ export type Database = {
             | Database["public"]["Enums"]["preservation_status"]
             | null
           province: string | null
+          publication_status: Database["public"]["Enums"]["publication_status"] | null
           regency: string | null
           review_count: number | null
           tourism_popularity_score: number | null
@@ -843,7 +1212,29 @@ export type Database = {
       }
     }
     Functions: {
-      [_ in never]: never
+      has_permission: {
+        Args: { permission: string }
+        Returns: boolean
+      }
+      match_image_embeddings: {
+        Args: {
+          p_embedding: number[]
+          p_model_version: string
+          p_match_count: number
+          p_exclude_media_id?: string | null
+        }
+        Returns: {
+          media_id: string
+          similarity: number
+        }[]
+      }
+      redeem_role_invitation: {
+        Args: { p_token_hash: string; p_user_id: string; p_full_name: string }
+        Returns: {
+          status: string
+          role: Database["public"]["Enums"]["user_role"] | null
+        }[]
+      }
     }
     Enums: {
       analysis_status:
@@ -852,6 +1243,7 @@ export type Database = {
         | "completed"
         | "failed"
         | "requires_review"
+      audit_action: "INSERT" | "UPDATE" | "DELETE"
       heritage_category:
         | "architecture"
         | "traditional_house"
@@ -870,6 +1262,7 @@ export type Database = {
         | "critical"
         | "restored"
         | "under_restoration"
+      publication_status: "draft" | "pending_review" | "verified" | "rejected"
       user_role:
         | "admin"
         | "researcher"
@@ -1011,6 +1404,7 @@ export const Constants = {
         "failed",
         "requires_review",
       ],
+      audit_action: ["INSERT", "UPDATE", "DELETE"],
       heritage_category: [
         "architecture",
         "traditional_house",
@@ -1031,6 +1425,7 @@ export const Constants = {
         "restored",
         "under_restoration",
       ],
+      publication_status: ["draft", "pending_review", "verified", "rejected"],
       user_role: [
         "admin",
         "researcher",
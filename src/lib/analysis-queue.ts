@@ -0,0 +1,129 @@
+export type QueueItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueItem<TInput, TResult> {
+  id: string;
+  input: TInput;
+  status: QueueItemStatus;
+  result?: TResult;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface AnalysisQueueOptions<TInput, TResult> {
+  // Maximum number of items processed at the same time
+  concurrency: number;
+  worker: (input: TInput) => Promise<TResult>;
+  onChange?: (items: QueueItem<TInput, TResult>[]) => void;
+  onIdle?: (items: QueueItem<TInput, TResult>[]) => void;
+}
+
+/**
+ * Bounded-concurrency job queue with cancel/resume. Cancelling stops new
+ * items from starting; items already running are allowed to finish because
+ * model inference cannot be interrupted.
+ */
+export class AnalysisQueue<TInput, TResult> {
+  private items: QueueItem<TInput, TResult>[] = [];
+  private running = 0;
+  private cancelled = false;
+
+  constructor(private readonly options: AnalysisQueueOptions<TInput, TResult>) {}
+
+  add(entries: { id: string; input: TInput }[]): void {
+    const known = new Set(this.items.map(item => item.id));
+    for (const entry of entries) {
+      if (known.has(entry.id)) continue;
+      this.items.push({ id: entry.id, input: entry.input, status: 'queued' });
+    }
+    this.notify();
+  }
+
+  start(): void {
+    this.cancelled = false;
+    this.pump();
+  }
+
+  /**
+   * Stop starting new items; queued items are marked cancelled
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.items = this.items.map(item =>
+      item.status === 'queued' ? { ...item, status: 'cancelled' } : item
+    );
+    this.notify();
+    this.checkIdle();
+  }
+
+  /**
+   * Re-queue cancelled (and optionally failed) items and continue processing
+   */
+  resume(includeFailed = false): void {
+    this.items = this.items.map(item =>
+      item.status === 'cancelled' || (includeFailed && item.status === 'failed')
+        ? { ...item, status: 'queued', error: undefined }
+        : item
+    );
+    this.notify();
+    this.start();
+  }
+
+  clear(): void {
+    this.items = this.items.filter(item => item.status === 'running');
+    this.notify();
+  }
+
+  getItems(): QueueItem<TInput, TResult>[] {
+    return this.items;
+  }
+
+  isRunning(): boolean {
+    return this.running > 0;
+  }
+
+  private pump() {
+    while (!this.cancelled && this.running < Math.max(1, this.options.concurrency)) {
+      const next = this.items.find(item => item.status === 'queued');
+      if (!next) break;
+      this.run(next.id);
+    }
+    this.checkIdle();
+  }
+
+  private async run(id: string) {
+    this.running++;
+    this.update(id, { status: 'running', startedAt: Date.now() });
+    const item = this.items.find(i => i.id === id)!;
+
+    try {
+      const result = await this.options.worker(item.input);
+      this.update(id, { status: 'done', result, finishedAt: Date.now() });
+    } catch (error) {
+      this.update(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: Date.now(),
+      });
+    } finally {
+      this.running--;
+      this.pump();
+    }
+  }
+
+  private update(id: string, changes: Partial<QueueItem<TInput, TResult>>) {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    this.notify();
+  }
+
+  private notify() {
+    this.options.onChange?.(this.items);
+  }
+
+  private checkIdle() {
+    const pending = this.items.some(item => item.status === 'queued' && !this.cancelled);
+    if (this.running === 0 && !pending) {
+      this.options.onIdle?.(this.items);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Json } from "@/integrations/supabase/types";
+import type { AuditAction } from "@/types/audit-log";
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: "Dibuat",
+  UPDATE: "Diubah",
+  DELETE: "Dihapus",
+};
+
+const MAX_VALUE_LENGTH = 160;
+
+export const formatAuditValue = (value: Json | undefined): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.map(item => formatAuditValue(item)).join(", ") || "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  // Rich text fields are stored as HTML
+  const text = String(value).replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
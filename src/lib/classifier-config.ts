@@ -0,0 +1,107 @@
+import type { DataType, DeviceType } from "@huggingface/transformers";
+
+export type ClassifierDevice = Extract<DeviceType, 'webgpu' | 'wasm'>;
+
+export interface ClassifierConfig {
+  // Hub id, or directory name under localModelPath
+  modelId: string;
+  // Zero-shot image/text model used for condition assessment
+  conditionModelId: string;
+  // Image feature extractor used for similarity search
+  embeddingModelId: string;
+  // Served from public/models by Vite
+  localModelPath: string;
+  allowLocalModels: boolean;
+  allowRemoteModels: boolean;
+  // Devices to try, in order of preference
+  devices: ClassifierDevice[];
+  dtype?: DataType;
+  // Optional location of the onnxruntime-web .wasm files for offline use
+  wasmPaths?: string;
+}
+
+export type ClassifierStage = 'idle' | 'downloading' | 'loading' | 'warming_up' | 'ready' | 'error';
+
+export interface ClassifierProgress {
+  stage: ClassifierStage;
+  device?: ClassifierDevice;
+  file?: string;
+  // 0-100 while downloading model files
+  progress?: number;
+  message?: string;
+}
+
+export interface BackendAttempt {
+  device: ClassifierDevice;
+  reason: string;
+}
+
+/**
+ * Thrown when none of the configured devices can run the classifier
+ */
+export class ClassifierBackendError extends Error {
+  readonly attempts: BackendAttempt[];
+
+  constructor(attempts: BackendAttempt[]) {
+    const detail = attempts.length
+      ? attempts.map(a => `${a.device}: ${a.reason}`).join('; ')
+      : 'no devices configured';
+    super(`No classifier backend available (${detail})`);
+    this.name = 'ClassifierBackendError';
+    this.attempts = attempts;
+  }
+}
+
+export const DEFAULT_MODEL_ID = "onnx-community/mobilenetv4_conv_small.e2400_r224_in1k";
+export const DEFAULT_CONDITION_MODEL_ID = "Xenova/clip-vit-base-patch32";
+// Same CLIP weights as condition assessment, so the files are only downloaded once
+export const DEFAULT_EMBEDDING_MODEL_ID = DEFAULT_CONDITION_MODEL_ID;
+
+const CLASSIFIER_DEVICES: ClassifierDevice[] = ['webgpu', 'wasm'];
+
+/**
+ * Build the classifier configuration from VITE_CLASSIFIER_* variables.
+ * Offline field deployments set VITE_CLASSIFIER_LOCAL_ONLY=true and bundle
+ * the ONNX weights under public/models/<modelId>/.
+ */
+export function loadClassifierConfigFromEnv(): ClassifierConfig {
+  const localOnly = import.meta.env.VITE_CLASSIFIER_LOCAL_ONLY === 'true';
+  const devices = parseDevices(import.meta.env.VITE_CLASSIFIER_DEVICES);
+
+  return {
+    modelId: import.meta.env.VITE_CLASSIFIER_MODEL_ID || DEFAULT_MODEL_ID,
+    conditionModelId: import.meta.env.VITE_CONDITION_MODEL_ID || DEFAULT_CONDITION_MODEL_ID,
+    embeddingModelId: import.meta.env.VITE_EMBEDDING_MODEL_ID || DEFAULT_EMBEDDING_MODEL_ID,
+    localModelPath: import.meta.env.VITE_CLASSIFIER_LOCAL_PATH || '/models/',
+    allowLocalModels: localOnly || import.meta.env.VITE_CLASSIFIER_LOCAL_MODELS === 'true',
+    allowRemoteModels: !localOnly,
+    devices: devices.length ? devices : CLASSIFIER_DEVICES,
+    wasmPaths: import.meta.env.VITE_CLASSIFIER_WASM_PATH || undefined,
+  };
+}
+
+/**
+ * Check whether a device can be used in the current browser
+ */
+export async function isDeviceSupported(device: ClassifierDevice): Promise<string | null> {
+  if (device === 'wasm') {
+    return typeof WebAssembly === 'object' ? null : 'WebAssembly is not supported';
+  }
+
+  const gpu = (navigator as Navigator & { gpu?: { requestAdapter(): Promise<unknown | null> } }).gpu;
+  if (!gpu) return 'WebGPU is not supported by this browser';
+  try {
+    const adapter = await gpu.requestAdapter();
+    return adapter ? null : 'No WebGPU adapter found';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'WebGPU adapter request failed';
+  }
+}
+
+function parseDevices(value: string | undefined): ClassifierDevice[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(d => d.trim())
+    .filter((d): d is ClassifierDevice => (CLASSIFIER_DEVICES as string[]).includes(d));
+}
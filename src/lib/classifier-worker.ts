@@ -0,0 +1,130 @@
+import { classifyHeritageImage, embedImage, HeritageClassification, subscribeClassifierProgress, warmUpClassifier } from "@/lib/cnn";
+import type { ClassifierProgress } from "@/lib/classifier-config";
+import { assessCondition, ConditionAssessment } from "@/lib/condition-assessment";
+
+export type ClassifierWorkerRequest =
+  | { type: 'classify'; id: string; image: File | string }
+  | { type: 'assess'; id: string; image: File | string }
+  | { type: 'embed'; id: string; image: File | string }
+  | { type: 'warmup'; id: string };
+
+export type ClassifierWorkerResponse =
+  | { type: 'result'; id: string; classification: HeritageClassification }
+  | { type: 'assessment'; id: string; assessment: ConditionAssessment }
+  | { type: 'embedding'; id: string; embedding: number[] }
+  | { type: 'ready'; id: string }
+  | { type: 'error'; id: string; message: string }
+  | { type: 'progress'; progress: ClassifierProgress };
+
+export interface ClassifierClient {
+  // Whether inference runs in a Web Worker (false = main-thread fallback)
+  readonly usesWorker: boolean;
+  classify(image: File | string): Promise<HeritageClassification>;
+  assessCondition(image: File | string): Promise<ConditionAssessment>;
+  embed(image: File | string): Promise<number[]>;
+  warmUp(): Promise<void>;
+  onProgress(listener: (progress: ClassifierProgress) => void): () => void;
+  terminate(): void;
+}
+
+type WorkerPayload = HeritageClassification | ConditionAssessment | number[] | undefined;
+
+interface PendingRequest {
+  resolve: (value: WorkerPayload) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Create a classifier that runs in a dedicated Web Worker, falling back to
+ * the main thread when workers are unavailable
+ */
+export function createClassifierClient(): ClassifierClient {
+  if (typeof Worker === 'undefined') {
+    return createInlineClient();
+  }
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./classifier.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Classifier worker unavailable, using main thread:', error);
+    return createInlineClient();
+  }
+
+  const pending = new Map<string, PendingRequest>();
+  const listeners = new Set<(progress: ClassifierProgress) => void>();
+  let sequence = 0;
+
+  worker.addEventListener('message', (event: MessageEvent<ClassifierWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      listeners.forEach(listener => listener(message.progress));
+      return;
+    }
+
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+
+    if (message.type === 'error') {
+      request.reject(new Error(message.message));
+    } else {
+      request.resolve(
+        message.type === 'result' ? message.classification
+          : message.type === 'assessment' ? message.assessment
+          : message.type === 'embedding' ? message.embedding
+          : undefined
+      );
+    }
+  });
+
+  worker.addEventListener('error', (event) => {
+    const error = new Error(event.message || 'Classifier worker crashed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  });
+
+  const send = (request: ClassifierWorkerRequest) =>
+    new Promise<WorkerPayload>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject });
+      worker.postMessage(request);
+    });
+
+  return {
+    usesWorker: true,
+    classify: async (image) =>
+      (await send({ type: 'classify', id: `job-${++sequence}`, image })) as HeritageClassification,
+    assessCondition: async (image) =>
+      (await send({ type: 'assess', id: `job-${++sequence}`, image })) as ConditionAssessment,
+    embed: async (image) =>
+      (await send({ type: 'embed', id: `job-${++sequence}`, image })) as number[],
+    warmUp: async () => {
+      await send({ type: 'warmup', id: `job-${++sequence}` });
+    },
+    onProgress: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    terminate: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new Error('Classifier worker terminated')));
+      pending.clear();
+    },
+  };
+}
+
+function createInlineClient(): ClassifierClient {
+  return {
+    usesWorker: false,
+    classify: (image) => classifyHeritageImage(image),
+    assessCondition: (image) => assessCondition(image),
+    embed: (image) => embedImage(image),
+    warmUp: async () => {
+      await warmUpClassifier();
+    },
+    onProgress: subscribeClassifierProgress,
+    terminate: () => {},
+  };
+}
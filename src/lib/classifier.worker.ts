@@ -0,0 +1,43 @@
+/// <reference lib="webworker" />
+import { classifyHeritageImage, embedImage, subscribeClassifierProgress, warmUpClassifier } from "@/lib/cnn";
+import { assessCondition } from "@/lib/condition-assessment";
+import type { ClassifierWorkerRequest, ClassifierWorkerResponse } from "@/lib/classifier-worker";
+
+// Runs the CNN off the main thread so batch analysis does not freeze the UI
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const post = (message: ClassifierWorkerResponse) => ctx.postMessage(message);
+
+subscribeClassifierProgress(progress => post({ type: 'progress', progress }));
+
+ctx.addEventListener('message', async (event: MessageEvent<ClassifierWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'warmup') {
+      await warmUpClassifier();
+      post({ type: 'ready', id: request.id });
+      return;
+    }
+
+    if (request.type === 'assess') {
+      const assessment = await assessCondition(request.image);
+      post({ type: 'assessment', id: request.id, assessment });
+      return;
+    }
+
+    if (request.type === 'embed') {
+      const embedding = await embedImage(request.image);
+      post({ type: 'embedding', id: request.id, embedding });
+      return;
+    }
+
+    const classification = await classifyHeritageImage(request.image);
+    post({ type: 'result', id: request.id, classification });
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -1,28 +1,246 @@
-import { pipeline, env } from "@huggingface/transformers";
+import { pipeline, env, RawImage } from "@huggingface/transformers";
+import { CategoryScore, LabelMappingTable, getActiveLabelMapping, mapLabelsToCategories } from "@/lib/heritage-taxonomy";
+import {
+  BackendAttempt,
+  ClassifierBackendError,
+  ClassifierConfig,
+  ClassifierDevice,
+  ClassifierProgress,
+  isDeviceSupported,
+  loadClassifierConfigFromEnv,
+} from "@/lib/classifier-config";
 
-// Configure transformers.js to work fully in-browser (no server token needed)
-env.allowLocalModels = false; // always fetch from the hub/CDN
 env.useBrowserCache = true;   // cache in browser for faster re-runs
 
-let classifierPromise: Promise<any> | null = null;
+export interface ClassificationResult {
+  label: string;
+  score: number;
+}
+
+export interface HeritageClassification {
+  predictions: ClassificationResult[];
+  categories: CategoryScore[];
+  mappingId: string;
+  device: ClassifierDevice | null;
+}
+
+export interface ClassifierStatus {
+  modelId: string;
+  device: ClassifierDevice | null;
+  progress: ClassifierProgress;
+}
+
+type ProgressListener = (progress: ClassifierProgress) => void;
+type ImageClassifier = (input: string | RawImage) => Promise<unknown>;
+type FeatureExtractor = (input: string) => Promise<{ data: ArrayLike<number>; dims: number[] }>;
+type ZeroShotClassifier = (
+  input: string,
+  labels: string[],
+  options?: { hypothesis_template?: string }
+) => Promise<unknown>;
+
+let config: ClassifierConfig = loadClassifierConfigFromEnv();
+let classifierPromise: Promise<ImageClassifier> | null = null;
+let zeroShotPromise: Promise<ZeroShotClassifier> | null = null;
+let extractorPromise: Promise<FeatureExtractor> | null = null;
+let activeDevice: ClassifierDevice | null = null;
+let lastProgress: ClassifierProgress = { stage: 'idle' };
+const progressListeners = new Set<ProgressListener>();
+
+/**
+ * Override parts of the classifier configuration. The model is reloaded on next use.
+ */
+export function configureClassifier(overrides: Partial<ClassifierConfig>): void {
+  config = { ...config, ...overrides };
+  classifierPromise = null;
+  zeroShotPromise = null;
+  extractorPromise = null;
+  activeDevice = null;
+  emitProgress({ stage: 'idle' });
+}
+
+export function getClassifierConfig(): ClassifierConfig {
+  return config;
+}
+
+export function getClassifierStatus(): ClassifierStatus {
+  return { modelId: config.modelId, device: activeDevice, progress: lastProgress };
+}
+
+/**
+ * Listen to model download/loading/warm-up progress. Returns an unsubscribe function.
+ */
+export function subscribeClassifierProgress(listener: ProgressListener): () => void {
+  progressListeners.add(listener);
+  listener(lastProgress);
+  return () => {
+    progressListeners.delete(listener);
+  };
+}
+
+function emitProgress(progress: ClassifierProgress) {
+  lastProgress = progress;
+  progressListeners.forEach(listener => listener(progress));
+}
+
+function applyEnvironment(current: ClassifierConfig) {
+  env.allowLocalModels = current.allowLocalModels;
+  env.allowRemoteModels = current.allowRemoteModels;
+  env.localModelPath = current.localModelPath;
+  if (current.wasmPaths && env.backends.onnx.wasm) {
+    env.backends.onnx.wasm.wasmPaths = current.wasmPaths;
+  }
+}
+
+async function loadPipeline<T>(
+  task: "image-classification" | "zero-shot-image-classification" | "image-feature-extraction",
+  modelId: string,
+  current: ClassifierConfig
+): Promise<T> {
+  applyEnvironment(current);
+  const attempts: BackendAttempt[] = [];
+
+  for (const device of current.devices) {
+    const unsupported = await isDeviceSupported(device);
+    if (unsupported) {
+      attempts.push({ device, reason: unsupported });
+      continue;
+    }
+
+    try {
+      emitProgress({ stage: 'loading', device });
+      const loaded = await pipeline(task, modelId, {
+        device,
+        dtype: current.dtype,
+        progress_callback: (info: { status: string; file?: string; progress?: number }) => {
+          if (info.status === 'progress') {
+            emitProgress({ stage: 'downloading', device, file: info.file, progress: info.progress });
+          }
+        },
+      });
+      activeDevice = device;
+      emitProgress({ stage: 'ready', device });
+      return loaded as unknown as T;
+    } catch (error) {
+      // Fall through to the next device (e.g. WebGPU adapter lost -> WASM)
+      attempts.push({ device, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  throw new ClassifierBackendError(attempts);
+}
+
+function cachePipeline<T>(load: () => Promise<T>, reset: () => void): Promise<T> {
+  return load().catch(error => {
+    reset();
+    emitProgress({ stage: 'error', message: error instanceof Error ? error.message : String(error) });
+    throw error;
+  });
+}
 
 async function getClassifier() {
   if (!classifierPromise) {
-    classifierPromise = pipeline(
-      "image-classification",
-      "onnx-community/mobilenetv4_conv_small.e2400_r224_in1k",
-      { device: "webgpu" }
+    classifierPromise = cachePipeline(
+      () => loadPipeline<ImageClassifier>("image-classification", config.modelId, config),
+      () => { classifierPromise = null; }
     );
   }
   return classifierPromise;
 }
 
-export async function classifyImage(file: File): Promise<{ label: string; score: number }[]> {
-  const dataUrl = await fileToDataURL(file);
-  const classifier: any = await getClassifier();
-  const result = await classifier(dataUrl);
+async function getZeroShotClassifier() {
+  if (!zeroShotPromise) {
+    zeroShotPromise = cachePipeline(
+      () => loadPipeline<ZeroShotClassifier>("zero-shot-image-classification", config.conditionModelId, config),
+      () => { zeroShotPromise = null; }
+    );
+  }
+  return zeroShotPromise;
+}
+
+async function getFeatureExtractor() {
+  if (!extractorPromise) {
+    extractorPromise = cachePipeline(
+      () => loadPipeline<FeatureExtractor>("image-feature-extraction", config.embeddingModelId, config),
+      () => { extractorPromise = null; }
+    );
+  }
+  return extractorPromise;
+}
+
+/**
+ * Load the model and run one inference on a blank image so the first
+ * real analysis does not pay for shader compilation / session warm-up
+ */
+export async function warmUpClassifier(): Promise<ClassifierStatus> {
+  const classifier = await getClassifier();
+  emitProgress({ stage: 'warming_up', device: activeDevice ?? undefined });
+  const blank = new RawImage(new Uint8ClampedArray(224 * 224 * 3), 224, 224, 3);
+  await classifier(blank);
+  emitProgress({ stage: 'ready', device: activeDevice ?? undefined });
+  return getClassifierStatus();
+}
+
+/**
+ * Classify an image. Accepts a local File or a URL of an already uploaded image.
+ */
+export async function classifyImage(image: File | string): Promise<ClassificationResult[]> {
+  const source = typeof image === "string" ? image : await fileToDataURL(image);
+  const classifier = await getClassifier();
+  const result = await classifier(source);
+  if (!Array.isArray(result)) return [];
+  return result.map((r: ClassificationResult) => ({ label: r.label, score: r.score }));
+}
+
+/**
+ * Classify an image and map the raw model labels onto the heritage_category taxonomy
+ */
+export async function classifyHeritageImage(
+  image: File | string,
+  table: LabelMappingTable = getActiveLabelMapping()
+): Promise<HeritageClassification> {
+  const predictions = await classifyImage(image);
+  return {
+    predictions,
+    categories: mapLabelsToCategories(predictions, table),
+    mappingId: table.id,
+    device: activeDevice,
+  };
+}
+
+/**
+ * Score an image against free-text labels with a zero-shot (CLIP-style) model.
+ * Used for condition assessment, where no dedicated damage model exists yet.
+ */
+export async function classifyWithPrompts(image: File | string, labels: string[]): Promise<ClassificationResult[]> {
+  const source = typeof image === "string" ? image : await fileToDataURL(image);
+  const classifier = await getZeroShotClassifier();
+  const result = await classifier(source, labels);
   if (!Array.isArray(result)) return [];
-  return result.map((r: any) => ({ label: r.label, score: r.score }));
+  return result
+    .map((r: ClassificationResult) => ({ label: r.label, score: r.score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Compute an L2-normalised feature vector for an image (for similarity search)
+ */
+export async function embedImage(image: File | string): Promise<number[]> {
+  const source = typeof image === "string" ? image : await fileToDataURL(image);
+  const extractor = await getFeatureExtractor();
+  const output = await extractor(source);
+  const values = Array.from(output.data);
+
+  // Mean-pool token outputs ([1, tokens, dim]) down to a single vector
+  const dim = output.dims[output.dims.length - 1];
+  const tokens = values.length / dim;
+  const vector = new Array<number>(dim).fill(0);
+  for (let t = 0; t < tokens; t++) {
+    for (let d = 0; d < dim; d++) vector[d] += values[t * dim + d] / tokens;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
 }
 
 function fileToDataURL(file: File): Promise<string> {
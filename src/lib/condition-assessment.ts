@@ -0,0 +1,95 @@
+import { classifyWithPrompts, ClassificationResult } from "@/lib/cnn";
+
+export type DamageType = 'cracks' | 'vegetation_overgrowth' | 'roof_damage' | 'erosion';
+export type DamageSeverity = 'low' | 'medium' | 'high';
+export type OverallCondition = 'good' | 'fair' | 'poor' | 'critical';
+
+export interface DamageFinding {
+  type: DamageType;
+  score: number;
+  severity: DamageSeverity;
+}
+
+export interface ConditionAssessment {
+  findings: DamageFinding[];
+  // 0-10, higher means more visible deterioration
+  conditionScore: number;
+  overallCondition: OverallCondition;
+  predictions: ClassificationResult[];
+}
+
+interface ConditionPrompt {
+  type: DamageType | 'intact';
+  prompt: string;
+}
+
+export const DAMAGE_LABELS: Record<DamageType, string> = {
+  cracks: 'Retakan',
+  vegetation_overgrowth: 'Tumbuhan liar',
+  roof_damage: 'Kerusakan atap/ilalang',
+  erosion: 'Erosi',
+};
+
+// Several prompts per class; scores are summed per class after the softmax
+const CONDITION_PROMPTS: ConditionPrompt[] = [
+  { type: 'cracks', prompt: 'a photo of a cracked wall' },
+  { type: 'cracks', prompt: 'a photo of a building with cracks in the stone' },
+  { type: 'vegetation_overgrowth', prompt: 'a photo of a building overgrown with plants and moss' },
+  { type: 'vegetation_overgrowth', prompt: 'a photo of a ruin covered in vegetation' },
+  { type: 'roof_damage', prompt: 'a photo of a damaged thatched roof' },
+  { type: 'roof_damage', prompt: 'a photo of a collapsed or leaking roof' },
+  { type: 'erosion', prompt: 'a photo of eroded soil and weathered foundations' },
+  { type: 'erosion', prompt: 'a photo of a worn and eroded stone structure' },
+  { type: 'intact', prompt: 'a photo of a well maintained traditional building' },
+  { type: 'intact', prompt: 'a photo of a clean and intact heritage site' },
+];
+
+// Findings below this probability are treated as noise
+const MIN_FINDING_SCORE = 0.15;
+
+/**
+ * Estimate visible deterioration in a site photo using zero-shot prompts
+ */
+export async function assessCondition(image: File | string): Promise<ConditionAssessment> {
+  const predictions = await classifyWithPrompts(image, CONDITION_PROMPTS.map(p => p.prompt));
+  return summarizeCondition(predictions);
+}
+
+export function summarizeCondition(predictions: ClassificationResult[]): ConditionAssessment {
+  const totals = new Map<ConditionPrompt['type'], number>();
+  for (const prediction of predictions) {
+    const prompt = CONDITION_PROMPTS.find(p => p.prompt === prediction.label);
+    if (!prompt) continue;
+    totals.set(prompt.type, (totals.get(prompt.type) ?? 0) + prediction.score);
+  }
+
+  const findings: DamageFinding[] = [];
+  totals.forEach((score, type) => {
+    if (type === 'intact' || score < MIN_FINDING_SCORE) return;
+    findings.push({ type, score, severity: getSeverity(score) });
+  });
+  findings.sort((a, b) => b.score - a.score);
+
+  const damage = 1 - (totals.get('intact') ?? 0);
+  const conditionScore = Math.round(Math.min(10, Math.max(0, damage * 10)) * 10) / 10;
+
+  return {
+    findings,
+    conditionScore,
+    overallCondition: getOverallCondition(conditionScore),
+    predictions,
+  };
+}
+
+function getSeverity(score: number): DamageSeverity {
+  if (score >= 0.5) return 'high';
+  if (score >= 0.3) return 'medium';
+  return 'low';
+}
+
+function getOverallCondition(conditionScore: number): OverallCondition {
+  if (conditionScore >= 8) return 'critical';
+  if (conditionScore >= 6) return 'poor';
+  if (conditionScore >= 4) return 'fair';
+  return 'good';
+}
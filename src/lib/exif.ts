@@ -0,0 +1,187 @@
+export interface ExifGps {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+}
+
+export interface ExifData {
+  make: string | null;
+  model: string | null;
+  // "YYYY-MM-DDTHH:mm:ss" in camera local time
+  capturedAt: string | null;
+  // "+08:00" when the camera recorded OffsetTimeOriginal
+  timeZoneOffset: string | null;
+  gps: ExifGps | null;
+}
+
+// Only the start of the file is read; the APP1 segment sits right after SOI
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+const GPS_ALTITUDE_REF = 0x0005;
+const GPS_ALTITUDE = 0x0006;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number;
+}
+
+/**
+ * Read camera, capture time and GPS tags from a JPEG. Returns null for other formats or when
+ * the file has no EXIF block.
+ */
+export async function parseExif(file: Blob): Promise<ExifData | null> {
+  const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  const tiffStart = findExifSegment(view);
+  if (tiffStart === null) return null;
+
+  try {
+    const littleEndian = view.getUint16(tiffStart) === 0x4949;
+    const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    const exifIfd = exifPointer
+      ? readIfd(view, tiffStart, tiffStart + readNumber(view, exifPointer, littleEndian), littleEndian)
+      : new Map<number, IfdEntry>();
+
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    const gpsIfd = gpsPointer
+      ? readIfd(view, tiffStart, tiffStart + readNumber(view, gpsPointer, littleEndian), littleEndian)
+      : new Map<number, IfdEntry>();
+
+    const readString = (entry?: IfdEntry) => (entry ? readAscii(view, entry) : null);
+    const rawDate = readString(exifIfd.get(TAG_DATETIME_ORIGINAL)) ?? readString(ifd0.get(TAG_DATETIME));
+    const offset = readString(exifIfd.get(TAG_OFFSET_TIME_ORIGINAL));
+
+    return {
+      make: readString(ifd0.get(TAG_MAKE)),
+      model: readString(ifd0.get(TAG_MODEL)),
+      capturedAt: toIsoDate(rawDate),
+      timeZoneOffset: offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : null,
+      gps: readGps(view, gpsIfd, littleEndian),
+    };
+  } catch {
+    // Truncated or malformed EXIF
+    return null;
+  }
+}
+
+function findExifSegment(view: DataView): number | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00) return null;
+
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    // Start of scan: no metadata after this point
+    if (marker === 0xffda) return null;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readIfd(view: DataView, tiffStart: number, ifdStart: number, littleEndian: boolean): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const count = view.getUint16(ifdStart, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = ifdStart + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const itemCount = view.getUint32(entryOffset + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 1) * itemCount;
+    // Values up to 4 bytes are stored inline, larger ones at an offset from the TIFF header
+    const valueOffset = size <= 4 ? entryOffset + 8 : tiffStart + view.getUint32(entryOffset + 8, littleEndian);
+    entries.set(tag, { type, count: itemCount, valueOffset });
+  }
+  return entries;
+}
+
+function readNumber(view: DataView, entry: IfdEntry, littleEndian: boolean): number {
+  return entry.type === 3 ? view.getUint16(entry.valueOffset, littleEndian) : view.getUint32(entry.valueOffset, littleEndian);
+}
+
+function readRationals(view: DataView, entry: IfdEntry, littleEndian: boolean): number[] {
+  if (entry.type !== 5) return [];
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const offset = entry.valueOffset + i * 8;
+    if (offset + 8 > view.byteLength) break;
+    const denominator = view.getUint32(offset + 4, littleEndian);
+    values.push(denominator ? view.getUint32(offset, littleEndian) / denominator : 0);
+  }
+  return values;
+}
+
+function readGps(view: DataView, gps: Map<number, IfdEntry>, littleEndian: boolean): ExifGps | null {
+  const latitude = gps.get(GPS_LATITUDE);
+  const longitude = gps.get(GPS_LONGITUDE);
+  if (!latitude || !longitude) return null;
+
+  // Degrees, minutes, seconds -> decimal degrees
+  const toDegrees = (entry: IfdEntry) => {
+    const [degrees = 0, minutes = 0, seconds = 0] = readRationals(view, entry, littleEndian);
+    return degrees + minutes / 60 + seconds / 3600;
+  };
+  const ref = (tag: number) => {
+    const entry = gps.get(tag);
+    return entry ? String.fromCharCode(view.getUint8(entry.valueOffset)) : '';
+  };
+
+  const lat = toDegrees(latitude) * (ref(GPS_LATITUDE_REF) === 'S' ? -1 : 1);
+  const lng = toDegrees(longitude) * (ref(GPS_LONGITUDE_REF) === 'W' ? -1 : 1);
+  // Cameras without a fix often write 0/0
+  if (lat === 0 && lng === 0) return null;
+
+  const altitudeEntry = gps.get(GPS_ALTITUDE);
+  const altitudeRef = gps.get(GPS_ALTITUDE_REF);
+  const [altitude] = altitudeEntry ? readRationals(view, altitudeEntry, littleEndian) : [];
+  const belowSeaLevel = altitudeRef ? view.getUint8(altitudeRef.valueOffset) === 1 : false;
+
+  return {
+    latitude: lat,
+    longitude: lng,
+    altitude: altitude !== undefined ? (belowSeaLevel ? -altitude : altitude) : null,
+  };
+}
+
+function readAscii(view: DataView, entry: IfdEntry): string | null {
+  if (entry.type !== 2) return null;
+  let text = '';
+  for (let i = 0; i < entry.count && entry.valueOffset + i < view.byteLength; i++) {
+    const code = view.getUint8(entry.valueOffset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim() || null;
+}
+
+function toIsoDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+}
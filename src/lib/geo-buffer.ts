@@ -0,0 +1,128 @@
+// [lon, lat] in degrees, as in GeoJSON
+type Position = [number, number];
+
+// Mean Earth radius (IUGG), also used for the geodesic area formula
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Point reached from a start point after travelling a distance along a
+ * great circle with the given initial bearing (degrees clockwise from north)
+ */
+export function destinationPoint([lon, lat]: Position, distanceMeters: number, bearingDegrees: number): Position {
+  const angular = distanceMeters / EARTH_RADIUS_METERS;
+  const bearing = toRadians(bearingDegrees);
+  const φ1 = toRadians(lat);
+  const λ1 = toRadians(lon);
+
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(angular) + Math.cos(φ1) * Math.sin(angular) * Math.cos(bearing));
+  const λ2 = λ1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(φ1),
+    Math.cos(angular) - Math.sin(φ1) * Math.sin(φ2)
+  );
+
+  return [toDegrees(λ2), toDegrees(φ2)];
+}
+
+/**
+ * Geodesic buffer around a point: every vertex lies exactly radius metres
+ * from the centre. The ring is counter-clockwise as RFC 7946 asks.
+ */
+export function geodesicCircle(center: Position, radiusMeters: number, steps = 64): GeoJSON.Polygon {
+  const ring: Position[] = [];
+  for (let i = 0; i < steps; i++) {
+    // Decreasing bearings walk the ring counter-clockwise in lon/lat
+    ring.push(destinationPoint(center, radiusMeters, 360 - (i * 360) / steps));
+  }
+  ring.push(ring[0]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Area of a ring on the sphere in square metres; positive for
+ * counter-clockwise rings (Chamberlain & Duquette)
+ */
+export function signedRingArea(ring: Position[]): number {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[i + 1];
+    total += toRadians(lon1 - lon2) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return (total * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2;
+}
+
+/**
+ * Area of a Polygon or MultiPolygon in square metres, holes subtracted
+ */
+export function geometryArea(geometry: GeoJSON.Geometry): number {
+  const polygonArea = (rings: Position[][]) =>
+    rings.reduce((sum, ring, index) => sum + (index === 0 ? 1 : -1) * Math.abs(signedRingArea(ring)), 0);
+
+  switch (geometry.type) {
+    case 'Polygon':
+      return polygonArea(geometry.coordinates as Position[][]);
+    case 'MultiPolygon':
+      return geometry.coordinates.reduce((sum, polygon) => sum + polygonArea(polygon as Position[][]), 0);
+    case 'GeometryCollection':
+      return geometry.geometries.reduce((sum, child) => sum + geometryArea(child), 0);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Shortest distance in metres from a point to a line or polygon outline.
+ * Uses an equirectangular projection around the point, which is accurate
+ * to well under a percent for the few kilometres buffers cover.
+ */
+export function distanceToGeometry(point: Position, geometry: GeoJSON.Geometry): number {
+  const metersPerDegreeLat = toRadians(1) * EARTH_RADIUS_METERS;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos(toRadians(point[1]));
+  const project = ([lon, lat]: Position): Position =>
+    [(lon - point[0]) * metersPerDegreeLon, (lat - point[1]) * metersPerDegreeLat];
+
+  let nearest = Infinity;
+  const visitLine = (line: Position[]) => {
+    if (line.length === 1) nearest = Math.min(nearest, Math.hypot(...project(line[0])));
+    for (let i = 0; i < line.length - 1; i++) {
+      nearest = Math.min(nearest, distanceToOriginFromSegment(project(line[i]), project(line[i + 1])));
+    }
+  };
+
+  switch (geometry.type) {
+    case 'Point':
+      visitLine([geometry.coordinates as Position]);
+      break;
+    case 'MultiPoint':
+      geometry.coordinates.forEach(position => visitLine([position as Position]));
+      break;
+    case 'LineString':
+      visitLine(geometry.coordinates as Position[]);
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      geometry.coordinates.forEach(line => visitLine(line as Position[]));
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach(polygon => polygon.forEach(ring => visitLine(ring as Position[])));
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach(child => {
+        nearest = Math.min(nearest, distanceToGeometry(point, child));
+      });
+      break;
+  }
+
+  return nearest;
+}
+
+function distanceToOriginFromSegment([ax, ay]: Position, [bx, by]: Position): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
@@ -0,0 +1,221 @@
+// [west, south, east, north] in degrees, as in GeoJSON bbox
+export type BBox = [number, number, number, number];
+
+type Position = [number, number];
+
+/**
+ * Clip features to a bounding box. Lines are cut at the box edges
+ * (Liang-Barsky), polygon rings are clipped against it (Sutherland-Hodgman)
+ * and points outside are dropped. Features entirely inside are returned
+ * unchanged.
+ */
+export function clipFeatures(features: GeoJSON.Feature[], bbox: BBox): GeoJSON.Feature[] {
+  const clipped: GeoJSON.Feature[] = [];
+
+  for (const feature of features) {
+    if (!feature.geometry) continue;
+    const extent = geometryBBox(feature.geometry);
+    if (!extent || !intersects(extent, bbox)) continue;
+    if (contains(bbox, extent)) {
+      clipped.push(feature);
+      continue;
+    }
+
+    const geometry = clipGeometry(feature.geometry, bbox);
+    if (geometry) clipped.push({ ...feature, geometry });
+  }
+
+  return clipped;
+}
+
+export function geometryBBox(geometry: GeoJSON.Geometry): BBox | null {
+  let west = Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let north = -Infinity;
+
+  forEachPosition(geometry, ([lon, lat]) => {
+    if (lon < west) west = lon;
+    if (lon > east) east = lon;
+    if (lat < south) south = lat;
+    if (lat > north) north = lat;
+  });
+
+  return west === Infinity ? null : [west, south, east, north];
+}
+
+export function forEachPosition(geometry: GeoJSON.Geometry, callback: (position: Position) => void): void {
+  switch (geometry.type) {
+    case 'Point':
+      callback(geometry.coordinates as Position);
+      break;
+    case 'MultiPoint':
+    case 'LineString':
+      geometry.coordinates.forEach(position => callback(position as Position));
+      break;
+    case 'MultiLineString':
+    case 'Polygon':
+      geometry.coordinates.forEach(line => line.forEach(position => callback(position as Position)));
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach(polygon => polygon.forEach(ring => ring.forEach(position => callback(position as Position))));
+      break;
+    case 'GeometryCollection':
+      geometry.geometries.forEach(child => forEachPosition(child, callback));
+      break;
+  }
+}
+
+const intersects = (a: BBox, b: BBox) => a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+const contains = (outer: BBox, inner: BBox) =>
+  inner[0] >= outer[0] && inner[2] <= outer[2] && inner[1] >= outer[1] && inner[3] <= outer[3];
+
+const inside = ([lon, lat]: Position, bbox: BBox) =>
+  lon >= bbox[0] && lon <= bbox[2] && lat >= bbox[1] && lat <= bbox[3];
+
+function clipGeometry(geometry: GeoJSON.Geometry, bbox: BBox): GeoJSON.Geometry | null {
+  switch (geometry.type) {
+    case 'Point':
+      return inside(geometry.coordinates as Position, bbox) ? geometry : null;
+    case 'MultiPoint': {
+      const points = geometry.coordinates.filter(position => inside(position as Position, bbox));
+      return points.length > 0 ? { type: 'MultiPoint', coordinates: points } : null;
+    }
+    case 'LineString':
+      return toLineGeometry(clipLine(geometry.coordinates as Position[], bbox));
+    case 'MultiLineString':
+      return toLineGeometry(geometry.coordinates.flatMap(line => clipLine(line as Position[], bbox)));
+    case 'Polygon': {
+      const polygon = clipPolygon(geometry.coordinates as Position[][], bbox);
+      return polygon ? { type: 'Polygon', coordinates: polygon } : null;
+    }
+    case 'MultiPolygon': {
+      const polygons = geometry.coordinates
+        .map(polygon => clipPolygon(polygon as Position[][], bbox))
+        .filter((polygon): polygon is Position[][] => !!polygon);
+      if (polygons.length === 0) return null;
+      return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+    }
+    case 'GeometryCollection': {
+      const geometries = geometry.geometries
+        .map(child => clipGeometry(child, bbox))
+        .filter((child): child is GeoJSON.Geometry => !!child);
+      return geometries.length > 0 ? { type: 'GeometryCollection', geometries } : null;
+    }
+  }
+}
+
+function toLineGeometry(lines: Position[][]): GeoJSON.LineString | GeoJSON.MultiLineString | null {
+  if (lines.length === 0) return null;
+  return lines.length === 1
+    ? { type: 'LineString', coordinates: lines[0] }
+    : { type: 'MultiLineString', coordinates: lines };
+}
+
+/**
+ * Cut a polyline into the parts that lie inside the box
+ */
+function clipLine(line: Position[], bbox: BBox): Position[][] {
+  const parts: Position[][] = [];
+  let current: Position[] = [];
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const segment = clipSegment(line[i], line[i + 1], bbox);
+    if (!segment) {
+      if (current.length > 1) parts.push(current);
+      current = [];
+      continue;
+    }
+
+    const [start, end] = segment;
+    const last = current[current.length - 1];
+    if (!last || last[0] !== start[0] || last[1] !== start[1]) {
+      if (current.length > 1) parts.push(current);
+      current = [start];
+    }
+    current.push(end);
+  }
+
+  if (current.length > 1) parts.push(current);
+  return parts;
+}
+
+function clipSegment(a: Position, b: Position, [west, south, east, north]: BBox): [Position, Position] | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+
+  const edges: [number, number][] = [
+    [-dx, a[0] - west],
+    [dx, east - a[0]],
+    [-dy, a[1] - south],
+    [dy, north - a[1]],
+  ];
+
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return null;
+      if (t > t0) t0 = t;
+    } else {
+      if (t < t0) return null;
+      if (t < t1) t1 = t;
+    }
+  }
+
+  return [
+    t0 === 0 ? a : [a[0] + t0 * dx, a[1] + t0 * dy],
+    t1 === 1 ? b : [a[0] + t1 * dx, a[1] + t1 * dy],
+  ];
+}
+
+function clipPolygon(rings: Position[][], bbox: BBox): Position[][] | null {
+  const clipped = rings.map(ring => clipRing(ring, bbox));
+  // Without its outer ring the holes have nothing to cut
+  if (!clipped[0]) return null;
+  return clipped.filter((ring): ring is Position[] => !!ring);
+}
+
+function clipRing(ring: Position[], [west, south, east, north]: BBox): Position[] | null {
+  const edges: { inside: (p: Position) => boolean; intersect: (a: Position, b: Position) => Position }[] = [
+    { inside: p => p[0] >= west, intersect: (a, b) => atLongitude(a, b, west) },
+    { inside: p => p[0] <= east, intersect: (a, b) => atLongitude(a, b, east) },
+    { inside: p => p[1] >= south, intersect: (a, b) => atLatitude(a, b, south) },
+    { inside: p => p[1] <= north, intersect: (a, b) => atLatitude(a, b, north) },
+  ];
+
+  // Work on the open ring; it is closed again at the end
+  let output = ring.slice(0, -1);
+  for (const edge of edges) {
+    const input = output;
+    output = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) output.push(edge.intersect(previous, current));
+        output.push(current);
+      } else if (edge.inside(previous)) {
+        output.push(edge.intersect(previous, current));
+      }
+    }
+    if (output.length === 0) return null;
+  }
+
+  if (output.length < 3) return null;
+  return [...output, output[0]];
+}
+
+const atLongitude = (a: Position, b: Position, lon: number): Position =>
+  [lon, a[1] + ((b[1] - a[1]) * (lon - a[0])) / (b[0] - a[0])];
+
+const atLatitude = (a: Position, b: Position, lat: number): Position =>
+  [a[0] + ((b[0] - a[0]) * (lat - a[1])) / (b[1] - a[1]), lat];
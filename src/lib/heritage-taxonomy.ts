@@ -0,0 +1,204 @@
+import { Database } from "@/integrations/supabase/types";
+import type { ClassificationResult } from "@/lib/cnn";
+
+export type HeritageCategoryType = Database['public']['Enums']['heritage_category'];
+
+export interface LabelMappingRule {
+  // Matched against each comma-separated synonym of a raw model label
+  match: string | RegExp;
+  category: HeritageCategoryType;
+  // Multiplier applied to the prediction score (default 1)
+  weight?: number;
+}
+
+export interface LabelMappingTable {
+  id: string;
+  name: string;
+  rules: LabelMappingRule[];
+}
+
+export interface CategoryScore {
+  category: HeritageCategoryType;
+  score: number;
+  matchedLabels: string[];
+}
+
+export interface CategorySuggestion extends CategoryScore {
+  categoryId: string | null;
+  categoryName: string | null;
+}
+
+interface CategoryRow {
+  id: string;
+  name: string;
+}
+
+/**
+ * Default mapping from ImageNet labels onto the Sasak heritage taxonomy.
+ * Rules are intentionally broad: lumbung rice barns and bale tani houses
+ * typically come back as "thatch" or "barn", songket weaving as "loom".
+ */
+export const SASAK_HERITAGE_MAPPING: LabelMappingTable = {
+  id: 'sasak-imagenet',
+  name: 'Sasak heritage (ImageNet labels)',
+  rules: [
+    // Traditional houses and rice barns
+    { match: 'thatch', category: 'traditional_house' },
+    { match: 'thatched roof', category: 'traditional_house' },
+    { match: 'barn', category: 'traditional_house', weight: 0.8 },
+    { match: 'yurt', category: 'traditional_house', weight: 0.6 },
+    { match: 'boathouse', category: 'traditional_house', weight: 0.6 },
+    { match: 'mobile home', category: 'traditional_house', weight: 0.4 },
+
+    // Mosques
+    { match: 'mosque', category: 'mosque' },
+    { match: 'dome', category: 'mosque', weight: 0.7 },
+    { match: 'prayer rug', category: 'mosque', weight: 0.6 },
+    { match: 'prayer mat', category: 'mosque', weight: 0.6 },
+
+    // Temples (Pura)
+    { match: 'stupa', category: 'temple' },
+    { match: 'altar', category: 'temple', weight: 0.8 },
+    { match: 'monastery', category: 'temple', weight: 0.7 },
+    { match: 'church', category: 'temple', weight: 0.4 },
+    { match: 'bell cote', category: 'temple', weight: 0.4 },
+
+    // Craft centres
+    { match: 'loom', category: 'craft_center' },
+    { match: 'wool', category: 'craft_center', weight: 0.6 },
+    { match: 'velvet', category: 'craft_center', weight: 0.4 },
+    { match: 'vase', category: 'craft_center', weight: 0.6 },
+    { match: 'pot', category: 'craft_center', weight: 0.5 },
+    { match: 'flowerpot', category: 'craft_center', weight: 0.5 },
+    { match: 'pitcher', category: 'craft_center', weight: 0.5 },
+    { match: 'basket', category: 'craft_center', weight: 0.6 },
+    { match: 'hamper', category: 'craft_center', weight: 0.5 },
+
+    // Ceremony sites
+    { match: 'drum', category: 'ceremony_site', weight: 0.7 },
+    { match: 'gong', category: 'ceremony_site', weight: 0.7 },
+    { match: 'tam-tam', category: 'ceremony_site', weight: 0.7 },
+    { match: 'maypole', category: 'ceremony_site', weight: 0.5 },
+    { match: 'stage', category: 'ceremony_site', weight: 0.5 },
+
+    // Historical sites and general architecture
+    { match: 'palace', category: 'historical_site' },
+    { match: 'castle', category: 'historical_site', weight: 0.8 },
+    { match: 'megalith', category: 'historical_site', weight: 0.8 },
+    { match: 'triumphal arch', category: 'historical_site', weight: 0.7 },
+    { match: 'stone wall', category: 'architecture', weight: 0.6 },
+    { match: 'pedestal', category: 'architecture', weight: 0.5 },
+    { match: 'gate', category: 'architecture', weight: 0.5 },
+    { match: 'tile roof', category: 'architecture', weight: 0.6 },
+    { match: 'fountain', category: 'architecture', weight: 0.5 },
+
+    // Cultural landscapes
+    { match: 'valley', category: 'cultural_landscape', weight: 0.8 },
+    { match: 'alp', category: 'cultural_landscape', weight: 0.6 },
+    { match: 'lakeside', category: 'cultural_landscape', weight: 0.6 },
+    { match: 'cliff', category: 'cultural_landscape', weight: 0.5 },
+    { match: 'volcano', category: 'cultural_landscape', weight: 0.6 },
+    { match: 'seashore', category: 'cultural_landscape', weight: 0.5 },
+    { match: 'promontory', category: 'cultural_landscape', weight: 0.5 },
+
+    // Traditional markets
+    { match: 'grocery store', category: 'traditional_market' },
+    { match: 'greengrocer', category: 'traditional_market' },
+    { match: 'butcher shop', category: 'traditional_market', weight: 0.8 },
+    { match: 'confectionery', category: 'traditional_market', weight: 0.6 },
+    { match: 'tobacco shop', category: 'traditional_market', weight: 0.6 },
+    { match: 'bakery', category: 'traditional_market', weight: 0.5 },
+  ],
+};
+
+const mappingTables = new Map<string, LabelMappingTable>([
+  [SASAK_HERITAGE_MAPPING.id, SASAK_HERITAGE_MAPPING],
+]);
+let activeMappingId = SASAK_HERITAGE_MAPPING.id;
+
+/**
+ * Register (or replace) a label mapping table, e.g. for a fine-tuned model
+ * whose labels already match the heritage taxonomy
+ */
+export function registerLabelMapping(table: LabelMappingTable, makeActive = false): void {
+  mappingTables.set(table.id, table);
+  if (makeActive) activeMappingId = table.id;
+}
+
+export function setActiveLabelMapping(id: string): void {
+  if (!mappingTables.has(id)) {
+    throw new Error(`Unknown label mapping: ${id}`);
+  }
+  activeMappingId = id;
+}
+
+export function getActiveLabelMapping(): LabelMappingTable {
+  return mappingTables.get(activeMappingId)!;
+}
+
+export function listLabelMappings(): LabelMappingTable[] {
+  return Array.from(mappingTables.values());
+}
+
+/**
+ * Aggregate raw model predictions into heritage category scores, highest first
+ */
+export function mapLabelsToCategories(
+  predictions: ClassificationResult[],
+  table: LabelMappingTable = getActiveLabelMapping()
+): CategoryScore[] {
+  const scores = new Map<HeritageCategoryType, CategoryScore>();
+
+  for (const prediction of predictions) {
+    const synonyms = prediction.label.toLowerCase().split(',').map(s => s.trim());
+    const rule = table.rules.find(r => synonyms.some(synonym => ruleMatches(r, synonym)));
+    if (!rule) continue;
+
+    const entry = scores.get(rule.category) ?? { category: rule.category, score: 0, matchedLabels: [] };
+    entry.score += prediction.score * (rule.weight ?? 1);
+    entry.matchedLabels.push(prediction.label);
+    scores.set(rule.category, entry);
+  }
+
+  return Array.from(scores.values())
+    .map(entry => ({ ...entry, score: Math.min(1, entry.score) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Suggest a heritage category for the predictions, resolved against the
+ * heritage_categories rows so the result can pre-fill a site's category_id
+ */
+export function suggestCategory(
+  predictions: ClassificationResult[],
+  categories: CategoryRow[] = [],
+  table: LabelMappingTable = getActiveLabelMapping()
+): CategorySuggestion | null {
+  const [best] = mapLabelsToCategories(predictions, table);
+  if (!best) return null;
+
+  const row = findCategoryRow(categories, best.category);
+  return {
+    ...best,
+    categoryId: row?.id ?? null,
+    categoryName: row?.name ?? null,
+  };
+}
+
+/**
+ * Find the heritage_categories row for an enum value (rows are named after the enum)
+ */
+export function findCategoryRow<T extends CategoryRow>(
+  categories: T[],
+  category: HeritageCategoryType
+): T | undefined {
+  return categories.find(c => normalizeCategoryName(c.name) === category);
+}
+
+function ruleMatches(rule: LabelMappingRule, synonym: string): boolean {
+  return typeof rule.match === 'string' ? synonym === rule.match : rule.match.test(synonym);
+}
+
+function normalizeCategoryName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
@@ -0,0 +1,131 @@
+import { ExifData, parseExif } from "@/lib/exif";
+
+export interface ImageFingerprint {
+  // SHA-256 of the file bytes; for large files and videos of a bounded prefix plus the size
+  contentHash: string;
+  // 64-bit difference hash as 16 hex characters
+  perceptualHash: string | null;
+  capturedAt: string | null;
+  camera: string | null;
+}
+
+export type DuplicateKind = 'exact' | 'near' | 'exif';
+
+export interface FingerprintMatch {
+  kind: DuplicateKind;
+  // Hamming distance between perceptual hashes (0 for exact copies)
+  distance: number | null;
+}
+
+// dHash distances up to this are treated as the same photo (resized, re-encoded, lightly edited)
+export const NEAR_DUPLICATE_DISTANCE = 8;
+
+// Files up to this size are hashed whole; larger ones (and all video/audio)
+// by their first HASH_PREFIX_BYTES so a 200 MB video is never read into memory
+export const FULL_HASH_MAX_BYTES = 32 * 1024 * 1024;
+const HASH_PREFIX_BYTES = 4 * 1024 * 1024;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Fingerprint an image file for duplicate detection
+ */
+export async function computeFingerprint(file: Blob, exif?: ExifData | null): Promise<ImageFingerprint> {
+  const isImage = !file.type || file.type.startsWith('image/');
+  const [contentHash, perceptualHash, metadata] = await Promise.all([
+    contentHashOf(file, isImage),
+    isImage ? differenceHash(file).catch(() => null) : Promise.resolve(null),
+    exif !== undefined ? Promise.resolve(exif) : parseExif(file),
+  ]);
+
+  return {
+    contentHash,
+    perceptualHash,
+    capturedAt: metadata?.capturedAt ?? null,
+    camera: [metadata?.make, metadata?.model].filter(Boolean).join(' ') || null,
+  };
+}
+
+/**
+ * Compare two fingerprints. EXIF matches (same camera and capture second)
+ * catch re-exports whose pixels were cropped or filtered.
+ */
+export function compareFingerprints(a: ImageFingerprint, b: ImageFingerprint): FingerprintMatch | null {
+  if (a.contentHash === b.contentHash) return { kind: 'exact', distance: 0 };
+
+  const distance = a.perceptualHash && b.perceptualHash
+    ? hammingDistance(a.perceptualHash, b.perceptualHash)
+    : null;
+  if (distance !== null && distance <= NEAR_DUPLICATE_DISTANCE) return { kind: 'near', distance };
+
+  if (a.capturedAt && a.camera && a.capturedAt === b.capturedAt && a.camera === b.camera) {
+    return { kind: 'exif', distance };
+  }
+  return null;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+async function contentHashOf(file: Blob, isImage: boolean): Promise<string> {
+  if (isImage && file.size <= FULL_HASH_MAX_BYTES) return sha256(await file.arrayBuffer());
+
+  // Same size and same leading bytes is treated as the same file
+  const prefix = new Uint8Array(await file.slice(0, HASH_PREFIX_BYTES).arrayBuffer());
+  const size = new TextEncoder().encode(`:${file.size}`);
+  const data = new Uint8Array(prefix.length + size.length);
+  data.set(prefix);
+  data.set(size, prefix.length);
+  return sha256(data);
+}
+
+async function sha256(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * dHash: shrink to 9x8 greyscale and compare horizontally adjacent pixels
+ */
+async function differenceHash(file: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const grey = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      nibble = (nibble << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
@@ -0,0 +1,77 @@
+export type VariantName = 'small' | 'medium' | 'web';
+export type VariantFormat = 'webp' | 'jpeg';
+
+export interface ImageVariant {
+  name: VariantName;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+// Longest edge in pixels; images are never upscaled
+export const VARIANT_SIZES: Record<VariantName, number> = {
+  small: 320,
+  medium: 800,
+  web: 1600,
+};
+
+const QUALITY: Record<VariantFormat, number> = {
+  webp: 0.8,
+  jpeg: 0.85,
+};
+
+// Formats the browser cannot draw reliably, or that would lose animation/vector data
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+export function canGenerateVariants(file: Blob): boolean {
+  return file.type.startsWith('image/') && !SKIPPED_TYPES.includes(file.type);
+}
+
+/**
+ * Resize an image in the browser into small/medium/web sizes, each as WebP
+ * plus a JPEG fallback. Browsers without WebP encoding only get JPEG.
+ */
+export async function generateImageVariants(file: Blob): Promise<ImageVariant[]> {
+  // EXIF orientation is applied so thumbnails are not rotated
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const variants: ImageVariant[] = [];
+
+  try {
+    const longest = Math.max(bitmap.width, bitmap.height);
+    let previousWidth = 0;
+
+    for (const name of Object.keys(VARIANT_SIZES) as VariantName[]) {
+      const scale = Math.min(1, VARIANT_SIZES[name] / longest);
+      const width = Math.round(bitmap.width * scale);
+      const height = Math.round(bitmap.height * scale);
+      // Small originals would produce identical larger variants
+      if (width === previousWidth) continue;
+      previousWidth = width;
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas 2D context is not available');
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      for (const format of ['webp', 'jpeg'] as VariantFormat[]) {
+        const blob = await canvasToBlob(canvas, `image/${format}`, QUALITY[format]);
+        // Unsupported formats silently fall back to PNG
+        if (blob && blob.type === `image/${format}`) {
+          variants.push({ name, format, width, height, blob });
+        }
+      }
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  return variants;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
@@ -0,0 +1,115 @@
+export type MediaKind = 'image' | 'panorama' | 'video' | 'audio';
+export type MediaRejection = 'unsupported_type' | 'too_large';
+
+export interface MediaInfo {
+  kind: MediaKind;
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+}
+
+type FileCategory = 'image' | 'video' | 'audio';
+
+// Formats every current browser can play without plugins
+const ALLOWED_TYPES: Record<FileCategory, string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  video: ['video/mp4', 'video/webm', 'video/quicktime'],
+  audio: ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/webm'],
+};
+
+export const MAX_FILE_SIZE_MB: Record<FileCategory, number> = {
+  image: 25,
+  video: 200,
+  audio: 50,
+};
+
+// Value for <input type="file" accept>
+export const MEDIA_ACCEPT = Object.values(ALLOWED_TYPES).flat().join(',');
+
+// Equirectangular panoramas are exactly twice as wide as they are tall
+const PANORAMA_ASPECT_TOLERANCE = 0.01;
+const PANORAMA_MIN_WIDTH = 2000;
+// Photo Sphere XMP sits near the start of the file, like EXIF
+const XMP_SCAN_BYTES = 256 * 1024;
+
+export function fileCategory(mimeType: string | null | undefined): FileCategory | null {
+  if (!mimeType) return null;
+  const category = mimeType.split('/')[0];
+  return category === 'image' || category === 'video' || category === 'audio' ? category : null;
+}
+
+/**
+ * Check a file against the allowed formats and size limit of its category
+ */
+export function validateMediaFile(file: File): MediaRejection | null {
+  const category = fileCategory(file.type);
+  if (!category || !ALLOWED_TYPES[category].includes(file.type)) return 'unsupported_type';
+  if (file.size > MAX_FILE_SIZE_MB[category] * 1024 * 1024) return 'too_large';
+  return null;
+}
+
+/**
+ * Read dimensions and duration of an image, video or audio file, and detect
+ * 360° panoramas from Photo Sphere XMP tags or a 2:1 aspect ratio
+ */
+export async function extractMediaInfo(file: File): Promise<MediaInfo> {
+  const category = fileCategory(file.type);
+
+  if (category === 'video' || category === 'audio') {
+    const { width, height, duration } = await readPlaybackMetadata(file, category);
+    return { kind: category, width, height, durationSeconds: duration };
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const panorama = (await hasEquirectangularXmp(file)) || (
+    width >= PANORAMA_MIN_WIDTH && Math.abs(width / height - 2) <= PANORAMA_ASPECT_TOLERANCE
+  );
+  return { kind: panorama ? 'panorama' : 'image', width, height, durationSeconds: null };
+}
+
+function readPlaybackMetadata(
+  file: File,
+  category: 'video' | 'audio'
+): Promise<{ width: number | null; height: number | null; duration: number | null }> {
+  return new Promise((resolve, reject) => {
+    const element = document.createElement(category);
+    const url = URL.createObjectURL(file);
+    const cleanUp = () => {
+      element.removeAttribute('src');
+      element.load();
+      URL.revokeObjectURL(url);
+    };
+
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => {
+      const video = category === 'video' ? (element as HTMLVideoElement) : null;
+      resolve({
+        width: video?.videoWidth || null,
+        height: video?.videoHeight || null,
+        // Live streams and some WebM files report Infinity
+        duration: Number.isFinite(element.duration) ? element.duration : null,
+      });
+      cleanUp();
+    };
+    element.onerror = () => {
+      cleanUp();
+      reject(new Error(`Could not read ${category} metadata of ${file.name}`));
+    };
+    element.src = url;
+  });
+}
+
+async function hasEquirectangularXmp(file: Blob): Promise<boolean> {
+  const text = new TextDecoder('latin1').decode(await file.slice(0, XMP_SCAN_BYTES).arrayBuffer());
+  return /GPano:ProjectionType(="|>)equirectangular/i.test(text);
+}
+
+export function formatDuration(seconds: number | null | undefined): string | null {
+  if (seconds === null || seconds === undefined) return null;
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+}
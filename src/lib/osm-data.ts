@@ -0,0 +1,235 @@
+import { pointInRing } from "@/lib/point-in-polygon";
+
+export type OsmTags = Record<string, string>;
+
+export interface OsmNode {
+  lat: number;
+  lon: number;
+  tags?: OsmTags;
+}
+
+export interface OsmWay {
+  id: number;
+  nodes: number[];
+  tags?: OsmTags;
+  // [lon, lat] pairs when the source inlines geometry (Overpass "out geom")
+  geometry?: [number, number][];
+}
+
+export interface OsmMember {
+  type: 'node' | 'way' | 'relation';
+  ref: number;
+  role: string;
+  geometry?: [number, number][];
+}
+
+export interface OsmRelation {
+  id: number;
+  members: OsmMember[];
+  tags?: OsmTags;
+}
+
+export interface OsmData {
+  nodes: Map<number, OsmNode>;
+  ways: OsmWay[];
+  relations: OsmRelation[];
+}
+
+export type OverlayLayer = 'roads' | 'rivers' | 'villages';
+
+export type OverlayFeatures = Record<OverlayLayer, GeoJSON.Feature[]>;
+
+// Vehicle roads; footpaths and planned roads are left out
+const ROAD_CLASSES = new Set([
+  'motorway', 'motorway_link', 'trunk', 'trunk_link', 'primary', 'primary_link',
+  'secondary', 'secondary_link', 'tertiary', 'tertiary_link', 'unclassified',
+  'residential', 'living_street', 'service', 'track',
+]);
+
+const RIVER_CLASSES = new Set(['river', 'stream', 'canal', 'drain']);
+
+// Desa/kelurahan are admin_level 7 in OSM Indonesia
+const VILLAGE_ADMIN_LEVEL = '7';
+const VILLAGE_PLACES = new Set(['village', 'town', 'hamlet']);
+
+// Tags copied into feature properties for popups
+const PROPERTY_TAGS = ['name', 'name:id', 'ref', 'surface', 'lanes', 'oneway', 'width', 'admin_level', 'place', 'population', 'wikidata'];
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  geometry?: ({ lat: number; lon: number } | null)[];
+  members?: { type: OsmMember['type']; ref: number; role: string; geometry?: ({ lat: number; lon: number } | null)[] }[];
+  tags?: OsmTags;
+}
+
+/**
+ * Read an Overpass API JSON response ("out body" with nodes, or "out geom")
+ */
+export function parseOverpassJson(json: { elements?: OverpassElement[] }): OsmData {
+  const data: OsmData = { nodes: new Map(), ways: [], relations: [] };
+  const toCoordinates = (geometry?: ({ lat: number; lon: number } | null)[]) =>
+    geometry?.filter((point): point is { lat: number; lon: number } => !!point)
+      .map(point => [point.lon, point.lat] as [number, number]);
+
+  for (const element of json.elements ?? []) {
+    if (element.type === 'node' && element.lat !== undefined && element.lon !== undefined) {
+      data.nodes.set(element.id, { lat: element.lat, lon: element.lon, tags: element.tags });
+    } else if (element.type === 'way') {
+      data.ways.push({
+        id: element.id,
+        nodes: element.nodes ?? [],
+        tags: element.tags,
+        geometry: toCoordinates(element.geometry),
+      });
+    } else if (element.type === 'relation') {
+      data.relations.push({
+        id: element.id,
+        members: (element.members ?? []).map(member => ({
+          type: member.type,
+          ref: member.ref,
+          role: member.role,
+          geometry: toCoordinates(member.geometry),
+        })),
+        tags: element.tags,
+      });
+    }
+  }
+
+  return data;
+}
+
+export function classifyOsmTags(tags: OsmTags | undefined): OverlayLayer | null {
+  if (!tags) return null;
+  if (tags.highway && ROAD_CLASSES.has(tags.highway)) return 'roads';
+  if (tags.waterway && RIVER_CLASSES.has(tags.waterway)) return 'rivers';
+  if (tags.boundary === 'administrative' && tags.admin_level === VILLAGE_ADMIN_LEVEL) return 'villages';
+  if (tags.place && VILLAGE_PLACES.has(tags.place)) return 'villages';
+  return null;
+}
+
+/**
+ * Turn OSM elements into GeoJSON features grouped by overlay layer
+ */
+export function osmToOverlayFeatures(data: OsmData): OverlayFeatures {
+  const features: OverlayFeatures = { roads: [], rivers: [], villages: [] };
+  const waysById = new Map(data.ways.map(way => [way.id, way]));
+  const coordinatesOf = (way: OsmWay): [number, number][] =>
+    way.geometry ?? way.nodes
+      .map(ref => data.nodes.get(ref))
+      .filter((node): node is OsmNode => !!node)
+      .map(node => [node.lon, node.lat]);
+
+  data.nodes.forEach((node, id) => {
+    const layer = classifyOsmTags(node.tags);
+    // Only place nodes become point features; road and river nodes are vertices
+    if (layer !== 'villages' || !node.tags?.place) return;
+    features.villages.push(toFeature(`node/${id}`, layer, node.tags, { type: 'Point', coordinates: [node.lon, node.lat] }));
+  });
+
+  for (const way of data.ways) {
+    const layer = classifyOsmTags(way.tags);
+    if (!layer) continue;
+    const coordinates = coordinatesOf(way);
+    if (coordinates.length < 2) continue;
+
+    const geometry: GeoJSON.Geometry = layer === 'villages' && isClosed(coordinates)
+      ? { type: 'Polygon', coordinates: [coordinates] }
+      : { type: 'LineString', coordinates };
+    features[layer].push(toFeature(`way/${way.id}`, layer, way.tags!, geometry));
+  }
+
+  for (const relation of data.relations) {
+    const layer = classifyOsmTags(relation.tags);
+    if (!layer) continue;
+
+    const memberLines = (role: (value: string) => boolean) => relation.members
+      .filter(member => member.type === 'way' && role(member.role))
+      .map(member => member.geometry ?? (waysById.has(member.ref) ? coordinatesOf(waysById.get(member.ref)!) : []))
+      .filter(line => line.length >= 2);
+
+    if (layer === 'villages') {
+      const polygon = assemblePolygon(
+        memberLines(role => role === 'outer' || role === ''),
+        memberLines(role => role === 'inner')
+      );
+      if (polygon) features.villages.push(toFeature(`relation/${relation.id}`, layer, relation.tags!, polygon));
+    } else {
+      // Route and waterway relations: draw their member ways as one feature
+      const lines = memberLines(() => true);
+      if (lines.length > 0) {
+        features[layer].push(toFeature(`relation/${relation.id}`, layer, relation.tags!, { type: 'MultiLineString', coordinates: lines }));
+      }
+    }
+  }
+
+  return features;
+}
+
+function toFeature(id: string, layer: OverlayLayer, tags: OsmTags, geometry: GeoJSON.Geometry): GeoJSON.Feature {
+  const properties: GeoJSON.GeoJsonProperties = { osm_id: id, layer };
+  properties.kind = layer === 'roads' ? tags.highway : layer === 'rivers' ? tags.waterway : tags.place ?? 'boundary';
+  for (const key of PROPERTY_TAGS) {
+    if (tags[key] !== undefined) properties[key] = tags[key];
+  }
+  return { type: 'Feature', id, geometry, properties };
+}
+
+const isClosed = (line: [number, number][]) =>
+  line.length >= 4 && line[0][0] === line[line.length - 1][0] && line[0][1] === line[line.length - 1][1];
+
+const samePoint = (a: [number, number], b: [number, number]) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Join way segments end to end into closed rings. Segments that cannot be
+ * closed (e.g. cut off at the edge of the extract) are dropped.
+ */
+export function assembleRings(lines: [number, number][][]): [number, number][][] {
+  const remaining = lines.map(line => [...line]);
+  const rings: [number, number][][] = [];
+
+  while (remaining.length > 0) {
+    const ring = remaining.shift()!;
+    let extended = true;
+
+    while (!isClosed(ring) && extended) {
+      extended = false;
+      const end = ring[ring.length - 1];
+      for (let i = 0; i < remaining.length; i++) {
+        const candidate = remaining[i];
+        if (samePoint(candidate[0], end)) {
+          ring.push(...candidate.slice(1));
+        } else if (samePoint(candidate[candidate.length - 1], end)) {
+          ring.push(...candidate.slice(0, -1).reverse());
+        } else {
+          continue;
+        }
+        remaining.splice(i, 1);
+        extended = true;
+        break;
+      }
+    }
+
+    if (isClosed(ring)) rings.push(ring);
+  }
+
+  return rings;
+}
+
+function assemblePolygon(outerLines: [number, number][][], innerLines: [number, number][][]): GeoJSON.Polygon | GeoJSON.MultiPolygon | null {
+  const outers = assembleRings(outerLines);
+  if (outers.length === 0) return null;
+
+  const polygons: [number, number][][][] = outers.map(ring => [ring]);
+  for (const inner of assembleRings(innerLines)) {
+    const owner = polygons.find(polygon => pointInRing(inner[0], polygon[0]));
+    owner?.push(inner);
+  }
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
@@ -0,0 +1,337 @@
+import type { OsmData, OsmMember, OsmTags } from "@/lib/osm-data";
+
+// Field numbers from the OSM PBF format (fileformat.proto / osmformat.proto)
+const BLOB_HEADER_TYPE = 1;
+const BLOB_HEADER_DATASIZE = 3;
+const BLOB_RAW = 1;
+const BLOB_ZLIB_DATA = 3;
+
+const BLOCK_STRINGTABLE = 1;
+const BLOCK_PRIMITIVEGROUP = 2;
+const BLOCK_GRANULARITY = 17;
+const BLOCK_LAT_OFFSET = 19;
+const BLOCK_LON_OFFSET = 20;
+
+const GROUP_NODES = 1;
+const GROUP_DENSE = 2;
+const GROUP_WAYS = 3;
+const GROUP_RELATIONS = 4;
+
+const MEMBER_TYPES: OsmMember['type'][] = ['node', 'way', 'relation'];
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Minimal protobuf reader. Varints are decoded into doubles, which is exact
+ * for OSM ids and coordinates (all below 2^53).
+ */
+class ProtoReader {
+  pos: number;
+
+  constructor(private bytes: Uint8Array, start = 0, readonly end = bytes.length) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      if (this.pos >= this.end) throw new Error('Truncated varint in PBF data');
+      byte = this.bytes[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  svarint(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  // Two's complement int64/int32 fields; OSM only stores small negative offsets in them
+  int(): number {
+    const value = this.varint();
+    return value >= 2 ** 63 ? value - 2 ** 64 : value;
+  }
+
+  tag(): { field: number; wire: number } {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), wire: key % 8 };
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    const value = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  string(): string {
+    return TEXT_DECODER.decode(this.bytesField());
+  }
+
+  // Reader over a length-delimited field, for nested messages
+  message(): ProtoReader {
+    const length = this.varint();
+    const reader = new ProtoReader(this.bytes, this.pos, this.pos + length);
+    this.pos += length;
+    return reader;
+  }
+
+  packed(read: (reader: ProtoReader) => number): number[] {
+    const inner = this.message();
+    const values: number[] = [];
+    while (!inner.done) values.push(read(inner));
+    return values;
+  }
+
+  skip(wire: number): void {
+    if (wire === WIRE_VARINT) this.varint();
+    else if (wire === WIRE_FIXED64) this.pos += 8;
+    else if (wire === WIRE_BYTES) this.pos += this.varint();
+    else if (wire === WIRE_FIXED32) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wire}`);
+  }
+}
+
+const TEXT_DECODER = new TextDecoder();
+
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+/**
+ * Decode an .osm.pbf extract into nodes, ways and relations. Metadata
+ * (versions, timestamps, users) is skipped.
+ */
+export async function parseOsmPbf(buffer: ArrayBuffer): Promise<OsmData> {
+  const data: OsmData = { nodes: new Map(), ways: [], relations: [] };
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  while (offset + 4 <= bytes.length) {
+    const headerLength = view.getUint32(offset);
+    offset += 4;
+
+    const header = new ProtoReader(bytes, offset, offset + headerLength);
+    let type = '';
+    let dataSize = 0;
+    while (!header.done) {
+      const { field, wire } = header.tag();
+      if (field === BLOB_HEADER_TYPE) type = header.string();
+      else if (field === BLOB_HEADER_DATASIZE) dataSize = header.varint();
+      else header.skip(wire);
+    }
+    offset += headerLength;
+
+    if (type === 'OSMData') {
+      const block = await readBlob(bytes.subarray(offset, offset + dataSize));
+      readPrimitiveBlock(block, data);
+    } else if (type !== 'OSMHeader') {
+      console.warn(`Skipping unknown PBF blob type "${type}"`);
+    }
+    offset += dataSize;
+  }
+
+  return data;
+}
+
+async function readBlob(blob: Uint8Array): Promise<Uint8Array> {
+  const reader = new ProtoReader(blob);
+  while (!reader.done) {
+    const { field, wire } = reader.tag();
+    if (field === BLOB_RAW) return reader.bytesField();
+    if (field === BLOB_ZLIB_DATA) return inflate(reader.bytesField());
+    reader.skip(wire);
+  }
+  throw new Error('PBF blob uses an unsupported compression (only raw and zlib are supported)');
+}
+
+async function inflate(compressed: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readPrimitiveBlock(block: Uint8Array, data: OsmData): void {
+  const context: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: ProtoReader[] = [];
+
+  const reader = new ProtoReader(block);
+  while (!reader.done) {
+    const { field, wire } = reader.tag();
+    if (field === BLOCK_STRINGTABLE) {
+      const table = reader.message();
+      while (!table.done) {
+        const entry = table.tag();
+        if (entry.field === 1) context.strings.push(table.string());
+        else table.skip(entry.wire);
+      }
+    } else if (field === BLOCK_PRIMITIVEGROUP) {
+      // Groups may precede the granularity fields, so decode them afterwards
+      groups.push(reader.message());
+    } else if (field === BLOCK_GRANULARITY) {
+      context.granularity = reader.varint();
+    } else if (field === BLOCK_LAT_OFFSET) {
+      context.latOffset = reader.int();
+    } else if (field === BLOCK_LON_OFFSET) {
+      context.lonOffset = reader.int();
+    } else {
+      reader.skip(wire);
+    }
+  }
+
+  for (const group of groups) {
+    while (!group.done) {
+      const { field, wire } = group.tag();
+      if (field === GROUP_NODES) readNode(group.message(), context, data);
+      else if (field === GROUP_DENSE) readDenseNodes(group.message(), context, data);
+      else if (field === GROUP_WAYS) readWay(group.message(), context, data);
+      else if (field === GROUP_RELATIONS) readRelation(group.message(), context, data);
+      else group.skip(wire);
+    }
+  }
+}
+
+const toDegrees = (value: number, offset: number, context: BlockContext) =>
+  (offset + context.granularity * value) * 1e-9;
+
+function tagsFrom(keys: number[], values: number[], strings: string[]): OsmTags | undefined {
+  if (keys.length === 0) return undefined;
+  const tags: OsmTags = {};
+  keys.forEach((key, index) => {
+    tags[strings[key]] = strings[values[index]];
+  });
+  return tags;
+}
+
+function readNode(reader: ProtoReader, context: BlockContext, data: OsmData): void {
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+
+  while (!reader.done) {
+    const { field, wire } = reader.tag();
+    if (field === 1) id = reader.svarint();
+    else if (field === 2) keys = reader.packed(r => r.varint());
+    else if (field === 3) values = reader.packed(r => r.varint());
+    else if (field === 8) lat = reader.svarint();
+    else if (field === 9) lon = reader.svarint();
+    else reader.skip(wire);
+  }
+
+  data.nodes.set(id, {
+    lat: toDegrees(lat, context.latOffset, context),
+    lon: toDegrees(lon, context.lonOffset, context),
+    tags: tagsFrom(keys, values, context.strings),
+  });
+}
+
+function readDenseNodes(reader: ProtoReader, context: BlockContext, data: OsmData): void {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  let keysVals: number[] = [];
+
+  while (!reader.done) {
+    const { field, wire } = reader.tag();
+    if (field === 1) ids = reader.packed(r => r.svarint());
+    else if (field === 8) lats = reader.packed(r => r.svarint());
+    else if (field === 9) lons = reader.packed(r => r.svarint());
+    else if (field === 10) keysVals = reader.packed(r => r.varint());
+    else reader.skip(wire);
+  }
+
+  // Ids and coordinates are delta coded; tags are key/value string indexes with 0 ending each node
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let tagIndex = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i];
+    lat += lats[i];
+    lon += lons[i];
+
+    let tags: OsmTags | undefined;
+    while (tagIndex < keysVals.length && keysVals[tagIndex] !== 0) {
+      tags = tags ?? {};
+      tags[context.strings[keysVals[tagIndex]]] = context.strings[keysVals[tagIndex + 1]];
+      tagIndex += 2;
+    }
+    tagIndex++;
+
+    data.nodes.set(id, {
+      lat: toDegrees(lat, context.latOffset, context),
+      lon: toDegrees(lon, context.lonOffset, context),
+      tags,
+    });
+  }
+}
+
+function readWay(reader: ProtoReader, context: BlockContext, data: OsmData): void {
+  let id = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+  let refs: number[] = [];
+
+  while (!reader.done) {
+    const { field, wire } = reader.tag();
+    if (field === 1) id = reader.varint();
+    else if (field === 2) keys = reader.packed(r => r.varint());
+    else if (field === 3) values = reader.packed(r => r.varint());
+    else if (field === 8) refs = reader.packed(r => r.svarint());
+    else reader.skip(wire);
+  }
+
+  let ref = 0;
+  data.ways.push({
+    id,
+    nodes: refs.map(delta => (ref += delta)),
+    tags: tagsFrom(keys, values, context.strings),
+  });
+}
+
+function readRelation(reader: ProtoReader, context: BlockContext, data: OsmData): void {
+  let id = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+  let roles: number[] = [];
+  let memberIds: number[] = [];
+  let types: number[] = [];
+
+  while (!reader.done) {
+    const { field, wire } = reader.tag();
+    if (field === 1) id = reader.varint();
+    else if (field === 2) keys = reader.packed(r => r.varint());
+    else if (field === 3) values = reader.packed(r => r.varint());
+    else if (field === 8) roles = reader.packed(r => r.varint());
+    else if (field === 9) memberIds = reader.packed(r => r.svarint());
+    else if (field === 10) types = reader.packed(r => r.varint());
+    else reader.skip(wire);
+  }
+
+  let ref = 0;
+  data.relations.push({
+    id,
+    members: memberIds.map((delta, index) => ({
+      type: MEMBER_TYPES[types[index]] ?? 'node',
+      ref: (ref += delta),
+      role: context.strings[roles[index]] ?? '',
+    })),
+    tags: tagsFrom(keys, values, context.strings),
+  });
+}
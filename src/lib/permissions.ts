@@ -0,0 +1,76 @@
+import { Constants } from "@/integrations/supabase/types";
+import type { UserRole } from "@/types/profiles";
+
+export const USER_ROLES: readonly UserRole[] = Constants.public.Enums.user_role;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  researcher: "Peneliti",
+  guide: "Pemandu",
+  tourist: "Wisatawan",
+  local_authority: "Pemerintah Daerah",
+  cultural_expert: "Ahli Budaya",
+};
+
+export const PERMISSIONS = [
+  'admin.access',
+  'dashboard.view',
+  'sites.contribute',
+  'sites.review',
+  'categories.manage',
+  'practices.manage',
+  'historical_records.manage',
+  'routes.manage',
+  'conservation.manage',
+  'reviews.moderate',
+  'ai.review',
+  'media.maintain',
+  'audit.view',
+  'records.restore',
+  'users.manage',
+  'permissions.view',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const PERMISSION_LABELS: Record<Permission, { label: string; description: string }> = {
+  'admin.access': { label: "Panel admin", description: "Membuka /admin; tab yang tampil mengikuti hak akses lainnya" },
+  'dashboard.view': { label: "Dasbor & laporan", description: "Statistik, dasbor dan laporan analisis" },
+  'sites.contribute': { label: "Kontribusi situs", description: "Menambah dan mengubah situs sebagai draf untuk ditinjau" },
+  'sites.review': { label: "Tinjau situs", description: "Menyetujui, menolak dan menerbitkan situs secara langsung" },
+  'categories.manage': { label: "Kategori", description: "Mengelola kategori warisan budaya" },
+  'practices.manage': { label: "Praktik budaya", description: "Mengelola praktik budaya" },
+  'historical_records.manage': { label: "Catatan sejarah", description: "Mengelola catatan sejarah dan linimasa" },
+  'routes.manage': { label: "Rute wisata", description: "Mengelola rute wisata dan urutan situsnya" },
+  'conservation.manage': { label: "Konservasi", description: "Mengelola proyek konservasi" },
+  'reviews.moderate': { label: "Moderasi ulasan", description: "Memverifikasi dan menghapus ulasan pengunjung" },
+  'ai.review': { label: "Tinjauan AI", description: "Meninjau hasil klasifikasi AI dengan keyakinan rendah" },
+  'media.maintain': { label: "Pemeliharaan media", description: "Duplikat media dan rekonsiliasi penyimpanan" },
+  'audit.view': { label: "Log audit", description: "Melihat riwayat perubahan data" },
+  'records.restore': { label: "Pulihkan versi", description: "Mengembalikan data ke versi sebelumnya" },
+  'users.manage': { label: "Pengguna", description: "Mengubah peran, memverifikasi ahli dan menonaktifkan akun" },
+  'permissions.view': { label: "Matriks hak akses", description: "Melihat matriks hak akses per peran" },
+};
+
+/**
+ * Permissions per role. Database policies mirror this matrix through
+ * public.has_permission(); keep both in sync when changing it.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  cultural_expert: [
+    'admin.access', 'dashboard.view', 'sites.contribute', 'sites.review', 'practices.manage',
+    'historical_records.manage', 'routes.manage', 'conservation.manage', 'reviews.moderate', 'ai.review', 'audit.view',
+  ],
+  researcher: [
+    'admin.access', 'dashboard.view', 'sites.contribute', 'historical_records.manage', 'ai.review', 'audit.view',
+  ],
+  local_authority: [
+    'admin.access', 'dashboard.view', 'sites.contribute', 'conservation.manage', 'audit.view',
+  ],
+  guide: ['admin.access', 'sites.contribute', 'routes.manage'],
+  tourist: [],
+};
+
+export const hasPermission = (role: string | null | undefined, permission: Permission): boolean =>
+  !!role && (ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false);
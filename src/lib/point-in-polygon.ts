@@ -0,0 +1,37 @@
+type Position = [number, number];
+
+/**
+ * Ray casting point-in-polygon test on a single ring of [lon, lat] pairs
+ */
+export function pointInRing(point: Position, ring: Position[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a [lon, lat] point lies inside a Polygon or MultiPolygon,
+ * honouring holes. Other geometry types never contain a point.
+ */
+export function pointInGeometry(point: Position, geometry: GeoJSON.Geometry): boolean {
+  const inPolygon = (rings: Position[][]) =>
+    rings.length > 0 && pointInRing(point, rings[0]) && !rings.slice(1).some(hole => pointInRing(point, hole));
+
+  switch (geometry.type) {
+    case 'Polygon':
+      return inPolygon(geometry.coordinates as Position[][]);
+    case 'MultiPolygon':
+      return geometry.coordinates.some(polygon => inPolygon(polygon as Position[][]));
+    case 'GeometryCollection':
+      return geometry.geometries.some(child => pointInGeometry(point, child));
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,215 @@
+import { pointInRing } from "@/lib/point-in-polygon";
+
+// [lon, lat] pairs; coordinates are treated as planar, which is fine for
+// the few kilometres buffer zones span
+type Position = [number, number];
+type Ring = Position[];
+
+interface Edge {
+  start: Position;
+  end: Position;
+  ring: number;
+  // Points where other rings cross this edge, by position along it
+  splits: { t: number; point: Position }[];
+}
+
+const EPSILON = 1e-12;
+
+const signedArea = (ring: Ring) => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    total += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return total / 2;
+};
+
+const isClosed = (ring: Ring) =>
+  ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+
+const close = (ring: Ring): Ring => (isClosed(ring) ? ring : [...ring, ring[0]]);
+
+// Closed and counter-clockwise
+const normalize = (ring: Ring): Ring => {
+  const closed = close(ring);
+  return signedArea(closed) < 0 ? [...closed].reverse() : closed;
+};
+
+const cross = (o: Position, a: Position, b: Position) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+const ringBBox = (ring: Ring) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of ring) {
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+type Box = ReturnType<typeof ringBBox>;
+
+const boxesOverlap = (a: Box, b: Box) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+/**
+ * Intersection of a polygon ring with a convex ring (Sutherland-Hodgman).
+ * Returns a closed counter-clockwise ring, or null when they do not overlap.
+ */
+export function intersectConvex(subject: Ring, convexClip: Ring): Ring | null {
+  const clip = normalize(convexClip);
+  let output = normalize(subject).slice(0, -1);
+
+  for (let i = 0; i < clip.length - 1 && output.length > 0; i++) {
+    const a = clip[i];
+    const b = clip[i + 1];
+    const inside = (p: Position) => cross(a, b, p) >= 0;
+    const intersection = (p: Position, q: Position): Position => {
+      const dp = cross(a, b, p);
+      const dq = cross(a, b, q);
+      const t = dp / (dp - dq);
+      return [p[0] + t * (q[0] - p[0]), p[1] + t * (q[1] - p[1])];
+    };
+
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j];
+      const previous = input[(j + input.length - 1) % input.length];
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersection(previous, current));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersection(previous, current));
+      }
+    }
+  }
+
+  if (output.length < 3) return null;
+  const ring = close(output);
+  return Math.abs(signedArea(ring)) > EPSILON ? ring : null;
+}
+
+/**
+ * Union of simple polygon rings (no holes). Edges are split where rings
+ * cross, pieces inside another ring are dropped and the rest are chained
+ * back into rings. Returns MultiPolygon coordinates; holes appear where
+ * rings enclose an uncovered area.
+ */
+export function unionRings(input: Ring[]): Ring[][] {
+  // Identical rings (e.g. two sites at the same coordinates) would hide each other's edges
+  const seen = new Set<string>();
+  const rings = input
+    .filter(ring => ring.length >= 3)
+    .map(normalize)
+    .filter(ring => {
+      const key = ring.map(([x, y]) => `${x},${y}`).join(';');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  if (rings.length === 0) return [];
+
+  const boxes = rings.map(ringBBox);
+  const edgesByRing: Edge[][] = rings.map((ring, index) =>
+    ring.slice(0, -1).map((start, i) => ({ start, end: ring[i + 1], ring: index, splits: [] }))
+  );
+
+  for (let r = 0; r < rings.length; r++) {
+    for (let s = r + 1; s < rings.length; s++) {
+      if (!boxesOverlap(boxes[r], boxes[s])) continue;
+      for (const a of edgesByRing[r]) {
+        for (const b of edgesByRing[s]) {
+          addIntersection(a, b);
+        }
+      }
+    }
+  }
+
+  const pieces: { start: Position; end: Position }[] = [];
+  for (const edges of edgesByRing) {
+    for (const edge of edges) {
+      const points = [edge.start, ...edge.splits.sort((x, y) => x.t - y.t).map(split => split.point), edge.end];
+      for (let i = 0; i < points.length - 1; i++) {
+        const [start, end] = [points[i], points[i + 1]];
+        if (start[0] === end[0] && start[1] === end[1]) continue;
+
+        const middle: Position = [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2];
+        const covered = rings.some((ring, index) =>
+          index !== edge.ring &&
+          middle[0] >= boxes[index].minX && middle[0] <= boxes[index].maxX &&
+          middle[1] >= boxes[index].minY && middle[1] <= boxes[index].maxY &&
+          pointInRing(middle, ring)
+        );
+        if (!covered) pieces.push({ start, end });
+      }
+    }
+  }
+
+  return assemblePolygons(chainPieces(pieces));
+}
+
+function addIntersection(a: Edge, b: Edge): void {
+  const r: Position = [a.end[0] - a.start[0], a.end[1] - a.start[1]];
+  const s: Position = [b.end[0] - b.start[0], b.end[1] - b.start[1]];
+  const denominator = r[0] * s[1] - r[1] * s[0];
+  // Parallel or collinear edges do not cross at a single point
+  if (Math.abs(denominator) < EPSILON * EPSILON) return;
+
+  const qp: Position = [b.start[0] - a.start[0], b.start[1] - a.start[1]];
+  const t = (qp[0] * s[1] - qp[1] * s[0]) / denominator;
+  const u = (qp[0] * r[1] - qp[1] * r[0]) / denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return;
+
+  // Both edges share the same point object so the pieces chain exactly
+  const point: Position = t === 0 ? a.start : t === 1 ? a.end : u === 0 ? b.start : u === 1 ? b.end
+    : [a.start[0] + t * r[0], a.start[1] + t * r[1]];
+  if (t > 0 && t < 1) a.splits.push({ t, point });
+  if (u > 0 && u < 1) b.splits.push({ t: u, point });
+}
+
+const keyOf = ([x, y]: Position) => `${x},${y}`;
+
+function chainPieces(pieces: { start: Position; end: Position }[]): Ring[] {
+  const byStart = new Map<string, number[]>();
+  pieces.forEach((piece, index) => {
+    const key = keyOf(piece.start);
+    byStart.set(key, [...(byStart.get(key) ?? []), index]);
+  });
+
+  const used = new Set<number>();
+  const rings: Ring[] = [];
+
+  for (let first = 0; first < pieces.length; first++) {
+    if (used.has(first)) continue;
+    used.add(first);
+
+    const ring: Ring = [pieces[first].start, pieces[first].end];
+    const startKey = keyOf(pieces[first].start);
+    let current = pieces[first].end;
+
+    while (keyOf(current) !== startKey) {
+      const next = (byStart.get(keyOf(current)) ?? []).find(index => !used.has(index));
+      // Numerical leftovers that cannot be closed are dropped
+      if (next === undefined) break;
+      used.add(next);
+      current = pieces[next].end;
+      ring.push(current);
+    }
+
+    if (keyOf(current) === startKey && ring.length >= 4) rings.push(ring);
+  }
+
+  return rings;
+}
+
+// Counter-clockwise rings are outlines, clockwise ones are holes inside them
+function assemblePolygons(rings: Ring[]): Ring[][] {
+  const outers = rings.filter(ring => signedArea(ring) > EPSILON).map(ring => [ring]);
+  for (const hole of rings.filter(ring => signedArea(ring) < -EPSILON)) {
+    const owner = outers.find(polygon => pointInRing(hole[0], polygon[0]) || hole.some(point => pointInRing(point, polygon[0])));
+    owner?.push(hole);
+  }
+  return outers;
+}
@@ -0,0 +1,313 @@
+import { EARTH_RADIUS_METERS } from "@/lib/geo-buffer";
+import { pointInRing } from "@/lib/point-in-polygon";
+
+// [lon, lat] in degrees, as in GeoJSON
+type Position = [number, number];
+
+// Cluster label per input point; NOISE for points in no cluster
+export type ClusterLabels = number[];
+
+export const NOISE = -1;
+
+export type Linkage = 'single' | 'complete' | 'average';
+
+/**
+ * Project points to metres on a plane through their centroid
+ * (equirectangular), which keeps distances within a fraction of a percent
+ * across an island the size of Lombok
+ */
+export function projectToMeters(points: Position[]): Position[] {
+  if (points.length === 0) return [];
+  const meanLat = points.reduce((sum, [, lat]) => sum + lat, 0) / points.length;
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_METERS;
+  const cosLat = Math.cos((meanLat * Math.PI) / 180);
+  return points.map(([lon, lat]) => [lon * metersPerDegree * cosLat, lat * metersPerDegree]);
+}
+
+const distance = (a: Position, b: Position) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+/**
+ * DBSCAN on projected points. Clusters are numbered in the order of their
+ * first core point, so the result only depends on the input order for
+ * border points reachable from two clusters.
+ */
+export function dbscan(points: Position[], epsMeters: number, minPoints: number): ClusterLabels {
+  const labels: ClusterLabels = new Array(points.length).fill(undefined);
+  const neighbours = (index: number) =>
+    points.reduce<number[]>((found, point, other) => {
+      if (distance(points[index], point) <= epsMeters) found.push(other);
+      return found;
+    }, []);
+
+  let cluster = 0;
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== undefined) continue;
+
+    const seeds = neighbours(i);
+    // minPoints counts the point itself, as in the original paper
+    if (seeds.length < minPoints) {
+      labels[i] = NOISE;
+      continue;
+    }
+
+    labels[i] = cluster;
+    const queue = seeds.filter(index => index !== i);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (labels[current] === NOISE) labels[current] = cluster;
+      if (labels[current] !== undefined) continue;
+
+      labels[current] = cluster;
+      const reachable = neighbours(current);
+      if (reachable.length >= minPoints) queue.push(...reachable);
+    }
+    cluster++;
+  }
+
+  return labels;
+}
+
+/**
+ * k-means with k-means++ seeding. The seed makes runs repeatable.
+ */
+export function kMeans(points: Position[], k: number, seed = 1, maxIterations = 100): ClusterLabels {
+  if (points.length === 0) return [];
+  const clusterCount = Math.max(1, Math.min(k, points.length));
+  const random = mulberry32(seed);
+
+  const centroids: Position[] = [points[Math.floor(random() * points.length)]];
+  while (centroids.length < clusterCount) {
+    const weights = points.map(point => Math.min(...centroids.map(centroid => distance(point, centroid))) ** 2);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    // All remaining points coincide with a centroid
+    if (total === 0) break;
+
+    let target = random() * total;
+    const index = weights.findIndex(weight => (target -= weight) <= 0);
+    centroids.push(points[index === -1 ? points.length - 1 : index]);
+  }
+
+  let labels: ClusterLabels = new Array(points.length).fill(0);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = points.map(point => {
+      let best = 0;
+      centroids.forEach((centroid, index) => {
+        if (distance(point, centroid) < distance(point, centroids[best])) best = index;
+      });
+      return best;
+    });
+
+    const changed = iteration === 0 || next.some((label, index) => label !== labels[index]);
+    labels = next;
+    if (!changed) break;
+
+    centroids.forEach((centroid, index) => {
+      const members = points.filter((_, point) => labels[point] === index);
+      // An empty cluster keeps its previous centroid
+      if (members.length === 0) return;
+      centroids[index] = [
+        members.reduce((sum, [x]) => sum + x, 0) / members.length,
+        members.reduce((sum, [, y]) => sum + y, 0) / members.length,
+      ];
+    });
+  }
+
+  return relabel(labels);
+}
+
+/**
+ * Agglomerative clustering cut where the next merge would join clusters
+ * further apart than the threshold. Lance-Williams updates keep it
+ * O(n²) memory; fine for the few hundred sites of the catalogue.
+ */
+export function hierarchical(points: Position[], thresholdMeters: number, linkage: Linkage = 'average'): ClusterLabels {
+  const count = points.length;
+  const distances = points.map(a => points.map(b => distance(a, b)));
+  const sizes = new Array(count).fill(1);
+  const active = new Set(points.map((_, index) => index));
+  const members = points.map((_, index) => [index]);
+
+  while (active.size > 1) {
+    let best: [number, number] | null = null;
+    let bestDistance = Infinity;
+    for (const i of active) {
+      for (const j of active) {
+        if (j <= i) continue;
+        if (distances[i][j] < bestDistance) {
+          bestDistance = distances[i][j];
+          best = [i, j];
+        }
+      }
+    }
+    if (!best || bestDistance > thresholdMeters) break;
+
+    const [i, j] = best;
+    for (const other of active) {
+      if (other === i || other === j) continue;
+      const merged = linkage === 'single'
+        ? Math.min(distances[i][other], distances[j][other])
+        : linkage === 'complete'
+          ? Math.max(distances[i][other], distances[j][other])
+          : (distances[i][other] * sizes[i] + distances[j][other] * sizes[j]) / (sizes[i] + sizes[j]);
+      distances[i][other] = merged;
+      distances[other][i] = merged;
+    }
+
+    sizes[i] += sizes[j];
+    members[i].push(...members[j]);
+    active.delete(j);
+  }
+
+  const labels: ClusterLabels = new Array(count).fill(NOISE);
+  let cluster = 0;
+  for (const root of active) {
+    // Single points are not clusters
+    if (members[root].length < 2) continue;
+    members[root].forEach(index => {
+      labels[index] = cluster;
+    });
+    cluster++;
+  }
+  return relabel(labels);
+}
+
+/**
+ * Convex hull (Andrew's monotone chain). Returns a closed counter-clockwise
+ * ring, or null for fewer than three distinct points.
+ */
+export function convexHull(points: Position[]): Position[] | null {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1])
+    .filter((point, index, all) => index === 0 || point[0] !== all[index - 1][0] || point[1] !== all[index - 1][1]);
+  if (sorted.length < 3) return null;
+
+  const build = (input: Position[]) => {
+    const hull: Position[] = [];
+    for (const point of input) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+      hull.push(point);
+    }
+    hull.pop();
+    return hull;
+  };
+
+  const hull = [...build(sorted), ...build([...sorted].reverse())];
+  if (hull.length < 3) return null;
+  return [...hull, hull[0]];
+}
+
+// Beyond this many neighbours the outline is close to the convex hull anyway
+const MAX_HULL_NEIGHBOURS = 25;
+
+/**
+ * Concave hull by k-nearest neighbours (Moreira & Santos, 2007). k grows
+ * until the outline contains every point; falls back to the convex hull.
+ */
+export function concaveHull(points: Position[], k = 3): Position[] | null {
+  const unique = points.filter((point, index) =>
+    points.findIndex(other => other[0] === point[0] && other[1] === point[1]) === index
+  );
+  if (unique.length < 4) return convexHull(unique);
+
+  const maxNeighbours = Math.min(unique.length - 1, MAX_HULL_NEIGHBOURS);
+  for (let neighbours = Math.max(3, k); neighbours <= maxNeighbours; neighbours++) {
+    const hull = knnHull(unique, neighbours);
+    if (hull && unique.every(point => onRing(point, hull) || pointInRing(point, hull))) return hull;
+  }
+  return convexHull(unique);
+}
+
+function knnHull(points: Position[], k: number): Position[] | null {
+  const start = points.reduce((lowest, point) => (point[1] < lowest[1] ? point : lowest));
+  const hull: Position[] = [start];
+  const remaining = points.filter(point => point !== start);
+  let current = start;
+  let previousAngle = Math.PI;
+  let step = 2;
+
+  while ((current !== start || step === 2) && remaining.length > 0) {
+    // The start point becomes a candidate again once the hull has a few edges
+    if (step === 5) remaining.push(start);
+
+    const candidates = [...remaining]
+      .sort((a, b) => distance(current, a) - distance(current, b))
+      .slice(0, k)
+      .sort((a, b) => rightTurn(previousAngle, current, b) - rightTurn(previousAngle, current, a));
+
+    const next = candidates.find(candidate => {
+      const lastEdge = candidate === start ? 1 : 0;
+      for (let i = 0; i < hull.length - 2 - lastEdge; i++) {
+        if (segmentsCross(current, candidate, hull[i], hull[i + 1])) return false;
+      }
+      return true;
+    });
+    if (!next) return null;
+
+    previousAngle = Math.atan2(current[1] - next[1], current[0] - next[0]);
+    current = next;
+    hull.push(next);
+    remaining.splice(remaining.indexOf(next), 1);
+    step++;
+  }
+
+  if (current !== start) hull.push(start);
+  if (hull.length < 4) return null;
+  // GeoJSON wants counter-clockwise outlines
+  return ringOrientation(hull) < 0 ? hull.reverse() : hull;
+}
+
+const ringOrientation = (ring: Position[]) =>
+  ring.slice(0, -1).reduce((sum, [x1, y1], i) => sum + x1 * ring[i + 1][1] - ring[i + 1][0] * y1, 0);
+
+// Clockwise angle from the previous edge direction to the candidate
+function rightTurn(previousAngle: number, from: Position, to: Position): number {
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  let turn = previousAngle - angle;
+  while (turn <= 0) turn += 2 * Math.PI;
+  while (turn > 2 * Math.PI) turn -= 2 * Math.PI;
+  return turn;
+}
+
+const cross = (o: Position, a: Position, b: Position) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+// Proper crossings only; segments sharing an endpoint do not count
+function segmentsCross(a: Position, b: Position, c: Position, d: Position): boolean {
+  if (a === c || a === d || b === c || b === d) return false;
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function onRing(point: Position, ring: Position[]): boolean {
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [a, b] = [ring[i], ring[i + 1]];
+    if (Math.abs(cross(a, b, point)) > 1e-12) continue;
+    if (point[0] >= Math.min(a[0], b[0]) && point[0] <= Math.max(a[0], b[0]) &&
+        point[1] >= Math.min(a[1], b[1]) && point[1] <= Math.max(a[1], b[1])) return true;
+  }
+  return false;
+}
+
+// Number clusters 0..n-1 in order of first appearance
+function relabel(labels: ClusterLabels): ClusterLabels {
+  const mapping = new Map<number, number>();
+  return labels.map(label => {
+    if (label === NOISE) return NOISE;
+    if (!mapping.has(label)) mapping.set(label, mapping.size);
+    return mapping.get(label)!;
+  });
+}
+
+// Small seeded PRNG so k-means runs are repeatable
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,301 @@
+import { EARTH_RADIUS_METERS } from "@/lib/geo-buffer";
+
+// Planar coordinates in metres, e.g. from projectToMeters
+type Point = [number, number];
+
+// [lon, lat] in degrees, as in GeoJSON
+type Position = [number, number];
+
+export interface NearestNeighbourStatistic {
+  observedMeanDistance: number; // in meters
+  expectedMeanDistance: number; // in meters, for a random pattern in the same area
+  ratio: number; // < 1 clustered, > 1 dispersed
+  zScore: number;
+  pValue: number;
+}
+
+export interface GlobalMoranStatistic {
+  moranI: number;
+  expected: number;
+  variance: number;
+  zScore: number;
+  pValue: number;
+}
+
+export interface LocalMoranStatistic {
+  moranI: number;
+  zScore: number;
+  pValue: number;
+  // Value and neighbourhood mean relative to the overall mean
+  quadrant: 'high-high' | 'low-low' | 'high-low' | 'low-high';
+}
+
+export interface DensityGrid {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  columns: number;
+  rows: number;
+  // Row-major, first row along the northern edge; features per square km
+  values: Float64Array;
+  max: number;
+  bandwidth: number; // in meters
+  cellSize: number; // in meters
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26,
+ * accurate to about 1e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export const twoSidedPValue = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+/**
+ * Distance from every point to its nearest other point
+ */
+export function nearestNeighbourDistances(points: Point[]): number[] {
+  return points.map((point, index) =>
+    points.reduce((nearest, other, otherIndex) =>
+      otherIndex === index ? nearest : Math.min(nearest, distance(point, other)), Infinity)
+  );
+}
+
+/**
+ * Clark-Evans average nearest neighbour ratio for points in a study area
+ * of the given size in square metres. Needs at least two points.
+ */
+export function averageNearestNeighbour(points: Point[], areaSquareMeters: number): NearestNeighbourStatistic | null {
+  const n = points.length;
+  if (n < 2 || areaSquareMeters <= 0) return null;
+
+  const observedMeanDistance = nearestNeighbourDistances(points).reduce((sum, d) => sum + d, 0) / n;
+  const expectedMeanDistance = 0.5 / Math.sqrt(n / areaSquareMeters);
+  const standardError = 0.26136 / Math.sqrt((n * n) / areaSquareMeters);
+  const zScore = (observedMeanDistance - expectedMeanDistance) / standardError;
+
+  return {
+    observedMeanDistance,
+    expectedMeanDistance,
+    ratio: observedMeanDistance / expectedMeanDistance,
+    zScore,
+    pValue: twoSidedPValue(zScore),
+  };
+}
+
+/**
+ * Binary distance-band neighbours: indices of the other points within the
+ * threshold. A threshold of at least the largest nearest-neighbour
+ * distance gives every point one neighbour or more.
+ */
+export function distanceBandNeighbours(points: Point[], thresholdMeters: number): number[][] {
+  return points.map((point, index) =>
+    points.reduce<number[]>((found, other, otherIndex) => {
+      if (otherIndex !== index && distance(point, other) <= thresholdMeters) found.push(otherIndex);
+      return found;
+    }, [])
+  );
+}
+
+/**
+ * Global Moran's I with row-standardised weights under the randomisation
+ * assumption (Cliff & Ord). Needs at least four values that are not all equal.
+ */
+export function globalMoran(values: number[], neighbours: number[][]): GlobalMoranStatistic | null {
+  const n = values.length;
+  if (n < 4) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const deviations = values.map(value => value - mean);
+  const m2 = deviations.reduce((sum, z) => sum + z * z, 0);
+  if (m2 === 0) return null;
+  const m4 = deviations.reduce((sum, z) => sum + z ** 4, 0);
+
+  const weight = (i: number) => (neighbours[i].length > 0 ? 1 / neighbours[i].length : 0);
+  let s0 = 0;
+  let s1 = 0;
+  let crossProducts = 0;
+  const columnSums = new Array(n).fill(0);
+  neighbours.forEach((list, i) => {
+    list.forEach(j => {
+      const wij = weight(i);
+      // Distance bands are symmetric, so j also lists i
+      const wji = weight(j);
+      s0 += wij;
+      s1 += (wij + wji) ** 2;
+      crossProducts += wij * deviations[i] * deviations[j];
+      columnSums[j] += wij;
+    });
+  });
+  s1 /= 2;
+  if (s0 === 0) return null;
+  // Row sums are 1, or 0 for a point without neighbours
+  const s2 = neighbours.reduce((sum, list, i) => sum + ((list.length > 0 ? 1 : 0) + columnSums[i]) ** 2, 0);
+
+  const moranI = (n / s0) * (crossProducts / m2);
+  const expected = -1 / (n - 1);
+  const b2 = (n * m4) / (m2 * m2);
+  const variance =
+    (n * ((n * n - 3 * n + 3) * s1 - n * s2 + 3 * s0 * s0) -
+      b2 * ((n * n - n) * s1 - 2 * n * s2 + 6 * s0 * s0)) /
+      ((n - 1) * (n - 2) * (n - 3) * s0 * s0) -
+    expected * expected;
+  const zScore = variance > 0 ? (moranI - expected) / Math.sqrt(variance) : 0;
+
+  return { moranI, expected, variance, zScore, pValue: twoSidedPValue(zScore) };
+}
+
+/**
+ * Local Moran's I (Anselin 1995) with row-standardised weights and the
+ * randomisation variance. Returns null for fewer than three values or no
+ * variation.
+ */
+export function localMoran(values: number[], neighbours: number[][]): LocalMoranStatistic[] | null {
+  const n = values.length;
+  if (n < 3) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const deviations = values.map(value => value - mean);
+  const m2 = deviations.reduce((sum, z) => sum + z * z, 0) / n;
+  if (m2 === 0) return null;
+  const b2 = deviations.reduce((sum, z) => sum + z ** 4, 0) / n / (m2 * m2);
+
+  return neighbours.map((list, i) => {
+    const k = list.length;
+    const w = k > 0 ? 1 / k : 0;
+    const lag = list.reduce((sum, j) => sum + w * deviations[j], 0);
+    const moranI = (deviations[i] / m2) * lag;
+
+    // Row sums are 1 (or 0 for an isolated point), so wi = k * w
+    const wi = k * w;
+    const wi2 = k * w * w;
+    // Sum over k != h of w_ik * w_ih
+    const wikh = wi * wi - wi2;
+    const expected = -wi / (n - 1);
+    const variance =
+      (wi2 * (n - b2)) / (n - 1) +
+      (n > 2 ? (wikh * (2 * b2 - n)) / ((n - 1) * (n - 2)) : 0) -
+      expected * expected;
+    const zScore = variance > 0 ? (moranI - expected) / Math.sqrt(variance) : 0;
+
+    const high = deviations[i] >= 0;
+    const highNeighbours = lag >= 0;
+    return {
+      moranI,
+      zScore,
+      pValue: twoSidedPValue(zScore),
+      quadrant: high
+        ? (highNeighbours ? 'high-high' : 'high-low')
+        : (highNeighbours ? 'low-high' : 'low-low'),
+    };
+  });
+}
+
+/**
+ * Getis-Ord Gi* z-scores with binary weights that include the point itself.
+ * Positive values mark hot spots, negative ones cold spots.
+ */
+export function getisOrdGiStar(values: number[], neighbours: number[][]): number[] | null {
+  const n = values.length;
+  if (n < 3) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const s = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / n - mean * mean);
+  if (!(s > 0)) return null;
+
+  return neighbours.map((list, i) => {
+    const weightSum = list.length + 1;
+    const weightedValues = values[i] + list.reduce((sum, j) => sum + values[j], 0);
+    // Binary weights: the sum of squared weights equals the weight sum
+    const denominator = s * Math.sqrt((n * weightSum - weightSum * weightSum) / (n - 1));
+    return denominator > 0 ? (weightedValues - mean * weightSum) / denominator : 0;
+  });
+}
+
+/**
+ * Search radius from Silverman's rule of thumb adapted to two dimensions,
+ * as used by common GIS kernel density tools
+ */
+export function defaultBandwidth(points: Point[]): number {
+  const n = points.length;
+  if (n < 2) return 0;
+
+  const centre: Point = [
+    points.reduce((sum, [x]) => sum + x, 0) / n,
+    points.reduce((sum, [, y]) => sum + y, 0) / n,
+  ];
+  const distances = points.map(point => distance(point, centre)).sort((a, b) => a - b);
+  const standardDistance = Math.sqrt(distances.reduce((sum, d) => sum + d * d, 0) / n);
+  const median = n % 2 === 1 ? distances[(n - 1) / 2] : (distances[n / 2 - 1] + distances[n / 2]) / 2;
+
+  const spread = Math.min(standardDistance, Math.sqrt(1 / Math.LN2) * median) || standardDistance;
+  return 0.9 * spread * n ** -0.2;
+}
+
+/**
+ * Kernel density surface with a quartic kernel. The grid is laid out in
+ * metres on a plane through the points' mean latitude and covers their
+ * extent plus one bandwidth on each side.
+ */
+export function kernelDensity(
+  positions: Position[],
+  options: { bandwidth?: number; maxCells?: number } = {}
+): DensityGrid | null {
+  if (positions.length === 0) return null;
+
+  const meanLat = positions.reduce((sum, [, lat]) => sum + lat, 0) / positions.length;
+  const metersPerDegreeLat = (Math.PI / 180) * EARTH_RADIUS_METERS;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos((meanLat * Math.PI) / 180);
+  const points: Point[] = positions.map(([lon, lat]) => [lon * metersPerDegreeLon, lat * metersPerDegreeLat]);
+
+  const bandwidth = options.bandwidth ?? defaultBandwidth(points);
+  if (!(bandwidth > 0)) return null;
+
+  const minX = Math.min(...points.map(([x]) => x)) - bandwidth;
+  const maxX = Math.max(...points.map(([x]) => x)) + bandwidth;
+  const minY = Math.min(...points.map(([, y]) => y)) - bandwidth;
+  const maxY = Math.max(...points.map(([, y]) => y)) + bandwidth;
+
+  // Square cells, at most maxCells along the longer side
+  const cellSize = Math.max(maxX - minX, maxY - minY) / (options.maxCells ?? 250);
+  const columns = Math.max(1, Math.ceil((maxX - minX) / cellSize));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / cellSize));
+  const values = new Float64Array(columns * rows);
+
+  // Features per square km
+  const scale = (3 / (Math.PI * bandwidth * bandwidth)) * 1_000_000;
+  const reach = Math.ceil(bandwidth / cellSize);
+  for (const [x, y] of points) {
+    const column = Math.floor((x - minX) / cellSize);
+    const row = Math.floor((maxY - y) / cellSize);
+    for (let r = Math.max(0, row - reach); r <= Math.min(rows - 1, row + reach); r++) {
+      const cellY = maxY - (r + 0.5) * cellSize;
+      for (let c = Math.max(0, column - reach); c <= Math.min(columns - 1, column + reach); c++) {
+        const cellX = minX + (c + 0.5) * cellSize;
+        const ratio = Math.hypot(cellX - x, cellY - y) / bandwidth;
+        if (ratio < 1) values[r * columns + c] += scale * (1 - ratio * ratio) ** 2;
+      }
+    }
+  }
+
+  return {
+    west: minX / metersPerDegreeLon,
+    east: (minX + columns * cellSize) / metersPerDegreeLon,
+    north: maxY / metersPerDegreeLat,
+    south: (maxY - rows * cellSize) / metersPerDegreeLat,
+    columns,
+    rows,
+    values,
+    max: values.reduce((max, value) => Math.max(max, value), 0),
+    bandwidth,
+    cellSize,
+  };
+}
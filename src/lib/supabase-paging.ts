@@ -0,0 +1,20 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// PostgREST caps a single response at 1000 rows
+export const FETCH_PAGE_SIZE = 1000;
+
+/**
+ * Page through a select until a short page comes back. The query must have a
+ * stable order (e.g. by id) so pages neither overlap nor skip rows.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await page(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+}
@@ -2,20 +2,69 @@ import React, { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Shield, Database as DatabaseIcon, Tag, Users, MessageSquare, BarChart3, Route, Target } from "lucide-react";
+import { Shield, Database as DatabaseIcon, Tag, Users, MessageSquare, BarChart3, Route, Target, ScanSearch, Copy, HardDrive, FileClock, ClipboardCheck, ScrollText, KeyRound, ShieldAlert, UserCog, Ticket, CircleUser, MapPinned } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import SitesManagement from "@/pages/SitesManagement";
 import CategoriesManagement from "@/pages/CategoriesManagement";
 import CulturalPracticesManagement from "@/pages/CulturalPracticesManagement";
+import HistoricalRecordsManagement from "@/pages/HistoricalRecordsManagement";
 import ReviewsModeration from "@/components/ReviewsModeration";
 import RoutesManagement from "@/pages/RoutesManagement";
 import ConservationProjectsManagement from "@/pages/ConservationProjectsManagement";
 import AnalysisReport from "@/pages/AnalysisReport";
 import Dashboard from "@/components/dashboard/Dashboard";
+import AnalysisReviewQueue from "@/components/AnalysisReviewQueue";
+import SiteReviewQueue from "@/components/SiteReviewQueue";
+import DuplicateMediaReport from "@/components/DuplicateMediaReport";
+import StorageReconciliationReport from "@/components/StorageReconciliationReport";
+import AuditLogViewer from "@/components/AuditLogViewer";
+import PermissionMatrix from "@/components/PermissionMatrix";
+import UserManagement from "@/components/UserManagement";
+import RoleInvitations from "@/components/RoleInvitations";
+import AdministrativeAreasManagement from "@/components/AdministrativeAreasManagement";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { Permission } from "@/lib/permissions";
+
+interface AdminTab {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  permission: Permission;
+  component: React.ComponentType;
+}
+
+// Tabs are shown only to roles holding their permission (see ROLE_PERMISSIONS)
+const ADMIN_TABS: AdminTab[] = [
+  { id: "analysis", label: "Analisis", icon: BarChart3, permission: "dashboard.view", component: AnalysisReport },
+  { id: "dashboard", label: "Dashboard", icon: DatabaseIcon, permission: "dashboard.view", component: Dashboard },
+  { id: "sites", label: "Situs Budaya", icon: DatabaseIcon, permission: "sites.contribute", component: SitesManagement },
+  { id: "site-review", label: "Tinjauan Situs", icon: ClipboardCheck, permission: "sites.contribute", component: SiteReviewQueue },
+  { id: "areas", label: "Wilayah", icon: MapPinned, permission: "sites.review", component: AdministrativeAreasManagement },
+  { id: "categories", label: "Kategori", icon: Tag, permission: "categories.manage", component: CategoriesManagement },
+  { id: "practices", label: "Praktik Budaya", icon: Users, permission: "practices.manage", component: CulturalPracticesManagement },
+  { id: "historical", label: "Catatan Sejarah", icon: ScrollText, permission: "historical_records.manage", component: HistoricalRecordsManagement },
+  { id: "reviews", label: "Moderasi Ulasan", icon: MessageSquare, permission: "reviews.moderate", component: ReviewsModeration },
+  { id: "routes", label: "Rute Wisata", icon: Route, permission: "routes.manage", component: RoutesManagement },
+  { id: "conservation", label: "Proyek Konservasi", icon: Target, permission: "conservation.manage", component: ConservationProjectsManagement },
+  { id: "ai-review", label: "Tinjauan AI", icon: ScanSearch, permission: "ai.review", component: AnalysisReviewQueue },
+  { id: "duplicates", label: "Duplikat Media", icon: Copy, permission: "media.maintain", component: DuplicateMediaReport },
+  { id: "storage", label: "Penyimpanan", icon: HardDrive, permission: "media.maintain", component: StorageReconciliationReport },
+  { id: "audit", label: "Log Audit", icon: FileClock, permission: "audit.view", component: AuditLogViewer },
+  { id: "users", label: "Pengguna", icon: UserCog, permission: "users.manage", component: UserManagement },
+  { id: "invitations", label: "Undangan", icon: Ticket, permission: "users.manage", component: RoleInvitations },
+  { id: "permissions", label: "Hak Akses", icon: KeyRound, permission: "permissions.view", component: PermissionMatrix },
+];
 
 const Admin: React.FC = () => {
-  const [activeTab, setActiveTab] = useState("analysis");
+  const [activeTab, setActiveTab] = useState<string | null>(null);
   const navigate = useNavigate();
+  const { can, userId } = usePermissions();
+
+  const tabs = ADMIN_TABS.filter(tab => can(tab.permission));
+  // Fall back to the first allowed tab when none is selected or the selection is not allowed
+  const currentTab = tabs.find(tab => tab.id === activeTab) ?? tabs[0];
+  const ActiveComponent = currentTab?.component;
 
   const handleLogout = async () => {
     navigate("/");
@@ -31,6 +80,12 @@ const Admin: React.FC = () => {
               <Shield className="w-4 h-4" />
               <span>Panel Admin</span>
             </div>
+            {userId && (
+              <Button variant="ghost" size="sm" onClick={() => navigate(`/profile/${userId}`)}>
+                <CircleUser className="w-4 h-4 mr-2" />
+                Profil Saya
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={handleLogout}>
               Keluar
             </Button>
@@ -40,84 +95,34 @@ const Admin: React.FC = () => {
         {/* Top Navigation Bar */}
         <Card className="p-4 bg-background/80 backdrop-blur-sm shadow-cultural">
           <div className="flex items-center justify-between">
-            <nav className="flex items-center space-x-6">
-              <Button
-                variant={activeTab === "analysis" ? "default" : "ghost"}
-                onClick={() => setActiveTab("analysis")}
-                className="flex items-center gap-2"
-              >
-                <BarChart3 className="w-4 h-4" />
-                Analisis
-              </Button>
-              <Button
-                variant={activeTab === "dashboard" ? "default" : "ghost"}
-                onClick={() => setActiveTab("dashboard")}
-                className="flex items-center gap-2"
-              >
-                <DatabaseIcon className="w-4 h-4" />
-                Dashboard
-              </Button>
-              <Button
-                variant={activeTab === "sites" ? "default" : "ghost"}
-                onClick={() => setActiveTab("sites")}
-                className="flex items-center gap-2"
-              >
-                <DatabaseIcon className="w-4 h-4" />
-                Situs Budaya
-              </Button>
-              <Button
-                variant={activeTab === "categories" ? "default" : "ghost"}
-                onClick={() => setActiveTab("categories")}
-                className="flex items-center gap-2"
-              >
-                <Tag className="w-4 h-4" />
-                Kategori
-              </Button>
-              <Button
-                variant={activeTab === "practices" ? "default" : "ghost"}
-                onClick={() => setActiveTab("practices")}
-                className="flex items-center gap-2"
-              >
-                <Users className="w-4 h-4" />
-                Praktik Budaya
-              </Button>
-              <Button
-                variant={activeTab === "reviews" ? "default" : "ghost"}
-                onClick={() => setActiveTab("reviews")}
-                className="flex items-center gap-2"
-              >
-                <MessageSquare className="w-4 h-4" />
-                Moderasi Ulasan
-              </Button>
-              <Button
-                variant={activeTab === "routes" ? "default" : "ghost"}
-                onClick={() => setActiveTab("routes")}
-                className="flex items-center gap-2"
-              >
-                <Route className="w-4 h-4" />
-                Rute Wisata
-              </Button>
-              <Button
-                variant={activeTab === "conservation" ? "default" : "ghost"}
-                onClick={() => setActiveTab("conservation")}
-                className="flex items-center gap-2"
-              >
-                <Target className="w-4 h-4" />
-                Proyek Konservasi
-              </Button>
+            <nav className="flex flex-wrap items-center gap-x-6 gap-y-2">
+              {tabs.map(tab => (
+                <Button
+                  key={tab.id}
+                  variant={currentTab?.id === tab.id ? "default" : "ghost"}
+                  onClick={() => setActiveTab(tab.id)}
+                  className="flex items-center gap-2"
+                >
+                  <tab.icon className="w-4 h-4" />
+                  {tab.label}
+                </Button>
+              ))}
             </nav>
           </div>
         </Card>
 
         {/* Content based on active tab */}
-        {activeTab === "analysis" && <AnalysisReport />}
-        {activeTab === "dashboard" && <Dashboard />}
-        {activeTab === "sites" && <SitesManagement />}
-        {activeTab === "categories" && <CategoriesManagement />}
-        {activeTab === "practices" && <CulturalPracticesManagement />}
-        {activeTab === "reviews" && <ReviewsModeration />}
-        {activeTab === "routes" && <RoutesManagement />}
-        {activeTab === "conservation" && <ConservationProjectsManagement />}
+        {ActiveComponent ? (
+          <ActiveComponent />
+        ) : (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Tidak ada menu yang tersedia</AlertTitle>
+            <AlertDescription>
+              Peran Anda belum memiliki hak akses ke menu admin mana pun.
+            </AlertDescription>
+          </Alert>
+        )}
       </div>
     </div>
   );
@@ -11,16 +11,21 @@ import {
   Download,
   RefreshCw,
   Maximize2,
-  Settings
+  Settings,
+  MapPinned
 } from 'lucide-react';
 import HeatmapView from '@/components/dashboard/HeatmapView';
 import TimeSeriesChart from '@/components/dashboard/TimeSeriesChart';
+import ChoroplethMap from '@/components/dashboard/ChoroplethMap';
 import RecommendationPanel from '@/components/dashboard/RecommendationPanel';
 import EnhancedMapView from '@/components/maps/EnhancedMapView';
 import SpatialAnalysisPanel from '@/components/maps/SpatialAnalysisPanel';
+import BufferAnalysisReport from '@/components/maps/BufferAnalysisReport';
+import ClusterAnalysisPanel from '@/components/maps/ClusterAnalysisPanel';
 import { CulturalSitesService } from '@/services/cultural-sites.service';
 import { TourismRoutesService } from '@/services/tourism-routes.service';
-import { SpatialAnalysisService, BufferZone, SpatialOverlay } from '@/services/spatial-analysis.service';
+import { SpatialAnalysisService, BufferZone, SiteHotSpot, SpatialCluster, SpatialOverlay } from '@/services/spatial-analysis.service';
+import type { DensityGrid } from '@/lib/spatial-statistics';
 import { Database } from '@/integrations/supabase/types';
 
 type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
@@ -33,11 +38,15 @@ const AnalysisReport: React.FC = () => {
   const [bufferZones, setBufferZones] = useState<BufferZone[]>([]);
   const [overlays, setOverlays] = useState<SpatialOverlay[]>([]);
   const [generatedRoute, setGeneratedRoute] = useState<[number, number][]>([]);
+  const [analysisFeatures, setAnalysisFeatures] = useState<GeoJSON.Feature[]>([]);
+  const [clusters, setClusters] = useState<SpatialCluster[]>([]);
+  const [hotSpots, setHotSpots] = useState<SiteHotSpot[]>([]);
+  const [densitySurface, setDensitySurface] = useState<DensityGrid | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeView, setActiveView] = useState<'overview' | 'spatial' | 'heatmap' | 'trends'>('overview');
+  const [activeView, setActiveView] = useState<'overview' | 'spatial' | 'heatmap' | 'regions' | 'trends'>('overview');
 
   const handleTabChange = (value: string) => {
-    setActiveView(value as 'overview' | 'spatial' | 'heatmap' | 'trends');
+    setActiveView(value as 'overview' | 'spatial' | 'heatmap' | 'regions' | 'trends');
   };
 
   useEffect(() => {
@@ -138,7 +147,7 @@ const AnalysisReport: React.FC = () => {
       {/* Main Content */}
       <div className="max-w-full mx-auto p-6">
         <Tabs value={activeView} onValueChange={handleTabChange} className="w-full">
-          <TabsList className="grid w-full grid-cols-4 mb-6">
+          <TabsList className="grid w-full grid-cols-5 mb-6">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
               Ringkasan
@@ -151,6 +160,10 @@ const AnalysisReport: React.FC = () => {
               <Target className="w-4 h-4" />
               Analisis Spasial
             </TabsTrigger>
+            <TabsTrigger value="regions" className="flex items-center gap-2">
+              <MapPinned className="w-4 h-4" />
+              Wilayah
+            </TabsTrigger>
             <TabsTrigger value="trends" className="flex items-center gap-2">
               <TrendingUp className="w-4 h-4" />
               Tren & Rekomendasi
@@ -246,6 +259,8 @@ const AnalysisReport: React.FC = () => {
                   onBufferZonesChange={handleBufferZonesChange}
                   onOverlaysChange={handleOverlaysChange}
                   onRouteGenerated={handleRouteGenerated}
+                  onHotSpotsChange={setHotSpots}
+                  onDensitySurfaceChange={setDensitySurface}
                 />
               </div>
 
@@ -267,12 +282,32 @@ const AnalysisReport: React.FC = () => {
                         bufferZones={bufferZones}
                         overlays={overlays}
                         generatedRoute={generatedRoute}
+                        analysisFeatures={analysisFeatures}
+                        clusters={clusters}
+                        hotSpots={hotSpots}
+                        densitySurface={densitySurface}
                       />
                     </div>
                   </CardContent>
                 </Card>
               </div>
             </div>
+
+            <BufferAnalysisReport
+              sites={sites}
+              bufferZones={bufferZones}
+              onAnalysisFeaturesChange={setAnalysisFeatures}
+            />
+
+            <ClusterAnalysisPanel
+              sites={sites}
+              onClustersChange={setClusters}
+            />
+          </TabsContent>
+
+          {/* Administrative Regions Tab */}
+          <TabsContent value="regions" className="space-y-6">
+            <ChoroplethMap />
           </TabsContent>
 
           {/* Trends & Recommendations Tab */}
@@ -7,6 +7,8 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { RoleInvitationService } from "@/services/role-invitation.service";
 
 const setSEO = () => {
   document.title = "Login Admin | GIS Warisan Budaya Sasak";
@@ -35,7 +37,7 @@ const Auth: React.FC = () => {
   const [tab, setTab] = useState("login");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [securityCode, setSecurityCode] = useState("");
+  const [invitationCode, setInvitationCode] = useState("");
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -65,25 +67,22 @@ const Auth: React.FC = () => {
       const { error } = await supabase.auth.signInWithPassword({ email, password });
       if (error) throw error;
 
-      if (securityCode.trim()) {
-        const { error: fnError } = await supabase.functions.invoke("apply-admin-role", {
-          body: { securityCode: securityCode.trim() },
-        });
-        if (fnError) {
-          console.error("Security code error:", fnError);
-          toast({ title: "Kode keamanan tidak valid", description: fnError.message || "Gagal menerapkan hak admin.", variant: "destructive" });
-        } else {
-          toast({ title: "Berhasil masuk", description: "Hak admin diterapkan. Mengalihkan..." });
+      if (invitationCode.trim()) {
+        try {
+          const { role } = await RoleInvitationService.redeem(invitationCode);
+          toast({ title: "Berhasil masuk", description: `Peran ${ROLE_LABELS[role]} diterapkan. Mengalihkan...` });
+        } catch (fnError) {
+          console.error("Invitation code error:", fnError);
+          toast({ title: "Kode undangan tidak valid", description: fnError instanceof Error ? fnError.message : "Gagal menerapkan peran.", variant: "destructive" });
         }
       } else {
-        // Create regular user profile if no security code
+        // Create the profile on first login; roles come from invitations or user management
         const { data: userSession } = await supabase.auth.getSession();
         if (userSession?.session?.user) {
           await supabase.from("profiles").upsert({
             user_id: userSession.session.user.id,
             full_name: userSession.session.user.email || "User",
-            role: "tourist"
-          });
+          }, { onConflict: "user_id", ignoreDuplicates: true });
         }
         toast({ title: "Berhasil masuk", description: "Selamat datang kembali." });
       }
@@ -104,25 +103,22 @@ const Auth: React.FC = () => {
       });
       if (error) throw error;
 
-      if (securityCode.trim()) {
-        const { error: fnError } = await supabase.functions.invoke("apply-admin-role", {
-          body: { securityCode: securityCode.trim() },
-        });
-        if (fnError) {
-          console.error("Security code error:", fnError);
-          toast({ title: "Kode keamanan tidak valid", description: fnError.message || "Security code salah atau belum di-set di Supabase.", variant: "destructive" });
-        } else {
-          toast({ title: "Security code valid", description: "Hak admin telah diterapkan ke akun Anda." });
+      if (invitationCode.trim()) {
+        try {
+          const { role } = await RoleInvitationService.redeem(invitationCode);
+          toast({ title: "Kode undangan valid", description: `Peran ${ROLE_LABELS[role]} telah diterapkan ke akun Anda.` });
+        } catch (fnError) {
+          console.error("Invitation code error:", fnError);
+          toast({ title: "Kode undangan tidak valid", description: fnError instanceof Error ? fnError.message : "Kode salah, kedaluwarsa atau sudah digunakan.", variant: "destructive" });
         }
       } else {
-        // Create regular user profile for signup without security code
+        // Create regular user profile for signup without invitation code
         const { data: userSession } = await supabase.auth.getSession();
         if (userSession?.session?.user) {
           await supabase.from("profiles").upsert({
             user_id: userSession.session.user.id,
             full_name: userSession.session.user.email || "User",
-            role: "tourist"
-          });
+          }, { onConflict: "user_id", ignoreDuplicates: true });
         }
       }
 
@@ -158,8 +154,8 @@ const Auth: React.FC = () => {
                   <Input id="password-login" type="password" placeholder="••••••••" value={password} onChange={(e) => setPassword(e.target.value)} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="security-login">Security Code (opsional)</Label>
-                  <Input id="security-login" type="text" placeholder="Masukkan kode keamanan admin" value={securityCode} onChange={(e) => setSecurityCode(e.target.value)} />
+                  <Label htmlFor="invitation-login">Kode Undangan (opsional)</Label>
+                  <Input id="invitation-login" type="text" placeholder="Masukkan kode undangan dari admin" value={invitationCode} onChange={(e) => setInvitationCode(e.target.value)} />
                 </div>
                 <Button onClick={handleLogin} disabled={loading} className="w-full">
                   {loading ? "Memproses..." : "Masuk"}
@@ -176,8 +172,8 @@ const Auth: React.FC = () => {
                   <Input id="password-signup" type="password" placeholder="Minimal 6 karakter" value={password} onChange={(e) => setPassword(e.target.value)} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="security-signup">Security Code (opsional)</Label>
-                  <Input id="security-signup" type="text" placeholder="Masukkan kode keamanan admin" value={securityCode} onChange={(e) => setSecurityCode(e.target.value)} />
+                  <Label htmlFor="invitation-signup">Kode Undangan (opsional)</Label>
+                  <Input id="invitation-signup" type="text" placeholder="Masukkan kode undangan dari admin" value={invitationCode} onChange={(e) => setInvitationCode(e.target.value)} />
                 </div>
                 <Button onClick={handleSignup} disabled={loading} className="w-full" variant="secondary">
                   {loading ? "Memproses..." : "Daftar"}
@@ -11,7 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Edit, Trash2, Plus, Tag, Search, BarChart3 } from "lucide-react";
+import { Edit, Trash2, Plus, Tag, Search, BarChart3, History } from "lucide-react";
 
 // Import services
 import { CategoriesService } from "@/services/categories.service";
@@ -20,6 +20,7 @@ import { Database } from "@/integrations/supabase/types";
 // Import components
 import RichTextEditor from "@/components/RichTextEditor";
 import RichTextViewer from "@/components/RichTextViewer";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
 
 const categorySchema = z.object({
   name: z.string().min(2, "Nama kategori minimal 2 karakter"),
@@ -34,6 +35,7 @@ type HeritageCategory = Database['public']['Tables']['heritage_categories']['Row
 const CategoriesManagement: React.FC = () => {
   const { toast } = useToast();
   const [categories, setCategories] = useState<HeritageCategory[]>([]);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; name: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [editingCategory, setEditingCategory] = useState<HeritageCategory | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -297,6 +299,14 @@ const CategoriesManagement: React.FC = () => {
                         >
                           <Edit className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Riwayat perubahan"
+                          onClick={() => setHistoryRecord({ id: category.id, name: category.name })}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -418,6 +428,13 @@ const CategoriesManagement: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RecordHistoryDialog
+        tableName="heritage_categories"
+        record={historyRecord}
+        onOpenChange={(open) => !open && setHistoryRecord(null)}
+        onRestored={loadCategories}
+      />
     </div>
   );
 };
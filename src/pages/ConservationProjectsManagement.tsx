@@ -9,7 +9,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
-import { Plus, Edit, Trash2, Calendar, DollarSign, Building, Target, TrendingUp } from "lucide-react";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
+import { Plus, Edit, Trash2, Calendar, DollarSign, Building, Target, TrendingUp, History } from "lucide-react";
 import { ConservationProjectsService } from "@/services/conservation-projects.service";
 import { CulturalSitesService } from "@/services/cultural-sites.service";
 import { SitesWithCategories } from "@/types/sites-with-categories";
@@ -20,6 +21,7 @@ type ConservationProject = Database['public']['Tables']['conservation_projects']
 
 const ConservationProjectsManagement: React.FC = () => {
   const [projects, setProjects] = useState<ConservationProject[]>([]);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; name: string } | null>(null);
   const [sites, setSites] = useState<SitesWithCategories[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -398,6 +400,14 @@ const ConservationProjectsManagement: React.FC = () => {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Riwayat perubahan"
+                      onClick={() => setHistoryRecord({ id: project.id, name: project.project_name })}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <Button variant="outline" size="sm">
@@ -577,6 +587,13 @@ const ConservationProjectsManagement: React.FC = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <RecordHistoryDialog
+        tableName="conservation_projects"
+        record={historyRecord}
+        onOpenChange={(open) => !open && setHistoryRecord(null)}
+        onRestored={loadProjects}
+      />
     </div>
   );
 };
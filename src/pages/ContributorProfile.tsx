@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, BadgeCheck, Building2, Calendar, Landmark, MapPin, Pencil, ScrollText, Star, Target } from 'lucide-react';
+import ContributorAvatar from '@/components/ContributorAvatar';
+import ProfileEditorDialog from '@/components/ProfileEditorDialog';
+import { ContributorActivity, ProfilesService, PublicProfile } from '@/services/profiles.service';
+import { usePermissions } from '@/hooks/use-permissions';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { useToast } from '@/hooks/use-toast';
+
+const EMPTY_ACTIVITY: ContributorActivity = { reviews: [], sites: [], historicalRecords: [], conservationProjects: [] };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const EmptyState = ({ message }: { message: string }) => (
+  <Card>
+    <CardContent className="p-8 text-center text-muted-foreground">{message}</CardContent>
+  </Card>
+);
+
+const ContributorProfile = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const { userId: currentUserId } = usePermissions();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [activity, setActivity] = useState<ContributorActivity>(EMPTY_ACTIVITY);
+  const [loading, setLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  const isOwnProfile = !!currentUserId && currentUserId === userId;
+
+  const fetchProfileData = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setLoading(true);
+      const [profileData, activityData] = await Promise.all([
+        ProfilesService.fetchPublicProfile(userId),
+        ProfilesService.fetchContributorActivity(userId),
+      ]);
+      setProfile(profileData);
+      setActivity(activityData);
+    } catch (error) {
+      console.error('Error fetching contributor profile:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat profil kontributor",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchProfileData();
+  }, [fetchProfileData]);
+
+  useEffect(() => {
+    if (profile) document.title = `${profile.full_name} | GIS Warisan Budaya Sasak`;
+  }, [profile]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-cultural">
+        <Card className="p-8 text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-heritage border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Memuat profil...</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-cultural">
+        <Card className="p-8 text-center">
+          <h2 className="text-2xl font-bold mb-4">Profil Tidak Ditemukan</h2>
+          <p className="text-muted-foreground mb-6">Kontributor yang Anda cari tidak tersedia.</p>
+          <Link to="/">
+            <Button>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Kembali ke Beranda
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: "Situs Didokumentasikan", value: activity.sites.length, icon: Landmark, color: "text-heritage" },
+    { label: "Ulasan", value: activity.reviews.length, icon: Star, color: "text-yellow-500" },
+    { label: "Catatan Sejarah", value: activity.historicalRecords.length, icon: ScrollText, color: "text-blue-500" },
+    { label: "Proyek Konservasi", value: activity.conservationProjects.length, icon: Target, color: "text-green-500" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-cultural">
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Link to="/">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Kembali
+            </Button>
+          </Link>
+          {isOwnProfile && (
+            <Button size="sm" onClick={() => setEditorOpen(true)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit Profil
+            </Button>
+          )}
+        </div>
+
+        {/* Profile Header */}
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col sm:flex-row gap-6 items-start">
+              <ContributorAvatar name={profile.full_name} avatarUrl={profile.avatar_url} className="w-24 h-24 text-2xl" />
+              <div className="flex-1 space-y-3">
+                <div>
+                  <h1 className="text-3xl font-bold flex items-center gap-2">
+                    {profile.full_name}
+                    {profile.is_verified && (
+                      <BadgeCheck className="w-6 h-6 text-heritage" aria-label="Terverifikasi" />
+                    )}
+                  </h1>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    {profile.role && <Badge variant="secondary">{ROLE_LABELS[profile.role]}</Badge>}
+                    {profile.is_verified && <Badge>Ahli Terverifikasi</Badge>}
+                    {!profile.is_active && <Badge variant="outline">Akun nonaktif</Badge>}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                  {profile.organization && (
+                    <span className="flex items-center gap-1">
+                      <Building2 className="w-4 h-4" />
+                      {profile.organization}
+                    </span>
+                  )}
+                  {profile.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="w-4 h-4" />
+                      {profile.location}
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    Bergabung {formatDate(profile.created_at)}
+                  </span>
+                </div>
+
+                {(profile.expertise?.length ?? 0) > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {profile.expertise!.map(item => (
+                      <Badge key={item} variant="outline">{item}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                {profile.bio && <p className="leading-relaxed whitespace-pre-line">{profile.bio}</p>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Contribution Statistics */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(stat => (
+            <Card key={stat.label}>
+              <CardContent className="p-4 text-center">
+                <stat.icon className={`w-8 h-8 mx-auto mb-2 ${stat.color}`} />
+                <div className="text-2xl font-bold">{stat.value}</div>
+                <div className="text-sm text-muted-foreground">{stat.label}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Tabs defaultValue="sites" className="w-full">
+          <TabsList className="grid w-full grid-cols-2 md:grid-cols-4">
+            <TabsTrigger value="sites">Situs</TabsTrigger>
+            <TabsTrigger value="reviews">Ulasan</TabsTrigger>
+            <TabsTrigger value="historical">Catatan Sejarah</TabsTrigger>
+            <TabsTrigger value="conservation">Konservasi</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sites" className="space-y-3">
+            {activity.sites.length === 0 ? (
+              <EmptyState message="Belum ada situs yang didokumentasikan." />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {activity.sites.map(site => (
+                  <Link key={site.id} to={`/site/${site.id}`}>
+                    <Card className="h-full hover:bg-muted/50 transition-colors">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-lg">{site.name}</CardTitle>
+                        {site.local_name && <p className="text-sm text-muted-foreground">{site.local_name}</p>}
+                      </CardHeader>
+                      <CardContent className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                        {site.category_name && <Badge variant="secondary">{site.category_name}</Badge>}
+                        {site.village && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {[site.village, site.district].filter(Boolean).join(', ')}
+                          </span>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="reviews" className="space-y-3">
+            {activity.reviews.length === 0 ? (
+              <EmptyState message="Belum ada ulasan." />
+            ) : (
+              activity.reviews.map(review => (
+                <Card key={review.id}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Link to={`/site/${review.site_id}`} className="font-semibold hover:underline">
+                        {review.cultural_sites?.name ?? "Situs"}
+                      </Link>
+                      <span className="text-sm text-muted-foreground">{formatDate(review.created_at)}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <Star
+                          key={star}
+                          className={`w-4 h-4 ${star <= review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                        />
+                      ))}
+                      {review.is_verified && <Badge variant="secondary" className="ml-2 text-xs">Terverifikasi</Badge>}
+                    </div>
+                    {review.title && <h4 className="font-medium">{review.title}</h4>}
+                    {review.review_text && <p className="text-muted-foreground">{review.review_text}</p>}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="historical" className="space-y-3">
+            {activity.historicalRecords.length === 0 ? (
+              <EmptyState message="Belum ada catatan sejarah." />
+            ) : (
+              activity.historicalRecords.map(record => (
+                <Card key={record.id}>
+                  <CardContent className="p-4 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="font-semibold">{record.event_title}</h4>
+                      {record.event_date && (
+                        <span className="text-sm text-muted-foreground">{formatDate(record.event_date)}</span>
+                      )}
+                    </div>
+                    <Link to={`/site/${record.site_id}`} className="text-sm text-heritage hover:underline">
+                      {record.cultural_sites?.name ?? "Situs"}
+                    </Link>
+                    {record.historical_period && <Badge variant="outline" className="ml-2">{record.historical_period}</Badge>}
+                    {record.event_description && <p className="text-muted-foreground">{record.event_description}</p>}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="conservation" className="space-y-3">
+            {activity.conservationProjects.length === 0 ? (
+              <EmptyState message="Belum ada proyek konservasi." />
+            ) : (
+              activity.conservationProjects.map(project => (
+                <Card key={project.id}>
+                  <CardContent className="p-4 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="font-semibold">{project.project_name}</h4>
+                      {project.status && <Badge variant="secondary">{project.status}</Badge>}
+                    </div>
+                    <Link to={`/site/${project.site_id}`} className="text-sm text-heritage hover:underline">
+                      {project.cultural_sites?.name ?? "Situs"}
+                    </Link>
+                    {project.description && <p className="text-muted-foreground">{project.description}</p>}
+                    <div className="text-sm text-muted-foreground">
+                      {project.start_date && `Mulai ${formatDate(project.start_date)}`}
+                      {project.progress_percentage !== null && ` · Progres ${project.progress_percentage}%`}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {isOwnProfile && (
+        <ProfileEditorDialog
+          userId={currentUserId}
+          open={editorOpen}
+          onOpenChange={setEditorOpen}
+          onSaved={({ phone: _phone, ...saved }) => setProfile(saved)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ContributorProfile;
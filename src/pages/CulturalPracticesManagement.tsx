@@ -13,7 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Users, Edit, Trash2, Plus, Search, AlertTriangle, BookOpen, Users as UsersIcon } from "lucide-react";
+import { Users, Edit, Trash2, Plus, Search, AlertTriangle, BookOpen, Users as UsersIcon, History } from "lucide-react";
 
 // Import services
 import { CulturalPracticesService } from "@/services/cultural-practices.service";
@@ -23,6 +23,7 @@ import { Database } from "@/integrations/supabase/types";
 // Import components
 import RichTextEditor from "@/components/RichTextEditor";
 import RichTextViewer from "@/components/RichTextViewer";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
 
 const practiceSchema = z.object({
   name: z.string().min(2, "Nama praktik minimal 2 karakter"),
@@ -48,6 +49,7 @@ type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Ro
 const CulturalPracticesManagement: React.FC = () => {
   const { toast } = useToast();
   const [practices, setPractices] = useState<CulturalPractice[]>([]);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; name: string } | null>(null);
   const [sites, setSites] = useState<SiteWithCategory[]>([]);
   const [loading, setLoading] = useState(false);
   const [editingPractice, setEditingPractice] = useState<CulturalPractice | null>(null);
@@ -416,6 +418,14 @@ const CulturalPracticesManagement: React.FC = () => {
                         >
                           <Edit className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Riwayat perubahan"
+                          onClick={() => setHistoryRecord({ id: practice.id, name: practice.name })}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -643,6 +653,13 @@ const CulturalPracticesManagement: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RecordHistoryDialog
+        tableName="cultural_practices"
+        record={historyRecord}
+        onOpenChange={(open) => !open && setHistoryRecord(null)}
+        onRestored={loadPractices}
+      />
     </div>
   );
 };
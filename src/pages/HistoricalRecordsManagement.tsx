@@ -13,8 +13,9 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, Search, Calendar, Clock, Star, List, Timeline } from "lucide-react";
+import { Plus, Edit, Trash2, Search, Calendar, Clock, Star, List, Timeline, History } from "lucide-react";
 
 // Import services
 import { HistoricalRecordsService } from "@/services/historical-records.service";
@@ -42,6 +43,7 @@ type HistoricalRecord = Awaited<ReturnType<typeof HistoricalRecordsService.fetch
 const HistoricalRecordsManagement: React.FC = () => {
   const { toast } = useToast();
   const [records, setRecords] = useState<HistoricalRecord[]>([]);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; name: string } | null>(null);
   const [sites, setSites] = useState<Site[]>([]);
   const [loadingRecords, setLoadingRecords] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
@@ -365,6 +367,14 @@ const HistoricalRecordsManagement: React.FC = () => {
                         >
                           <Edit className="w-4 h-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Riwayat perubahan"
+                          onClick={() => setHistoryRecord({ id: record.id, name: record.event_title })}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -456,6 +466,14 @@ const HistoricalRecordsManagement: React.FC = () => {
                                     >
                                       <Edit className="w-4 h-4" />
                                     </Button>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      title="Riwayat perubahan"
+                                      onClick={() => setHistoryRecord({ id: event.id, name: event.event_title })}
+                                    >
+                                      <History className="w-4 h-4" />
+                                    </Button>
                                     <Button
                                       variant="outline"
                                       size="sm"
@@ -638,6 +656,13 @@ const HistoricalRecordsManagement: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RecordHistoryDialog
+        tableName="historical_records"
+        record={historyRecord}
+        onOpenChange={(open) => !open && setHistoryRecord(null)}
+        onRestored={loadRecords}
+      />
     </div>
   );
 };
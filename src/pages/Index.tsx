@@ -15,6 +15,8 @@ import SiteCard from '@/components/SiteCard';
 import CategoryFilter from '@/components/CategoryFilter';
 import MapView from '@/components/MapView';
 import { TourismRoutesService, RouteWithSites } from '@/services/tourism-routes.service';
+import { SiteMediaService } from '@/services/site-media.service';
+import { SiteMedia } from '@/types/site-media';
 
 interface CulturalSite {
   id: string;
@@ -50,6 +52,7 @@ const Index = () => {
   const [routes, setRoutes] = useState<RouteWithSites[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [filteredSites, setFilteredSites] = useState<CulturalSite[]>([]);
+  const [coverImages, setCoverImages] = useState<Record<string, SiteMedia>>({});
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedSite, setSelectedSite] = useState<CulturalSite | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -86,6 +89,16 @@ const Index = () => {
     setFilteredSites(filtered);
   }, [sites, selectedCategory, searchQuery]);
 
+  // Cover photos are optional; cards render without them while loading or on failure
+  const loadCoverImages = async (siteIds: string[]) => {
+    try {
+      const covers = await SiteMediaService.fetchCoverImages(siteIds);
+      setCoverImages(Object.fromEntries(covers));
+    } catch (error) {
+      console.error('Error fetching cover images:', error);
+    }
+  };
+
   const fetchData = async () => {
     try {
       setLoading(true);
@@ -115,6 +128,7 @@ const Index = () => {
           });
         } else {
           setSites(sitesData || []);
+          loadCoverImages((sitesData || []).map(site => site.id));
         }
       }
 
@@ -275,6 +289,7 @@ const Index = () => {
                   <SiteCard
                     key={site.id}
                     site={site}
+                    coverImage={coverImages[site.id]}
                     onViewDetails={handleSiteSelect}
                     onViewOnMap={handleSiteSelect}
                   />
@@ -378,6 +393,8 @@ const Index = () => {
                       <SiteCard
                         key={site.id}
                         site={site}
+                        coverImage={coverImages[site.id]}
+                        imageSizes="(min-width: 1024px) 37vw, (min-width: 768px) 50vw, 100vw"
                         onViewDetails={handleSiteSelect}
                         onViewOnMap={handleSiteSelect}
                       />
@@ -9,15 +9,17 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Plus, Edit, Trash2, MapPin, Clock, Route as RouteIcon, Settings, X, ChevronUp, ChevronDown, Eye } from "lucide-react";
+import { Plus, Edit, Trash2, MapPin, Clock, Route as RouteIcon, Settings, X, ChevronUp, ChevronDown, Eye, History } from "lucide-react";
 import { TourismRoutesService, RouteWithSites } from "@/services/tourism-routes.service";
 import { CulturalSitesService } from "@/services/cultural-sites.service";
 import { SitesWithCategories } from "@/types/sites-with-categories";
 import MapView from "@/components/MapView";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
 import { toast } from "sonner";
 
 const RoutesManagement: React.FC = () => {
   const [routes, setRoutes] = useState<RouteWithSites[]>([]);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; name: string } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingRoute, setEditingRoute] = useState<RouteWithSites | null>(null);
@@ -351,6 +353,14 @@ const RoutesManagement: React.FC = () => {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Riwayat perubahan"
+                      onClick={() => setHistoryRecord({ id: route.id, name: route.name })}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <Button variant="outline" size="sm">
@@ -584,6 +594,13 @@ const RoutesManagement: React.FC = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <RecordHistoryDialog
+        tableName="tourism_routes"
+        record={historyRecord}
+        onOpenChange={(open) => !open && setHistoryRecord(null)}
+        onRestored={loadRoutes}
+      />
     </div>
   );
 };
@@ -10,17 +10,25 @@ import { CulturalSitesService } from '@/services/cultural-sites.service';
 import { SiteMediaService } from '@/services/site-media.service';
 import { SiteReviewsService } from '@/services/site-reviews.service';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
 import { SitesWithCategories } from '@/types/sites-with-categories';
 import { SiteMedia } from '@/types/site-media';
 import { SiteReview } from '@/types/site-reviews';
 import ReviewForm from '@/components/ReviewForm';
 import ReviewList from '@/components/ReviewList';
 import MapView from '@/components/MapView';
+import SimilarPhotosPanel from '@/components/SimilarPhotosPanel';
+import ResponsiveImage from '@/components/ResponsiveImage';
+import SiteMediaTile from '@/components/SiteMediaTile';
+import PanoramaViewer from '@/components/PanoramaViewer';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import RecordHistory from '@/components/RecordHistory';
 import { supabase } from '@/integrations/supabase/client';
 import type { User } from '@supabase/supabase-js';
 
 const SiteDetail = () => {
   const { id } = useParams<{ id: string }>();
+  const { can } = usePermissions();
   const [site, setSite] = useState<SitesWithCategories | null>(null);
   const [images, setImages] = useState<SiteMedia[]>([]);
   const [reviews, setReviews] = useState<SiteReview[]>([]);
@@ -28,6 +36,8 @@ const SiteDetail = () => {
   const [loading, setLoading] = useState(true);
   const [reviewsLoading, setReviewsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [openPanorama, setOpenPanorama] = useState<SiteMedia | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -168,7 +178,10 @@ const SiteDetail = () => {
     );
   }
 
-  const primaryImage = images.find(img => img.is_primary) || images[0];
+  // Matches the read policy on audit_log
+  const canViewHistory = can('audit.view');
+  const photos = images.filter(media => ['image', 'panorama'].includes(SiteMediaService.readMediaInfo(media).kind));
+  const primaryImage = photos.find(img => img.is_primary) || photos[0];
 
   return (
     <div className="min-h-screen bg-gradient-cultural">
@@ -236,10 +249,12 @@ const SiteDetail = () => {
                 {primaryImage && (
                   <div className="hidden md:block ml-4">
                     <div className="w-20 h-20 rounded-lg overflow-hidden border-2 border-white/30">
-                      <img
-                        src={primaryImage.file_url}
+                      <ResponsiveImage
+                        media={primaryImage}
                         alt={site.name}
+                        sizes="80px"
                         className="w-full h-full object-cover"
+                        loading="eager"
                       />
                     </div>
                   </div>
@@ -263,9 +278,10 @@ const SiteDetail = () => {
           <div className="lg:col-span-2">
             <Card className="p-6">
               <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className={`grid w-full ${canViewHistory ? 'grid-cols-3' : 'grid-cols-2'}`}>
                   <TabsTrigger value="overview">Ringkasan</TabsTrigger>
                   <TabsTrigger value="gallery">Galeri</TabsTrigger>
+                  {canViewHistory && <TabsTrigger value="history">Riwayat</TabsTrigger>}
                 </TabsList>
 
                 <TabsContent value="overview" className="mt-6 space-y-6">
@@ -295,7 +311,7 @@ const SiteDetail = () => {
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-accent">{images.length}</div>
-                      <div className="text-sm text-muted-foreground">Foto</div>
+                      <div className="text-sm text-muted-foreground">Media</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-secondary">{reviews.length}</div>
@@ -306,26 +322,26 @@ const SiteDetail = () => {
 
                 <TabsContent value="gallery" className="mt-6">
                   {images.length > 0 ? (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                      {images.map((image) => (
-                        <div key={image.id} className="relative group">
-                          <img
-                            src={image.file_url}
-                            alt={image.title || site.name}
-                            className="w-full h-48 object-cover rounded-lg"
+                    <div className="space-y-6">
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {images.map((image) => (
+                          <SiteMediaTile
+                            key={image.id}
+                            media={image}
+                            fallbackTitle={site.name}
+                            selected={selectedImageId === image.id}
+                            onSelect={(media) => setSelectedImageId(media.id)}
+                            onOpenPanorama={setOpenPanorama}
                           />
-                          {image.is_primary && (
-                            <Badge className="absolute top-2 left-2 bg-heritage">
-                              Utama
-                            </Badge>
-                          )}
-                          {image.title && (
-                            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-3 rounded-b-lg">
-                              <p className="text-white text-sm font-medium">{image.title}</p>
-                            </div>
-                          )}
+                        ))}
+                      </div>
+                      {selectedImageId ? (
+                        <div className="pt-4 border-t">
+                          <SimilarPhotosPanel imageId={selectedImageId} userId={user?.id ?? null} />
                         </div>
-                      ))}
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Pilih foto untuk mencari foto serupa dari situs lain.</p>
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-12">
@@ -335,6 +351,22 @@ const SiteDetail = () => {
                     </div>
                   )}
                 </TabsContent>
+
+                {canViewHistory && (
+                  <TabsContent value="history" className="mt-6">
+                    <RecordHistory tableName="cultural_sites" recordId={site.id!} onRestored={fetchSiteData} />
+                  </TabsContent>
+                )}
+
+                <Dialog open={!!openPanorama} onOpenChange={(open) => !open && setOpenPanorama(null)}>
+                  <DialogContent className="max-w-5xl">
+                    <DialogHeader>
+                      <DialogTitle>{openPanorama?.title || site.name}</DialogTitle>
+                    </DialogHeader>
+                    {openPanorama && <PanoramaViewer src={openPanorama.file_url} className="h-[60vh]" />}
+                    <p className="text-xs text-muted-foreground">Seret untuk melihat sekeliling, gulir untuk memperbesar.</p>
+                  </DialogContent>
+                </Dialog>
               </Tabs>
 
               {/* Reviews Section */}
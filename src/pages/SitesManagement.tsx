@@ -17,16 +17,30 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { MapPin, Image as ImageIcon, Edit, Trash2, Plus, Search, Filter, Download } from "lucide-react";
-import { classifyImage } from "@/lib/cnn";
+import { usePermissions } from "@/hooks/use-permissions";
+import { MapPin, Image as ImageIcon, Edit, Trash2, Plus, Search, Filter, Download, Cpu, Archive, ArchiveRestore, History, FilePen, Send, MapPinned } from "lucide-react";
+import { subscribeClassifierProgress, warmUpClassifier } from "@/lib/cnn";
+import type { ClassificationResult } from "@/lib/cnn";
+import type { ClassifierProgress } from "@/lib/classifier-config";
+import type { CategorySuggestion } from "@/lib/heritage-taxonomy";
+import { fileCategory, MAX_FILE_SIZE_MB, MEDIA_ACCEPT, validateMediaFile } from "@/lib/media-types";
 
 // Import services
-import { CulturalSitesService } from "@/services/cultural-sites.service";
-import { SiteMediaService } from "@/services/site-media.service";
+import { ArchivedSite, CulturalSitesService, UnpublishedSite } from "@/services/cultural-sites.service";
+import { SiteReviewService } from "@/services/site-review.service";
+import { SiteDeletionService } from "@/services/site-deletion.service";
+import { SiteMediaService, UploadCandidate, DuplicateMatch } from "@/services/site-media.service";
+import type { SiteMedia } from "@/types/site-media";
 import { CategoriesService } from "@/services/categories.service";
+import { AiAnalysisService } from "@/services/ai-analysis.service";
+import { AdministrativeAreasService, AdministrativeLocation } from "@/services/administrative-areas.service";
 
 // Import components
 import RichTextEditor from "@/components/RichTextEditor";
+import BatchAnalysisDialog from "@/components/BatchAnalysisDialog";
+import MediaThumbnail from "@/components/MediaThumbnail";
+import SiteDeletionDialog from "@/components/SiteDeletionDialog";
+import RecordHistoryDialog from "@/components/RecordHistoryDialog";
 
 // Fix Leaflet default markers
 // @ts-ignore
@@ -60,23 +74,46 @@ interface Category {
 }
 
 type SiteWithCategory = Awaited<ReturnType<typeof CulturalSitesService.fetchAllSites>>[0];
+// Published sites come from the view, unpublished ones from the table
+type EditableSite = Pick<SiteWithCategory,
+  'id' | 'name' | 'local_name' | 'description' | 'category_id' | 'latitude' | 'longitude' |
+  'visiting_hours' | 'entrance_fee' | 'village' | 'district' | 'established_year' | 'publication_status'>;
+
+const PUBLICATION_LABELS: Record<UnpublishedSite['publication_status'], string> = {
+  draft: "Draf",
+  pending_review: "Menunggu Tinjauan",
+  verified: "Terbit",
+  rejected: "Ditolak",
+};
 
 const SitesManagement: React.FC = () => {
   const { toast } = useToast();
+  const { role } = usePermissions();
   const [categories, setCategories] = useState<Category[]>([]);
+  const [historyRecord, setHistoryRecord] = useState<{ id: string; name: string } | null>(null);
   const [sites, setSites] = useState<SiteWithCategory[]>([]);
   const [loadingSites, setLoadingSites] = useState(false);
   const [createdSiteId, setCreatedSiteId] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [analysis, setAnalysis] = useState<{ label: string; score: number }[] | null>(null);
+  // site_media row of the selected image once it is in the gallery, reused by later analyses
+  const [selectedImageMediaId, setSelectedImageMediaId] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<ClassificationResult[] | null>(null);
+  const [analysisStatus, setAnalysisStatus] = useState<string | null>(null);
+  const [categorySuggestion, setCategorySuggestion] = useState<CategorySuggestion | null>(null);
+  const [classifierProgress, setClassifierProgress] = useState<ClassifierProgress>({ stage: 'idle' });
   const [analyzing, setAnalyzing] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
-  const [existingImages, setExistingImages] = useState<any[]>([]);
-  const [editingSite, setEditingSite] = useState<SiteWithCategory | null>(null);
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [siteToDelete, setSiteToDelete] = useState<string | null>(null);
+  const [existingImages, setExistingImages] = useState<SiteMedia[]>([]);
+  const [duplicateCandidates, setDuplicateCandidates] = useState<UploadCandidate[] | null>(null);
+  const [duplicatePreviewUrls, setDuplicatePreviewUrls] = useState<Map<File, string>>(new Map());
+  const [editingSite, setEditingSite] = useState<EditableSite | null>(null);
+  const [siteToDelete, setSiteToDelete] = useState<{ id: string; name: string; isActive: boolean } | null>(null);
+  const [archivedSites, setArchivedSites] = useState<ArchivedSite[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [unpublishedSites, setUnpublishedSites] = useState<UnpublishedSite[]>([]);
+  const [showUnpublished, setShowUnpublished] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [siteFormOpen, setSiteFormOpen] = useState(false);
@@ -87,11 +124,18 @@ const SitesManagement: React.FC = () => {
   const [importingCsv, setImportingCsv] = useState(false);
   const [selectedSites, setSelectedSites] = useState<string[]>([]);
   const [bulkEditOpen, setBulkEditOpen] = useState(false);
+  const [batchAnalysisOpen, setBatchAnalysisOpen] = useState(false);
+  const [batchSites, setBatchSites] = useState<{ id: string; name: string | null }[]>([]);
+  const [locatingArea, setLocatingArea] = useState(false);
   const [bulkEditData, setBulkEditData] = useState({
     category_id: '',
     is_active: null as boolean | null,
   });
 
+  const isReviewer = SiteReviewService.isReviewer(role);
+  // Reviewers see every unpublished site, contributors only their own
+  const visibleUnpublished = isReviewer ? unpublishedSites : unpublishedSites.filter(site => site.created_by === userId);
+
   // Format visiting hours as 00.00 - 00.00
   const formatVisitingHours = (value: string) => {
     const digits = value.replace(/\D/g, '');
@@ -131,6 +175,25 @@ const SitesManagement: React.FC = () => {
     loadInitialData();
   }, []);
 
+  // Track classifier model loading progress
+  useEffect(() => subscribeClassifierProgress(setClassifierProgress), []);
+
+  // Preview URLs for the duplicate dialog, revoked when the candidates change
+  useEffect(() => {
+    const urls = new Map(
+      (duplicateCandidates ?? [])
+        .filter(candidate => candidate.duplicates.length > 0)
+        .map(candidate => [candidate.file, URL.createObjectURL(candidate.file)] as const)
+    );
+    setDuplicatePreviewUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [duplicateCandidates]);
+
+  // A stored analysis image belongs to the site it was uploaded for
+  useEffect(() => {
+    setSelectedImageMediaId(null);
+  }, [createdSiteId]);
+
   // Initialize map when site form opens
   useLayoutEffect(() => {
     if (siteFormOpen && mapContainer.current && !map.current) {
@@ -230,8 +293,14 @@ const SitesManagement: React.FC = () => {
   const loadSites = async () => {
     setLoadingSites(true);
     try {
-      const sitesData = await CulturalSitesService.fetchAllSites();
+      const [sitesData, archivedData, unpublishedData] = await Promise.all([
+        CulturalSitesService.fetchAllSites(),
+        CulturalSitesService.fetchArchivedSites(),
+        CulturalSitesService.fetchUnpublishedSites(),
+      ]);
       setSites(sitesData);
+      setArchivedSites(archivedData);
+      setUnpublishedSites(unpublishedData);
     } catch (error: any) {
       console.error('Error loading sites:', error);
       toast({
@@ -244,7 +313,7 @@ const SitesManagement: React.FC = () => {
     }
   };
 
-  const handleEditSite = async (site: SiteWithCategory) => {
+  const handleEditSite = async (site: EditableSite) => {
     setEditingSite(site);
     setCreatedSiteId(site.id!);
     setSiteFormOpen(true);
@@ -312,21 +381,19 @@ const SitesManagement: React.FC = () => {
     }
   };
 
-  const handleDeleteSite = async (siteId: string) => {
+  const handleRestoreSite = async (site: ArchivedSite) => {
     try {
-      await CulturalSitesService.deleteSite(siteId);
+      await SiteDeletionService.restoreSite(site.id);
       toast({
         title: "Berhasil",
-        description: "Situs budaya berhasil dihapus",
+        description: `${site.name} dipulihkan dari arsip`,
       });
       await loadSites();
-      setDeleteDialogOpen(false);
-      setSiteToDelete(null);
-    } catch (error: any) {
-      console.error('Error deleting site:', error);
+    } catch (error) {
+      console.error('Error restoring site:', error);
       toast({
-        title: "Gagal menghapus",
-        description: error?.message || "Terjadi kesalahan saat menghapus situs",
+        title: "Gagal memulihkan",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat memulihkan situs",
         variant: "destructive",
       });
     }
@@ -362,21 +429,85 @@ const SitesManagement: React.FC = () => {
         throw new Error('User session expired. Please login again.');
       }
 
-      await SiteMediaService.uploadImages(files, createdSiteId, userId);
+      const accepted = Array.from(files).filter(file => !validateMediaFile(file));
+      const rejected = Array.from(files).filter(file => validateMediaFile(file));
+      if (rejected.length > 0) {
+        toast({
+          title: "Sebagian file ditolak",
+          description: rejected.map(file => `${file.name}: ${describeRejection(file)}`).join('; '),
+          variant: "destructive",
+        });
+      }
+      setUploadedImages(accepted);
+      if (accepted.length === 0) return;
+
+      // Warn before uploading photos that are already in the gallery
+      const candidates = await SiteMediaService.checkDuplicates(accepted, createdSiteId);
+      if (candidates.some(c => c.duplicates.length > 0)) {
+        setDuplicateCandidates(candidates);
+        return;
+      }
+
+      await uploadCandidates(candidates);
+    } catch (error: any) {
+      console.error('Error uploading images:', error);
       toast({
-        title: "Berhasil",
-        description: `${files.length} gambar berhasil diupload`,
+        title: "Gagal upload",
+        description: error?.message || "Terjadi kesalahan saat upload gambar",
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingImages(false);
+    }
+  };
+
+  const uploadCandidates = async (candidates: UploadCandidate[]) => {
+    if (!createdSiteId || !userId) return;
+
+    let farFromSite = 0;
+    for (const candidate of candidates) {
+      const media = await SiteMediaService.uploadImage(candidate.file, createdSiteId, userId, candidate.fingerprint);
+      if (SiteMediaService.readLocationCheck(media)?.flagged) farFromSite++;
+    }
+    toast({
+      title: "Berhasil",
+      description: `${candidates.length} file media berhasil diupload`,
+    });
+    if (farFromSite > 0) {
+      toast({
+        title: "Lokasi foto perlu diperiksa",
+        description: `${farFromSite} foto diambil lebih dari ${SiteMediaService.GPS_MAX_DISTANCE_KM} km dari koordinat situs`,
+        variant: "destructive",
       });
+    }
+    setUploadedImages([]);
+
+    // Refresh existing images
+    const images = await SiteMediaService.fetchSiteImages(createdSiteId);
+    setExistingImages(images);
+  };
+
+  const handleConfirmDuplicateUpload = async (skipDuplicates: boolean) => {
+    if (!duplicateCandidates) return;
+    const selected = skipDuplicates
+      ? duplicateCandidates.filter(c => c.duplicates.length === 0)
+      : duplicateCandidates;
+    setDuplicateCandidates(null);
+
+    if (selected.length === 0) {
       setUploadedImages([]);
+      toast({ title: "Tidak ada gambar diupload", description: "Semua gambar terdeteksi sebagai duplikat" });
+      return;
+    }
 
-      // Refresh existing images
-      const images = await SiteMediaService.fetchSiteImages(createdSiteId);
-      setExistingImages(images);
-    } catch (error: any) {
+    setUploadingImages(true);
+    try {
+      await uploadCandidates(selected);
+    } catch (error) {
       console.error('Error uploading images:', error);
       toast({
         title: "Gagal upload",
-        description: error?.message || "Terjadi kesalahan saat upload gambar",
+        description: error instanceof Error ? error.message : "Terjadi kesalahan saat upload gambar",
         variant: "destructive",
       });
     } finally {
@@ -384,9 +515,31 @@ const SitesManagement: React.FC = () => {
     }
   };
 
-  const handleDeleteImage = async (imageId: string, fileUrl: string) => {
+  const describeRejection = (file: File) => {
+    if (validateMediaFile(file) === 'unsupported_type') {
+      return "format tidak didukung";
+    }
+    const category = fileCategory(file.type);
+    return `ukuran melebihi ${category ? MAX_FILE_SIZE_MB[category] : 0} MB`;
+  };
+
+  const describeDuplicate = (match: DuplicateMatch, candidates: UploadCandidate[]) => {
+    const target = match.media
+      ? `"${match.media.title || 'gambar galeri'}"`
+      : `"${candidates[match.fileIndex!]?.file.name}" (dalam unggahan ini)`;
+    switch (match.kind) {
+      case 'exact':
+        return `Sama persis dengan ${target}`;
+      case 'near':
+        return `Sangat mirip dengan ${target} (selisih hash ${match.distance})`;
+      default:
+        return `Kamera dan waktu pengambilan sama dengan ${target}`;
+    }
+  };
+
+  const handleDeleteImage = async (image: SiteMedia) => {
     try {
-      await SiteMediaService.deleteImage(imageId, fileUrl);
+      await SiteMediaService.deleteImage(image);
       toast({
         title: "Berhasil",
         description: "Gambar berhasil dihapus",
@@ -406,8 +559,12 @@ const SitesManagement: React.FC = () => {
     }
   };
 
-  const onSubmit = async (values: SiteFormValues) => {
+  // Contributors save a draft (submit=false) or send it for review; reviewers publish directly
+  const onSubmit = async (values: SiteFormValues, submit = true) => {
+    if (!userId) return;
+
     try {
+      const location = await locateSite(values.latitude, values.longitude);
       const payload = {
         name: values.name,
         local_name: values.local_name || null,
@@ -417,26 +574,30 @@ const SitesManagement: React.FC = () => {
         longitude: values.longitude,
         visiting_hours: values.visiting_hours || null,
         entrance_fee: values.entrance_fee ?? 0,
-        village: values.village || null,
-        district: values.district || null,
+        village: values.village || location?.village || null,
+        district: values.district || location?.district || null,
+        // Regency and province always follow the coordinates when a boundary contains them
+        ...(location?.regency ? { regency: location.regency, province: location.province } : {}),
         established_year: values.established_year,
-        created_by: userId,
       };
 
-      if (editingSite) {
-        await CulturalSitesService.updateSite(editingSite.id!, payload);
-        toast({
-          title: "Berhasil",
-          description: "Situs budaya berhasil diperbarui"
-        });
-      } else {
-        const newSite = await CulturalSitesService.createSite(payload);
-        setCreatedSiteId(newSite.id);
-        toast({
-          title: "Berhasil",
-          description: "Situs budaya berhasil disimpan"
-        });
-      }
+      const { site, revision } = await SiteReviewService.saveSite({
+        siteId: editingSite?.id ?? null,
+        values: payload,
+        userId,
+        role,
+        submit,
+      });
+      if (!editingSite) setCreatedSiteId(site.id);
+
+      toast({
+        title: "Berhasil",
+        description: !revision
+          ? editingSite ? "Situs budaya berhasil diperbarui" : "Situs budaya berhasil disimpan dan diterbitkan"
+          : submit
+            ? "Perubahan dikirim untuk ditinjau dan akan tampil setelah disetujui"
+            : "Draf berhasil disimpan",
+      });
 
       form.reset();
       setEditingSite(null);
@@ -452,24 +613,112 @@ const SitesManagement: React.FC = () => {
     }
   };
 
+  // Boundaries are optional; saving must not fail when they cannot be loaded
+  const locateSite = async (latitude: number, longitude: number): Promise<AdministrativeLocation | null> => {
+    try {
+      return await AdministrativeAreasService.locate(latitude, longitude);
+    } catch (error) {
+      console.error('Error locating site in administrative areas:', error);
+      return null;
+    }
+  };
+
+  const handleFillAreaFromCoordinates = async () => {
+    const latitude = Number(form.getValues("latitude"));
+    const longitude = Number(form.getValues("longitude"));
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      toast({ title: "Pilih titik di peta terlebih dahulu", variant: "destructive" });
+      return;
+    }
+
+    setLocatingArea(true);
+    const location = await locateSite(latitude, longitude);
+    setLocatingArea(false);
+
+    if (!location?.district && !location?.village) {
+      toast({
+        title: "Wilayah tidak ditemukan",
+        description: "Koordinat berada di luar batas kecamatan dan desa yang tersedia",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (location.village) form.setValue("village", location.village, { shouldDirty: true });
+    if (location.district) form.setValue("district", location.district, { shouldDirty: true });
+    toast({
+      title: "Wilayah diisi dari koordinat",
+      description: [location.village, location.district, location.regency].filter(Boolean).join(", "),
+    });
+  };
+
+  /**
+   * The analysis is linked to a site_media row: reuse the gallery copy of the
+   * same photo when there is one, otherwise store the image first
+   */
+  const resolveAnalysisMedia = async (image: File, siteId: string, uploaderId: string): Promise<string> => {
+    const [candidate] = await SiteMediaService.checkDuplicates([image], siteId);
+    const existing = candidate.duplicates
+      .filter(match => match.media && match.kind !== 'exif')
+      .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))[0]?.media;
+    if (existing) {
+      toast({
+        title: "Gambar sudah ada di galeri",
+        description: `Analisis dikaitkan dengan ${existing.title || 'gambar yang sudah ada'}`,
+      });
+      return existing.id;
+    }
+
+    const media = await SiteMediaService.uploadImage(image, siteId, uploaderId, candidate.fingerprint);
+    setExistingImages(await SiteMediaService.fetchSiteImages(siteId));
+    return media.id;
+  };
+
   const handleAnalyze = async () => {
     if (!createdSiteId || !selectedImage) {
       toast({ title: "Lengkapi data", description: "Simpan situs dan pilih gambar terlebih dahulu" });
       return;
     }
 
+    if (!userId) {
+      toast({
+        title: "Autentikasi diperlukan",
+        description: "Silakan login terlebih dahulu untuk menjalankan analisis",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setAnalyzing(true);
       setAnalysis(null);
-      const results = await classifyImage(selectedImage);
-      setAnalysis(results);
-      const top = results[0];
+      setAnalysisStatus(null);
+      setCategorySuggestion(null);
+
+      const imageId = selectedImageMediaId ?? await resolveAnalysisMedia(selectedImage, createdSiteId, userId);
+      setSelectedImageMediaId(imageId);
+
+      const result = await AiAnalysisService.analyzeImage({
+        siteId: createdSiteId,
+        image: selectedImage,
+        imageId,
+        userId,
+      });
+      const results = result.results as { predictions?: ClassificationResult[] };
+      setAnalysis(results.predictions ?? []);
+      setAnalysisStatus(result.status);
+      setCategorySuggestion(AiAnalysisService.getCategorySuggestion(result, categories));
+
+      const top = results.predictions?.[0];
       toast({
-        title: "Analisis selesai",
-        description: `Prediksi: ${top.label} (${Math.round(top.score * 100)}%)`,
+        title: result.status === 'requires_review' ? "Analisis perlu ditinjau" : "Analisis selesai",
+        description: top
+          ? `Prediksi: ${top.label} (${Math.round(top.score * 100)}%)`
+          : "Tidak ada prediksi",
       });
     } catch (err: any) {
       console.error(err);
+      setAnalysisStatus('failed');
       toast({
         title: "Gagal analisis",
         description: err?.message || "Terjadi kesalahan saat memproses gambar",
@@ -480,6 +729,50 @@ const SitesManagement: React.FC = () => {
     }
   };
 
+  const handleWarmUpClassifier = async () => {
+    try {
+      const status = await warmUpClassifier();
+      toast({
+        title: "Model siap",
+        description: `Model CNN dimuat menggunakan ${status.device?.toUpperCase()}`,
+      });
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Gagal memuat model",
+        description: err instanceof Error ? err.message : "Tidak ada backend yang tersedia untuk model CNN",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeClassifierProgress = (progress: ClassifierProgress) => {
+    const device = progress.device ? ` (${progress.device.toUpperCase()})` : "";
+    switch (progress.stage) {
+      case 'downloading':
+        return `Mengunduh model${device}: ${Math.round(progress.progress ?? 0)}%`;
+      case 'loading':
+        return `Memuat model${device}...`;
+      case 'warming_up':
+        return `Pemanasan model${device}...`;
+      case 'ready':
+        return `Model siap${device}`;
+      case 'error':
+        return `Model gagal dimuat: ${progress.message}`;
+      default:
+        return "Model belum dimuat";
+    }
+  };
+
+  const handleApplySuggestedCategory = () => {
+    if (!categorySuggestion?.categoryId) return;
+    form.setValue('category_id', categorySuggestion.categoryId, { shouldDirty: true, shouldValidate: true });
+    toast({
+      title: "Kategori diterapkan",
+      description: `Kategori diisi dengan ${categorySuggestion.categoryName}`,
+    });
+  };
+
   const handleParseCsv = () => {
     if (!csvFile) return;
 
@@ -571,7 +864,7 @@ const SitesManagement: React.FC = () => {
     try {
       for (const siteData of csvData) {
         try {
-          await CulturalSitesService.createSite(siteData);
+          await CulturalSitesService.createSite({ ...siteData, ...SiteReviewService.initialPublication(role, userId) });
           successCount++;
         } catch (error: any) {
           console.error('Error importing site:', siteData.name, error);
@@ -651,6 +944,15 @@ const SitesManagement: React.FC = () => {
     }
   };
 
+  const handleOpenBatchAnalysis = () => {
+    // Analyse the selected sites, or every site in the current filter when none are selected
+    const targets = selectedSites.length > 0
+      ? sites.filter(site => selectedSites.includes(site.id!))
+      : filteredSites;
+    setBatchSites(targets.map(site => ({ id: site.id!, name: site.name })));
+    setBatchAnalysisOpen(true);
+  };
+
   const handleExportCsv = () => {
     if (filteredSites.length === 0) {
       toast({
@@ -730,15 +1032,37 @@ const SitesManagement: React.FC = () => {
             <Button
               variant="outline"
               onClick={() => setBulkEditOpen(true)}
-              disabled={selectedSites.length === 0}
+              disabled={selectedSites.length === 0 || !isReviewer}
             >
               <Edit className="w-4 h-4 mr-2" />
               Edit Massal ({selectedSites.length})
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleOpenBatchAnalysis}
+              disabled={filteredSites.length === 0}
+            >
+              <Cpu className="w-4 h-4 mr-2" />
+              Analisis Batch{selectedSites.length > 0 ? ` (${selectedSites.length})` : ''}
+            </Button>
             <Button variant="outline" onClick={handleExportCsv}>
               <Download className="w-4 h-4 mr-2" />
               Export CSV
             </Button>
+            <Button
+              variant={showUnpublished ? "secondary" : "outline"}
+              onClick={() => setShowUnpublished(prev => !prev)}
+            >
+              <FilePen className="w-4 h-4 mr-2" />
+              Belum Terbit ({visibleUnpublished.length})
+            </Button>
+            <Button
+              variant={showArchived ? "secondary" : "outline"}
+              onClick={() => setShowArchived(prev => !prev)}
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Arsip ({archivedSites.length})
+            </Button>
             <Button onClick={handleAddSite}>
               <Plus className="w-4 h-4 mr-2" />
               Tambah Situs Baru
@@ -862,10 +1186,15 @@ const SitesManagement: React.FC = () => {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => {
-                            setSiteToDelete(site.id!);
-                            setDeleteDialogOpen(true);
-                          }}
+                          title="Riwayat perubahan"
+                          onClick={() => setHistoryRecord({ id: site.id!, name: site.name ?? '' })}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSiteToDelete({ id: site.id!, name: site.name ?? '', isActive: site.is_active !== false })}
                         >
                           <Trash2 className="w-4 h-4" />
                         </Button>
@@ -879,6 +1208,108 @@ const SitesManagement: React.FC = () => {
         )}
       </Card>
 
+      {showUnpublished && (
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-1">Situs Belum Terbit</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Draf dan kiriman yang belum disetujui peninjau. Situs ini belum tampil di halaman publik.
+          </p>
+          {visibleUnpublished.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">Tidak ada situs yang menunggu publikasi.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama Situs</TableHead>
+                  <TableHead>Kategori</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Terakhir Diubah</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleUnpublished.map((site) => (
+                  <TableRow key={site.id}>
+                    <TableCell className="font-medium">{site.name}</TableCell>
+                    <TableCell>
+                      {site.heritage_categories?.name ? (
+                        <Badge variant="secondary">{site.heritage_categories.name}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={site.publication_status === 'rejected' ? "destructive" : "outline"}>
+                        {PUBLICATION_LABELS[site.publication_status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{new Date(site.updated_at).toLocaleDateString('id-ID')}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => handleEditSite(site)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      )}
+
+      {showArchived && (
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-1">Situs Diarsipkan</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Situs arsip tidak tampil di halaman publik. Data, media dan ulasannya tetap tersimpan.
+          </p>
+          {archivedSites.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">Tidak ada situs yang diarsipkan.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama Situs</TableHead>
+                  <TableHead>Kategori</TableHead>
+                  <TableHead>Terakhir Diubah</TableHead>
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {archivedSites.map((site) => (
+                  <TableRow key={site.id}>
+                    <TableCell className="font-medium">{site.name}</TableCell>
+                    <TableCell>
+                      {site.heritage_categories?.name ? (
+                        <Badge variant="secondary">{site.heritage_categories.name}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{new Date(site.updated_at).toLocaleDateString('id-ID')}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleRestoreSite(site)}>
+                          <ArchiveRestore className="w-4 h-4 mr-1" />
+                          Pulihkan
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSiteToDelete({ id: site.id, name: site.name, isActive: false })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      )}
+
       {/* Site Form Modal */}
       <Dialog open={siteFormOpen} onOpenChange={setSiteFormOpen}>
         <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
@@ -895,7 +1326,7 @@ const SitesManagement: React.FC = () => {
             {/* Form Section */}
             <Card className="p-6 lg:col-span-2">
               <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <form onSubmit={form.handleSubmit(values => onSubmit(values))} className="space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
@@ -931,7 +1362,7 @@ const SitesManagement: React.FC = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Kategori</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Pilih kategori" />
@@ -1073,14 +1504,38 @@ const SitesManagement: React.FC = () => {
                       )}
                     />
                   </div>
+                  <div className="flex justify-end -mt-2">
+                    <Button type="button" variant="ghost" size="sm" onClick={handleFillAreaFromCoordinates} disabled={locatingArea}>
+                      <MapPinned className="w-4 h-4 mr-2" />
+                      {locatingArea ? "Mencari wilayah..." : "Isi dari Koordinat"}
+                    </Button>
+                  </div>
 
                   <div className="flex justify-end gap-2">
                     <Button type="button" variant="outline" onClick={() => setSiteFormOpen(false)}>
                       Batal
                     </Button>
-                    <Button type="submit" disabled={!userId}>
-                      {editingSite ? "Perbarui Situs" : "Simpan Situs"}
-                    </Button>
+                    {isReviewer ? (
+                      <Button type="submit" disabled={!userId}>
+                        {editingSite ? "Perbarui Situs" : "Simpan Situs"}
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          disabled={!userId}
+                          onClick={form.handleSubmit(values => onSubmit(values, false))}
+                        >
+                          <FilePen className="w-4 h-4 mr-2" />
+                          Simpan Draf
+                        </Button>
+                        <Button type="submit" disabled={!userId}>
+                          <Send className="w-4 h-4 mr-2" />
+                          Kirim untuk Ditinjau
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </form>
               </Form>
@@ -1104,11 +1559,11 @@ const SitesManagement: React.FC = () => {
                 </div>
                 <div className="space-y-3">
                   <div>
-                    <Label htmlFor="images">Upload Gambar Situs (Multiple)</Label>
+                    <Label htmlFor="images">Upload Foto, Panorama 360°, Video atau Audio (Multiple)</Label>
                     <Input
                       id="images"
                       type="file"
-                      accept="image/*"
+                      accept={MEDIA_ACCEPT}
                       multiple
                       onChange={(e) => {
                         const files = e.target.files;
@@ -1122,36 +1577,49 @@ const SitesManagement: React.FC = () => {
                   </div>
 
                   {uploadingImages && (
-                    <p className="text-sm text-muted-foreground">Mengupload gambar...</p>
+                    <p className="text-sm text-muted-foreground">Mengupload media...</p>
                   )}
 
                   {!createdSiteId && (
-                    <p className="text-xs text-muted-foreground">Simpan situs terlebih dahulu untuk upload gambar.</p>
+                    <p className="text-xs text-muted-foreground">Simpan situs terlebih dahulu untuk upload media.</p>
                   )}
 
                   {/* Existing Images */}
                   {existingImages.length > 0 && (
                     <div>
-                      <h4 className="text-sm font-medium mb-2">Gambar Tersimpan</h4>
+                      <h4 className="text-sm font-medium mb-2">Media Tersimpan</h4>
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                        {existingImages.map((image) => (
-                          <div key={image.id} className="relative group">
-                            <img
-                              src={image.file_url}
-                              alt={image.title || "Site image"}
-                              className="w-full h-20 object-cover rounded-md"
-                              loading="lazy"
-                            />
-                            <Button
-                              variant="destructive"
-                              size="sm"
-                              className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                              onClick={() => handleDeleteImage(image.id, image.file_url)}
-                            >
-                              <Trash2 className="w-3 h-3" />
-                            </Button>
-                          </div>
-                        ))}
+                        {existingImages.map((image) => {
+                          const locationCheck = SiteMediaService.readLocationCheck(image);
+                          const { kind } = SiteMediaService.readMediaInfo(image);
+                          return (
+                            <div key={image.id} className="relative group">
+                              <MediaThumbnail
+                                kind={kind}
+                                src={image.file_url}
+                                alt={image.title || "Site image"}
+                                title={image.title}
+                              />
+                              {locationCheck?.flagged && (
+                                <Badge
+                                  variant="destructive"
+                                  className="absolute bottom-1 left-1 text-[10px] px-1"
+                                  title="Posisi GPS foto jauh dari koordinat situs"
+                                >
+                                  {locationCheck.distanceKm.toFixed(1)} km
+                                </Badge>
+                              )}
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                                onClick={() => handleDeleteImage(image)}
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          );
+                        })}
                       </div>
                     </div>
                   )}
@@ -1163,11 +1631,11 @@ const SitesManagement: React.FC = () => {
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         {uploadedImages.map((file, index) => (
                           <div key={index} className="relative">
-                            <img
+                            <MediaThumbnail
+                              kind={fileCategory(file.type) ?? 'image'}
                               src={URL.createObjectURL(file)}
                               alt={`Upload preview ${index + 1}`}
-                              className="w-full h-20 object-cover rounded-md"
-                              loading="lazy"
+                              title={file.name}
                             />
                           </div>
                         ))}
@@ -1185,13 +1653,34 @@ const SitesManagement: React.FC = () => {
                 <div className="space-y-3">
                   <div>
                     <Label htmlFor="image">Unggah Gambar Situs</Label>
-                    <Input id="image" type="file" accept="image/*" onChange={(e) => setSelectedImage(e.target.files?.[0] || null)} />
+                    <Input id="image" type="file" accept="image/*" onChange={(e) => {
+                      setSelectedImage(e.target.files?.[0] || null);
+                      setSelectedImageMediaId(null);
+                    }} />
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className={`text-xs ${classifierProgress.stage === 'error' ? "text-destructive" : "text-muted-foreground"}`}>
+                      {describeClassifierProgress(classifierProgress)}
+                    </p>
+                    {classifierProgress.stage !== 'ready' && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleWarmUpClassifier}
+                        disabled={['loading', 'downloading', 'warming_up'].includes(classifierProgress.stage)}
+                      >
+                        Muat Model
+                      </Button>
+                    )}
                   </div>
                   <Button variant="secondary" onClick={handleAnalyze} disabled={!createdSiteId || !selectedImage || analyzing}>
                     {analyzing ? "Menganalisis..." : "Jalankan Analisis CNN (Tanpa Token)"}
                   </Button>
-                  {!createdSiteId && (
+                  {!createdSiteId ? (
                     <p className="text-xs text-muted-foreground">Simpan situs terlebih dahulu untuk mengaktifkan analisis.</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Gambar akan disimpan ke galeri dan hasil analisis dicatat pada riwayat AI situs.</p>
                   )}
                   {selectedImage && (
                     <div className="pt-2">
@@ -1205,7 +1694,14 @@ const SitesManagement: React.FC = () => {
                   )}
                   {analysis && (
                     <div className="pt-2">
-                      <h4 className="text-sm font-medium mb-1">Hasil Analisis</h4>
+                      <div className="flex items-center justify-between mb-1">
+                        <h4 className="text-sm font-medium">Hasil Analisis</h4>
+                        {analysisStatus && (
+                          <Badge variant={analysisStatus === 'completed' ? "default" : "secondary"}>
+                            {analysisStatus === 'completed' ? "Selesai" : analysisStatus === 'requires_review' ? "Perlu Ditinjau" : analysisStatus}
+                          </Badge>
+                        )}
+                      </div>
                       <ul className="space-y-1">
                         {analysis.slice(0, 5).map((r, i) => (
                           <li key={i} className="text-sm flex items-center justify-between">
@@ -1216,6 +1712,33 @@ const SitesManagement: React.FC = () => {
                       </ul>
                     </div>
                   )}
+                  {analysis && (
+                    <div className="pt-2 border-t">
+                      <h4 className="text-sm font-medium mb-1">Saran Kategori Warisan</h4>
+                      {categorySuggestion ? (
+                        <div className="space-y-2">
+                          <div className="text-sm flex items-center justify-between">
+                            <span>{categorySuggestion.categoryName || categorySuggestion.category}</span>
+                            <span className="font-medium">{Math.round(categorySuggestion.score * 100)}%</span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Berdasarkan label: {categorySuggestion.matchedLabels.join("; ")}
+                          </p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={handleApplySuggestedCategory}
+                            disabled={!categorySuggestion.categoryId}
+                          >
+                            Gunakan Kategori Ini
+                          </Button>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Label hasil model tidak cocok dengan kategori warisan mana pun.</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </Card>
             </div>
@@ -1223,29 +1746,66 @@ const SitesManagement: React.FC = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-        <DialogContent>
+      {/* Duplicate Upload Warning */}
+      <Dialog open={!!duplicateCandidates} onOpenChange={(open) => {
+        if (!open) {
+          setDuplicateCandidates(null);
+          setUploadedImages([]);
+        }
+      }}>
+        <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Hapus Situs Budaya</DialogTitle>
+            <DialogTitle>Gambar Duplikat Terdeteksi</DialogTitle>
             <DialogDescription>
-              Apakah Anda yakin ingin menghapus situs budaya ini? Tindakan ini tidak dapat dibatalkan.
+              Beberapa gambar tampaknya sudah ada di galeri situs ini.
             </DialogDescription>
           </DialogHeader>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {duplicateCandidates?.filter(c => c.duplicates.length > 0).map(candidate => (
+              <div key={candidate.fingerprint.contentHash + candidate.file.name} className="flex gap-3 border rounded-md p-2">
+                <img
+                  src={duplicatePreviewUrls.get(candidate.file)}
+                  alt={candidate.file.name}
+                  className="w-16 h-16 object-cover rounded"
+                />
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{candidate.file.name}</p>
+                  {candidate.duplicates.map((match, index) => (
+                    <div key={index} className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {match.media && (
+                        <img src={match.media.file_url} alt="" className="w-8 h-8 object-cover rounded" loading="lazy" />
+                      )}
+                      <Badge variant={match.kind === 'exact' ? "destructive" : "secondary"}>
+                        {match.kind === 'exact' ? "Identik" : match.kind === 'near' ? "Mirip" : "EXIF"}
+                      </Badge>
+                      <span>{describeDuplicate(match, duplicateCandidates)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => { setDuplicateCandidates(null); setUploadedImages([]); }}>
               Batal
             </Button>
-            <Button
-              variant="destructive"
-              onClick={() => siteToDelete && handleDeleteSite(siteToDelete)}
-            >
-              Hapus
+            <Button variant="outline" onClick={() => handleConfirmDuplicateUpload(false)}>
+              Upload Semua
+            </Button>
+            <Button onClick={() => handleConfirmDuplicateUpload(true)}>
+              Lewati Duplikat
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      {/* Delete / Archive Dialog */}
+      <SiteDeletionDialog
+        site={siteToDelete}
+        onOpenChange={(open) => !open && setSiteToDelete(null)}
+        onCompleted={loadSites}
+      />
+
       {/* CSV Import Dialog */}
       <Dialog open={csvImportOpen} onOpenChange={setCsvImportOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -1354,6 +1914,15 @@ const SitesManagement: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Batch CNN Analysis Dialog */}
+      <BatchAnalysisDialog
+        open={batchAnalysisOpen}
+        onOpenChange={setBatchAnalysisOpen}
+        sites={batchSites}
+        userId={userId}
+        onCompleted={loadSites}
+      />
+
       {/* Bulk Edit Dialog */}
       <Dialog open={bulkEditOpen} onOpenChange={setBulkEditOpen}>
         <DialogContent>
@@ -1416,6 +1985,13 @@ const SitesManagement: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RecordHistoryDialog
+        tableName="cultural_sites"
+        record={historyRecord}
+        onOpenChange={(open) => !open && setHistoryRecord(null)}
+        onRestored={loadSites}
+      />
     </div>
   );
 };
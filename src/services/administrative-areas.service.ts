@@ -0,0 +1,362 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { geometryBBox } from "@/lib/geo-clip";
+import { pointInGeometry } from "@/lib/point-in-polygon";
+import { fetchAllRows } from "@/lib/supabase-paging";
+import { RecommendationService } from "@/services/recommendation.service";
+import type { AdministrativeArea, AdministrativeLevel } from "@/types/administrative-areas";
+
+type AdministrativeAreaInsert = Database['public']['Tables']['administrative_areas']['Insert'];
+type CulturalSiteUpdate = Database['public']['Tables']['cultural_sites']['Update'];
+
+export const ADMINISTRATIVE_LEVELS: AdministrativeLevel[] = ['regency', 'district', 'village'];
+
+export const ADMINISTRATIVE_LEVEL_LABELS: Record<AdministrativeLevel, string> = {
+  regency: 'Kabupaten/Kota',
+  district: 'Kecamatan',
+  village: 'Desa/Kelurahan',
+};
+
+// Every regency on the island belongs to this province
+export const LOMBOK_PROVINCE = 'Nusa Tenggara Barat';
+
+export const LOMBOK_REGENCIES = ['Lombok Barat', 'Lombok Tengah', 'Lombok Timur', 'Lombok Utara', 'Kota Mataram'];
+
+// Property names tried in order when importing; the upper-case ones are used by BIG/RBI datasets
+const NAME_PROPERTIES: Record<AdministrativeLevel, string[]> = {
+  regency: ['name', 'nama', 'WADMKK', 'NAMOBJ'],
+  district: ['name', 'nama', 'WADMKC', 'NAMOBJ'],
+  village: ['name', 'nama', 'WADMKD', 'NAMOBJ'],
+};
+
+const PARENT_PROPERTIES: Record<AdministrativeLevel, string[]> = {
+  regency: [],
+  district: ['parent_name', 'parent', 'WADMKK'],
+  village: ['parent_name', 'parent', 'WADMKC'],
+};
+
+const CODE_PROPERTIES: Record<AdministrativeLevel, string[]> = {
+  regency: ['code', 'kode', 'KDPKAB'],
+  district: ['code', 'kode', 'KDCPUM'],
+  village: ['code', 'kode', 'KDEPUM'],
+};
+
+const INSERT_BATCH_SIZE = 100;
+const UPDATE_CONCURRENCY = 5;
+
+export interface AdministrativeLocation {
+  province: string | null;
+  regency: string | null;
+  district: string | null;
+  village: string | null;
+}
+
+export interface AreaImportResult {
+  imported: number;
+  // Features without a name or polygon geometry
+  skipped: number;
+  // Regency names that are not one of LOMBOK_REGENCIES
+  unknownRegencies: string[];
+}
+
+export interface RegeocodeOptions {
+  // Replace values that were already filled in by hand
+  overwrite?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface RegeocodeSummary {
+  total: number;
+  updated: number;
+  unchanged: number;
+  // Sites outside every regency boundary
+  unmatched: number;
+  failed: number;
+}
+
+export interface AreaStatistic {
+  area: AdministrativeArea;
+  siteCount: number;
+  // Mean preservation priority score (0-10), null without sites
+  meanPriority: number | null;
+}
+
+export interface AreaStatistics {
+  areas: AreaStatistic[];
+  // Active sites that fall outside every area of the level
+  unassigned: number;
+}
+
+/**
+ * Kabupaten/kota, kecamatan and desa boundaries and the point-in-polygon
+ * lookups that derive a site's administrative fields from its coordinates
+ */
+export class AdministrativeAreasService {
+  private static areaCache = new Map<AdministrativeLevel, Promise<AdministrativeArea[]>>();
+
+  static fetchAreas(level: AdministrativeLevel): Promise<AdministrativeArea[]> {
+    let pending = this.areaCache.get(level);
+    if (!pending) {
+      pending = this.loadAreas(level);
+      // Failed loads are retried on the next call
+      pending.catch(() => this.areaCache.delete(level));
+      this.areaCache.set(level, pending);
+    }
+    return pending;
+  }
+
+  static async fetchAreaCounts(): Promise<Record<AdministrativeLevel, number>> {
+    const counts = await Promise.all(ADMINISTRATIVE_LEVELS.map(async level => {
+      const { count, error } = await supabase
+        .from('administrative_areas')
+        .select('id', { count: 'exact', head: true })
+        .eq('level', level);
+
+      if (error) throw error;
+      return [level, count ?? 0] as const;
+    }));
+    return Object.fromEntries(counts) as Record<AdministrativeLevel, number>;
+  }
+
+  /**
+   * Find the area of a level that contains the point
+   */
+  static findArea(areas: AdministrativeArea[], latitude: number, longitude: number): AdministrativeArea | null {
+    return areas.find(area =>
+      longitude >= area.min_lon && longitude <= area.max_lon &&
+      latitude >= area.min_lat && latitude <= area.max_lat &&
+      pointInGeometry([longitude, latitude], area.geometry as unknown as GeoJSON.Geometry)
+    ) ?? null;
+  }
+
+  /**
+   * Derive province, regency, district and village from coordinates.
+   * Fields are null where no boundary contains the point.
+   */
+  static async locate(latitude: number, longitude: number): Promise<AdministrativeLocation> {
+    const [regencies, districts, villages] = await Promise.all(ADMINISTRATIVE_LEVELS.map(level => this.fetchAreas(level)));
+    return this.locateIn({ regency: regencies, district: districts, village: villages }, latitude, longitude);
+  }
+
+  /**
+   * Replace all areas of a level with the polygons of a GeoJSON FeatureCollection.
+   * The new rows are inserted before the old ones are deleted, so a failed
+   * import leaves the previous boundaries in place.
+   */
+  static async importGeoJson(level: AdministrativeLevel, collection: GeoJSON.FeatureCollection): Promise<AreaImportResult> {
+    const rows: AdministrativeAreaInsert[] = [];
+    let skipped = 0;
+
+    for (const feature of collection.features ?? []) {
+      const properties = feature.properties ?? {};
+      const name = this.readProperty(properties, NAME_PROPERTIES[level]);
+      const bbox = feature.geometry ? geometryBBox(feature.geometry) : null;
+      if (!name || !bbox || !['Polygon', 'MultiPolygon'].includes(feature.geometry.type)) {
+        skipped++;
+        continue;
+      }
+
+      const parent = this.readProperty(properties, PARENT_PROPERTIES[level]);
+      rows.push({
+        level,
+        name: level === 'regency' ? this.normalizeRegencyName(name) : name,
+        parent_name: parent && level === 'district' ? this.normalizeRegencyName(parent) : parent,
+        code: this.readProperty(properties, CODE_PROPERTIES[level]),
+        geometry: feature.geometry as unknown as AdministrativeAreaInsert['geometry'],
+        min_lon: bbox[0],
+        min_lat: bbox[1],
+        max_lon: bbox[2],
+        max_lat: bbox[3],
+      });
+    }
+
+    if (rows.length === 0) {
+      throw new Error('The file contains no named Polygon or MultiPolygon features');
+    }
+
+    const previousIds = (await fetchAllRows((from, to) =>
+      supabase.from('administrative_areas').select('id').eq('level', level).order('id').range(from, to)
+    )).map(row => row.id);
+
+    const insertedIds: string[] = [];
+    try {
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('administrative_areas')
+          .insert(rows.slice(i, i + INSERT_BATCH_SIZE))
+          .select('id');
+        if (error) throw error;
+        insertedIds.push(...data.map(row => row.id));
+      }
+    } catch (error) {
+      // Roll back the partial import; the old boundaries were not touched
+      await this.deleteAreas(insertedIds).catch(cleanupError =>
+        console.error('Error removing partially imported areas:', cleanupError)
+      );
+      throw error;
+    }
+
+    // A failure here leaves extra old rows, never a level without boundaries
+    await this.deleteAreas(previousIds);
+    this.areaCache.delete(level);
+
+    const regencyNames = rows.map(row => level === 'regency' ? row.name : level === 'district' ? row.parent_name : null);
+    const unknownRegencies = [...new Set(regencyNames)]
+      .filter((name): name is string => !!name && !LOMBOK_REGENCIES.includes(name));
+
+    return { imported: rows.length, skipped, unknownRegencies };
+  }
+
+  /**
+   * Fill province, regency, district and village of every site from its
+   * coordinates. Without overwrite only empty fields are filled.
+   */
+  static async regeocodeSites(options: RegeocodeOptions = {}): Promise<RegeocodeSummary> {
+    const sites = await fetchAllRows((from, to) =>
+      supabase
+        .from('cultural_sites')
+        .select('id, latitude, longitude, province, regency, district, village')
+        .order('id')
+        .range(from, to)
+    );
+
+    const [regencies, districts, villages] = await Promise.all(ADMINISTRATIVE_LEVELS.map(level => this.fetchAreas(level)));
+    if (regencies.length === 0) {
+      throw new Error('No regency boundaries have been imported yet');
+    }
+    const areas = { regency: regencies, district: districts, village: villages };
+
+    const summary: RegeocodeSummary = { total: sites.length, updated: 0, unchanged: 0, unmatched: 0, failed: 0 };
+    const updates: { id: string; changes: CulturalSiteUpdate }[] = [];
+
+    for (const site of sites) {
+      const location = this.locateIn(areas, site.latitude, site.longitude);
+      if (!location.regency) {
+        summary.unmatched++;
+        continue;
+      }
+
+      const changes: CulturalSiteUpdate = {};
+      for (const field of ['province', 'regency', 'district', 'village'] as const) {
+        const value = location[field];
+        if (value && value !== site[field] && (options.overwrite || !site[field]?.trim())) {
+          changes[field] = value;
+        }
+      }
+
+      if (Object.keys(changes).length === 0) summary.unchanged++;
+      else updates.push({ id: site.id, changes });
+    }
+
+    let done = sites.length - updates.length;
+    options.onProgress?.(done, sites.length);
+
+    for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+      const results = await Promise.all(updates.slice(i, i + UPDATE_CONCURRENCY).map(async ({ id, changes }) => {
+        const { error: updateError } = await supabase.from('cultural_sites').update(changes).eq('id', id);
+        if (updateError) console.error(`Error re-geocoding site ${id}:`, updateError);
+        return !updateError;
+      }));
+
+      results.forEach(ok => ok ? summary.updated++ : summary.failed++);
+      done += results.length;
+      options.onProgress?.(done, sites.length);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Site counts and mean preservation priority per area, assigning active
+   * sites by their coordinates rather than the typed-in names
+   */
+  static async fetchAreaStatistics(level: AdministrativeLevel): Promise<AreaStatistics> {
+    const [areas, sites, priorities] = await Promise.all([
+      this.fetchAreas(level),
+      fetchAllRows((from, to) =>
+        supabase.from('sites_with_categories').select('id, latitude, longitude').eq('is_active', true).order('id').range(from, to)
+      ),
+      RecommendationService.calculateAllPriorities(),
+    ]);
+
+    const priorityBySite = new Map(priorities.map(priority => [priority.siteId, priority.priorityScore]));
+    const totals = new Map<string, { count: number; prioritySum: number; priorityCount: number }>();
+    let unassigned = 0;
+
+    for (const site of sites) {
+      if (site.latitude === null || site.longitude === null) continue;
+      const area = this.findArea(areas, site.latitude, site.longitude);
+      if (!area) {
+        unassigned++;
+        continue;
+      }
+
+      const total = totals.get(area.id) ?? { count: 0, prioritySum: 0, priorityCount: 0 };
+      total.count++;
+      const priority = priorityBySite.get(site.id!);
+      if (priority !== undefined) {
+        total.prioritySum += priority;
+        total.priorityCount++;
+      }
+      totals.set(area.id, total);
+    }
+
+    return {
+      areas: areas.map(area => {
+        const total = totals.get(area.id);
+        return {
+          area,
+          siteCount: total?.count ?? 0,
+          meanPriority: total?.priorityCount ? total.prioritySum / total.priorityCount : null,
+        };
+      }),
+      unassigned,
+    };
+  }
+
+  static normalizeRegencyName(name: string): string {
+    return name.trim().replace(/^(kabupaten|kab\.?)\s+/i, '').replace(/\s+/g, ' ');
+  }
+
+  private static async deleteAreas(ids: string[]): Promise<void> {
+    // Chunked to keep the id list within URL length limits
+    for (let i = 0; i < ids.length; i += INSERT_BATCH_SIZE) {
+      const { error } = await supabase.from('administrative_areas').delete().in('id', ids.slice(i, i + INSERT_BATCH_SIZE));
+      if (error) throw error;
+    }
+  }
+
+  private static async loadAreas(level: AdministrativeLevel): Promise<AdministrativeArea[]> {
+    return fetchAllRows((from, to) =>
+      supabase
+        .from('administrative_areas')
+        .select('*')
+        .eq('level', level)
+        .order('name')
+        .order('id')
+        .range(from, to)
+    );
+  }
+
+  private static locateIn(
+    areas: Record<AdministrativeLevel, AdministrativeArea[]>,
+    latitude: number,
+    longitude: number
+  ): AdministrativeLocation {
+    const regency = this.findArea(areas.regency, latitude, longitude);
+    return {
+      province: regency ? LOMBOK_PROVINCE : null,
+      regency: regency?.name ?? null,
+      district: this.findArea(areas.district, latitude, longitude)?.name ?? null,
+      village: this.findArea(areas.village, latitude, longitude)?.name ?? null,
+    };
+  }
+
+  private static readProperty(properties: GeoJSON.GeoJsonProperties, keys: string[]): string | null {
+    for (const key of keys) {
+      const value = properties?.[key];
+      if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+    }
+    return null;
+  }
+}
@@ -0,0 +1,463 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Json } from "@/integrations/supabase/types";
+import { classifyHeritageImage, ClassificationResult, getClassifierConfig, HeritageClassification } from "@/lib/cnn";
+import { CategorySuggestion, HeritageCategoryType, findCategoryRow } from "@/lib/heritage-taxonomy";
+import { ReviewDecision, ReviewQueueItem } from "@/types/ai-analysis";
+import { assessCondition, ConditionAssessment, DamageFinding, OverallCondition } from "@/lib/condition-assessment";
+import { fetchAllRows } from "@/lib/supabase-paging";
+
+type AiAnalysis = Database['public']['Tables']['ai_analysis']['Row'];
+type AiAnalysisUpdate = Database['public']['Tables']['ai_analysis']['Update'];
+type AnalysisStatus = Database['public']['Enums']['analysis_status'];
+
+export interface AnalyzeImageParams {
+  siteId: string;
+  image: File | string;
+  imageId?: string | null;
+  userId?: string | null;
+  // Alternative classifier, e.g. one running in a Web Worker
+  classify?: (image: File | string) => Promise<HeritageClassification>;
+}
+
+export interface AssessConditionParams {
+  siteId: string;
+  image: File | string;
+  imageId?: string | null;
+  userId?: string | null;
+  assess?: (image: File | string) => Promise<ConditionAssessment>;
+}
+
+export interface ConditionPhoto {
+  imageId: string | null;
+  title: string | null;
+  url: string | null;
+  conditionScore: number;
+  findings: DamageFinding[];
+}
+
+export interface SiteConditionSummary {
+  siteId: string;
+  // Mean of the per-photo condition scores, 0-10 (10 = worst)
+  conditionScore: number;
+  photos: ConditionPhoto[];
+  lastAssessedAt: string | null;
+}
+
+export interface SubmitReviewParams {
+  analysisId: string;
+  reviewerId: string;
+  decision: ReviewDecision;
+  label: string;
+  category?: HeritageCategoryType | null;
+  notes?: string | null;
+}
+
+interface StoredCategoryScore {
+  category: HeritageCategoryType;
+  score: number;
+  matched_labels: string[];
+}
+
+export class AiAnalysisService {
+  static readonly ANALYSIS_TYPE = 'image_classification';
+
+  // Predictions whose top score falls below this are flagged for human review
+  static readonly REVIEW_CONFIDENCE_THRESHOLD =
+    Number(import.meta.env.VITE_REVIEW_CONFIDENCE_THRESHOLD) || 0.5;
+
+  // Matches the analysis_type of the seeded degradation results
+  static readonly CONDITION_ANALYSIS_TYPE = 'degradation_detection';
+
+  // Number of predictions kept in ai_analysis.results
+  private static readonly TOP_K = 5;
+
+  // Fallback for stored results that only carry overall_condition
+  private static readonly CONDITION_SCORES: Record<OverallCondition, number> = {
+    good: 2,
+    fair: 5,
+    poor: 7,
+    critical: 9,
+  };
+
+  /**
+   * Create a pending analysis job for an image
+   */
+  static async createPendingAnalysis(
+    siteId: string,
+    imageId: string | null = null,
+    userId: string | null = null,
+    analysisType: string = this.ANALYSIS_TYPE,
+    modelVersion: string = getClassifierConfig().modelId
+  ): Promise<AiAnalysis> {
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .insert({
+        site_id: siteId,
+        image_id: imageId,
+        processed_by: userId,
+        analysis_type: analysisType,
+        model_version: modelVersion,
+        results: {},
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Mark an analysis job as being processed
+   */
+  static async markProcessing(analysisId: string): Promise<AiAnalysis> {
+    return this.updateAnalysis(analysisId, { status: 'processing' });
+  }
+
+  /**
+   * Store classifier output and finish the job. Low-confidence results
+   * are stored as `requires_review` instead of `completed`.
+   */
+  static async completeAnalysis(
+    analysisId: string,
+    predictions: ClassificationResult[],
+    processingTimeMs: number,
+    extraResults: Record<string, Json> = {}
+  ): Promise<AiAnalysis> {
+    const top = predictions[0];
+    const confidence = top ? top.score : 0;
+
+    return this.updateAnalysis(analysisId, {
+      status: this.resolveStatus(confidence),
+      confidence_score: Number(confidence.toFixed(4)),
+      processing_time_ms: Math.round(processingTimeMs),
+      results: {
+        top_label: top?.label ?? null,
+        predictions: predictions.slice(0, this.TOP_K).map(p => ({ label: p.label, score: p.score })),
+        ...extraResults,
+      },
+      error_message: null,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Mark an analysis job as failed
+   */
+  static async failAnalysis(
+    analysisId: string,
+    errorMessage: string,
+    processingTimeMs?: number
+  ): Promise<AiAnalysis> {
+    return this.updateAnalysis(analysisId, {
+      status: 'failed',
+      error_message: errorMessage,
+      processing_time_ms: processingTimeMs !== undefined ? Math.round(processingTimeMs) : null,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Run the CNN classifier on an image and record the full job lifecycle
+   * (pending → processing → completed/requires_review/failed)
+   */
+  static async analyzeImage({
+    siteId,
+    image,
+    imageId = null,
+    userId = null,
+    classify = classifyHeritageImage,
+  }: AnalyzeImageParams): Promise<AiAnalysis> {
+    const pending = await this.createPendingAnalysis(siteId, imageId, userId);
+    await this.markProcessing(pending.id);
+
+    const startedAt = performance.now();
+    try {
+      const { predictions, categories, mappingId, device } = await classify(image);
+      if (predictions.length === 0) {
+        throw new Error('Classifier returned no predictions');
+      }
+      return await this.completeAnalysis(pending.id, predictions, performance.now() - startedAt, {
+        label_mapping: mappingId,
+        device,
+        heritage_categories: categories.map(c => ({
+          category: c.category,
+          score: Number(c.score.toFixed(4)),
+          matched_labels: c.matchedLabels,
+        })),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown classification error';
+      await this.failAnalysis(pending.id, message, performance.now() - startedAt);
+      throw error;
+    }
+  }
+
+  /**
+   * Assess visible deterioration (cracks, vegetation, roof/thatch damage,
+   * erosion) in a site photo and store it as a degradation_detection analysis
+   */
+  static async assessSiteCondition({
+    siteId,
+    image,
+    imageId = null,
+    userId = null,
+    assess = assessCondition,
+  }: AssessConditionParams): Promise<AiAnalysis> {
+    const pending = await this.createPendingAnalysis(
+      siteId,
+      imageId,
+      userId,
+      this.CONDITION_ANALYSIS_TYPE,
+      getClassifierConfig().conditionModelId
+    );
+    await this.markProcessing(pending.id);
+
+    const startedAt = performance.now();
+    try {
+      const assessment = await assess(image);
+      const top = assessment.predictions[0];
+      return await this.updateAnalysis(pending.id, {
+        status: 'completed',
+        confidence_score: top ? Number(top.score.toFixed(4)) : null,
+        processing_time_ms: Math.round(performance.now() - startedAt),
+        results: {
+          degradation_areas: assessment.findings.map(f => ({
+            type: f.type,
+            severity: f.severity,
+            score: Number(f.score.toFixed(4)),
+          })),
+          overall_condition: assessment.overallCondition,
+          condition_score: assessment.conditionScore,
+          predictions: assessment.predictions.slice(0, this.TOP_K).map(p => ({ label: p.label, score: p.score })),
+        },
+        error_message: null,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown condition assessment error';
+      await this.failAnalysis(pending.id, message, performance.now() - startedAt);
+      throw error;
+    }
+  }
+
+  /**
+   * Aggregate completed condition assessments per site, keeping the latest
+   * assessment of each photo
+   */
+  static async fetchConditionSummaries(siteIds?: string[]): Promise<Map<string, SiteConditionSummary>> {
+    const rows = await fetchAllRows((from, to) => {
+      let query = supabase
+        .from('ai_analysis')
+        .select('id, site_id, image_id, results, completed_at, created_at, site_media(title, file_url)')
+        .eq('analysis_type', this.CONDITION_ANALYSIS_TYPE)
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false })
+        .order('id');
+
+      if (siteIds && siteIds.length > 0) {
+        query = query.in('site_id', siteIds);
+      }
+      return query.range(from, to);
+    });
+
+    const summaries = new Map<string, SiteConditionSummary>();
+    const seenPhotos = new Set<string>();
+
+    for (const row of rows) {
+      if (!row.site_id) continue;
+      const photoKey = row.image_id ?? row.id;
+      if (seenPhotos.has(photoKey)) continue;
+      seenPhotos.add(photoKey);
+
+      const results = row.results as {
+        condition_score?: number;
+        overall_condition?: OverallCondition;
+        degradation_areas?: DamageFinding[];
+      } | null;
+      const conditionScore = results?.condition_score
+        ?? (results?.overall_condition ? this.CONDITION_SCORES[results.overall_condition] : undefined);
+      if (conditionScore === undefined) continue;
+
+      const summary = summaries.get(row.site_id) ?? {
+        siteId: row.site_id,
+        conditionScore: 0,
+        photos: [],
+        lastAssessedAt: row.completed_at ?? row.created_at,
+      };
+      summary.photos.push({
+        imageId: row.image_id,
+        title: row.site_media?.title ?? null,
+        url: row.site_media?.file_url ?? null,
+        conditionScore,
+        findings: results?.degradation_areas ?? [],
+      });
+      summaries.set(row.site_id, summary);
+    }
+
+    summaries.forEach(summary => {
+      const total = summary.photos.reduce((sum, photo) => sum + photo.conditionScore, 0);
+      summary.conditionScore = Math.round((total / summary.photos.length) * 10) / 10;
+      summary.photos.sort((a, b) => b.conditionScore - a.conditionScore);
+    });
+
+    return summaries;
+  }
+
+  /**
+   * Read the best heritage category from a stored analysis and resolve it
+   * against heritage_categories rows (to pre-fill a site's category_id)
+   */
+  static getCategorySuggestion(
+    analysis: Pick<AiAnalysis, 'results'>,
+    categories: { id: string; name: string }[]
+  ): CategorySuggestion | null {
+    const results = analysis.results as { heritage_categories?: StoredCategoryScore[] } | null;
+    const best = results?.heritage_categories?.[0];
+    if (!best) return null;
+
+    const row = findCategoryRow(categories, best.category);
+    return {
+      category: best.category,
+      score: best.score,
+      matchedLabels: best.matched_labels,
+      categoryId: row?.id ?? null,
+      categoryName: row?.name ?? null,
+    };
+  }
+
+  /**
+   * Fetch all analyses for a site
+   */
+  static async fetchSiteAnalyses(siteId: string): Promise<AiAnalysis[]> {
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .select('*')
+      .eq('site_id', siteId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Fetch all analyses linked to a site_media image
+   */
+  static async fetchImageAnalyses(imageId: string): Promise<AiAnalysis[]> {
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .select('*')
+      .eq('image_id', imageId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Get the ids of images that already have a finished analysis of the given type
+   */
+  static async fetchAnalyzedImageIds(
+    imageIds: string[],
+    analysisType: string = this.ANALYSIS_TYPE
+  ): Promise<Set<string>> {
+    if (imageIds.length === 0) return new Set();
+
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .select('image_id')
+      .in('image_id', imageIds)
+      .eq('analysis_type', analysisType)
+      .in('status', ['completed', 'requires_review']);
+
+    if (error) throw error;
+    return new Set((data || []).map(row => row.image_id).filter((id): id is string => !!id));
+  }
+
+  /**
+   * Fetch unreviewed classifications: everything flagged requires_review plus
+   * completed ones whose confidence is below the threshold, lowest confidence first
+   */
+  static async fetchReviewQueue(
+    threshold: number = this.REVIEW_CONFIDENCE_THRESHOLD,
+    limit: number = 50
+  ): Promise<ReviewQueueItem[]> {
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .select('*, site_media(title, file_url), cultural_sites(name)')
+      .eq('analysis_type', this.ANALYSIS_TYPE)
+      .is('reviewed_at', null)
+      // Flagged analyses stay queued whatever threshold the reviewer picks
+      .or(`status.eq.requires_review,and(status.eq.completed,confidence_score.lt.${threshold})`)
+      .order('confidence_score', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ReviewQueueItem[];
+  }
+
+  /**
+   * Accept or correct the label of an analysis. The reviewer becomes
+   * processed_by so reviewed labels can be traced in training exports.
+   */
+  static async submitReview({
+    analysisId,
+    reviewerId,
+    decision,
+    label,
+    category = null,
+    notes = null,
+  }: SubmitReviewParams): Promise<AiAnalysis> {
+    return this.updateAnalysis(analysisId, {
+      status: 'completed',
+      processed_by: reviewerId,
+      review_decision: decision,
+      reviewed_label: label,
+      reviewed_category: category,
+      review_notes: notes,
+      reviewed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Fetch analyses by status
+   */
+  static async fetchAnalysesByStatus(status: AnalysisStatus): Promise<AiAnalysis[]> {
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Delete an analysis
+   */
+  static async deleteAnalysis(analysisId: string): Promise<void> {
+    const { error } = await supabase
+      .from('ai_analysis')
+      .delete()
+      .eq('id', analysisId);
+
+    if (error) throw error;
+  }
+
+  private static resolveStatus(confidence: number): AnalysisStatus {
+    return confidence < this.REVIEW_CONFIDENCE_THRESHOLD ? 'requires_review' : 'completed';
+  }
+
+  private static async updateAnalysis(analysisId: string, updates: AiAnalysisUpdate): Promise<AiAnalysis> {
+    const { data, error } = await supabase
+      .from('ai_analysis')
+      .update(updates)
+      .eq('id', analysisId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
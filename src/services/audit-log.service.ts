@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesInsert } from "@/integrations/supabase/types";
+import { AuditAction, AuditLogEntry } from "@/types/audit-log";
+
+// Tables with an audit trigger (see the audit_log migration)
+export const AUDITED_TABLES = [
+  'cultural_sites',
+  'historical_records',
+  'conservation_projects',
+  'cultural_practices',
+  'tourism_routes',
+  'heritage_categories',
+] as const;
+
+export type AuditedTable = typeof AUDITED_TABLES[number];
+
+export interface FieldChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+export interface AuditLogEntryWithUser extends AuditLogEntry {
+  changedByName: string | null;
+}
+
+export interface AuditLogFilter {
+  tableName?: AuditedTable;
+  action?: AuditAction;
+  limit?: number;
+}
+
+// Maintained by the database; restoring them would fail or be overwritten
+const SYSTEM_FIELDS = ['id', 'created_at', 'updated_at'];
+
+export class AuditLogService {
+  /**
+   * Change history of a single record, newest first
+   */
+  static async fetchHistory(tableName: AuditedTable, recordId: string): Promise<AuditLogEntryWithUser[]> {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('table_name', tableName)
+      .eq('record_id', recordId)
+      .order('changed_at', { ascending: false });
+
+    if (error) throw error;
+    return this.withUserNames(data || []);
+  }
+
+  /**
+   * Recent changes across all audited tables
+   */
+  static async fetchRecent(filter: AuditLogFilter = {}): Promise<AuditLogEntryWithUser[]> {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('changed_at', { ascending: false })
+      .limit(filter.limit ?? 100);
+
+    if (filter.tableName) query = query.eq('table_name', filter.tableName);
+    if (filter.action) query = query.eq('action', filter.action);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return this.withUserNames(data || []);
+  }
+
+  /**
+   * Field-level differences of an entry. Inserts list every field as added,
+   * deletes every field as removed.
+   */
+  static diff(entry: AuditLogEntry): FieldChange[] {
+    const before = this.asRecord(entry.old_data);
+    const after = this.asRecord(entry.new_data);
+    const fields = entry.action === 'UPDATE'
+      ? entry.changed_fields
+      : Object.keys(after ?? before ?? {}).filter(field => !SYSTEM_FIELDS.includes(field));
+
+    return fields.map(field => ({ field, before: before?.[field], after: after?.[field] }));
+  }
+
+  /**
+   * Bring a record back to the state recorded in an entry: the row as it was
+   * after an insert/update, or the deleted row for a delete. The restore is
+   * itself recorded as a new audit entry.
+   */
+  static async restoreVersion(entry: AuditLogEntry): Promise<void> {
+    const tableName = entry.table_name as AuditedTable;
+    if (!AUDITED_TABLES.includes(tableName)) {
+      throw new Error(`Records of ${entry.table_name} cannot be restored`);
+    }
+
+    const snapshot = this.asRecord(entry.action === 'DELETE' ? entry.old_data : entry.new_data);
+    if (!snapshot) throw new Error('This history entry has no stored version');
+
+    if (entry.action === 'DELETE') {
+      const error = await this.insertSnapshot(tableName, this.restorable(snapshot, true));
+      if (error) throw error;
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from(tableName)
+      .update(this.restorable(snapshot, false))
+      .eq('id', entry.record_id)
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error('The record no longer exists; restore its deletion first');
+    }
+  }
+
+  /**
+   * Re-insert a deleted row. Snapshots are complete rows written by the audit
+   * trigger, so each matches the Insert type of the table it was taken from.
+   */
+  private static async insertSnapshot(tableName: AuditedTable, row: Record<string, Json | undefined>) {
+    switch (tableName) {
+      case 'cultural_sites':
+        return (await supabase.from('cultural_sites').insert(row as TablesInsert<'cultural_sites'>)).error;
+      case 'historical_records':
+        return (await supabase.from('historical_records').insert(row as TablesInsert<'historical_records'>)).error;
+      case 'conservation_projects':
+        return (await supabase.from('conservation_projects').insert(row as TablesInsert<'conservation_projects'>)).error;
+      case 'cultural_practices':
+        return (await supabase.from('cultural_practices').insert(row as TablesInsert<'cultural_practices'>)).error;
+      case 'tourism_routes':
+        return (await supabase.from('tourism_routes').insert(row as TablesInsert<'tourism_routes'>)).error;
+      case 'heritage_categories':
+        return (await supabase.from('heritage_categories').insert(row as TablesInsert<'heritage_categories'>)).error;
+    }
+  }
+
+  private static restorable(snapshot: Record<string, Json | undefined>, keepId: boolean): Record<string, Json | undefined> {
+    return Object.fromEntries(
+      Object.entries(snapshot).filter(([field]) => !SYSTEM_FIELDS.includes(field) || (keepId && field === 'id'))
+    );
+  }
+
+  private static asRecord(value: Json | null): Record<string, Json | undefined> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  }
+
+  private static async withUserNames(entries: AuditLogEntry[]): Promise<AuditLogEntryWithUser[]> {
+    const userIds = Array.from(new Set(entries.map(entry => entry.changed_by).filter((id): id is string => !!id)));
+    const names = new Map<string, string>();
+
+    if (userIds.length > 0) {
+      const { data, error } = await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds);
+      if (error) throw error;
+      (data || []).forEach(profile => names.set(profile.user_id, profile.full_name));
+    }
+
+    return entries.map(entry => ({
+      ...entry,
+      changedByName: entry.changed_by ? names.get(entry.changed_by) ?? null : null,
+    }));
+  }
+}
@@ -1,10 +1,15 @@
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from "@/integrations/supabase/types";
+import { HardDeleteResult, SiteDeletionService } from "@/services/site-deletion.service";
 
 type CulturalSite = Database['public']['Tables']['cultural_sites']['Row'];
 type CulturalSiteInsert = Database['public']['Tables']['cultural_sites']['Insert'];
 type CulturalSiteUpdate = Database['public']['Tables']['cultural_sites']['Update'];
 type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
+type HeritageCategory = Database['public']['Tables']['heritage_categories']['Row'];
+
+export type ArchivedSite = CulturalSite & { heritage_categories: Pick<HeritageCategory, 'name'> | null };
+export type UnpublishedSite = ArchivedSite;
 
 export class CulturalSitesService {
   /**
@@ -20,6 +25,34 @@ export class CulturalSitesService {
     return data || [];
   }
 
+  /**
+   * Fetch archived (inactive) sites; sites_with_categories only contains active ones
+   */
+  static async fetchArchivedSites(): Promise<ArchivedSite[]> {
+    const { data, error } = await supabase
+      .from('cultural_sites')
+      .select('*, heritage_categories(name)')
+      .eq('is_active', false)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Fetch sites that are not published yet: drafts, in review or rejected
+   */
+  static async fetchUnpublishedSites(): Promise<UnpublishedSite[]> {
+    const { data, error } = await supabase
+      .from('cultural_sites')
+      .select('*, heritage_categories(name)')
+      .neq('publication_status', 'verified')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
   /**
    * Fetch a single site by ID
    */
@@ -64,15 +97,11 @@ export class CulturalSitesService {
   }
 
   /**
-   * Delete a cultural site
+   * Permanently delete a cultural site with its media files, route stops and
+   * practice references. Use SiteDeletionService.getImpact to preview first.
    */
-  static async deleteSite(siteId: string): Promise<void> {
-    const { error } = await supabase
-      .from('cultural_sites')
-      .delete()
-      .eq('id', siteId);
-
-    if (error) throw error;
+  static async deleteSite(siteId: string): Promise<HardDeleteResult> {
+    return SiteDeletionService.hardDeleteSite(siteId);
   }
 
   /**
@@ -137,7 +166,8 @@ export class CulturalSitesService {
   }
 
   /**
-   * Update site verification status
+   * Update site verification status. Unverifying a site takes it off the
+   * public pages until it is reviewed again.
    */
   static async updateVerificationStatus(
     siteId: string,
@@ -149,6 +179,7 @@ export class CulturalSitesService {
       .update({
         verified_at: isVerified ? new Date().toISOString() : null,
         verified_by: isVerified ? verifiedBy : null,
+        publication_status: isVerified ? 'verified' : 'pending_review',
       })
       .eq('id', siteId);
 
@@ -0,0 +1,275 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { AiAnalysisService } from "@/services/ai-analysis.service";
+import { HeritageCategoryType } from "@/lib/heritage-taxonomy";
+import { fetchAllRows } from "@/lib/supabase-paging";
+
+export type DatasetSplit = 'train' | 'val' | 'test';
+export type LabelSource = 'review' | 'site_category' | 'model';
+
+export interface DatasetExportOptions {
+  // Fractions of images per split; they are normalised to sum to 1
+  ratios: Record<DatasetSplit, number>;
+  // Seed for the deterministic site shuffle, so exports are reproducible
+  seed: string;
+  // Also label images with unreviewed model predictions at or above minConfidence
+  includeModelLabels: boolean;
+  minConfidence: number;
+}
+
+export interface DatasetEntry {
+  imageId: string;
+  siteId: string;
+  siteName: string;
+  url: string;
+  fileName: string;
+  label: HeritageCategoryType;
+  labelSource: LabelSource;
+  split: DatasetSplit;
+}
+
+export interface DatasetSummary {
+  entries: DatasetEntry[];
+  skipped: number;
+  counts: Record<DatasetSplit, { images: number; sites: number }>;
+  labels: HeritageCategoryType[];
+}
+
+interface CocoDataset {
+  info: { description: string; version: string; date_created: string; split: DatasetSplit };
+  licenses: never[];
+  images: { id: number; file_name: string; coco_url: string; site_id: string; media_id: string }[];
+  annotations: { id: number; image_id: number; category_id: number; label_source: LabelSource }[];
+  categories: { id: number; name: string; supercategory: string }[];
+}
+
+interface LabelledAnalysis {
+  image_id: string | null;
+  confidence_score: number | null;
+  reviewed_category: HeritageCategoryType | null;
+  reviewed_at: string | null;
+  results: unknown;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: DatasetExportOptions = {
+  ratios: { train: 0.7, val: 0.15, test: 0.15 },
+  seed: 'lombok',
+  includeModelLabels: false,
+  minConfidence: 0.8,
+};
+
+const SPLITS: DatasetSplit[] = ['train', 'val', 'test'];
+const HERITAGE_CATEGORIES = Constants.public.Enums.heritage_category as readonly HeritageCategoryType[];
+
+export class DatasetExportService {
+  /**
+   * Collect labelled gallery images and assign them to train/val/test.
+   * Label priority: reviewer label, then the site's heritage category, then
+   * (optionally) a confident model prediction. All images of a site share a split.
+   */
+  static async buildDataset(options: DatasetExportOptions = DEFAULT_EXPORT_OPTIONS): Promise<DatasetSummary> {
+    const [mediaRows, siteRows, analyses] = await Promise.all([
+      fetchAllRows((from, to) =>
+        supabase.from('site_media').select('id, site_id, file_url, file_type').order('id').range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase.from('sites_with_categories').select('id, name, category_name').order('id').range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from('ai_analysis')
+          .select('image_id, confidence_score, reviewed_category, reviewed_at, results')
+          .eq('analysis_type', AiAnalysisService.ANALYSIS_TYPE)
+          .in('status', ['completed', 'requires_review'])
+          .not('image_id', 'is', null)
+          .order('created_at', { ascending: false })
+          .order('id')
+          .range(from, to)
+      ),
+    ]);
+
+    const sites = new Map(siteRows.map(site => [site.id, site]));
+    const analysesByImage = new Map<string, LabelledAnalysis[]>();
+    for (const analysis of analyses as LabelledAnalysis[]) {
+      const list = analysesByImage.get(analysis.image_id!) ?? [];
+      list.push(analysis);
+      analysesByImage.set(analysis.image_id!, list);
+    }
+
+    const unsplit: Omit<DatasetEntry, 'split'>[] = [];
+    let skipped = 0;
+
+    for (const media of mediaRows) {
+      if (media.file_type && !media.file_type.startsWith('image/')) continue;
+      const site = sites.get(media.site_id);
+      const resolved = this.resolveLabel(
+        analysesByImage.get(media.id) ?? [],
+        site?.category_name ?? null,
+        options
+      );
+      if (!resolved) {
+        skipped++;
+        continue;
+      }
+
+      unsplit.push({
+        imageId: media.id,
+        siteId: media.site_id,
+        siteName: site?.name ?? '',
+        url: media.file_url,
+        fileName: `${media.id}.${this.getExtension(media.file_url)}`,
+        label: resolved.label,
+        labelSource: resolved.source,
+      });
+    }
+
+    const splits = this.assignSplits(unsplit, options);
+    const entries = unsplit.map(entry => ({ ...entry, split: splits.get(entry.siteId)! }));
+
+    const counts = Object.fromEntries(
+      SPLITS.map(split => {
+        const inSplit = entries.filter(e => e.split === split);
+        return [split, { images: inSplit.length, sites: new Set(inSplit.map(e => e.siteId)).size }];
+      })
+    ) as DatasetSummary['counts'];
+
+    return {
+      entries,
+      skipped,
+      counts,
+      labels: HERITAGE_CATEGORIES.filter(label => entries.some(e => e.label === label)),
+    };
+  }
+
+  /**
+   * ImageFolder-style manifest: one row per image, `path` is split/label/file
+   */
+  static toImageFolderCSV(entries: DatasetEntry[]): string {
+    const headers = ['split', 'label', 'path', 'url', 'image_id', 'site_id', 'site_name', 'label_source'];
+    const rows = entries.map(entry => [
+      entry.split,
+      entry.label,
+      `${entry.split}/${entry.label}/${entry.fileName}`,
+      entry.url,
+      entry.imageId,
+      entry.siteId,
+      entry.siteName,
+      entry.labelSource,
+    ]);
+
+    return [headers, ...rows]
+      .map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+  }
+
+  /**
+   * COCO-style JSON for one split. Category ids are stable across splits
+   * because they follow the heritage_category enum order.
+   */
+  static toCoco(entries: DatasetEntry[], split: DatasetSplit): CocoDataset {
+    const inSplit = entries.filter(entry => entry.split === split);
+    const categories = HERITAGE_CATEGORIES.map((name, index) => ({
+      id: index + 1,
+      name,
+      supercategory: 'heritage',
+    }));
+
+    return {
+      info: {
+        description: 'Lombok cultural heritage images',
+        version: '1.0',
+        date_created: new Date().toISOString(),
+        split,
+      },
+      licenses: [],
+      images: inSplit.map((entry, index) => ({
+        id: index + 1,
+        file_name: `${entry.label}/${entry.fileName}`,
+        coco_url: entry.url,
+        site_id: entry.siteId,
+        media_id: entry.imageId,
+      })),
+      annotations: inSplit.map((entry, index) => ({
+        id: index + 1,
+        image_id: index + 1,
+        category_id: HERITAGE_CATEGORIES.indexOf(entry.label) + 1,
+        label_source: entry.labelSource,
+      })),
+      categories,
+    };
+  }
+
+  private static resolveLabel(
+    analyses: LabelledAnalysis[],
+    siteCategory: string | null,
+    options: DatasetExportOptions
+  ): { label: HeritageCategoryType; source: LabelSource } | null {
+    const reviewed = analyses.find(a => a.reviewed_at && a.reviewed_category);
+    if (reviewed) return { label: reviewed.reviewed_category!, source: 'review' };
+
+    const category = this.toHeritageCategory(siteCategory);
+    if (category) return { label: category, source: 'site_category' };
+
+    if (options.includeModelLabels) {
+      const confident = analyses.find(a => (a.confidence_score ?? 0) >= options.minConfidence);
+      const predicted = (confident?.results as { heritage_categories?: { category: HeritageCategoryType }[] } | null)
+        ?.heritage_categories?.[0]?.category;
+      if (predicted) return { label: predicted, source: 'model' };
+    }
+
+    return null;
+  }
+
+  private static toHeritageCategory(name: string | null): HeritageCategoryType | null {
+    if (!name) return null;
+    const normalized = name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    return HERITAGE_CATEGORIES.find(c => c === normalized) ?? null;
+  }
+
+  /**
+   * Shuffle sites deterministically, then give each site to the split that is
+   * furthest below its target image count
+   */
+  private static assignSplits(
+    entries: Omit<DatasetEntry, 'split'>[],
+    options: DatasetExportOptions
+  ): Map<string, DatasetSplit> {
+    const imagesPerSite = new Map<string, number>();
+    entries.forEach(entry => imagesPerSite.set(entry.siteId, (imagesPerSite.get(entry.siteId) ?? 0) + 1));
+
+    const ratioTotal = SPLITS.reduce((sum, split) => sum + Math.max(0, options.ratios[split]), 0) || 1;
+    const targets = Object.fromEntries(
+      SPLITS.map(split => [split, (Math.max(0, options.ratios[split]) / ratioTotal) * entries.length])
+    ) as Record<DatasetSplit, number>;
+    const filled: Record<DatasetSplit, number> = { train: 0, val: 0, test: 0 };
+
+    const siteIds = Array.from(imagesPerSite.keys()).sort(
+      (a, b) => this.hash(`${options.seed}:${a}`) - this.hash(`${options.seed}:${b}`)
+    );
+
+    const assignment = new Map<string, DatasetSplit>();
+    for (const siteId of siteIds) {
+      const split = SPLITS.reduce((best, candidate) =>
+        targets[candidate] - filled[candidate] > targets[best] - filled[best] ? candidate : best
+      );
+      assignment.set(siteId, split);
+      filled[split] += imagesPerSite.get(siteId)!;
+    }
+    return assignment;
+  }
+
+  // FNV-1a, enough for a stable shuffle order
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  private static getExtension(url: string): string {
+    const match = url.split('?')[0].match(/\.([a-z0-9]+)$/i);
+    return match ? match[1].toLowerCase() : 'jpg';
+  }
+}
@@ -0,0 +1,128 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { embedImage, getClassifierConfig } from "@/lib/cnn";
+
+type ImageEmbedding = Database['public']['Tables']['image_embeddings']['Row'];
+type SiteMedia = Database['public']['Tables']['site_media']['Row'];
+
+export interface SimilarImage {
+  media: SiteMedia;
+  siteName: string | null;
+  // Cosine similarity, 1 = identical
+  similarity: number;
+}
+
+export interface IndexImageParams {
+  media: Pick<SiteMedia, 'id' | 'site_id' | 'file_url'>;
+  userId?: string | null;
+  // Alternative embedder, e.g. one running in a Web Worker
+  embed?: (image: File | string) => Promise<number[]>;
+}
+
+export class ImageSimilarityService {
+  /**
+   * Compute and store the embedding of a gallery image
+   */
+  static async indexImage({ media, userId = null, embed = embedImage }: IndexImageParams): Promise<ImageEmbedding> {
+    const embedding = await embed(media.file_url);
+
+    const { data, error } = await supabase
+      .from('image_embeddings')
+      .upsert({
+        media_id: media.id,
+        site_id: media.site_id,
+        model_version: getClassifierConfig().embeddingModelId,
+        dimensions: embedding.length,
+        embedding,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Get the ids of images that already have an embedding for the current model
+   */
+  static async fetchIndexedImageIds(imageIds: string[]): Promise<Set<string>> {
+    if (imageIds.length === 0) return new Set();
+
+    const { data, error } = await supabase
+      .from('image_embeddings')
+      .select('media_id')
+      .in('media_id', imageIds)
+      .eq('model_version', getClassifierConfig().embeddingModelId);
+
+    if (error) throw error;
+    return new Set((data || []).map(row => row.media_id));
+  }
+
+  /**
+   * Find the k gallery images most similar to an image. The query image is
+   * embedded on the fly (and stored when the user may do so) if it has not been indexed.
+   */
+  static async findSimilarImages(imageId: string, k: number = 6, userId: string | null = null): Promise<SimilarImage[]> {
+    const modelVersion = getClassifierConfig().embeddingModelId;
+    const query = await this.getOrCreateEmbedding(imageId, modelVersion, userId);
+
+    // Ranked in the database so every indexed image is considered
+    const { data: matches, error } = await supabase.rpc('match_image_embeddings', {
+      p_embedding: query,
+      p_model_version: modelVersion,
+      p_match_count: k,
+      p_exclude_media_id: imageId,
+    });
+
+    if (error) throw error;
+
+    const ranked = (matches || []).map(match => ({ mediaId: match.media_id, similarity: match.similarity ?? 0 }));
+
+    if (ranked.length === 0) return [];
+
+    const { data: media, error: mediaError } = await supabase
+      .from('site_media')
+      .select('*, cultural_sites(name)')
+      .in('id', ranked.map(r => r.mediaId));
+
+    if (mediaError) throw mediaError;
+
+    const byId = new Map((media || []).map(m => [m.id, m]));
+    return ranked
+      .filter(r => byId.has(r.mediaId))
+      .map(r => {
+        const { cultural_sites, ...row } = byId.get(r.mediaId)!;
+        return { media: row, siteName: cultural_sites?.name ?? null, similarity: r.similarity };
+      });
+  }
+
+  private static async getOrCreateEmbedding(imageId: string, modelVersion: string, userId: string | null): Promise<number[]> {
+    const { data: existing, error } = await supabase
+      .from('image_embeddings')
+      .select('embedding')
+      .eq('media_id', imageId)
+      .eq('model_version', modelVersion)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (existing) return existing.embedding;
+
+    const { data: media, error: mediaError } = await supabase
+      .from('site_media')
+      .select('id, site_id, file_url')
+      .eq('id', imageId)
+      .single();
+
+    if (mediaError) throw mediaError;
+
+    const embedding = await embedImage(media.file_url);
+    if (userId) {
+      // Only the uploader and AI reviewers may store embeddings; others just search with it
+      await this.indexImage({ media, userId, embed: async () => embedding }).catch(indexError =>
+        console.warn('Could not store image embedding:', indexError)
+      );
+    }
+    return embedding;
+  }
+}
@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { compareFingerprints, computeFingerprint, DuplicateKind, FULL_HASH_MAX_BYTES } from "@/lib/image-fingerprint";
+import { SiteMediaService } from "@/services/site-media.service";
+import { fetchAllRows } from "@/lib/supabase-paging";
+
+type SiteMedia = Database['public']['Tables']['site_media']['Row'];
+
+export interface DuplicateClusterItem {
+  media: SiteMedia;
+  siteName: string | null;
+}
+
+export interface DuplicateCluster {
+  id: string;
+  items: DuplicateClusterItem[];
+  // Strongest kind of match found inside the cluster
+  kind: DuplicateKind;
+}
+
+export interface FingerprintBackfillResult {
+  updated: number;
+  failed: number;
+}
+
+const KIND_RANK: Record<DuplicateKind, number> = { exact: 3, near: 2, exif: 1 };
+
+export class MediaDuplicatesService {
+  /**
+   * Group gallery images of all sites into clusters of exact/near duplicates
+   */
+  static async fetchDuplicateClusters(): Promise<DuplicateCluster[]> {
+    const rows = await fetchAllRows((from, to) =>
+      supabase
+        .from('site_media')
+        .select('*, cultural_sites(name)')
+        .order('created_at', { ascending: true })
+        .order('id')
+        .range(from, to)
+    );
+
+    const entries = rows
+      .map(({ cultural_sites, ...media }) => ({
+        media,
+        siteName: cultural_sites?.name ?? null,
+        fingerprint: SiteMediaService.readFingerprint(media),
+      }))
+      .filter(entry => entry.fingerprint);
+
+    // Union-find over all matching pairs
+    const parent = entries.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const kinds = new Map<number, DuplicateKind>();
+
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const match = compareFingerprints(entries[i].fingerprint!, entries[j].fingerprint!);
+        if (!match) continue;
+
+        const rootI = find(i);
+        const rootJ = find(j);
+        const strongest = [kinds.get(rootI), kinds.get(rootJ), match.kind]
+          .filter((kind): kind is DuplicateKind => !!kind)
+          .sort((a, b) => KIND_RANK[b] - KIND_RANK[a])[0];
+        parent[rootJ] = rootI;
+        kinds.set(rootI, strongest);
+      }
+    }
+
+    const groups = new Map<number, DuplicateClusterItem[]>();
+    entries.forEach((entry, i) => {
+      const root = find(i);
+      const group = groups.get(root) ?? [];
+      group.push({ media: entry.media, siteName: entry.siteName });
+      groups.set(root, group);
+    });
+
+    return Array.from(groups.entries())
+      .filter(([, items]) => items.length > 1)
+      .map(([root, items]) => ({ id: items[0].media.id, items, kind: kinds.get(root) ?? 'near' }))
+      .sort((a, b) => KIND_RANK[b.kind] - KIND_RANK[a.kind] || b.items.length - a.items.length);
+  }
+
+  /**
+   * Count images uploaded before fingerprinting existed
+   */
+  static async countUnfingerprinted(): Promise<number> {
+    const rows = await fetchAllRows((from, to) =>
+      supabase.from('site_media').select('id, file_type, metadata').order('id').range(from, to)
+    );
+    return rows.filter(m => this.needsFingerprint(m)).length;
+  }
+
+  /**
+   * Compute fingerprints for images that do not have one yet
+   */
+  static async backfillFingerprints(
+    onProgress?: (done: number, total: number) => void
+  ): Promise<FingerprintBackfillResult> {
+    const rows = await fetchAllRows((from, to) =>
+      supabase.from('site_media').select('id, file_url, file_type, metadata').order('id').range(from, to)
+    );
+
+    const pending = rows.filter(m => this.needsFingerprint(m));
+    const result: FingerprintBackfillResult = { updated: 0, failed: 0 };
+
+    for (const [index, media] of pending.entries()) {
+      try {
+        const response = await fetch(media.file_url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        // Rows without a file type may turn out to be videos; do not download those whole
+        const type = response.headers.get('content-type');
+        const size = Number(response.headers.get('content-length'));
+        if ((type && !type.startsWith('image/')) || size > FULL_HASH_MAX_BYTES) {
+          await response.body?.cancel();
+          throw new Error(`Not an image that can be fingerprinted (${type ?? 'unknown type'}, ${size || '?'} bytes)`);
+        }
+        const fingerprint = await computeFingerprint(await response.blob());
+        await SiteMediaService.updateImage(media.id, {
+          metadata: SiteMediaService.withFingerprint(media.metadata, fingerprint),
+        });
+        result.updated++;
+      } catch (err) {
+        console.error(`Error fingerprinting image ${media.id}:`, err);
+        result.failed++;
+      }
+      onProgress?.(index + 1, pending.length);
+    }
+    return result;
+  }
+
+  /**
+   * Keep one image of a cluster and delete the others. Empty fields of the
+   * kept image are filled from the duplicates, and analyses of duplicates from
+   * the same site are moved to the kept image.
+   */
+  static async mergeDuplicates(keepId: string, removeIds: string[]): Promise<void> {
+    const ids = [keepId, ...removeIds];
+    const { data, error } = await supabase.from('site_media').select('*').in('id', ids);
+    if (error) throw error;
+
+    const keep = data?.find(m => m.id === keepId);
+    if (!keep) throw new Error('Image to keep was not found');
+    const removed = (data || []).filter(m => m.id !== keepId);
+    const sameSite = removed.filter(m => m.site_id === keep.site_id);
+
+    const updates: Partial<SiteMedia> = {};
+    for (const field of ['title', 'description', 'photographer', 'capture_date'] as const) {
+      if (!keep[field]) {
+        const source = removed.find(m => m[field]);
+        if (source) updates[field] = source[field];
+      }
+    }
+    if (sameSite.some(m => m.is_primary)) updates.is_primary = true;
+    if (Object.keys(updates).length > 0) {
+      await SiteMediaService.updateImage(keepId, updates);
+    }
+
+    if (sameSite.length > 0) {
+      const { error: analysisError } = await supabase
+        .from('ai_analysis')
+        .update({ image_id: keepId })
+        .in('image_id', sameSite.map(m => m.id));
+      if (analysisError) throw analysisError;
+    }
+
+    await this.deleteImages(removed);
+  }
+
+  /**
+   * Delete images (database rows and stored files)
+   */
+  static async deleteImages(media: Pick<SiteMedia, 'id' | 'file_url' | 'storage_path' | 'metadata'>[]): Promise<void> {
+    for (const item of media) {
+      await SiteMediaService.deleteImage(item);
+    }
+  }
+
+  private static needsFingerprint(media: Pick<SiteMedia, 'file_type' | 'metadata'>): boolean {
+    return (!media.file_type || media.file_type.startsWith('image/')) && !SiteMediaService.readFingerprint(media);
+  }
+}
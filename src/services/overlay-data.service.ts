@@ -0,0 +1,119 @@
+import { BBox, clipFeatures } from "@/lib/geo-clip";
+import { classifyOsmTags, OverlayFeatures, OverlayLayer, osmToOverlayFeatures, parseOverpassJson } from "@/lib/osm-data";
+import { parseOsmPbf } from "@/lib/osm-pbf";
+
+export type OverlaySourceFormat = 'geojson' | 'osm-pbf' | 'overpass-json';
+
+export interface OverlaySource {
+  file: string;
+  format: OverlaySourceFormat;
+  layers: OverlayLayer[];
+}
+
+export interface OverlayLayerData {
+  data: GeoJSON.FeatureCollection;
+  // File the features came from, null when no source is available
+  source: string | null;
+}
+
+const ALL_LAYERS: OverlayLayer[] = ['roads', 'rivers', 'villages'];
+
+// Tried in order for each layer; the first file that exists and has features wins
+export const OVERLAY_SOURCES: OverlaySource[] = [
+  { file: 'roads.geojson', format: 'geojson', layers: ['roads'] },
+  { file: 'rivers.geojson', format: 'geojson', layers: ['rivers'] },
+  { file: 'villages.geojson', format: 'geojson', layers: ['villages'] },
+  { file: 'lombok.osm.pbf', format: 'osm-pbf', layers: ALL_LAYERS },
+  { file: 'lombok-overpass.json', format: 'overpass-json', layers: ALL_LAYERS },
+];
+
+const MAX_CLIPPED_ENTRIES = 24;
+
+/**
+ * Loads road, river and desa/kelurahan overlays from extracts bundled under
+ * public/data/overlays (see the README there). Parsed sources and clipped
+ * results are cached for the session.
+ */
+export class OverlayDataService {
+  static readonly BASE_URL = (import.meta.env.VITE_OVERLAY_BASE_URL || `${import.meta.env.BASE_URL}data/overlays`).replace(/\/$/, '');
+
+  private static sourceCache = new Map<string, Promise<OverlayFeatures | null>>();
+  private static clippedCache = new Map<string, OverlayLayerData>();
+
+  static async getLayer(layer: OverlayLayer, bbox: BBox): Promise<OverlayLayerData> {
+    const key = `${layer}:${bbox.map(value => value.toFixed(4)).join(',')}`;
+    const cached = this.clippedCache.get(key);
+    if (cached) return cached;
+
+    let result: OverlayLayerData = { data: { type: 'FeatureCollection', features: [] }, source: null };
+    for (const source of OVERLAY_SOURCES.filter(candidate => candidate.layers.includes(layer))) {
+      const features = (await this.loadSource(source))?.[layer];
+      if (!features || features.length === 0) continue;
+
+      result = {
+        data: { type: 'FeatureCollection', features: clipFeatures(features, bbox) },
+        source: source.file,
+      };
+      break;
+    }
+
+    this.clippedCache.set(key, result);
+    if (this.clippedCache.size > MAX_CLIPPED_ENTRIES) {
+      this.clippedCache.delete(this.clippedCache.keys().next().value!);
+    }
+    return result;
+  }
+
+  static clearCache(): void {
+    this.sourceCache.clear();
+    this.clippedCache.clear();
+  }
+
+  private static loadSource(source: OverlaySource): Promise<OverlayFeatures | null> {
+    let pending = this.sourceCache.get(source.file);
+    if (!pending) {
+      pending = this.fetchSource(source).catch(error => {
+        console.warn(`Could not load overlay source ${source.file}:`, error);
+        return null;
+      });
+      this.sourceCache.set(source.file, pending);
+    }
+    return pending;
+  }
+
+  private static async fetchSource(source: OverlaySource): Promise<OverlayFeatures | null> {
+    const response = await fetch(`${this.BASE_URL}/${source.file}`);
+    // Missing extracts are expected; the layer then falls through to the next source
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    // Dev servers answer unknown paths with index.html
+    if ((response.headers.get('content-type') ?? '').includes('text/html')) return null;
+
+    switch (source.format) {
+      case 'osm-pbf':
+        return osmToOverlayFeatures(await parseOsmPbf(await response.arrayBuffer()));
+      case 'overpass-json':
+        return osmToOverlayFeatures(parseOverpassJson(await response.json()));
+      case 'geojson':
+        return this.groupGeoJson(await response.json(), source.layers);
+    }
+  }
+
+  /**
+   * Single-layer files are taken as a whole. Files covering several layers
+   * are split by a "layer" property or by OSM tags kept as properties
+   * (as written by osmtogeojson or ogr2ogr).
+   */
+  private static groupGeoJson(collection: GeoJSON.FeatureCollection, layers: OverlayLayer[]): OverlayFeatures {
+    const grouped: OverlayFeatures = { roads: [], rivers: [], villages: [] };
+    for (const feature of collection.features ?? []) {
+      const properties = (feature.properties ?? {}) as Record<string, string>;
+      const layer = layers.length === 1
+        ? layers[0]
+        : (layers.includes(properties.layer as OverlayLayer) ? properties.layer as OverlayLayer : classifyOsmTags(properties));
+      if (layer && layers.includes(layer)) grouped[layer].push(feature);
+    }
+    return grouped;
+  }
+}
@@ -0,0 +1,167 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Profile, ProfileUpdate } from "@/types/profiles";
+import type { SiteReview } from "@/types/site-reviews";
+import type { HistoricalRecord } from "@/types/historical-records";
+import type { ConservationProject } from "@/types/conservation-projects";
+import type { SitesWithCategories } from "@/types/sites-with-categories";
+
+const AVATAR_BUCKET = 'avatars';
+const AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_AVATAR_SIZE_MB = 2;
+
+// Contact details stay private; everything else is shown on the public page
+export type PublicProfile = Omit<Profile, 'phone'>;
+
+export type EditableProfileFields = Pick<Profile, 'full_name' | 'bio' | 'organization' | 'location' | 'expertise' | 'phone'>;
+
+interface SiteRef {
+  name: string;
+}
+
+export interface ContributorReview extends SiteReview {
+  cultural_sites: SiteRef | null;
+}
+
+export interface ContributorHistoricalRecord extends HistoricalRecord {
+  cultural_sites: SiteRef | null;
+}
+
+export interface ContributorConservationProject extends ConservationProject {
+  cultural_sites: SiteRef | null;
+}
+
+export interface ContributorActivity {
+  reviews: ContributorReview[];
+  sites: SitesWithCategories[];
+  historicalRecords: ContributorHistoricalRecord[];
+  conservationProjects: ContributorConservationProject[];
+}
+
+export class ProfilesService {
+  static async fetchPublicProfile(userId: string): Promise<PublicProfile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, user_id, full_name, role, organization, expertise, bio, avatar_url, location, is_verified, is_active, deactivated_at, created_at, updated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async fetchOwnProfile(userId: string): Promise<Profile | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Published work of a contributor. Contributions to sites that are not
+   * (yet) verified are left out, like everywhere else on the public site.
+   */
+  static async fetchContributorActivity(userId: string): Promise<ContributorActivity> {
+    const [reviews, sites, historicalRecords, conservationProjects] = await Promise.all([
+      supabase
+        .from('site_reviews')
+        .select('*, cultural_sites!inner(name, publication_status)')
+        .eq('user_id', userId)
+        .eq('cultural_sites.publication_status', 'verified')
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('sites_with_categories')
+        .select('*')
+        .eq('created_by', userId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('historical_records')
+        .select('*, cultural_sites!inner(name, publication_status)')
+        .eq('created_by', userId)
+        .eq('cultural_sites.publication_status', 'verified')
+        .order('event_date', { ascending: false, nullsFirst: false }),
+      supabase
+        .from('conservation_projects')
+        .select('*, cultural_sites!inner(name, publication_status)')
+        .eq('created_by', userId)
+        .eq('cultural_sites.publication_status', 'verified')
+        .order('start_date', { ascending: false, nullsFirst: false }),
+    ]);
+
+    for (const result of [reviews, sites, historicalRecords, conservationProjects]) {
+      if (result.error) throw result.error;
+    }
+
+    return {
+      reviews: (reviews.data || []) as ContributorReview[],
+      sites: sites.data || [],
+      historicalRecords: (historicalRecords.data || []) as ContributorHistoricalRecord[],
+      conservationProjects: (conservationProjects.data || []) as ContributorConservationProject[],
+    };
+  }
+
+  /**
+   * Self-service edit; role, verification and activation are kept by the
+   * database (see protect_profile_privileges)
+   */
+  static async updateOwnProfile(userId: string, updates: Partial<EditableProfileFields>): Promise<Profile> {
+    return this.saveProfile(userId, updates);
+  }
+
+  /**
+   * Upload a new avatar, point the profile at it and remove the previous files
+   */
+  static async uploadAvatar(userId: string, file: File): Promise<Profile> {
+    if (!AVATAR_TYPES.includes(file.type)) {
+      throw new Error('Avatar must be a JPEG, PNG or WebP image');
+    }
+    if (file.size > MAX_AVATAR_SIZE_MB * 1024 * 1024) {
+      throw new Error(`Avatar must be smaller than ${MAX_AVATAR_SIZE_MB} MB`);
+    }
+
+    const fileExt = file.name.split('.').pop();
+    const path = `${userId}/${Date.now()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(path, file, { contentType: file.type, cacheControl: '3600' });
+    if (uploadError) throw uploadError;
+
+    const { data: urlData } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+    const profile = await this.saveProfile(userId, { avatar_url: urlData.publicUrl });
+
+    await this.removeOldAvatars(userId, path);
+    return profile;
+  }
+
+  private static async saveProfile(userId: string, updates: ProfileUpdate): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private static async removeOldAvatars(userId: string, currentPath: string): Promise<void> {
+    const { data, error } = await supabase.storage.from(AVATAR_BUCKET).list(userId);
+    if (error) {
+      console.warn('Could not list previous avatars:', error);
+      return;
+    }
+
+    const stale = (data || [])
+      .map(object => `${userId}/${object.name}`)
+      .filter(path => path !== currentPath);
+    if (stale.length === 0) return;
+
+    const { error: removeError } = await supabase.storage.from(AVATAR_BUCKET).remove(stale);
+    if (removeError) console.warn('Could not remove previous avatars:', removeError);
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from "@/integrations/supabase/types";
+import { AiAnalysisService, SiteConditionSummary } from "@/services/ai-analysis.service";
 
 type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
 
@@ -16,6 +17,8 @@ export interface PreservationPriority {
     tourismPopularity: number;
     siteAge: number;
     unescoStatus: number;
+    // null when no photo of the site has been assessed yet
+    aiObservedCondition: number | null;
   };
 }
 
@@ -35,7 +38,8 @@ export class RecommendationService {
     historicalSignificance: 0.25, // 25% - Second most important
     tourismPopularity: 0.20,     // 20% - Third most important
     siteAge: 0.10,              // 10% - Fourth most important
-    unescoStatus: 0.05          // 5% - Least important
+    unescoStatus: 0.05,          // 5% - Least important
+    aiObservedCondition: 0.15    // Only counted when photos have been assessed
   };
 
   /**
@@ -50,7 +54,8 @@ export class RecommendationService {
 
       if (error) throw error;
 
-      return sites.map(site => this.calculateSitePriority(site));
+      const conditions = await this.fetchConditionSummaries();
+      return sites.map(site => this.calculateSitePriority(site, conditions.get(site.id)));
     } catch (error) {
       console.error('Error calculating preservation priorities:', error);
       throw error;
@@ -60,23 +65,32 @@ export class RecommendationService {
   /**
    * Calculate preservation priority for a single site
    */
-  static calculateSitePriority(site: SiteWithCategory): PreservationPriority {
-    const scores = {
+  static calculateSitePriority(
+    site: SiteWithCategory,
+    condition?: SiteConditionSummary
+  ): PreservationPriority {
+    const scores: PreservationPriority['scores'] = {
       preservationStatus: this.scorePreservationStatus(site.preservation_status),
       historicalSignificance: this.scoreHistoricalSignificance(site.cultural_significance_score),
       tourismPopularity: this.scoreTourismPopularity(site.tourism_popularity_score),
       siteAge: this.scoreSiteAge(site.established_year),
-      unescoStatus: this.scoreUnescoStatus(site.is_unesco_site)
+      unescoStatus: this.scoreUnescoStatus(site.is_unesco_site),
+      aiObservedCondition: condition ? condition.conditionScore : null
     };
 
-    // Calculate weighted total score
-    const priorityScore = Object.entries(scores).reduce(
-      (total, [key, score]) => total + score * this.WEIGHTS[key as keyof typeof this.WEIGHTS],
-      0
+    // Calculate weighted total score, normalised over the factors that are available
+    const weighted = Object.entries(scores).reduce(
+      (total, [key, score]) => {
+        if (score === null) return total;
+        const weight = this.WEIGHTS[key as keyof typeof this.WEIGHTS];
+        return { sum: total.sum + score * weight, weight: total.weight + weight };
+      },
+      { sum: 0, weight: 0 }
     );
+    const priorityScore = weighted.weight > 0 ? weighted.sum / weighted.weight : 0;
 
     const priorityLevel = this.determinePriorityLevel(priorityScore);
-    const reasons = this.generateReasons(scores, site);
+    const reasons = this.generateReasons(scores, site, condition);
     const recommendedActions = this.generateRecommendedActions(priorityLevel, site);
 
     return {
@@ -90,6 +104,18 @@ export class RecommendationService {
     };
   }
 
+  /**
+   * Load AI condition assessments; priorities are still calculated when they are unavailable
+   */
+  private static async fetchConditionSummaries(): Promise<Map<string, SiteConditionSummary>> {
+    try {
+      return await AiAnalysisService.fetchConditionSummaries();
+    } catch (error) {
+      console.error('Error loading AI condition assessments:', error);
+      return new Map();
+    }
+  }
+
   /**
    * Score preservation status (0-10 scale)
    */
@@ -162,7 +188,8 @@ export class RecommendationService {
    */
   private static generateReasons(
     scores: PreservationPriority['scores'],
-    site: SiteWithCategory
+    site: SiteWithCategory,
+    condition?: SiteConditionSummary
   ): string[] {
     const reasons: string[] = [];
 
@@ -186,6 +213,17 @@ export class RecommendationService {
       reasons.push('UNESCO World Heritage status requires international standards');
     }
 
+    if (condition && scores.aiObservedCondition !== null && scores.aiObservedCondition >= 6) {
+      const photos = condition.photos
+        .filter(photo => photo.conditionScore >= 6)
+        .slice(0, 3)
+        .map(photo => {
+          const damage = photo.findings.map(f => f.type.replace(/_/g, ' ')).join(', ');
+          return `${photo.title || 'untitled photo'}${damage ? ` (${damage})` : ''}`;
+        });
+      reasons.push(`AI-observed deterioration in analysed photos: ${photos.join('; ')}`);
+    }
+
     if (reasons.length === 0) {
       reasons.push('Standard preservation monitoring recommended');
     }
@@ -291,6 +329,7 @@ export class RecommendationService {
       'Tourism Popularity Score',
       'Site Age Score',
       'UNESCO Status Score',
+      'AI Observed Condition Score',
       'Reasons',
       'Recommended Actions'
     ];
@@ -304,6 +343,7 @@ export class RecommendationService {
       priority.scores.tourismPopularity,
       priority.scores.siteAge,
       priority.scores.unescoStatus,
+      priority.scores.aiObservedCondition ?? '',
       priority.reasons.join('; '),
       priority.recommendedActions.join('; ')
     ]);
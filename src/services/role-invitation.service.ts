@@ -0,0 +1,145 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { RoleGrant, RoleInvitation, RoleInvitationStatus } from "@/types/role-invitations";
+import type { UserRole } from "@/types/profiles";
+
+export interface CreateInvitationInput {
+  role: UserRole;
+  expiresInDays: number;
+  note?: string;
+  createdBy: string;
+}
+
+export interface IssuedInvitation {
+  invitation: RoleInvitation;
+  // Shown once; only its hash is stored
+  token: string;
+}
+
+export interface RoleGrantWithNames extends RoleGrant {
+  userName: string | null;
+  grantedByName: string | null;
+}
+
+export interface RedeemResult {
+  role: UserRole;
+}
+
+const TOKEN_BYTES = 24;
+
+/**
+ * Single-use, expiring invitations that grant one role when redeemed
+ * through the apply-admin-role edge function
+ */
+export class RoleInvitationService {
+  static async createInvitation(input: CreateInvitationInput): Promise<IssuedInvitation> {
+    const token = this.generateToken();
+    const expiresAt = new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('role_invitations')
+      .insert({
+        token_hash: await this.hashToken(token),
+        role: input.role,
+        note: input.note?.trim() || null,
+        created_by: input.createdBy,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { invitation: data, token };
+  }
+
+  static async fetchInvitations(limit = 100): Promise<RoleInvitation[]> {
+    const { data, error } = await supabase
+      .from('role_invitations')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async revokeInvitation(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('role_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('redeemed_at', null);
+
+    if (error) throw error;
+  }
+
+  static status(invitation: RoleInvitation, now = new Date()): RoleInvitationStatus {
+    if (invitation.redeemed_at) return 'redeemed';
+    if (invitation.revoked_at) return 'revoked';
+    if (new Date(invitation.expires_at) <= now) return 'expired';
+    return 'active';
+  }
+
+  /**
+   * Every role change, newest first, from invitations and the user console
+   */
+  static async fetchRoleGrants(limit = 100): Promise<RoleGrantWithNames[]> {
+    const { data, error } = await supabase
+      .from('role_grants')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    const grants = data || [];
+
+    const userIds = Array.from(new Set(
+      grants.flatMap(grant => [grant.user_id, grant.granted_by]).filter((id): id is string => !!id)
+    ));
+    const names = new Map<string, string>();
+
+    if (userIds.length > 0) {
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', userIds);
+      if (profilesError) throw profilesError;
+      (profiles || []).forEach(profile => names.set(profile.user_id, profile.full_name));
+    }
+
+    return grants.map(grant => ({
+      ...grant,
+      userName: names.get(grant.user_id) ?? null,
+      grantedByName: grant.granted_by ? names.get(grant.granted_by) ?? null : null,
+    }));
+  }
+
+  /**
+   * Redeem a token for the signed-in user
+   */
+  static async redeem(token: string): Promise<RedeemResult> {
+    const { data, error } = await supabase.functions.invoke("apply-admin-role", {
+      body: { token: token.trim() },
+    });
+
+    if (error) {
+      // The function answers with { error } and a 4xx status
+      const body = await error.context?.json?.().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    return { role: data.role };
+  }
+
+  private static generateToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+    return Array.from(bytes)
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private static async hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
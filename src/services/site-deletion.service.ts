@@ -0,0 +1,209 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SiteMediaService } from "@/services/site-media.service";
+
+// Tables with a site_id column; rows are removed by ON DELETE CASCADE
+export const SITE_DEPENDENT_TABLES = [
+  'site_media',
+  'ai_analysis',
+  'site_reviews',
+  'historical_records',
+  'conservation_projects',
+  'route_sites',
+] as const;
+
+export type SiteDependentTable = typeof SITE_DEPENDENT_TABLES[number];
+
+export interface AffectedRoute {
+  id: string;
+  name: string;
+  isActive: boolean;
+  remainingSites: number;
+  // A route needs at least two stops to be usable
+  breaks: boolean;
+}
+
+export interface SiteDeletionImpact {
+  siteId: string;
+  counts: Record<SiteDependentTable, number>;
+  routes: AffectedRoute[];
+  practices: { id: string; name: string }[];
+  storageFiles: string[];
+}
+
+export interface HardDeleteResult {
+  deactivatedRoutes: number;
+  removedFiles: number;
+  storageErrors: number;
+}
+
+const MIN_ROUTE_SITES = 2;
+const REMOVE_BATCH_SIZE = 100;
+
+export class SiteDeletionService {
+  /**
+   * Summarise what deleting a site would touch: dependent rows per table,
+   * routes left with too few stops, practices that mention the site and stored files
+   */
+  static async getImpact(siteId: string): Promise<SiteDeletionImpact> {
+    const [countEntries, routes, practices, storageFiles] = await Promise.all([
+      Promise.all(SITE_DEPENDENT_TABLES.map(async table => {
+        const { count, error } = await supabase
+          .from(table)
+          .select('id', { count: 'exact', head: true })
+          .eq('site_id', siteId);
+        if (error) throw error;
+        return [table, count ?? 0] as const;
+      })),
+      this.fetchAffectedRoutes(siteId),
+      this.fetchRelatedPractices(siteId),
+      this.collectStorageFiles(siteId),
+    ]);
+
+    return {
+      siteId,
+      counts: Object.fromEntries(countEntries) as Record<SiteDependentTable, number>,
+      routes,
+      practices,
+      storageFiles,
+    };
+  }
+
+  /**
+   * Soft delete: hide the site from public pages but keep all related data
+   */
+  static async archiveSite(siteId: string): Promise<void> {
+    const { error } = await supabase.from('cultural_sites').update({ is_active: false }).eq('id', siteId);
+    if (error) throw error;
+  }
+
+  static async restoreSite(siteId: string): Promise<void> {
+    const { error } = await supabase.from('cultural_sites').update({ is_active: true }).eq('id', siteId);
+    if (error) throw error;
+  }
+
+  /**
+   * Permanently delete a site and everything that depends on it. Rows in
+   * SITE_DEPENDENT_TABLES cascade with the site; practice arrays, route
+   * ordering and stored files are cleaned up here.
+   */
+  static async hardDeleteSite(siteId: string): Promise<HardDeleteResult> {
+    const impact = await this.getImpact(siteId);
+
+    for (const practice of impact.practices) {
+      const { data, error } = await supabase
+        .from('cultural_practices')
+        .select('related_sites')
+        .eq('id', practice.id)
+        .single();
+      if (error) throw error;
+
+      const { error: updateError } = await supabase
+        .from('cultural_practices')
+        .update({ related_sites: (data.related_sites || []).filter(id => id !== siteId) })
+        .eq('id', practice.id);
+      if (updateError) throw updateError;
+    }
+
+    const { error } = await supabase.from('cultural_sites').delete().eq('id', siteId);
+    if (error) throw error;
+
+    let deactivatedRoutes = 0;
+    for (const route of impact.routes) {
+      await this.resequenceRoute(route.id);
+      if (route.breaks && route.isActive) {
+        const { error: routeError } = await supabase
+          .from('tourism_routes')
+          .update({ is_active: false })
+          .eq('id', route.id);
+        if (routeError) throw routeError;
+        deactivatedRoutes++;
+      }
+    }
+
+    // Files go last: a failed database delete must not leave rows without files
+    let storageErrors = 0;
+    for (let i = 0; i < impact.storageFiles.length; i += REMOVE_BATCH_SIZE) {
+      const { error: storageError } = await supabase.storage
+        .from('gallery')
+        .remove(impact.storageFiles.slice(i, i + REMOVE_BATCH_SIZE));
+      if (storageError) {
+        console.error('Error deleting site files from storage:', storageError);
+        storageErrors++;
+      }
+    }
+
+    return { deactivatedRoutes, removedFiles: impact.storageFiles.length, storageErrors };
+  }
+
+  private static async fetchAffectedRoutes(siteId: string): Promise<AffectedRoute[]> {
+    const { data: stops, error } = await supabase.from('route_sites').select('route_id').eq('site_id', siteId);
+    if (error) throw error;
+
+    const routeIds = Array.from(new Set((stops || []).map(stop => stop.route_id)));
+    if (routeIds.length === 0) return [];
+
+    const { data: routes, error: routesError } = await supabase
+      .from('tourism_routes')
+      .select('id, name, is_active, route_sites(site_id)')
+      .in('id', routeIds);
+    if (routesError) throw routesError;
+
+    return (routes || []).map(route => {
+      const remainingSites = (route.route_sites || []).filter(stop => stop.site_id !== siteId).length;
+      return {
+        id: route.id,
+        name: route.name,
+        isActive: route.is_active !== false,
+        remainingSites,
+        breaks: remainingSites < MIN_ROUTE_SITES,
+      };
+    });
+  }
+
+  private static async fetchRelatedPractices(siteId: string): Promise<{ id: string; name: string }[]> {
+    const { data, error } = await supabase
+      .from('cultural_practices')
+      .select('id, name')
+      .contains('related_sites', [siteId]);
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Files referenced by the site's media rows plus anything else stored in the site's folder
+   */
+  private static async collectStorageFiles(siteId: string): Promise<string[]> {
+    const [{ data: media, error }, { data: folder, error: listError }] = await Promise.all([
+      supabase.from('site_media').select('file_url, storage_path, metadata').eq('site_id', siteId),
+      supabase.storage.from('gallery').list(siteId, { limit: 1000 }),
+    ]);
+    if (error) throw error;
+    // Listing needs the admin storage policy; referenced files are still found without it
+    if (listError) console.warn('Could not list site storage folder:', listError);
+
+    const paths = new Set((media || []).flatMap(item => SiteMediaService.getStoragePaths(item)));
+    (folder || []).filter(entry => entry.id !== null).forEach(entry => paths.add(`${siteId}/${entry.name}`));
+    return Array.from(paths);
+  }
+
+  /**
+   * Close the gap left in sequence_order after a stop was removed
+   */
+  private static async resequenceRoute(routeId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('route_sites')
+      .select('id, sequence_order')
+      .eq('route_id', routeId)
+      .order('sequence_order', { ascending: true });
+    if (error) throw error;
+
+    for (const [index, stop] of (data || []).entries()) {
+      if (stop.sequence_order === index + 1) continue;
+      const { error: updateError } = await supabase
+        .from('route_sites')
+        .update({ sequence_order: index + 1 })
+        .eq('id', stop.id);
+      if (updateError) throw updateError;
+    }
+  }
+}
@@ -1,14 +1,83 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Database } from "@/integrations/supabase/types";
+import { Database, Json } from "@/integrations/supabase/types";
+import { compareFingerprints, computeFingerprint, DuplicateKind, ImageFingerprint } from "@/lib/image-fingerprint";
+import { ExifData, parseExif } from "@/lib/exif";
+import { canGenerateVariants, generateImageVariants, VariantFormat, VariantName } from "@/lib/image-variants";
+import { extractMediaInfo, fileCategory, MediaInfo, MediaKind, validateMediaFile } from "@/lib/media-types";
+import { SpatialAnalysisService } from "@/services/spatial-analysis.service";
 
 type SiteMedia = Database['public']['Tables']['site_media']['Row'];
 type SiteMediaInsert = Database['public']['Tables']['site_media']['Insert'];
 
+export interface DuplicateMatch {
+  kind: DuplicateKind;
+  distance: number | null;
+  // Existing gallery image, or another file in the same upload batch
+  media?: SiteMedia;
+  fileIndex?: number;
+}
+
+export interface UploadCandidate {
+  file: File;
+  fingerprint: ImageFingerprint;
+  duplicates: DuplicateMatch[];
+}
+
+export interface LocationCheck {
+  distanceKm: number;
+  maxDistanceKm: number;
+  // Photo GPS is farther from the site than maxDistanceKm
+  flagged: boolean;
+}
+
+export interface ResponsiveImageSources {
+  // Largest web-optimised JPEG, or the original file for older uploads
+  src: string;
+  webpSrcSet: string | null;
+  jpegSrcSet: string | null;
+}
+
+// A type alias (not an interface) so it stays assignable to Json
+type StoredVariant = {
+  width: number;
+  height: number;
+  webp?: string;
+  jpeg?: string;
+};
+
+type StoredVariants = Partial<Record<VariantName, StoredVariant>>;
+
+type StoredMediaInfo = {
+  kind: MediaKind;
+  width: number | null;
+  height: number | null;
+  duration_seconds: number | null;
+};
+
+interface StoredLocationCheck {
+  distance_km: number;
+  max_distance_km: number;
+  flagged: boolean;
+}
+
+interface StoredFingerprint {
+  content_hash: string;
+  perceptual_hash: string | null;
+  captured_at: string | null;
+  camera: string | null;
+}
+
 export class SiteMediaService {
+  // Photos taken farther than this from the site coordinates are flagged
+  static readonly GPS_MAX_DISTANCE_KM = Number(import.meta.env.VITE_MEDIA_GPS_MAX_DISTANCE_KM) || 1;
+
+  // EXIF times have no zone unless OffsetTimeOriginal is set; assume Lombok (WITA)
+  private static readonly DEFAULT_TIME_ZONE_OFFSET = '+08:00';
+
   /**
    * Upload multiple images to Supabase Storage and link to site
    */
-  static async uploadImages(files: FileList, siteId: string, userId: string): Promise<void> {
+  static async uploadImages(files: FileList | File[], siteId: string, userId: string): Promise<void> {
     if (!userId) {
       throw new Error('User must be authenticated to upload images');
     }
@@ -16,34 +85,297 @@ export class SiteMediaService {
     const fileArray = Array.from(files);
 
     for (const file of fileArray) {
-      // Upload to Supabase Storage
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${siteId}/${Date.now()}.${fileExt}`;
+      await this.uploadImage(file, siteId, userId);
+    }
+  }
 
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('gallery')
-        .upload(fileName, file);
+  /**
+   * Fingerprint files before upload and report exact/near duplicates against
+   * the site's existing gallery and the other files in the batch
+   */
+  static async checkDuplicates(files: FileList | File[], siteId: string): Promise<UploadCandidate[]> {
+    const existing = (await this.fetchSiteImages(siteId))
+      .map(media => ({ media, fingerprint: this.readFingerprint(media) }))
+      .filter((entry): entry is { media: SiteMedia; fingerprint: ImageFingerprint } => !!entry.fingerprint);
 
-      if (uploadError) throw uploadError;
+    const candidates: UploadCandidate[] = [];
+    for (const file of Array.from(files)) {
+      const fingerprint = await computeFingerprint(file);
+      const duplicates: DuplicateMatch[] = [];
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('gallery')
-        .getPublicUrl(fileName);
-
-      // Save to site_media table
-      const { error: dbError } = await supabase
-        .from('site_media')
-        .insert({
-          site_id: siteId,
-          file_url: urlData.publicUrl,
-          file_type: file.type,
-          title: file.name,
-          uploaded_by: userId,
-        });
-
-      if (dbError) throw dbError;
+      for (const entry of existing) {
+        const match = compareFingerprints(fingerprint, entry.fingerprint);
+        if (match) duplicates.push({ ...match, media: entry.media });
+      }
+      candidates.forEach((other, fileIndex) => {
+        const match = compareFingerprints(fingerprint, other.fingerprint);
+        if (match) duplicates.push({ ...match, fileIndex });
+      });
+
+      candidates.push({ file, fingerprint, duplicates });
+    }
+    return candidates;
+  }
+
+  /**
+   * Read the duplicate-detection fingerprint stored in site_media.metadata
+   */
+  static readFingerprint(media: Pick<SiteMedia, 'metadata'>): ImageFingerprint | null {
+    const stored = (media.metadata as { fingerprint?: StoredFingerprint } | null)?.fingerprint;
+    if (!stored?.content_hash) return null;
+    return {
+      contentHash: stored.content_hash,
+      perceptualHash: stored.perceptual_hash,
+      capturedAt: stored.captured_at,
+      camera: stored.camera,
+    };
+  }
+
+  /**
+   * Metadata patch that stores a fingerprint, keeping other metadata keys
+   */
+  static withFingerprint(metadata: Json | null, fingerprint: ImageFingerprint): Json {
+    const base = metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {};
+    return {
+      ...base,
+      fingerprint: {
+        content_hash: fingerprint.contentHash,
+        perceptual_hash: fingerprint.perceptualHash,
+        captured_at: fingerprint.capturedAt,
+        camera: fingerprint.camera,
+      },
+    };
+  }
+
+  /**
+   * Upload a single image, panorama, video or audio file to Supabase Storage
+   * and return the created site_media row
+   */
+  static async uploadImage(
+    file: File,
+    siteId: string,
+    userId: string,
+    fingerprint?: ImageFingerprint
+  ): Promise<SiteMedia> {
+    if (!userId) {
+      throw new Error('User must be authenticated to upload images');
     }
+
+    const rejection = validateMediaFile(file);
+    if (rejection) {
+      throw new Error(`${file.name}: ${rejection === 'too_large' ? 'file is too large' : 'unsupported file type'}`);
+    }
+
+    const exif = await parseExif(file);
+    const imageFingerprint = fingerprint ?? await computeFingerprint(file, exif);
+    const locationCheck = exif?.gps
+      ? await this.checkPhotoLocation(siteId, exif.gps).catch(error => {
+          console.warn('Could not check photo location:', error);
+          return null;
+        })
+      : null;
+    const mediaInfo = await extractMediaInfo(file).catch(error => {
+      console.warn('Could not read media dimensions:', error);
+      return null;
+    });
+
+    // Upload to Supabase Storage
+    const fileExt = file.name.split('.').pop();
+    const baseName = `${siteId}/${Date.now()}`;
+    const fileName = `${baseName}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('gallery')
+      .upload(fileName, file);
+
+    if (uploadError) throw uploadError;
+
+    const variants = await this.uploadVariants(file, baseName);
+
+    // Get public URL
+    const { data: urlData } = supabase.storage
+      .from('gallery')
+      .getPublicUrl(fileName);
+
+    // Save to site_media table
+    const { data, error: dbError } = await supabase
+      .from('site_media')
+      .insert({
+        site_id: siteId,
+        file_url: urlData.publicUrl,
+        storage_path: fileName,
+        file_type: file.type,
+        title: file.name,
+        uploaded_by: userId,
+        capture_date: exif?.capturedAt
+          ? `${exif.capturedAt}${exif.timeZoneOffset ?? this.DEFAULT_TIME_ZONE_OFFSET}`
+          : null,
+        metadata: this.withFingerprint(
+          this.buildUploadMetadata({ exif, locationCheck, variants, mediaInfo }),
+          imageFingerprint
+        ),
+      })
+      .select()
+      .single();
+
+    if (dbError) throw dbError;
+    return data;
+  }
+
+  /**
+   * Upload resized WebP/JPEG versions of an image next to the original.
+   * Failures are logged and the original is used instead.
+   */
+  private static async uploadVariants(file: File, baseName: string): Promise<StoredVariants | null> {
+    if (!canGenerateVariants(file)) return null;
+
+    try {
+      const variants = await generateImageVariants(file);
+      const stored: StoredVariants = {};
+
+      for (const variant of variants) {
+        const path = `${baseName}_${variant.name}.${variant.format === 'jpeg' ? 'jpg' : 'webp'}`;
+        const { error } = await supabase.storage
+          .from('gallery')
+          .upload(path, variant.blob, { contentType: variant.blob.type, cacheControl: '31536000' });
+        if (error) throw error;
+
+        const entry = stored[variant.name] ?? { width: variant.width, height: variant.height };
+        entry[variant.format] = path;
+        stored[variant.name] = entry;
+      }
+      return stored;
+    } catch (error) {
+      console.warn('Could not create optimised image versions, serving the original:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Build src/srcset values from the stored image versions
+   */
+  static getResponsiveSources(media: Pick<SiteMedia, 'file_url' | 'metadata'>): ResponsiveImageSources {
+    const variants = (media.metadata as { variants?: StoredVariants | null } | null)?.variants;
+    if (!variants) {
+      return { src: media.file_url, webpSrcSet: null, jpegSrcSet: null };
+    }
+
+    const entries = Object.values(variants).sort((a, b) => a.width - b.width);
+    const srcSet = (format: VariantFormat) => {
+      const candidates = entries
+        .filter(entry => entry[format])
+        .map(entry => `${this.getPublicUrl(entry[format]!)} ${entry.width}w`);
+      return candidates.length > 0 ? candidates.join(', ') : null;
+    };
+    const largestJpeg = [...entries].reverse().find(entry => entry.jpeg)?.jpeg;
+
+    return {
+      src: largestJpeg ? this.getPublicUrl(largestJpeg) : media.file_url,
+      webpSrcSet: srcSet('webp'),
+      jpegSrcSet: srcSet('jpeg'),
+    };
+  }
+
+  static getPublicUrl(path: string): string {
+    return supabase.storage.from('gallery').getPublicUrl(path).data.publicUrl;
+  }
+
+  /**
+   * Compare a photo's GPS position with the site coordinates
+   */
+  static async checkPhotoLocation(
+    siteId: string,
+    gps: { latitude: number; longitude: number },
+    maxDistanceKm: number = this.GPS_MAX_DISTANCE_KM
+  ): Promise<LocationCheck> {
+    const { data: site, error } = await supabase
+      .from('cultural_sites')
+      .select('latitude, longitude')
+      .eq('id', siteId)
+      .single();
+
+    if (error) throw error;
+
+    const distanceKm = SpatialAnalysisService.calculateDistance(
+      [site.latitude, site.longitude],
+      [gps.latitude, gps.longitude]
+    ) / 1000;
+
+    return { distanceKm, maxDistanceKm, flagged: distanceKm > maxDistanceKm };
+  }
+
+  /**
+   * Read the GPS location check stored in site_media.metadata
+   */
+  static readLocationCheck(media: Pick<SiteMedia, 'metadata'>): LocationCheck | null {
+    const stored = (media.metadata as { location_check?: StoredLocationCheck } | null)?.location_check;
+    if (!stored) return null;
+    return {
+      distanceKm: stored.distance_km,
+      maxDistanceKm: stored.max_distance_km,
+      flagged: stored.flagged,
+    };
+  }
+
+  private static buildUploadMetadata({ exif, locationCheck, variants, mediaInfo }: {
+    exif: ExifData | null;
+    locationCheck: LocationCheck | null;
+    variants: StoredVariants | null;
+    mediaInfo: MediaInfo | null;
+  }): Json {
+    const media: StoredMediaInfo | null = mediaInfo
+      ? {
+          kind: mediaInfo.kind,
+          width: mediaInfo.width,
+          height: mediaInfo.height,
+          duration_seconds: mediaInfo.durationSeconds !== null ? Number(mediaInfo.durationSeconds.toFixed(2)) : null,
+        }
+      : null;
+
+    if (!exif) return { media, variants };
+    return {
+      media,
+      variants,
+      exif: {
+        make: exif.make,
+        model: exif.model,
+        captured_at: exif.capturedAt,
+        time_zone_offset: exif.timeZoneOffset,
+        gps: exif.gps
+          ? { latitude: exif.gps.latitude, longitude: exif.gps.longitude, altitude: exif.gps.altitude }
+          : null,
+      },
+      location_check: locationCheck
+        ? {
+            distance_km: Number(locationCheck.distanceKm.toFixed(3)),
+            max_distance_km: locationCheck.maxDistanceKm,
+            flagged: locationCheck.flagged,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Kind, dimensions and duration of a gallery item. Rows uploaded before this
+   * was stored fall back to the MIME type.
+   */
+  static readMediaInfo(media: Pick<SiteMedia, 'file_type' | 'metadata'>): MediaInfo {
+    const stored = (media.metadata as { media?: StoredMediaInfo | null } | null)?.media;
+    if (stored?.kind) {
+      return {
+        kind: stored.kind,
+        width: stored.width,
+        height: stored.height,
+        durationSeconds: stored.duration_seconds,
+      };
+    }
+    const category = fileCategory(media.file_type);
+    return {
+      kind: category === 'video' || category === 'audio' ? category : 'image',
+      width: null,
+      height: null,
+      durationSeconds: null,
+    };
   }
 
   /**
@@ -61,23 +393,23 @@ export class SiteMediaService {
   }
 
   /**
-   * Delete an image from both database and storage
+   * Delete an image from both database and storage, including its resized versions
    */
-  static async deleteImage(imageId: string, fileUrl: string): Promise<void> {
+  static async deleteImage(media: Pick<SiteMedia, 'id' | 'file_url' | 'storage_path' | 'metadata'>): Promise<void> {
     // Delete from database
     const { error: dbError } = await supabase
       .from('site_media')
       .delete()
-      .eq('id', imageId);
+      .eq('id', media.id);
 
     if (dbError) throw dbError;
 
-    // Delete from storage
-    const fileName = fileUrl.split('/').pop();
-    if (fileName) {
+    // Delete from storage; leftovers show up in the storage reconciliation report
+    const paths = this.getStoragePaths(media);
+    if (paths.length > 0) {
       const { error: storageError } = await supabase.storage
         .from('gallery')
-        .remove([fileName]);
+        .remove(paths);
 
       if (storageError) {
         console.error('Error deleting from storage:', storageError);
@@ -85,6 +417,24 @@ export class SiteMediaService {
     }
   }
 
+  /**
+   * All gallery bucket objects belonging to a media row: the original and its resized versions
+   */
+  static getStoragePaths(media: Pick<SiteMedia, 'file_url' | 'storage_path' | 'metadata'>): string[] {
+    const original = media.storage_path ?? this.storagePathFromUrl(media.file_url);
+    const variants = (media.metadata as { variants?: StoredVariants | null } | null)?.variants;
+    const derived = Object.values(variants ?? {}).flatMap(entry => [entry.webp, entry.jpeg]);
+    return [original, ...derived].filter((path): path is string => !!path);
+  }
+
+  /**
+   * Object key of a gallery public URL, or null for files hosted elsewhere
+   */
+  static storagePathFromUrl(url: string): string | null {
+    const match = url.match(/\/storage\/v1\/object\/public\/gallery\/([^?#]+)/);
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+
   /**
    * Update image metadata
    */
@@ -130,4 +480,27 @@ export class SiteMediaService {
     if (error && error.code !== 'PGRST116') throw error; // PGRST116 = no rows returned
     return data || null;
   }
+
+  /**
+   * Get the cover image of several sites: the primary image, otherwise the first upload
+   */
+  static async fetchCoverImages(siteIds: string[]): Promise<Map<string, SiteMedia>> {
+    const covers = new Map<string, SiteMedia>();
+    if (siteIds.length === 0) return covers;
+
+    const { data, error } = await supabase
+      .from('site_media')
+      .select('*')
+      .in('site_id', siteIds)
+      .order('is_primary', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    for (const media of data || []) {
+      const isImage = !media.file_type || media.file_type.startsWith('image/');
+      if (isImage && !covers.has(media.site_id)) covers.set(media.site_id, media);
+    }
+    return covers;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { CulturalSitesService } from "@/services/cultural-sites.service";
+import { hasPermission } from "@/lib/permissions";
+import type { FieldChange } from "@/services/audit-log.service";
+import type { CulturalSite, CulturalSiteInsert, CulturalSiteUpdate } from "@/types/cultural-sites";
+import type { PublicationStatus, SiteRevision, SiteRevisionKind } from "@/types/site-revisions";
+
+// Fields a contributor can propose; workflow and bookkeeping columns are excluded
+export type SiteChanges = Omit<CulturalSiteUpdate,
+  'id' | 'created_at' | 'updated_at' | 'created_by' | 'verified_at' | 'verified_by' | 'publication_status'>;
+
+export interface SiteRevisionWithContext extends SiteRevision {
+  site: CulturalSite | null;
+  submitterName: string | null;
+  reviewerName: string | null;
+}
+
+export interface SaveSiteResult {
+  site: CulturalSite;
+  // Null when the change was published directly by a reviewer
+  revision: SiteRevision | null;
+}
+
+const OPEN_STATUSES: PublicationStatus[] = ['draft', 'pending_review'];
+const HIDDEN_DIFF_FIELDS = ['id', 'created_at', 'updated_at', 'created_by', 'verified_at', 'verified_by', 'publication_status'];
+
+export class SiteReviewService {
+  /**
+   * Reviewers approve or reject submissions; their own changes are published directly
+   */
+  static isReviewer(role: string | null | undefined): boolean {
+    return hasPermission(role, 'sites.review');
+  }
+
+  static canContribute(role: string | null | undefined): boolean {
+    return hasPermission(role, 'sites.contribute');
+  }
+
+  /**
+   * Workflow columns for a site created outside the form (e.g. CSV import):
+   * reviewers publish directly, contributors start with a draft
+   */
+  static initialPublication(role: string | null, userId: string): Pick<CulturalSiteInsert, 'publication_status' | 'verified_at' | 'verified_by'> {
+    return this.isReviewer(role)
+      ? { publication_status: 'verified', verified_at: new Date().toISOString(), verified_by: userId }
+      : { publication_status: 'draft', verified_at: null, verified_by: null };
+  }
+
+  /**
+   * Save a new site or an edit. Reviewers publish immediately. Contributors
+   * edit their unpublished site in place, while edits to a published site are
+   * stored as a revision and only applied on approval. With submit=false the
+   * submission stays a draft.
+   */
+  static async saveSite(params: {
+    siteId: string | null;
+    values: SiteChanges & Pick<CulturalSiteInsert, 'name' | 'latitude' | 'longitude'>;
+    userId: string;
+    role: string | null;
+    submit: boolean;
+  }): Promise<SaveSiteResult> {
+    const { siteId, values, userId, role, submit } = params;
+    const status: PublicationStatus = submit ? 'pending_review' : 'draft';
+
+    if (this.isReviewer(role)) {
+      const published = this.initialPublication(role, userId);
+      const site = siteId
+        ? await CulturalSitesService.updateSite(siteId, { ...values, ...published })
+        : await CulturalSitesService.createSite({ ...values, ...published, created_by: userId });
+      return { site, revision: null };
+    }
+
+    if (!siteId) {
+      const site = await CulturalSitesService.createSite({ ...values, created_by: userId, publication_status: status });
+      const revision = await this.upsertOpenRevision(site.id, 'create', {}, userId, status);
+      return { site, revision };
+    }
+
+    const current = await this.fetchSite(siteId);
+    if (current.publication_status !== 'verified') {
+      const site = await CulturalSitesService.updateSite(siteId, { ...values, publication_status: status });
+      const revision = await this.upsertOpenRevision(siteId, 'create', {}, userId, status);
+      return { site, revision };
+    }
+
+    const changes = Object.fromEntries(
+      Object.entries(values).filter(([field, value]) => !this.sameValue(current[field as keyof CulturalSite], value))
+    );
+    if (Object.keys(changes).length === 0) {
+      throw new Error('There are no changes to submit');
+    }
+
+    const revision = await this.upsertOpenRevision(siteId, 'update', changes as Json, userId, status);
+    return { site: current, revision };
+  }
+
+  /**
+   * Send a draft to the review queue
+   */
+  static async submitForReview(revision: SiteRevision): Promise<void> {
+    const { error } = await supabase
+      .from('site_revisions')
+      .update({ status: 'pending_review', submitted_at: new Date().toISOString() })
+      .eq('id', revision.id);
+    if (error) throw error;
+
+    if (revision.kind === 'create') {
+      await CulturalSitesService.updateSite(revision.site_id, { publication_status: 'pending_review' });
+    }
+  }
+
+  /**
+   * Submissions waiting for a reviewer, oldest first
+   */
+  static async fetchReviewQueue(): Promise<SiteRevisionWithContext[]> {
+    const { data, error } = await supabase
+      .from('site_revisions')
+      .select('*, cultural_sites(*)')
+      .eq('status', 'pending_review')
+      .order('submitted_at', { ascending: true });
+
+    if (error) throw error;
+    return this.withContext(data || []);
+  }
+
+  /**
+   * Submissions of one contributor, most recently changed first
+   */
+  static async fetchSubmissions(userId: string): Promise<SiteRevisionWithContext[]> {
+    const { data, error } = await supabase
+      .from('site_revisions')
+      .select('*, cultural_sites(*)')
+      .eq('submitted_by', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return this.withContext(data || []);
+  }
+
+  /**
+   * What a revision would change. A new site lists all of its filled fields.
+   */
+  static diff(revision: SiteRevisionWithContext): FieldChange[] {
+    const site = (revision.site ?? {}) as Record<string, Json | undefined>;
+
+    if (revision.kind === 'create') {
+      return Object.keys(site)
+        .filter(field => !HIDDEN_DIFF_FIELDS.includes(field) && site[field] !== null && site[field] !== '')
+        .map(field => ({ field, before: undefined, after: site[field] }));
+    }
+
+    const changes = (revision.changes ?? {}) as Record<string, Json | undefined>;
+    return Object.keys(changes).map(field => ({ field, before: site[field], after: changes[field] }));
+  }
+
+  /**
+   * Publish a submission: apply proposed changes and mark the site verified
+   */
+  static async approve(revision: SiteRevision, reviewerId: string, comment: string): Promise<void> {
+    const changes = revision.kind === 'update' ? (revision.changes as SiteChanges) : {};
+    await CulturalSitesService.updateSite(revision.site_id, {
+      ...changes,
+      publication_status: 'verified',
+      verified_at: new Date().toISOString(),
+      verified_by: reviewerId,
+    });
+
+    await this.closeRevision(revision.id, 'verified', reviewerId, comment);
+  }
+
+  /**
+   * Send a submission back to its contributor. The published version, if any, is untouched.
+   */
+  static async reject(revision: SiteRevision, reviewerId: string, comment: string): Promise<void> {
+    if (!comment.trim()) {
+      throw new Error('A comment is required when rejecting a submission');
+    }
+
+    if (revision.kind === 'create') {
+      await CulturalSitesService.updateSite(revision.site_id, { publication_status: 'rejected' });
+    }
+
+    await this.closeRevision(revision.id, 'rejected', reviewerId, comment);
+  }
+
+  private static async fetchSite(siteId: string): Promise<CulturalSite> {
+    const { data, error } = await supabase.from('cultural_sites').select('*').eq('id', siteId).single();
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * A contributor has at most one open submission per site and kind; saving
+   * again replaces it, and a rejected one is reopened
+   */
+  private static async upsertOpenRevision(
+    siteId: string,
+    kind: SiteRevisionKind,
+    changes: Json,
+    userId: string,
+    status: PublicationStatus
+  ): Promise<SiteRevision> {
+    const { data: existing, error } = await supabase
+      .from('site_revisions')
+      .select('id')
+      .eq('site_id', siteId)
+      .eq('kind', kind)
+      .eq('submitted_by', userId)
+      .in('status', kind === 'create' ? [...OPEN_STATUSES, 'rejected'] : OPEN_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+
+    const fields = {
+      changes,
+      status,
+      submitted_at: status === 'pending_review' ? new Date().toISOString() : null,
+      reviewed_by: null,
+      reviewed_at: null,
+    };
+
+    const query = existing
+      ? supabase.from('site_revisions').update(fields).eq('id', existing.id)
+      : supabase.from('site_revisions').insert({ ...fields, site_id: siteId, kind, submitted_by: userId });
+
+    const { data, error: saveError } = await query.select().single();
+    if (saveError) throw saveError;
+    return data;
+  }
+
+  private static async closeRevision(
+    revisionId: string,
+    status: Extract<PublicationStatus, 'verified' | 'rejected'>,
+    reviewerId: string,
+    comment: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('site_revisions')
+      .update({
+        status,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_comment: comment.trim() || null,
+      })
+      .eq('id', revisionId);
+    if (error) throw error;
+  }
+
+  private static sameValue(current: unknown, proposed: unknown): boolean {
+    const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+    return JSON.stringify(normalize(current)) === JSON.stringify(normalize(proposed));
+  }
+
+  private static async withContext(
+    rows: (SiteRevision & { cultural_sites: CulturalSite | null })[]
+  ): Promise<SiteRevisionWithContext[]> {
+    const userIds = Array.from(new Set(rows.flatMap(row => [row.submitted_by, row.reviewed_by]).filter((id): id is string => !!id)));
+    const names = new Map<string, string>();
+
+    if (userIds.length > 0) {
+      const { data, error } = await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds);
+      if (error) throw error;
+      (data || []).forEach(profile => names.set(profile.user_id, profile.full_name));
+    }
+
+    return rows.map(({ cultural_sites, ...revision }) => ({
+      ...revision,
+      site: cultural_sites,
+      submitterName: names.get(revision.submitted_by) ?? null,
+      reviewerName: revision.reviewed_by ? names.get(revision.reviewed_by) ?? null : null,
+    }));
+  }
+}
@@ -1,6 +1,36 @@
 import L from 'leaflet';
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from "@/integrations/supabase/types";
+import { OverlayDataService } from "@/services/overlay-data.service";
+import type { OverlayLayer } from "@/lib/osm-data";
+import { geometryBBox } from "@/lib/geo-clip";
+import { distanceToGeometry, geodesicCircle, geometryArea } from "@/lib/geo-buffer";
+import { intersectConvex, unionRings } from "@/lib/polygon-boolean";
+import { pointInGeometry } from "@/lib/point-in-polygon";
+import {
+  ClusterLabels,
+  Linkage,
+  NOISE,
+  concaveHull,
+  convexHull,
+  dbscan,
+  hierarchical,
+  kMeans,
+  projectToMeters,
+} from "@/lib/spatial-clustering";
+import {
+  DensityGrid,
+  GlobalMoranStatistic,
+  LocalMoranStatistic,
+  averageNearestNeighbour,
+  distanceBandNeighbours,
+  getisOrdGiStar,
+  globalMoran,
+  kernelDensity,
+  localMoran,
+  nearestNeighbourDistances,
+  twoSidedPValue,
+} from "@/lib/spatial-statistics";
 
 type SiteWithCategory = Database['public']['Views']['sites_with_categories']['Row'];
 
@@ -10,22 +40,93 @@ export interface BufferZone {
   siteId: string;
   siteName: string;
   color: string;
+  // Geodesic buffer polygon ([lon, lat] coordinates)
+  polygon: GeoJSON.Polygon;
+  area: number; // in square meters
 }
 
+export interface BufferOverlap {
+  zoneA: BufferZone;
+  zoneB: BufferZone;
+  polygon: GeoJSON.Polygon;
+  area: number; // in square meters
+  // Share of each zone's area covered by the other, 0-1
+  shareOfA: number;
+  shareOfB: number;
+  // Sites inside both zones
+  siteIds: string[];
+}
+
+export interface SiteProximity {
+  site: SiteWithCategory;
+  distance: number; // in meters
+  featureName: string | null;
+  featureKind: string | null;
+}
+
+export type BufferAnalysisKind = 'union' | 'intersection' | 'overlap';
+
 export interface SpatialOverlay {
   id: string;
   name: string;
   type: 'roads' | 'rivers' | 'villages' | 'custom';
   data: GeoJSON.FeatureCollection;
+  // Extract the features were loaded from; null when none is bundled
+  source?: string | null;
   visible: boolean;
   opacity: number;
 }
 
-interface SpatialCluster {
+export interface SpatialCluster {
   id: string;
   sites: SiteWithCategory[];
   center: [number, number];
   siteCount: number;
+  // Outline around the member sites; null for fewer than three distinct locations
+  hull: GeoJSON.Polygon | null;
+  area: number; // in square meters
+  density: number; // sites per square km of the hull, 0 without a hull
+  byCategory: Record<string, number>;
+  byPreservationStatus: Record<string, number>;
+  color: string;
+}
+
+export type ClusteringMethod = 'dbscan' | 'kmeans' | 'hierarchical';
+
+export type ClusterHullType = 'convex' | 'concave';
+
+export type ClusteringOptions = (
+  | { method: 'dbscan'; eps: number; minPoints: number } // eps in meters
+  | { method: 'kmeans'; k: number }
+  | { method: 'hierarchical'; distance: number; linkage: Linkage } // distance in meters
+) & { hull?: ClusterHullType };
+
+export interface ClusteringResult {
+  clusters: SpatialCluster[];
+  // Located sites that belong to no cluster
+  noise: SiteWithCategory[];
+}
+
+// Site attributes that spatial autocorrelation can be measured on
+export type StatisticAttribute = 'cultural_significance_score' | 'preservation_status';
+
+export interface SiteHotSpot {
+  site: SiteWithCategory;
+  value: number;
+  giZScore: number;
+  giPValue: number;
+  // 90, 95 or 99 for hot spots, negative for cold spots, 0 when not significant
+  confidence: number;
+  localMoran: LocalMoranStatistic;
+  // Local Moran quadrant when significant at p < 0.05
+  lisaCluster: LocalMoranStatistic['quadrant'] | null;
+}
+
+export interface SpatialAutocorrelation {
+  attribute: StatisticAttribute;
+  distanceBand: number; // in meters
+  global: GlobalMoranStatistic | null;
+  sites: SiteHotSpot[];
 }
 
 export interface RoutePoint {
@@ -35,9 +136,12 @@ export interface RoutePoint {
   description?: string;
 }
 
+// Qualitative palette, repeated when there are more clusters
+const CLUSTER_COLORS = ['#1b9e77', '#d95f02', '#7570b3', '#e7298a', '#66a61e', '#e6ab02', '#a6761d', '#666666'];
+
 export class SpatialAnalysisService {
   /**
-   * Create buffer zones around cultural sites
+   * Create geodesic buffer polygons around cultural sites
    */
   static createBufferZones(
     sites: SiteWithCategory[],
@@ -45,13 +149,18 @@ export class SpatialAnalysisService {
   ): BufferZone[] {
     return sites
       .filter(site => site.latitude && site.longitude)
-      .map(site => ({
-        center: [site.latitude!, site.longitude!],
-        radius: radiusMeters,
-        siteId: site.id,
-        siteName: site.name || 'Unknown Site',
-        color: site.category_color || '#3b82f6'
-      }));
+      .map(site => {
+        const polygon = geodesicCircle([site.longitude!, site.latitude!], radiusMeters);
+        return {
+          center: [site.latitude!, site.longitude!],
+          radius: radiusMeters,
+          siteId: site.id,
+          siteName: site.name || 'Unknown Site',
+          color: site.category_color || '#3b82f6',
+          polygon,
+          area: geometryArea(polygon)
+        };
+      });
   }
 
   /**
@@ -79,21 +188,186 @@ export class SpatialAnalysisService {
   }
 
   /**
-   * Find sites within a buffer zone
+   * Find sites inside a buffer polygon, or inside a union or intersection of buffers
    */
   static findSitesInBuffer(
-    centerPoint: [number, number],
-    sites: SiteWithCategory[],
-    radiusMeters: number
+    geometry: GeoJSON.Geometry,
+    sites: SiteWithCategory[]
   ): SiteWithCategory[] {
-    return sites.filter(site => {
-      if (!site.latitude || !site.longitude) return false;
+    return sites.filter(site =>
+      !!site.latitude && !!site.longitude && pointInGeometry([site.longitude, site.latitude], geometry)
+    );
+  }
 
-      const sitePoint: [number, number] = [site.latitude, site.longitude];
-      const distance = this.calculateDistance(centerPoint, sitePoint);
+  /**
+   * Merge buffer zones into one (Multi)Polygon; null without zones
+   */
+  static unionBufferZones(zones: BufferZone[]): GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon> | null {
+    const polygons = unionRings(zones.map(zone => zone.polygon.coordinates[0] as [number, number][]));
+    if (polygons.length === 0) return null;
 
-      return distance <= radiusMeters;
-    });
+    const geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon = polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+
+    return this.analysisFeature('union', geometry, zones);
+  }
+
+  /**
+   * Area covered by every one of the zones; null when they do not all overlap
+   */
+  static intersectBufferZones(zones: BufferZone[]): GeoJSON.Feature<GeoJSON.Polygon> | null {
+    if (zones.length === 0) return null;
+
+    // Point buffers are convex, so each zone can clip the running result
+    let ring: [number, number][] | null = zones[0].polygon.coordinates[0] as [number, number][];
+    for (const zone of zones.slice(1)) {
+      ring = intersectConvex(ring, zone.polygon.coordinates[0] as [number, number][]);
+      if (!ring) return null;
+    }
+
+    return this.analysisFeature('intersection', { type: 'Polygon', coordinates: [ring] }, zones);
+  }
+
+  /**
+   * Every pair of buffer zones that overlap, largest overlap first
+   */
+  static findBufferOverlaps(zones: BufferZone[], sites: SiteWithCategory[] = []): BufferOverlap[] {
+    const overlaps: BufferOverlap[] = [];
+
+    for (let i = 0; i < zones.length; i++) {
+      for (let j = i + 1; j < zones.length; j++) {
+        const [zoneA, zoneB] = [zones[i], zones[j]];
+        if (this.calculateDistance(zoneA.center, zoneB.center) >= zoneA.radius + zoneB.radius) continue;
+
+        const ring = intersectConvex(
+          zoneA.polygon.coordinates[0] as [number, number][],
+          zoneB.polygon.coordinates[0] as [number, number][]
+        );
+        if (!ring) continue;
+
+        const polygon: GeoJSON.Polygon = { type: 'Polygon', coordinates: [ring] };
+        const area = geometryArea(polygon);
+        overlaps.push({
+          zoneA,
+          zoneB,
+          polygon,
+          area,
+          shareOfA: zoneA.area > 0 ? area / zoneA.area : 0,
+          shareOfB: zoneB.area > 0 ? area / zoneB.area : 0,
+          siteIds: this.findSitesInBuffer(polygon, sites).map(site => site.id)
+        });
+      }
+    }
+
+    return overlaps.sort((a, b) => b.area - a.area);
+  }
+
+  /**
+   * Sites within a distance of a road or river, e.g. flood risk near rivers.
+   * Distances are measured to the nearest feature of the overlay.
+   */
+  static async findSitesNearOverlay(
+    sites: SiteWithCategory[],
+    layer: Extract<OverlayLayer, 'roads' | 'rivers'>,
+    distanceMeters: number
+  ): Promise<SiteProximity[]> {
+    const located = sites.filter(site => site.latitude && site.longitude);
+    if (located.length === 0) return [];
+
+    // Search area: the sites' extent grown by the buffer distance
+    const marginLat = distanceMeters / 111320;
+    const marginLon = marginLat / Math.cos((located[0].latitude! * Math.PI) / 180);
+    const { data, source } = await OverlayDataService.getLayer(layer, [
+      Math.min(...located.map(site => site.longitude!)) - marginLon,
+      Math.min(...located.map(site => site.latitude!)) - marginLat,
+      Math.max(...located.map(site => site.longitude!)) + marginLon,
+      Math.max(...located.map(site => site.latitude!)) + marginLat,
+    ]);
+    if (!source) {
+      throw new Error(`No ${layer} data is available; add an extract to public/data/overlays`);
+    }
+
+    const features = data.features
+      .filter(feature => feature.geometry)
+      .map(feature => ({ feature, bbox: geometryBBox(feature.geometry) }))
+      .filter(({ bbox }) => bbox !== null);
+
+    const results: SiteProximity[] = [];
+    for (const site of located) {
+      const point: [number, number] = [site.longitude!, site.latitude!];
+      let nearest: SiteProximity | null = null;
+
+      for (const { feature, bbox } of features) {
+        const [west, south, east, north] = bbox!;
+        if (point[0] < west - marginLon || point[0] > east + marginLon ||
+            point[1] < south - marginLat || point[1] > north + marginLat) continue;
+
+        const distance = distanceToGeometry(point, feature.geometry);
+        if (distance <= distanceMeters && (!nearest || distance < nearest.distance)) {
+          nearest = {
+            site,
+            distance,
+            featureName: feature.properties?.name ?? null,
+            featureKind: feature.properties?.kind ?? null
+          };
+        }
+      }
+
+      if (nearest) results.push(nearest);
+    }
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Buffer zones plus any union, intersection or overlap results as one GeoJSON file
+   */
+  static exportBufferAnalysis(
+    zones: BufferZone[],
+    results: GeoJSON.Feature[] = []
+  ): GeoJSON.FeatureCollection {
+    return {
+      type: 'FeatureCollection',
+      features: [
+        ...zones.map(zone => ({
+          type: 'Feature' as const,
+          geometry: zone.polygon,
+          properties: {
+            kind: 'buffer',
+            siteId: zone.siteId,
+            siteName: zone.siteName,
+            radiusMeters: zone.radius,
+            areaSquareMeters: Math.round(zone.area)
+          }
+        })),
+        ...results
+      ]
+    };
+  }
+
+  /**
+   * GeoJSON feature for an overlap between two zones
+   */
+  static overlapFeature(overlap: BufferOverlap): GeoJSON.Feature<GeoJSON.Polygon> {
+    return this.analysisFeature('overlap', overlap.polygon, [overlap.zoneA, overlap.zoneB]);
+  }
+
+  private static analysisFeature<G extends GeoJSON.Polygon | GeoJSON.MultiPolygon>(
+    kind: BufferAnalysisKind,
+    geometry: G,
+    zones: BufferZone[]
+  ): GeoJSON.Feature<G> {
+    return {
+      type: 'Feature',
+      geometry,
+      properties: {
+        kind,
+        siteIds: zones.map(zone => zone.siteId),
+        siteNames: zones.map(zone => zone.siteName),
+        areaSquareMeters: Math.round(geometryArea(geometry))
+      }
+    };
   }
 
   /**
@@ -135,55 +409,47 @@ export class SpatialAnalysisService {
   }
 
   /**
-   * Create OSM overlay data for roads
+   * Road network overlay clipped to the bounds
    */
   static async getRoadsOverlay(bounds: L.LatLngBounds): Promise<SpatialOverlay> {
-    // This would typically fetch from Overpass API or similar
-    // For now, return a placeholder structure
-    return {
-      id: 'roads-overlay',
-      name: 'Jalan Raya',
-      type: 'roads',
-      data: {
-        type: 'FeatureCollection',
-        features: [] // Would contain actual road geometries
-      },
-      visible: true,
-      opacity: 0.7
-    };
+    return this.loadOverlay('roads', 'Jalan Raya', bounds, 0.7);
   }
 
   /**
-   * Create OSM overlay data for rivers
+   * River and stream overlay clipped to the bounds
    */
   static async getRiversOverlay(bounds: L.LatLngBounds): Promise<SpatialOverlay> {
-    return {
-      id: 'rivers-overlay',
-      name: 'Sungai',
-      type: 'rivers',
-      data: {
-        type: 'FeatureCollection',
-        features: [] // Would contain actual river geometries
-      },
-      visible: true,
-      opacity: 0.6
-    };
+    return this.loadOverlay('rivers', 'Sungai', bounds, 0.6);
   }
 
   /**
-   * Create OSM overlay data for villages
+   * Desa/kelurahan boundaries (or village points) clipped to the bounds
    */
   static async getVillagesOverlay(bounds: L.LatLngBounds): Promise<SpatialOverlay> {
+    return this.loadOverlay('villages', 'Desa/Kelurahan', bounds, 0.5);
+  }
+
+  private static async loadOverlay(
+    type: OverlayLayer,
+    name: string,
+    bounds: L.LatLngBounds,
+    opacity: number
+  ): Promise<SpatialOverlay> {
+    const { data, source } = await OverlayDataService.getLayer(type, [
+      bounds.getWest(),
+      bounds.getSouth(),
+      bounds.getEast(),
+      bounds.getNorth(),
+    ]);
+
     return {
-      id: 'villages-overlay',
-      name: 'Desa/Kelurahan',
-      type: 'villages',
-      data: {
-        type: 'FeatureCollection',
-        features: [] // Would contain actual village boundaries
-      },
+      id: `${type}-overlay`,
+      name,
+      type,
+      data,
+      source,
       visible: true,
-      opacity: 0.5
+      opacity
     };
   }
 
@@ -191,92 +457,189 @@ export class SpatialAnalysisService {
    * Calculate spatial statistics for sites
    */
   static calculateSpatialStats(sites: SiteWithCategory[]) {
-    if (sites.length === 0) {
+    const located = sites.filter(site => site.latitude && site.longitude);
+    if (located.length === 0) {
       return {
-        totalSites: 0,
+        totalSites: sites.length,
         averageDistance: 0,
         density: 0,
+        nearestNeighbour: null,
         clusters: []
       };
     }
 
-    // Calculate centroid
-    const centroid = sites.reduce(
-      (acc, site) => {
-        if (site.latitude && site.longitude) {
-          return [
-            acc[0] + site.latitude / sites.length,
-            acc[1] + site.longitude / sites.length
-          ];
-        }
-        return acc;
-      },
-      [0, 0]
-    );
+    const centroid = this.calculateClusterCenter(located);
 
     // Calculate average distance from centroid
-    const distances = sites
-      .filter(site => site.latitude && site.longitude)
-      .map(site => this.calculateDistance(
-        centroid as [number, number],
-        [site.latitude!, site.longitude!]
-      ));
+    const averageDistance = located
+      .map(site => this.calculateDistance(centroid, [site.latitude!, site.longitude!]))
+      .reduce((sum, d) => sum + d, 0) / located.length;
 
-    const averageDistance = distances.reduce((sum, d) => sum + d, 0) / distances.length;
-
-    // Simple density calculation (sites per square km)
-    // This is a rough approximation
-    const area = Math.PI * Math.pow(averageDistance / 1000, 2);
-    const density = sites.length / area;
+    // Sites per square km of the area they actually span
+    const hull = convexHull(located.map(site => [site.longitude!, site.latitude!]));
+    const area = hull ? geometryArea({ type: 'Polygon', coordinates: [hull] }) : 0;
+    const density = area > 0 ? located.length / (area / 1_000_000) : 0;
 
     return {
       totalSites: sites.length,
       averageDistance,
       density,
-      clusters: this.identifyClusters(sites)
+      // Clark-Evans ratio within the same hull
+      nearestNeighbour: averageNearestNeighbour(
+        projectToMeters(located.map(site => [site.longitude!, site.latitude!])),
+        area
+      ),
+      clusters: this.identifyClusters(located)
     };
   }
 
   /**
-   * Identify spatial clusters of sites
+   * Global and local Moran's I plus Getis-Ord Gi* hot spots for a site
+   * attribute, using binary distance-band neighbours. The band defaults to
+   * the largest nearest-neighbour distance so every site has a neighbour.
    */
-  private static identifyClusters(sites: SiteWithCategory[]): SpatialCluster[] {
-    // Simple clustering algorithm - group sites within 2km of each other
-    const clusters: SiteWithCategory[][] = [];
-    const processed = new Set<string>();
-
-    sites.forEach(site => {
-      if (processed.has(site.id) || !site.latitude || !site.longitude) return;
-
-      const cluster: SiteWithCategory[] = [site];
-      processed.add(site.id);
-
-      sites.forEach(otherSite => {
-        if (
-          !processed.has(otherSite.id) &&
-          otherSite.latitude &&
-          otherSite.longitude &&
-          this.calculateDistance(
-            [site.latitude, site.longitude],
-            [otherSite.latitude, otherSite.longitude]
-          ) <= 2000 // 2km
-        ) {
-          cluster.push(otherSite);
-          processed.add(otherSite.id);
+  static analyzeAutocorrelation(
+    sites: SiteWithCategory[],
+    attribute: StatisticAttribute,
+    distanceBand?: number
+  ): SpatialAutocorrelation | null {
+    const measured = sites
+      .filter(site => site.latitude && site.longitude)
+      .map(site => ({ site, value: this.attributeValue(site, attribute) }))
+      .filter((entry): entry is { site: SiteWithCategory; value: number } => entry.value !== null);
+    if (measured.length < 4) return null;
+
+    const points = projectToMeters(measured.map(({ site }) => [site.longitude!, site.latitude!]));
+    const band = distanceBand ?? Math.max(...nearestNeighbourDistances(points));
+    if (!(band > 0)) return null;
+
+    const values = measured.map(({ value }) => value);
+    const neighbours = distanceBandNeighbours(points, band);
+    const local = localMoran(values, neighbours);
+    const giStar = getisOrdGiStar(values, neighbours);
+    // Every site has the same value
+    if (!local || !giStar) return null;
+
+    return {
+      attribute,
+      distanceBand: band,
+      global: globalMoran(values, neighbours),
+      sites: measured.map(({ site, value }, index) => {
+        const giZScore = giStar[index];
+        const level = Math.abs(giZScore) >= 2.576 ? 99 : Math.abs(giZScore) >= 1.96 ? 95 : Math.abs(giZScore) >= 1.645 ? 90 : 0;
+        return {
+          site,
+          value,
+          giZScore,
+          giPValue: twoSidedPValue(giZScore),
+          confidence: Math.sign(giZScore) * level,
+          localMoran: local[index],
+          lisaCluster: local[index].pValue < 0.05 ? local[index].quadrant : null
+        };
+      })
+    };
+  }
+
+  /**
+   * Kernel density of sites (sites per square km) on a regular grid. The
+   * bandwidth defaults to Silverman's rule of thumb.
+   */
+  static calculateKernelDensity(sites: SiteWithCategory[], bandwidth?: number): DensityGrid | null {
+    const positions: [number, number][] = sites
+      .filter(site => site.latitude && site.longitude)
+      .map(site => [site.longitude!, site.latitude!]);
+    return kernelDensity(positions, { bandwidth });
+  }
+
+  private static attributeValue(site: SiteWithCategory, attribute: StatisticAttribute): number | null {
+    if (attribute === 'cultural_significance_score') return site.cultural_significance_score ?? null;
+    // Ordinal condition scale, higher is better preserved
+    switch (site.preservation_status) {
+      case 'excellent': return 5;
+      case 'good': return 4;
+      case 'restored': return 4;
+      case 'fair': return 3;
+      case 'under_restoration': return 2;
+      case 'poor': return 2;
+      case 'critical': return 1;
+      default: return null;
+    }
+  }
+
+  /**
+   * Group sites with DBSCAN, k-means or agglomerative clustering. Distances
+   * are measured in metres; sites without coordinates are ignored.
+   */
+  static clusterSites(sites: SiteWithCategory[], options: ClusteringOptions): ClusteringResult {
+    const located = sites.filter(site => site.latitude && site.longitude);
+    const points = projectToMeters(located.map(site => [site.longitude!, site.latitude!]));
+
+    let labels: ClusterLabels;
+    switch (options.method) {
+      case 'dbscan':
+        if (options.eps <= 0 || options.minPoints < 1) {
+          throw new Error('DBSCAN needs a positive eps and at least one point per cluster');
         }
-      });
+        labels = dbscan(points, options.eps, options.minPoints);
+        break;
+      case 'kmeans':
+        if (options.k < 1) throw new Error('k-means needs at least one cluster');
+        labels = kMeans(points, options.k);
+        break;
+      case 'hierarchical':
+        if (options.distance <= 0) throw new Error('Hierarchical clustering needs a positive distance');
+        labels = hierarchical(points, options.distance, options.linkage);
+        break;
+    }
 
-      if (cluster.length > 1) {
-        clusters.push(cluster);
+    const groups: SiteWithCategory[][] = [];
+    const noise: SiteWithCategory[] = [];
+    labels.forEach((label, index) => {
+      if (label === NOISE) {
+        noise.push(located[index]);
+        return;
       }
+      (groups[label] ??= []).push(located[index]);
     });
 
-    return clusters.map((cluster, index) => ({
+    return {
+      clusters: groups.map((members, index) => this.describeCluster(index, members, options.hull ?? 'convex')),
+      noise
+    };
+  }
+
+  /**
+   * Identify spatial clusters of sites: DBSCAN with a 2 km neighbourhood,
+   * so any two sites within 2 km of each other share a cluster
+   */
+  private static identifyClusters(sites: SiteWithCategory[]): SpatialCluster[] {
+    return this.clusterSites(sites, { method: 'dbscan', eps: 2000, minPoints: 2 }).clusters;
+  }
+
+  private static describeCluster(index: number, sites: SiteWithCategory[], hullType: ClusterHullType): SpatialCluster {
+    const positions: [number, number][] = sites.map(site => [site.longitude!, site.latitude!]);
+    const ring = hullType === 'concave' ? concaveHull(positions) : convexHull(positions);
+    const hull: GeoJSON.Polygon | null = ring ? { type: 'Polygon', coordinates: [ring] } : null;
+    const area = hull ? geometryArea(hull) : 0;
+
+    const tally = (key: (site: SiteWithCategory) => string) =>
+      sites.reduce<Record<string, number>>((counts, site) => {
+        counts[key(site)] = (counts[key(site)] ?? 0) + 1;
+        return counts;
+      }, {});
+
+    return {
       id: `cluster-${index}`,
-      sites: cluster,
-      center: this.calculateClusterCenter(cluster),
-      siteCount: cluster.length
-    }));
+      sites,
+      center: this.calculateClusterCenter(sites),
+      siteCount: sites.length,
+      hull,
+      area,
+      density: area > 0 ? sites.length / (area / 1_000_000) : 0,
+      byCategory: tally(site => site.category_name ?? 'Uncategorized'),
+      byPreservationStatus: tally(site => site.preservation_status ?? 'unknown'),
+      color: CLUSTER_COLORS[index % CLUSTER_COLORS.length]
+    };
   }
 
   /**
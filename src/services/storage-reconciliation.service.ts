@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { SiteMediaService } from "@/services/site-media.service";
+import { fetchAllRows } from "@/lib/supabase-paging";
+
+type SiteMedia = Database['public']['Tables']['site_media']['Row'];
+
+export interface StorageObjectInfo {
+  path: string;
+  size: number | null;
+  updatedAt: string | null;
+}
+
+export interface MissingObjectRow {
+  media: SiteMedia;
+  siteName: string | null;
+  missingPaths: string[];
+  // The original file is gone, not only resized versions
+  originalMissing: boolean;
+}
+
+export interface ReconciliationReport {
+  orphanObjects: StorageObjectInfo[];
+  missingObjects: MissingObjectRow[];
+  totalObjects: number;
+  totalRows: number;
+}
+
+const BUCKET = 'gallery';
+const LIST_PAGE_SIZE = 1000;
+// Storage API limit for a single remove() call
+const REMOVE_BATCH_SIZE = 100;
+
+export class StorageReconciliationService {
+  /**
+   * Compare the gallery bucket with site_media: objects no row points to, and
+   * rows whose original or resized files are missing
+   */
+  static async buildReport(): Promise<ReconciliationReport> {
+    const [objects, rows] = await Promise.all([
+      this.listObjects(),
+      fetchAllRows((from, to) =>
+        supabase.from('site_media').select('*, cultural_sites(name)').order('id').range(from, to)
+      ),
+    ]);
+
+    const objectPaths = new Set(objects.map(object => object.path));
+    const referenced = new Set<string>();
+    const missingObjects: MissingObjectRow[] = [];
+
+    for (const { cultural_sites, ...media } of rows) {
+      const paths = SiteMediaService.getStoragePaths(media);
+      // Rows pointing outside the bucket (e.g. external URLs) cannot be checked
+      const original = media.storage_path ?? SiteMediaService.storagePathFromUrl(media.file_url);
+      if (!original) continue;
+
+      paths.forEach(path => referenced.add(path));
+      const missingPaths = paths.filter(path => !objectPaths.has(path));
+      if (missingPaths.length > 0) {
+        missingObjects.push({
+          media,
+          siteName: cultural_sites?.name ?? null,
+          missingPaths,
+          originalMissing: missingPaths.includes(original),
+        });
+      }
+    }
+
+    return {
+      orphanObjects: objects.filter(object => !referenced.has(object.path)),
+      missingObjects: missingObjects.sort((a, b) => Number(b.originalMissing) - Number(a.originalMissing)),
+      totalObjects: objects.length,
+      totalRows: rows.length,
+    };
+  }
+
+  /**
+   * Remove objects from the gallery bucket
+   */
+  static async deleteObjects(paths: string[]): Promise<void> {
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const { error } = await supabase.storage.from(BUCKET).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+      if (error) throw error;
+    }
+  }
+
+  /**
+   * Delete site_media rows whose original file no longer exists, together
+   * with any resized versions that are still stored
+   */
+  static async deleteRows(rows: MissingObjectRow[]): Promise<void> {
+    for (const row of rows) {
+      await SiteMediaService.deleteImage(row.media);
+    }
+  }
+
+  /**
+   * Drop an incomplete set of resized versions so galleries fall back to the
+   * original. Versions that still exist are removed so they do not become orphans.
+   */
+  static async clearVariants(row: MissingObjectRow): Promise<void> {
+    const metadata = row.media.metadata && typeof row.media.metadata === 'object' && !Array.isArray(row.media.metadata)
+      ? row.media.metadata
+      : {};
+    await SiteMediaService.updateImage(row.media.id, { metadata: { ...metadata, variants: null } });
+
+    const original = row.media.storage_path ?? SiteMediaService.storagePathFromUrl(row.media.file_url);
+    const remaining = SiteMediaService.getStoragePaths(row.media)
+      .filter(path => path !== original && !row.missingPaths.includes(path));
+    await this.deleteObjects(remaining);
+  }
+
+  /**
+   * List every object in the bucket. Folders (one per site) come back as
+   * entries without an id and are walked recursively.
+   */
+  private static async listObjects(prefix = ''): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(BUCKET)
+        .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+      if (error) throw error;
+
+      for (const entry of data || []) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.id === null) {
+          objects.push(...await this.listObjects(path));
+        } else {
+          objects.push({
+            path,
+            size: typeof entry.metadata?.size === 'number' ? entry.metadata.size : null,
+            updatedAt: entry.updated_at ?? null,
+          });
+        }
+      }
+      if (!data || data.length < LIST_PAGE_SIZE) break;
+    }
+    return objects;
+  }
+}
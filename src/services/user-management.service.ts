@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Profile, UserRole } from "@/types/profiles";
+
+export interface ProfileFilter {
+  search?: string;
+  role?: UserRole;
+  // Undefined lists both active and deactivated accounts
+  isActive?: boolean;
+}
+
+export interface UserContributions {
+  sitesCreated: number;
+  reviewsWritten: number;
+  analysesProcessed: number;
+  mediaUploaded: number;
+}
+
+/**
+ * Admin operations on profiles. The database only lets holders of the
+ * users.manage permission change role, verification and activation.
+ */
+export class UserManagementService {
+  static async fetchProfiles(filter: ProfileFilter = {}): Promise<Profile[]> {
+    let query = supabase
+      .from('profiles')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (filter.search?.trim()) {
+      const term = filter.search.trim().replace(/[%,()]/g, ' ');
+      query = query.or(`full_name.ilike.%${term}%,organization.ilike.%${term}%,location.ilike.%${term}%`);
+    }
+    if (filter.role) query = query.eq('role', filter.role);
+    if (filter.isActive !== undefined) query = query.eq('is_active', filter.isActive);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async updateRole(userId: string, role: UserRole): Promise<Profile> {
+    return this.updateProfile(userId, { role });
+  }
+
+  /**
+   * Mark an expert's credentials as checked; shown as a badge on their contributions
+   */
+  static async setVerified(userId: string, isVerified: boolean): Promise<Profile> {
+    return this.updateProfile(userId, { is_verified: isVerified });
+  }
+
+  /**
+   * Deactivated users lose all permissions and cannot sign in; their
+   * contributions stay in place
+   */
+  static async setActive(userId: string, isActive: boolean): Promise<Profile> {
+    return this.updateProfile(userId, { is_active: isActive });
+  }
+
+  static async getContributions(userId: string): Promise<UserContributions> {
+    const count = async (query: PromiseLike<{ count: number | null; error: unknown }>) => {
+      const { count, error } = await query;
+      if (error) throw error;
+      return count ?? 0;
+    };
+
+    const [sitesCreated, reviewsWritten, analysesProcessed, mediaUploaded] = await Promise.all([
+      count(supabase.from('cultural_sites').select('id', { count: 'exact', head: true }).eq('created_by', userId)),
+      count(supabase.from('site_reviews').select('id', { count: 'exact', head: true }).eq('user_id', userId)),
+      count(supabase.from('ai_analysis').select('id', { count: 'exact', head: true }).eq('processed_by', userId)),
+      count(supabase.from('site_media').select('id', { count: 'exact', head: true }).eq('uploaded_by', userId)),
+    ]);
+
+    return { sitesCreated, reviewsWritten, analysesProcessed, mediaUploaded };
+  }
+
+  private static async updateProfile(
+    userId: string,
+    updates: Partial<Pick<Profile, 'role' | 'is_verified' | 'is_active'>>
+  ): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+}
@@ -0,0 +1,4 @@
+import { Tables } from '../integrations/supabase/types'
+
+export type AdministrativeArea = Tables<'administrative_areas'>
+export type AdministrativeLevel = 'regency' | 'district' | 'village'
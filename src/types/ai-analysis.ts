@@ -3,4 +3,10 @@ import { Tables, TablesInsert, TablesUpdate, Enums } from '../integrations/supab
 export type AiAnalysis = Tables<'ai_analysis'>
 export type AiAnalysisInsert = TablesInsert<'ai_analysis'>
 export type AiAnalysisUpdate = TablesUpdate<'ai_analysis'>
-export type AnalysisStatus = Enums<'analysis_status'>
\ No newline at end of file
+export type AnalysisStatus = Enums<'analysis_status'>
+export type ReviewDecision = 'accepted' | 'corrected'
+
+export interface ReviewQueueItem extends AiAnalysis {
+  site_media: { title: string | null; file_url: string } | null
+  cultural_sites: { name: string } | null
+}
@@ -0,0 +1,4 @@
+import { Enums, Tables } from '../integrations/supabase/types'
+
+export type AuditLogEntry = Tables<'audit_log'>
+export type AuditAction = Enums<'audit_action'>
@@ -10,4 +10,8 @@ export * from './route-sites'
 export * from './site-media'
 export * from './site-reviews'
 export * from './tourism-routes'
-export * from './sites-with-categories'
\ No newline at end of file
+export * from './sites-with-categories'
+export * from './audit-log'
+export * from './site-revisions'
+export * from './role-invitations'
+export * from './administrative-areas'
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { Tables } from '../integrations/supabase/types'
+
+export type RoleInvitation = Tables<'role_invitations'>
+export type RoleGrant = Tables<'role_grants'>
+export type RoleInvitationStatus = 'active' | 'redeemed' | 'expired' | 'revoked'
@@ -0,0 +1,5 @@
+import { Enums, Tables } from '../integrations/supabase/types'
+
+export type SiteRevision = Tables<'site_revisions'>
+export type PublicationStatus = Enums<'publication_status'>
+export type SiteRevisionKind = 'create' | 'update'
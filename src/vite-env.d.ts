@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CLASSIFIER_MODEL_ID?: string;
+  readonly VITE_CONDITION_MODEL_ID?: string;
+  readonly VITE_EMBEDDING_MODEL_ID?: string;
+  readonly VITE_CLASSIFIER_DEVICES?: string;
+  readonly VITE_CLASSIFIER_LOCAL_MODELS?: string;
+  readonly VITE_CLASSIFIER_LOCAL_ONLY?: string;
+  readonly VITE_CLASSIFIER_LOCAL_PATH?: string;
+  readonly VITE_CLASSIFIER_WASM_PATH?: string;
+  readonly VITE_REVIEW_CONFIDENCE_THRESHOLD?: string;
+  readonly VITE_MEDIA_GPS_MAX_DISTANCE_KM?: string;
+  readonly VITE_OVERLAY_BASE_URL?: string;
+}
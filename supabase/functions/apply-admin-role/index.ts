@@ -8,7 +8,6 @@ const corsHeaders = {
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-const ADMIN_SECURITY_CODE = Deno.env.get("ADMIN_SECURITY_CODE");
 
 if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
   console.error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY env var");
@@ -16,8 +15,24 @@ if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
 
 const supabaseAdmin = createClient(SUPABASE_URL!, SERVICE_ROLE_KEY!);
 
-interface ApplyAdminPayload {
-  securityCode: string;
+interface RedeemInvitationPayload {
+  token: string;
+}
+
+// Statuses returned by public.redeem_role_invitation()
+const REDEEM_ERRORS: Record<string, { status: number; message: string }> = {
+  invalid: { status: 403, message: "Invalid invitation code" },
+  expired: { status: 403, message: "This invitation has expired" },
+  used: { status: 403, message: "This invitation has already been used" },
+  revoked: { status: 403, message: "This invitation has been revoked" },
+  rate_limited: { status: 429, message: "Too many failed attempts, try again in 15 minutes" },
+};
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
 }
 
 serve(async (req) => {
@@ -45,46 +60,42 @@ serve(async (req) => {
       });
     }
 
-    const { securityCode } = (await req.json()) as ApplyAdminPayload;
+    const { token } = (await req.json()) as RedeemInvitationPayload;
 
-    if (!securityCode || !ADMIN_SECURITY_CODE || securityCode !== ADMIN_SECURITY_CODE) {
-      return new Response(JSON.stringify({ error: "Invalid security code" }), {
-        status: 403,
+    if (!token?.trim()) {
+      return new Response(JSON.stringify({ error: "Missing invitation code" }), {
+        status: 400,
         headers: { "Content-Type": "application/json", ...corsHeaders },
       });
     }
 
-    const userId = userData.user.id;
-
-    // Try update first
-    const { error: updateErr, count } = await supabaseAdmin
-      .from("profiles")
-      .update({ role: "admin" })
-      .eq("user_id", userId)
-      .select("user_id", { count: "exact", head: true });
+    // Validation, rate limiting, the role change and its log entry happen in
+    // one transaction in the database
+    const { data, error: redeemErr } = await supabaseAdmin.rpc("redeem_role_invitation", {
+      p_token_hash: await sha256(token.trim()),
+      p_user_id: userData.user.id,
+      p_full_name: userData.user.email || "User",
+    });
 
-    if (updateErr) {
-      console.error("Update error:", updateErr);
+    if (redeemErr) {
+      console.error("Redeem error:", redeemErr);
+      return new Response(JSON.stringify({ error: redeemErr.message }), {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
     }
 
-    if (!count || count === 0) {
-      // Fallback to insert if profile doesn't exist yet
-      const { error: insertErr } = await supabaseAdmin.from("profiles").insert({
-        user_id: userId,
-        role: "admin",
-        full_name: userData.user.email || "Admin User",
+    const result = data?.[0];
+    if (!result || result.status !== "granted") {
+      const failure = REDEEM_ERRORS[result?.status] ?? REDEEM_ERRORS.invalid;
+      return new Response(JSON.stringify({ error: failure.message }), {
+        status: failure.status,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
       });
-      if (insertErr) {
-        console.error("Insert error:", insertErr);
-        return new Response(JSON.stringify({ error: insertErr.message }), {
-          status: 500,
-          headers: { "Content-Type": "application/json", ...corsHeaders },
-        });
-      }
     }
 
     return new Response(
-      JSON.stringify({ success: true, message: "Admin role applied" }),
+      JSON.stringify({ success: true, role: result.role, message: `Role ${result.role} applied` }),
       { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
     );
   } catch (e: any) {
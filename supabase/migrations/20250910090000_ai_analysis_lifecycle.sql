@@ -0,0 +1,28 @@
+-- Allow AI analysis jobs to move through their lifecycle
+-- (pending -> processing -> completed / failed / requires_review)
+
+-- Processors, researchers and admins can update analysis rows
+CREATE POLICY "Processors and researchers can update AI analysis"
+ON public.ai_analysis
+FOR UPDATE
+USING (
+  auth.uid() = processed_by OR
+  EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role IN ('admin', 'researcher', 'cultural_expert'))
+);
+
+-- Admins can delete analysis rows
+CREATE POLICY "Admins can delete AI analysis"
+ON public.ai_analysis
+FOR DELETE
+USING (
+  EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+-- Deleting an image should not leave dangling analysis references
+ALTER TABLE public.ai_analysis DROP CONSTRAINT IF EXISTS ai_analysis_image_id_fkey;
+ALTER TABLE public.ai_analysis
+  ADD CONSTRAINT ai_analysis_image_id_fkey
+  FOREIGN KEY (image_id) REFERENCES public.site_media(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_image ON public.ai_analysis(image_id);
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_status ON public.ai_analysis(status);
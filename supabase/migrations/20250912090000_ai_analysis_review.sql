@@ -0,0 +1,14 @@
+-- Human review of low-confidence AI analyses.
+-- The reviewer is recorded in processed_by; the accepted or corrected label
+-- is kept next to the original predictions for training data export.
+
+ALTER TABLE public.ai_analysis
+  ADD COLUMN IF NOT EXISTS review_decision TEXT CHECK (review_decision IN ('accepted', 'corrected')),
+  ADD COLUMN IF NOT EXISTS reviewed_label TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_category heritage_category,
+  ADD COLUMN IF NOT EXISTS review_notes TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_review_queue
+  ON public.ai_analysis(analysis_type, confidence_score)
+  WHERE reviewed_at IS NULL;
@@ -0,0 +1,24 @@
+-- Feature vectors of gallery images for "similar photos" search
+CREATE TABLE public.image_embeddings (
+  media_id UUID NOT NULL PRIMARY KEY REFERENCES site_media(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES cultural_sites(id) ON DELETE CASCADE,
+  model_version TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  embedding DOUBLE PRECISION[] NOT NULL, -- L2-normalised
+  created_by UUID REFERENCES profiles(user_id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.image_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Image embeddings are viewable by everyone" ON public.image_embeddings FOR SELECT USING (true);
+CREATE POLICY "Authenticated users can create image embeddings" ON public.image_embeddings FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Authenticated users can refresh image embeddings" ON public.image_embeddings FOR UPDATE USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Admins can delete image embeddings" ON public.image_embeddings FOR DELETE USING (
+  EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+CREATE INDEX idx_image_embeddings_model ON public.image_embeddings(model_version);
+
+CREATE TRIGGER update_image_embeddings_updated_at BEFORE UPDATE ON public.image_embeddings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
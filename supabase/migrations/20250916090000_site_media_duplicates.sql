@@ -0,0 +1,15 @@
+-- Duplicate detection: fingerprints live in site_media.metadata->'fingerprint'.
+-- Admins need to update and delete any image to merge duplicate clusters,
+-- and uploaders could not delete their own images before.
+
+CREATE POLICY "Media uploaders and admins can delete media" ON public.site_media FOR DELETE USING (
+  auth.uid() = uploaded_by OR
+  EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Admins can update any media" ON public.site_media FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_media_content_hash
+  ON public.site_media ((metadata->'fingerprint'->>'content_hash'));
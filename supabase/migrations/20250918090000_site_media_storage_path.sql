@@ -0,0 +1,24 @@
+-- site_media rows now record the object key in the gallery bucket so deletes
+-- remove the right object. Older rows only had the public URL.
+
+ALTER TABLE public.site_media ADD COLUMN IF NOT EXISTS storage_path text;
+
+-- Public URLs look like .../storage/v1/object/public/gallery/<site id>/<timestamp>.<ext>
+UPDATE public.site_media
+SET storage_path = substring(file_url from '/storage/v1/object/public/gallery/([^?#]+)')
+WHERE storage_path IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_site_media_storage_path ON public.site_media (storage_path);
+
+-- Storage reconciliation: admins list every object in the bucket and remove orphans
+CREATE POLICY "Admins can list gallery objects" ON storage.objects FOR SELECT USING (
+  bucket_id = 'gallery' AND
+  EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Uploaders and admins can delete gallery objects" ON storage.objects FOR DELETE USING (
+  bucket_id = 'gallery' AND (
+    owner = auth.uid() OR
+    EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin')
+  )
+);
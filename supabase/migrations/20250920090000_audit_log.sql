@@ -0,0 +1,107 @@
+-- Append-only change history for heritage records. Rows are written by
+-- triggers, so changes made from any client or edge function are captured.
+
+CREATE TYPE public.audit_action AS ENUM ('INSERT', 'UPDATE', 'DELETE');
+
+-- No foreign keys: history must survive deleted records and users
+CREATE TABLE public.audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action public.audit_action NOT NULL,
+  changed_by UUID,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, changed_at DESC);
+CREATE INDEX idx_audit_log_changed_at ON public.audit_log (changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read the audit log" ON public.audit_log FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role IN ('admin', 'researcher', 'cultural_expert', 'local_authority')
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  fields TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}') INTO fields
+    FROM jsonb_each(new_row) AS n
+    WHERE n.key <> 'updated_at' AND n.value IS DISTINCT FROM old_row -> n.key;
+
+    -- Only the timestamp changed
+    IF cardinality(fields) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, changed_by, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(new_row ->> 'id', old_row ->> 'id')::uuid,
+    TG_OP::public.audit_action,
+    auth.uid(),
+    old_row,
+    new_row,
+    fields
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_cultural_sites
+  AFTER INSERT OR UPDATE OR DELETE ON public.cultural_sites
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_historical_records
+  AFTER INSERT OR UPDATE OR DELETE ON public.historical_records
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_conservation_projects
+  AFTER INSERT OR UPDATE OR DELETE ON public.conservation_projects
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_cultural_practices
+  AFTER INSERT OR UPDATE OR DELETE ON public.cultural_practices
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_tourism_routes
+  AFTER INSERT OR UPDATE OR DELETE ON public.tourism_routes
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_heritage_categories
+  AFTER INSERT OR UPDATE OR DELETE ON public.heritage_categories
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
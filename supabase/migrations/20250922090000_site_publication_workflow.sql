@@ -0,0 +1,120 @@
+-- Moderation workflow for cultural sites. Contributors submit new sites and
+-- edits as drafts, reviewers (cultural_expert, admin) approve or reject them.
+-- Only verified sites are published through sites_with_categories.
+
+CREATE TYPE public.publication_status AS ENUM ('draft', 'pending_review', 'verified', 'rejected');
+
+ALTER TABLE public.cultural_sites
+  ADD COLUMN IF NOT EXISTS publication_status public.publication_status NOT NULL DEFAULT 'draft';
+
+-- Everything that was live before the workflow stays published
+UPDATE public.cultural_sites
+SET publication_status = 'verified',
+    verified_at = COALESCE(verified_at, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_cultural_sites_publication_status ON public.cultural_sites(publication_status);
+
+-- A submission waiting for review. 'create' revisions review the site row
+-- itself; 'update' revisions hold the proposed field values of a published site.
+CREATE TABLE public.site_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  site_id UUID NOT NULL REFERENCES public.cultural_sites(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('create', 'update')),
+  changes JSONB NOT NULL DEFAULT '{}',
+  status public.publication_status NOT NULL DEFAULT 'draft',
+  submitted_by UUID NOT NULL REFERENCES public.profiles(user_id),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES public.profiles(user_id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_site_revisions_site ON public.site_revisions(site_id);
+CREATE INDEX idx_site_revisions_queue ON public.site_revisions(submitted_at) WHERE status = 'pending_review';
+CREATE INDEX idx_site_revisions_submitter ON public.site_revisions(submitted_by, updated_at DESC);
+
+CREATE TRIGGER update_site_revisions_updated_at
+  BEFORE UPDATE ON public.site_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.site_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contributors and reviewers can read their revisions" ON public.site_revisions FOR SELECT USING (
+  submitted_by = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'cultural_expert'))
+);
+
+CREATE POLICY "Contributors can submit revisions" ON public.site_revisions FOR INSERT WITH CHECK (
+  submitted_by = auth.uid()
+  AND status IN ('draft', 'pending_review')
+  AND EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role IN ('researcher', 'local_authority', 'guide', 'cultural_expert', 'admin')
+  )
+);
+
+CREATE POLICY "Contributors can edit their open revisions" ON public.site_revisions FOR UPDATE
+USING (submitted_by = auth.uid() AND status IN ('draft', 'pending_review', 'rejected'))
+WITH CHECK (submitted_by = auth.uid() AND status IN ('draft', 'pending_review'));
+
+CREATE POLICY "Reviewers can review revisions" ON public.site_revisions FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'cultural_expert'))
+);
+
+CREATE POLICY "Contributors can discard their drafts" ON public.site_revisions FOR DELETE USING (
+  submitted_by = auth.uid() AND status = 'draft'
+);
+
+-- Contributors may work on their unpublished sites, but cannot publish a site
+-- or change one that is already published; that goes through a revision.
+CREATE OR REPLACE FUNCTION public.enforce_site_publication()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Migrations, edge functions with the service key and reviewers are not restricted
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role IN ('admin', 'cultural_expert')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.publication_status = 'verified' THEN
+    RAISE EXCEPTION 'Published sites can only be changed through a reviewed revision';
+  END IF;
+
+  IF NEW.publication_status = 'verified' THEN
+    RAISE EXCEPTION 'Only reviewers can publish a site';
+  END IF;
+
+  NEW.verified_at := NULL;
+  NEW.verified_by := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_cultural_sites_publication
+  BEFORE INSERT OR UPDATE ON public.cultural_sites
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_site_publication();
+
+-- Only published sites are public. The column list changes, so the view is recreated.
+DROP VIEW IF EXISTS public.sites_with_categories;
+
+CREATE VIEW public.sites_with_categories AS
+SELECT
+  cs.*,
+  hc.name as category_name,
+  hc.description as category_description,
+  hc.color_hex as category_color,
+  COALESCE((SELECT COUNT(*) FROM site_reviews sr WHERE sr.site_id = cs.id), 0) as review_count,
+  COALESCE((SELECT AVG(rating)::DECIMAL(3,2) FROM site_reviews sr WHERE sr.site_id = cs.id), 0) as average_rating,
+  COALESCE((SELECT COUNT(*) FROM ai_analysis aa WHERE aa.site_id = cs.id AND aa.status = 'completed'), 0) as ai_analysis_count
+FROM cultural_sites cs
+LEFT JOIN heritage_categories hc ON cs.category_id = hc.id
+WHERE cs.is_active = true AND cs.publication_status = 'verified';
+
+GRANT SELECT ON public.sites_with_categories TO authenticated, anon;
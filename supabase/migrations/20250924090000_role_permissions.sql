@@ -0,0 +1,67 @@
+-- Role-based permission matrix. Mirrors ROLE_PERMISSIONS in
+-- src/lib/permissions.ts; keep both in sync when changing either.
+
+CREATE OR REPLACE FUNCTION public.has_permission(permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE((
+    SELECT CASE p.role
+      WHEN 'admin' THEN true
+      WHEN 'cultural_expert' THEN permission IN (
+        'admin.access', 'dashboard.view', 'sites.contribute', 'sites.review', 'practices.manage',
+        'historical_records.manage', 'routes.manage', 'conservation.manage', 'reviews.moderate', 'ai.review', 'audit.view'
+      )
+      WHEN 'researcher' THEN permission IN (
+        'admin.access', 'dashboard.view', 'sites.contribute', 'historical_records.manage', 'ai.review', 'audit.view'
+      )
+      WHEN 'local_authority' THEN permission IN (
+        'admin.access', 'dashboard.view', 'sites.contribute', 'conservation.manage', 'audit.view'
+      )
+      WHEN 'guide' THEN permission IN ('admin.access', 'sites.contribute', 'routes.manage')
+      ELSE false
+    END
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid()
+  ), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated, anon;
+
+-- Guides and experts manage routes, not only admins
+CREATE POLICY "Route managers can update routes" ON public.tourism_routes FOR UPDATE
+  USING (public.has_permission('routes.manage'));
+CREATE POLICY "Route managers can delete routes" ON public.tourism_routes FOR DELETE
+  USING (public.has_permission('routes.manage'));
+CREATE POLICY "Route managers can manage route sites" ON public.route_sites FOR ALL
+  USING (public.has_permission('routes.manage'))
+  WITH CHECK (public.has_permission('routes.manage'));
+
+-- Researchers and experts curate historical records
+CREATE POLICY "Record managers can insert records" ON public.historical_records FOR INSERT
+  WITH CHECK (public.has_permission('historical_records.manage'));
+CREATE POLICY "Record managers can update records" ON public.historical_records FOR UPDATE
+  USING (public.has_permission('historical_records.manage'));
+CREATE POLICY "Record managers can delete records" ON public.historical_records FOR DELETE
+  USING (public.has_permission('historical_records.manage'));
+
+CREATE POLICY "Practice managers can insert practices" ON public.cultural_practices FOR INSERT
+  WITH CHECK (public.has_permission('practices.manage'));
+CREATE POLICY "Practice managers can update practices" ON public.cultural_practices FOR UPDATE
+  USING (public.has_permission('practices.manage'));
+CREATE POLICY "Practice managers can delete practices" ON public.cultural_practices FOR DELETE
+  USING (public.has_permission('practices.manage'));
+
+CREATE POLICY "Conservation managers can update projects" ON public.conservation_projects FOR UPDATE
+  USING (public.has_permission('conservation.manage'));
+CREATE POLICY "Conservation managers can delete projects" ON public.conservation_projects FOR DELETE
+  USING (public.has_permission('conservation.manage'));
+
+-- Moderators verify and remove visitor reviews
+CREATE POLICY "Moderators can update reviews" ON public.site_reviews FOR UPDATE
+  USING (public.has_permission('reviews.moderate'));
+CREATE POLICY "Moderators can delete reviews" ON public.site_reviews FOR DELETE
+  USING (public.has_permission('reviews.moderate'));
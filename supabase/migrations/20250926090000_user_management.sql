@@ -0,0 +1,90 @@
+-- Admin user management: role changes, expert verification and account
+-- deactivation. Privileged profile columns can only be changed by holders of
+-- the users.manage permission (admins) or by the service role.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON public.profiles(role);
+
+-- Deactivated accounts lose every permission
+CREATE OR REPLACE FUNCTION public.has_permission(permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE((
+    SELECT CASE p.role
+      WHEN 'admin' THEN true
+      WHEN 'cultural_expert' THEN permission IN (
+        'admin.access', 'dashboard.view', 'sites.contribute', 'sites.review', 'practices.manage',
+        'historical_records.manage', 'routes.manage', 'conservation.manage', 'reviews.moderate', 'ai.review', 'audit.view'
+      )
+      WHEN 'researcher' THEN permission IN (
+        'admin.access', 'dashboard.view', 'sites.contribute', 'historical_records.manage', 'ai.review', 'audit.view'
+      )
+      WHEN 'local_authority' THEN permission IN (
+        'admin.access', 'dashboard.view', 'sites.contribute', 'conservation.manage', 'audit.view'
+      )
+      WHEN 'guide' THEN permission IN ('admin.access', 'sites.contribute', 'routes.manage')
+      ELSE false
+    END
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid() AND p.is_active
+  ), false);
+$$;
+
+CREATE POLICY "User managers can update profiles" ON public.profiles FOR UPDATE
+  USING (public.has_permission('users.manage'));
+
+CREATE OR REPLACE FUNCTION public.protect_profile_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Service role (edge functions, migrations)
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_permission('users.manage') THEN
+    -- Keeps at least the acting admin able to manage users
+    IF TG_OP = 'UPDATE' AND NEW.user_id = auth.uid()
+       AND (NEW.role IS DISTINCT FROM OLD.role OR NOT NEW.is_active) THEN
+      RAISE EXCEPTION 'Administrators cannot change their own role or deactivate their own account';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+      NEW.deactivated_at := CASE WHEN NEW.is_active THEN NULL ELSE now() END;
+      -- A ban also ends existing sessions once their access token expires
+      UPDATE auth.users
+      SET banned_until = CASE WHEN NEW.is_active THEN NULL ELSE 'infinity'::timestamptz END
+      WHERE id = NEW.user_id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Everyone else edits only their public details
+  IF TG_OP = 'INSERT' THEN
+    NEW.role := 'tourist';
+    NEW.is_verified := false;
+    NEW.is_active := true;
+    NEW.deactivated_at := NULL;
+  ELSE
+    NEW.role := OLD.role;
+    NEW.is_verified := OLD.is_verified;
+    NEW.is_active := OLD.is_active;
+    NEW.deactivated_at := OLD.deactivated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_privileges
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_privileges();
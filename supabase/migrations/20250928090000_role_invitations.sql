@@ -0,0 +1,153 @@
+-- Role invitations replace the shared ADMIN_SECURITY_CODE. Admins issue
+-- single-use, expiring tokens scoped to one role; the apply-admin-role edge
+-- function redeems them through redeem_role_invitation(). Only the SHA-256
+-- hash of a token is stored.
+
+CREATE TABLE public.role_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  role public.user_role NOT NULL,
+  note TEXT,
+  created_by UUID NOT NULL REFERENCES public.profiles(user_id),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  redeemed_by UUID REFERENCES public.profiles(user_id),
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_role_invitations_created_at ON public.role_invitations(created_at DESC);
+
+ALTER TABLE public.role_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can read invitations" ON public.role_invitations FOR SELECT
+  USING (public.has_permission('users.manage'));
+
+CREATE POLICY "User managers can issue invitations" ON public.role_invitations FOR INSERT
+  WITH CHECK (public.has_permission('users.manage') AND created_by = auth.uid() AND redeemed_by IS NULL);
+
+-- Revocation only; redemption happens in redeem_role_invitation()
+CREATE POLICY "User managers can revoke invitations" ON public.role_invitations FOR UPDATE
+  USING (public.has_permission('users.manage') AND redeemed_at IS NULL)
+  WITH CHECK (redeemed_at IS NULL);
+
+-- Every role change, whether from an invitation or the user management console
+CREATE TABLE public.role_grants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  previous_role public.user_role,
+  role public.user_role NOT NULL,
+  granted_by UUID REFERENCES public.profiles(user_id),
+  invitation_id UUID REFERENCES public.role_invitations(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_role_grants_user ON public.role_grants(user_id, created_at DESC);
+CREATE INDEX idx_role_grants_created_at ON public.role_grants(created_at DESC);
+
+ALTER TABLE public.role_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can read role grants" ON public.role_grants FOR SELECT
+  USING (public.has_permission('users.manage'));
+
+-- Failed redemptions per user, for rate limiting
+CREATE TABLE public.role_invitation_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_role_invitation_attempts_user ON public.role_invitation_attempts(user_id, attempted_at DESC);
+
+-- No policies: only the service role and security definer functions touch it
+ALTER TABLE public.role_invitation_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.log_role_grant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_invitation_id UUID := NULLIF(current_setting('app.role_invitation_id', true), '')::UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.role IS NOT DISTINCT FROM OLD.role THEN
+    RETURN NEW;
+  END IF;
+  -- Default self-service profiles are not grants
+  IF TG_OP = 'INSERT' AND NEW.role = 'tourist' AND v_invitation_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.role_grants (user_id, previous_role, role, granted_by, invitation_id)
+  VALUES (
+    NEW.user_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.role END,
+    NEW.role,
+    auth.uid(),
+    v_invitation_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_profiles_role_grant
+  AFTER INSERT OR UPDATE OF role ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.log_role_grant();
+
+-- Returns 'granted', 'invalid', 'expired', 'used', 'revoked' or 'rate_limited'
+CREATE OR REPLACE FUNCTION public.redeem_role_invitation(p_token_hash TEXT, p_user_id UUID, p_full_name TEXT)
+RETURNS TABLE (status TEXT, role public.user_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_invitation public.role_invitations%ROWTYPE;
+  v_failures INTEGER;
+BEGIN
+  SELECT count(*) INTO v_failures
+  FROM public.role_invitation_attempts a
+  WHERE a.user_id = p_user_id AND a.attempted_at > now() - interval '15 minutes';
+
+  IF v_failures >= 5 THEN
+    RETURN QUERY SELECT 'rate_limited'::TEXT, NULL::public.user_role;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM public.role_invitations i
+  WHERE i.token_hash = p_token_hash
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL OR v_invitation.revoked_at IS NOT NULL OR v_invitation.redeemed_at IS NOT NULL
+     OR v_invitation.expires_at <= now() THEN
+    INSERT INTO public.role_invitation_attempts (user_id) VALUES (p_user_id);
+    RETURN QUERY SELECT
+      CASE
+        WHEN v_invitation.id IS NULL THEN 'invalid'
+        WHEN v_invitation.revoked_at IS NOT NULL THEN 'revoked'
+        WHEN v_invitation.redeemed_at IS NOT NULL THEN 'used'
+        ELSE 'expired'
+      END,
+      NULL::public.user_role;
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.role_invitation_id', v_invitation.id::TEXT, true);
+
+  INSERT INTO public.profiles (user_id, full_name, role)
+  VALUES (p_user_id, COALESCE(p_full_name, 'User'), v_invitation.role)
+  ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.role_invitations
+  SET redeemed_by = p_user_id, redeemed_at = now()
+  WHERE id = v_invitation.id;
+
+  PERFORM set_config('app.role_invitation_id', '', true);
+
+  RETURN QUERY SELECT 'granted'::TEXT, v_invitation.role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_role_invitation(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,28 @@
+-- Avatars for public contributor profiles. Each user writes only inside a
+-- folder named after their user id: avatars/<user id>/<timestamp>.<ext>
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Avatars are viewable by everyone" ON storage.objects FOR SELECT USING (
+  bucket_id = 'avatars'
+);
+
+CREATE POLICY "Users can upload their own avatar" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can replace their own avatar" ON storage.objects FOR UPDATE USING (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own avatar" ON storage.objects FOR DELETE USING (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Contributor pages list everything a user documented
+CREATE INDEX IF NOT EXISTS idx_cultural_sites_created_by ON public.cultural_sites(created_by);
+CREATE INDEX IF NOT EXISTS idx_historical_records_created_by ON public.historical_records(created_by);
+CREATE INDEX IF NOT EXISTS idx_conservation_projects_created_by ON public.conservation_projects(created_by);
+CREATE INDEX IF NOT EXISTS idx_site_reviews_user ON public.site_reviews(user_id);
@@ -0,0 +1,40 @@
+-- Boundaries of Lombok's kabupaten/kota, kecamatan and desa/kelurahan.
+-- cultural_sites.regency/district/village are derived from these by
+-- point-in-polygon on the site coordinates (see administrative-areas.service.ts).
+
+CREATE TABLE public.administrative_areas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  level TEXT NOT NULL CHECK (level IN ('regency', 'district', 'village')),
+  -- Kemendagri area code when the source dataset has one
+  code TEXT,
+  name TEXT NOT NULL,
+  -- Regency of a kecamatan, kecamatan of a desa
+  parent_name TEXT,
+  -- GeoJSON Polygon or MultiPolygon in WGS84
+  geometry JSONB NOT NULL,
+  min_lon DOUBLE PRECISION NOT NULL,
+  min_lat DOUBLE PRECISION NOT NULL,
+  max_lon DOUBLE PRECISION NOT NULL,
+  max_lat DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_administrative_areas_level ON public.administrative_areas(level);
+
+ALTER TABLE public.administrative_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Administrative areas are viewable by everyone" ON public.administrative_areas FOR SELECT USING (true);
+
+CREATE POLICY "Site reviewers can insert administrative areas" ON public.administrative_areas FOR INSERT
+  WITH CHECK (public.has_permission('sites.review'));
+
+CREATE POLICY "Site reviewers can update administrative areas" ON public.administrative_areas FOR UPDATE
+  USING (public.has_permission('sites.review'));
+
+CREATE POLICY "Site reviewers can delete administrative areas" ON public.administrative_areas FOR DELETE
+  USING (public.has_permission('sites.review'));
+
+CREATE TRIGGER update_administrative_areas_updated_at
+  BEFORE UPDATE ON public.administrative_areas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,28 @@
+-- k-NN search over image embeddings in the database, so the ranking sees
+-- every row instead of the first page a client select returns
+CREATE OR REPLACE FUNCTION public.match_image_embeddings(
+  p_embedding DOUBLE PRECISION[],
+  p_model_version TEXT,
+  p_match_count INTEGER,
+  p_exclude_media_id UUID DEFAULT NULL
+)
+RETURNS TABLE (media_id UUID, similarity DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  -- Embeddings are L2-normalised, but normalise again in case older rows are not
+  SELECT e.media_id, s.dot / NULLIF(sqrt(s.norm_a * s.norm_b), 0) AS similarity
+  FROM public.image_embeddings e
+  CROSS JOIN LATERAL (
+    SELECT sum(pair.a * pair.b) AS dot, sum(pair.a * pair.a) AS norm_a, sum(pair.b * pair.b) AS norm_b
+    FROM unnest(p_embedding, e.embedding) AS pair(a, b)
+  ) s
+  WHERE e.model_version = p_model_version
+    AND cardinality(e.embedding) = cardinality(p_embedding)
+    AND (p_exclude_media_id IS NULL OR e.media_id <> p_exclude_media_id)
+  ORDER BY 2 DESC NULLS LAST
+  LIMIT p_match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_image_embeddings(DOUBLE PRECISION[], TEXT, INTEGER, UUID) TO authenticated, anon;
@@ -0,0 +1,27 @@
+-- Only the uploader of an image and AI reviewers may store its embedding;
+-- any signed-in user could previously overwrite it and skew similarity search
+DROP POLICY IF EXISTS "Authenticated users can create image embeddings" ON public.image_embeddings;
+DROP POLICY IF EXISTS "Authenticated users can refresh image embeddings" ON public.image_embeddings;
+
+CREATE POLICY "Uploaders and AI reviewers can create image embeddings" ON public.image_embeddings FOR INSERT WITH CHECK (
+  created_by = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.site_media m
+    WHERE m.id = media_id AND m.site_id = image_embeddings.site_id
+      AND (m.uploaded_by = auth.uid() OR public.has_permission('ai.review'))
+  )
+);
+
+CREATE POLICY "Uploaders and AI reviewers can refresh image embeddings" ON public.image_embeddings FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.site_media m
+    WHERE m.id = media_id AND (m.uploaded_by = auth.uid() OR public.has_permission('ai.review'))
+  )
+) WITH CHECK (
+  created_by = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.site_media m
+    WHERE m.id = media_id AND m.site_id = image_embeddings.site_id
+      AND (m.uploaded_by = auth.uid() OR public.has_permission('ai.review'))
+  )
+);